@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT     = 200
+
+// GET /api/audit?entityType=directors&entityId=12&courseId=3&from=2026-01-01&to=2026-01-31&limit=50&offset=0
+// Returns audit_log rows newest first, filtered by any combination of the params.
+// `from` / `to` are inclusive calendar dates (YYYY-MM-DD) or full ISO timestamps.
+export async function GET(req: NextRequest) {
+  const sp         = req.nextUrl.searchParams
+  const entityType = sp.get('entityType')
+  const entityId   = parseInt(sp.get('entityId') ?? '', 10)
+  const courseId   = parseInt(sp.get('courseId') ?? '', 10)
+  const lectureId  = parseInt(sp.get('lectureId') ?? '', 10)
+  const action     = sp.get('action')
+  const from       = sp.get('from')
+  const to         = sp.get('to')
+  const limit      = Math.min(parseInt(sp.get('limit') ?? '', 10) || DEFAULT_LIMIT, MAX_LIMIT)
+  const offset     = Math.max(parseInt(sp.get('offset') ?? '', 10) || 0, 0)
+
+  let query = supabase
+    .from('audit_log')
+    .select('id, created_at, route, method, action, entity_type, entity_id, course_id, lecture_id, before, after, actor', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (entityType)       query = query.eq('entity_type', entityType)
+  if (!isNaN(entityId)) query = query.eq('entity_id', entityId)
+  if (!isNaN(courseId)) query = query.eq('course_id', courseId)
+  if (!isNaN(lectureId)) query = query.eq('lecture_id', lectureId)
+  if (action)           query = query.like('action', `${action}%`)
+  if (from)             query = query.gte('created_at', from)
+  if (to) {
+    // A bare date means "through the end of that day"
+    const end = /^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to
+    query = query.lte('created_at', end)
+  }
+
+  const { data, count, error } = await query
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ entries: data ?? [], total: count ?? 0 })
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { recordAudit } from '@/lib/audit'
+import { fetchLectureLocation } from '@/lib/transcripts'
+import { lectureMediaUrl, readChapters, saveChapters } from '@/lib/chapters'
+import { VttCue, validateCues } from '@/lib/vtt'
+
+type Params = { params: Promise<{ lectureId: string }> }
+
+// GET /api/chapters/[lectureId]
+// Returns { exists, cues, warnings, mediaUrl } — cues parsed from the lecture's
+// chapters.vtt (empty when there is none yet) and a presigned URL of the
+// source media so the editor can seek to chapter timestamps.
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { lectureId } = await params
+  const loc = await fetchLectureLocation(Number(lectureId))
+  if (!loc) return NextResponse.json({ error: 'Lecture not found or course has no r2_dir' }, { status: 404 })
+
+  try {
+    const [chapters, mediaUrl] = await Promise.all([
+      readChapters(loc.r2Prefix),
+      lectureMediaUrl(loc.r2Prefix).catch(err => {
+        console.warn('[GET chapters] media url', err)
+        return null
+      }),
+    ])
+    return NextResponse.json({
+      exists:   !!chapters,
+      cues:     chapters?.cues ?? [],
+      warnings: chapters?.warnings ?? [],
+      mediaUrl,
+    })
+  } catch (err) {
+    console.error('[GET chapters]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
+
+// PUT /api/chapters/[lectureId]
+// Body: { cues: { start, end, title }[] }   (times in seconds)
+// Validates ordering/overlaps and writes chapters.vtt; the previous file is
+// kept under versions/. Returns 400 { error, issues } if the cues are invalid.
+export async function PUT(req: NextRequest, { params }: Params) {
+  const { lectureId } = await params
+  const { cues }      = await req.json() as { cues?: VttCue[] }
+  if (!Array.isArray(cues)) return NextResponse.json({ error: 'cues required' }, { status: 400 })
+
+  const clean: VttCue[] = cues.map(c => ({ start: Number(c.start), end: Number(c.end), title: String(c.title ?? '').trim() }))
+  const issues = validateCues(clean)
+  if (issues.length) {
+    return NextResponse.json({ error: 'Invalid chapters', issues }, { status: 400 })
+  }
+
+  const loc = await fetchLectureLocation(Number(lectureId))
+  if (!loc) return NextResponse.json({ error: 'Lecture not found or course has no r2_dir' }, { status: 404 })
+
+  try {
+    const before = await readChapters(loc.r2Prefix).catch(() => null)
+    const backup = await saveChapters(loc.r2Prefix, clean)
+    await recordAudit(req, {
+      action:     'chapters.update',
+      entityType: 'lectures',
+      entityId:   loc.lectureId,
+      lectureId:  loc.lectureId,
+      courseId:   loc.courseId,
+      before:     before ? { cues: before.cues, version: backup } : null,
+      after:      { cues: clean },
+    })
+    return NextResponse.json({ ok: true, backup })
+  } catch (err) {
+    console.error('[PUT chapters]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
-import { listR2Prefixes } from '@/lib/r2'
+import { listR2LectureNumbers } from '@/lib/upload-jobs'
 
 // GET /api/course-lectures?courseId=X
 // Returns the lecture numbers for a course, merging R2 sub-dirs and DB rows.
@@ -27,12 +27,7 @@ export async function GET(req: NextRequest) {
   let r2Nums = new Set<number>()
   if (r2Dir) {
     try {
-      const subPrefixes = await listR2Prefixes(`${r2Dir}/`)
-      r2Nums = new Set(
-        subPrefixes
-          .map(p => parseInt(p.replace(`${r2Dir}/`, '').replace(/\/$/, ''), 10))
-          .filter(n => !isNaN(n) && n > 0),
-      )
+      r2Nums = new Set(await listR2LectureNumbers(r2Dir))
     } catch {
       // R2 unavailable or folder doesn't exist — fall back to DB only
     }
@@ -56,12 +51,15 @@ export async function GET(req: NextRequest) {
   // Get existing upload_jobs for this course
   const { data: jobs } = await supabase
     .from('upload_jobs')
-    .select('id, lecture_number, status, output')
+    .select('id, lecture_number, status, output, priority, worker_id')
     .eq('course_id', courseId)
 
-  interface JobRow { id: number; lecture_number: number; status: string; output: string | null }
-  const jobMap = new Map<number, { id: number; status: string; output: string | null }>(
-    ((jobs ?? []) as JobRow[]).map(j => [j.lecture_number, { id: j.id, status: j.status, output: j.output }]),
+  interface JobRow {
+    id: number; lecture_number: number; status: string; output: string | null
+    priority: number | null; worker_id: string | null
+  }
+  const jobMap = new Map<number, JobRow>(
+    ((jobs ?? []) as JobRow[]).map(j => [j.lecture_number, j]),
   )
 
   const lectures = allNums.map(n => {
@@ -79,8 +77,10 @@ export async function GET(req: NextRequest) {
     return {
       lectureNumber: n,
       status,
-      jobId:  job ? job.id : null,
-      output: job?.output ?? null,
+      jobId:    job ? job.id : null,
+      output:   job?.output ?? null,
+      priority: job?.priority ?? 0,
+      workerId: job?.status === 'running' ? job.worker_id : null,
     }
   })
 
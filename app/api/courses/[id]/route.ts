@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
+import { recordAudit, snapshotRow } from '@/lib/audit'
 
 // PATCH /api/courses/:id
 // Body: { title?: string, subjectIds?: number[], description?: string, course_r2_url?: string, r2_dir?: string }
@@ -32,6 +33,13 @@ export async function PATCH(
     return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
   }
 
+  const before = await snapshotRow('courses', id, 'title, description, course_r2_url, r2_dir')
+  const { data: subjectRows } = await supabase
+    .from('course_subjects')
+    .select('subject_id')
+    .eq('course_id', id)
+  const subjectIdsBefore = ((subjectRows ?? []) as { subject_id: number }[]).map(r => r.subject_id)
+
   // Apply scalar updates
   if (Object.keys(updates).length > 0) {
     const { error } = await supabase.from('courses').update(updates).eq('id', id)
@@ -59,5 +67,14 @@ export async function PATCH(
     }
   }
 
+  await recordAudit(req, {
+    action:     'course.update',
+    entityType: 'courses',
+    entityId:   id,
+    courseId:   id,
+    before:     { ...before, subject_ids: subjectIdsBefore },
+    after:      { ...updates, ...(hasSubjectIds ? { subject_ids: body.subjectIds } : {}) },
+  })
+
   return NextResponse.json({ ok: true })
 }
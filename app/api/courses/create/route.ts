@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { listR2Prefixes } from '@/lib/r2'
+import { recordAudit } from '@/lib/audit'
 
 // POST /api/courses/create
 // JSON body fields:
@@ -78,6 +79,15 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    await recordAudit(req, {
+      action:     'course.create',
+      entityType: 'courses',
+      entityId:   courseId,
+      courseId,
+      before:     null,
+      after:      { title, r2_dir: r2Dir, subject_ids: subjectIds },
+    })
+
     return NextResponse.json({ courseId, r2Dir, lectureCount: lectureNums.length })
   } catch (e) {
     return NextResponse.json(
@@ -2,6 +2,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
+import { recordAudit } from '@/lib/audit'
 
 // GET /api/courses/meta?courseId=X  or  ?allPlaces=true
 export async function GET(req: NextRequest) {
@@ -41,6 +42,11 @@ export async function PATCH(req: NextRequest) {
   const { courseId, places, years } = body
   if (!courseId) return NextResponse.json({ error: 'courseId required' }, { status: 400 })
 
+  const [placesBefore, yearsBefore] = await Promise.all([
+    supabase.from('course_places').select('place').eq('course_id', courseId).order('id'),
+    supabase.from('course_years').select('year').eq('course_id', courseId).order('year'),
+  ])
+
   if (places !== undefined) {
     await supabase.from('course_places').delete().eq('course_id', courseId)
     if (places.length > 0) {
@@ -55,5 +61,20 @@ export async function PATCH(req: NextRequest) {
     }
   }
 
+  await recordAudit(req, {
+    action:     'course.meta',
+    entityType: 'courses',
+    entityId:   courseId,
+    courseId,
+    before:     {
+      ...(places !== undefined ? { places: ((placesBefore.data ?? []) as { place: string }[]).map(r => r.place) } : {}),
+      ...(years  !== undefined ? { years:  ((yearsBefore.data  ?? []) as { year: number }[]).map(r => r.year) } : {}),
+    },
+    after:      {
+      ...(places !== undefined ? { places } : {}),
+      ...(years  !== undefined ? { years } : {}),
+    },
+  })
+
   return NextResponse.json({ ok: true })
 }
\ No newline at end of file
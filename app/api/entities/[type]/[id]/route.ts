@@ -2,18 +2,22 @@ import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { ENTITY_TYPES, JUNCTION_MAP, EntityType, R2_IMAGES_PREFIX } from '@/lib/constants'
 import { deleteFromR2, r2KeyExists, copyInR2 } from '@/lib/r2'
+import { recordAudit, snapshotRow } from '@/lib/audit'
+import { AliasSource, fetchAliases, replaceAliases } from '@/lib/aliases'
+import { parseAttributes, pickAttributes } from '@/lib/attributes'
 
 type Params = { params: Promise<{ type: string; id: string }> }
 
 // PATCH /api/entities/[type]/[id]
-// Accepts raw DB field names from the client (e.g. 'name'/'title', 'hebrew_name', 'description').
-// Also handles 'lectures' type (not in ENTITY_TYPES).
+// Accepts raw DB field names from the client (e.g. 'name'/'title', 'hebrew_name', 'description')
+// plus the type's attribute columns (ENTITY_TYPES[type].attributes) — 400 when one is invalid.
+// Lectures take their own columns (title, synopsis, date, …) instead of the registry fields.
 export async function PATCH(req: NextRequest, { params }: Params) {
   const { type, id } = await params
   const numericId    = parseInt(id, 10)
   const body         = await req.json() as Record<string, unknown>
 
-  // ── Lectures — handled separately (not in ENTITY_TYPES) ──────────────────
+  // ── Lectures — own columns, no name / description / attribute fields ─────
   if (type === 'lectures') {
     const allowed = ['title', 'synopsis', 'date', 'duration', 'order_in_course', 'transcribed']
     const update: Record<string, unknown> = {}
@@ -23,11 +27,21 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     if (!Object.keys(update).length) {
       return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
     }
+    const before = await snapshotRow('lectures', numericId)
     const { error } = await supabase.from('lectures').update(update).eq('id', numericId)
     if (error) {
       console.error('[PATCH lecture]', error)
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
+    await recordAudit(req, {
+      action:     'lecture.update',
+      entityType: 'lectures',
+      entityId:   numericId,
+      lectureId:  numericId,
+      courseId:   (before?.course_id as number | undefined) ?? null,
+      before:     before && Object.fromEntries(Object.keys(update).map(k => [k, before[k] ?? null])),
+      after:      update,
+    })
     return NextResponse.json({ ok: true })
   }
 
@@ -38,7 +52,7 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     return NextResponse.json({ error: 'Unknown entity type' }, { status: 400 })
   }
 
-  const { nameField } = ENTITY_TYPES[entityType]
+  const { nameField, hasHebrewName } = ENTITY_TYPES[entityType]
   const update: Record<string, unknown> = {}
 
   // Client sends raw DB field key: 'name' for directors/writers/etc, 'title' for films/books/paintings
@@ -46,25 +60,68 @@ export async function PATCH(req: NextRequest, { params }: Params) {
   if (body.hebrew_name !== undefined) update['hebrew_name'] = body.hebrew_name
   if (body.description !== undefined) update['description'] = body.description
 
-  if (!Object.keys(update).length) {
+  const attributes = await parseAttributes(entityType, body)
+  if ('error' in attributes) {
+    return NextResponse.json({ error: attributes.error }, { status: 400 })
+  }
+  Object.assign(update, attributes.values)
+
+  // aliases: full replacement list of alternate names (entity_aliases, lecture-linked types only)
+  const aliases = Array.isArray(body.aliases) && JUNCTION_MAP[entityType]
+    ? (body.aliases as unknown[]).filter((a): a is string => typeof a === 'string')
+    : null
+
+  if (!Object.keys(update).length && !aliases) {
     return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
   }
 
-  const { error } = await supabase
-    .from(entityType)
-    .update(update)
-    .eq('id', numericId)
+  const before = (Object.keys(update).length
+    ? await snapshotRow(entityType, numericId, Object.keys(update).join(', '))
+    : null) ?? {}
 
-  if (error) {
-    console.error('[PATCH entity]', error)
-    return NextResponse.json({ error: error.message }, { status: 500 })
+  if (Object.keys(update).length) {
+    const { error } = await supabase
+      .from(entityType)
+      .update(update)
+      .eq('id', numericId)
+
+    if (error) {
+      console.error('[PATCH entity]', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
   }
 
+  let after: Record<string, unknown> = update
+  if (aliases) {
+    try {
+      const names = await snapshotRow(entityType, numericId, `${nameField}${hasHebrewName ? ', hebrew_name' : ''}`)
+      const previous = (await fetchAliases(entityType, [numericId])).get(numericId) ?? []
+      const saved    = await replaceAliases(entityType, numericId, aliases, [names?.[nameField] as string, names?.hebrew_name as string | null])
+      before.aliases = previous
+      after = { ...update, aliases: saved }
+    } catch (e) {
+      console.error('[PATCH entity aliases]', e)
+      return NextResponse.json({ error: e instanceof Error ? e.message : String(e) }, { status: 500 })
+    }
+  }
+
+  await recordAudit(req, {
+    action:     'entity.update',
+    entityType,
+    entityId:   numericId,
+    courseId:   entityType === 'courses' ? numericId : null,
+    before,
+    after,
+  })
+
   return NextResponse.json({ ok: true })
 }
 
 // DELETE /api/entities/[type]/[id]  — back up to deleted_entities, then remove
-export async function DELETE(_req: NextRequest, { params }: Params) {
+// The backup keeps the entity's aliases (deleted_entities.aliases jsonb —
+// { alias, source }[]) and the entity_links rows touching it
+// (deleted_entities.links jsonb) so a restore can re-add them under its new id.
+export async function DELETE(req: NextRequest, { params }: Params) {
   const { type, id } = await params
   const entityType   = type as EntityType
   const numericId    = parseInt(id, 10)
@@ -97,6 +154,23 @@ export async function DELETE(_req: NextRequest, { params }: Params) {
     junctionRows = ((data ?? []) as unknown as Record<string, unknown>[])
   }
 
+  const { data: aliasRows } = await supabase
+    .from('entity_aliases')
+    .select('alias, source')
+    .eq('entity_type', entityType)
+    .eq('entity_id', numericId)
+    .order('id')
+  const aliases = (aliasRows ?? []) as { alias: string; source: AliasSource }[]
+
+  const { data: linkRows } = await supabase
+    .from('entity_links')
+    .select('*')
+    .or(
+      `and(from_type.eq.${entityType},from_id.eq.${numericId}),` +
+      `and(to_type.eq.${entityType},to_id.eq.${numericId})`,
+    )
+  const links = (linkRows ?? []) as Record<string, unknown>[]
+
   const r2Key    = `${R2_IMAGES_PREFIX}/${entityType}/${numericId}.jpeg`
   const hasImage = await r2KeyExists(r2Key).catch(() => false)
 
@@ -108,7 +182,10 @@ export async function DELETE(_req: NextRequest, { params }: Params) {
       name:          entity[nameField] as string,
       hebrew_name:   entity.hebrew_name ?? null,
       description:   entity.description ?? null,
+      attributes:    pickAttributes(entityType, entity),
       junction_data: junctionRows,
+      aliases,
+      links,
       has_image:     hasImage,
     })
 
@@ -138,6 +215,24 @@ export async function DELETE(_req: NextRequest, { params }: Params) {
     }
   }
 
+  // Entity-to-entity links touching this entity (kept in the backup)
+  await supabase
+    .from('entity_links')
+    .delete()
+    .or(
+      `and(from_type.eq.${entityType},from_id.eq.${numericId}),` +
+      `and(to_type.eq.${entityType},to_id.eq.${numericId})`,
+    )
+    .then(({ error }) => { if (error) console.warn('[DELETE entity links]', error) })
+
+  // Aliases live on in the backup
+  await supabase
+    .from('entity_aliases')
+    .delete()
+    .eq('entity_type', entityType)
+    .eq('entity_id', numericId)
+    .then(({ error }) => { if (error) console.warn('[DELETE entity aliases]', error) })
+
   const { error: delErr } = await supabase
     .from(entityType)
     .delete()
@@ -148,5 +243,13 @@ export async function DELETE(_req: NextRequest, { params }: Params) {
     return NextResponse.json({ error: delErr.message }, { status: 500 })
   }
 
+  await recordAudit(req, {
+    action:     'entity.delete',
+    entityType,
+    entityId:   numericId,
+    before:     { ...entity, junction_data: junctionRows, aliases: aliases.map(a => a.alias), links, has_image: hasImage },
+    after:      null,
+  })
+
   return NextResponse.json({ ok: true })
 }
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { ENTITY_TYPES, EntityType } from '@/lib/constants'
+import { recordAudit, snapshotRow } from '@/lib/audit'
+import { attributesOf, restorableAttributes } from '@/lib/attributes'
+import { createWikidataClient, fetchWikidataCandidate, findWikidataCandidates } from '@/lib/wikidata'
+
+type Params = { params: Promise<{ type: string; id: string }> }
+
+const QID = /^Q[1-9]\d*$/
+
+/** Types with a wikidata_id attribute — the only ones that can be linked */
+const linkable = (type: string): type is EntityType =>
+  type in ENTITY_TYPES && attributesOf(type as EntityType).some(a => a.key === 'wikidata_id')
+
+// GET /api/entities/[type]/[id]/wikidata
+// Returns: { candidates: WikidataCandidate[], current: string | null }
+// Candidates are searched by the entity's name and Hebrew name.
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { type, id } = await params
+  if (!linkable(type)) {
+    return NextResponse.json({ error: 'Entity type has no Wikidata link' }, { status: 400 })
+  }
+
+  const { nameField, hasHebrewName } = ENTITY_TYPES[type]
+  const entity = await snapshotRow(type, parseInt(id, 10), `${nameField}${hasHebrewName ? ', hebrew_name' : ''}, wikidata_id`)
+  if (!entity) return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+
+  try {
+    const candidates = await findWikidataCandidates(
+      createWikidataClient(),
+      type,
+      (entity[nameField] as string) ?? '',
+      (entity.hebrew_name as string | null | undefined) ?? null,
+    )
+    return NextResponse.json({ candidates, current: (entity.wikidata_id as string | null) ?? null })
+  } catch (err) {
+    console.error('[wikidata search]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 502 })
+  }
+}
+
+// POST /api/entities/[type]/[id]/wikidata
+// Body: { qid: string, overwrite?: boolean }
+// Links the entity to a Wikidata item and backfills hebrew_name, attributes and
+// image_source from it. Only empty fields are filled unless overwrite is set;
+// wikidata_id is always replaced. A referenced entity (a film's director) is
+// linked when an entity of that type already has the referenced QID.
+// Returns: { ok, updated: Record<string, unknown> }
+export async function POST(req: NextRequest, { params }: Params) {
+  const { type, id } = await params
+  const numericId    = parseInt(id, 10)
+  const { qid, overwrite = false } = await req.json() as { qid?: string; overwrite?: boolean }
+
+  if (!linkable(type)) {
+    return NextResponse.json({ error: 'Entity type has no Wikidata link' }, { status: 400 })
+  }
+  if (!qid || !QID.test(qid)) {
+    return NextResponse.json({ error: 'qid must look like Q12345' }, { status: 400 })
+  }
+
+  const before = await snapshotRow(type, numericId)
+  if (!before) return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+
+  let candidate
+  try {
+    candidate = await fetchWikidataCandidate(createWikidataClient(), type, qid)
+  } catch (err) {
+    console.error('[wikidata fetch]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 502 })
+  }
+  if (!candidate) return NextResponse.json({ error: `No Wikidata item ${qid}` }, { status: 404 })
+
+  const isEmpty = (key: string) => before[key] == null || before[key] === ''
+  const fill    = (key: string) => overwrite || isEmpty(key)
+
+  const values: Record<string, unknown> = {}
+  for (const def of attributesOf(type)) {
+    const value = candidate.attributes[def.key]
+    if (value === undefined || (def.key !== 'wikidata_id' && !fill(def.key))) continue
+    if (def.kind === 'entity') {
+      // QID → existing entity of refType with that wikidata_id
+      const { data } = await supabase
+        .from(def.refType!)
+        .select('id')
+        .eq('wikidata_id', value)
+        .limit(1)
+      const refId = (data?.[0] as { id: number } | undefined)?.id
+      if (refId != null) values[def.key] = refId
+    } else {
+      values[def.key] = value
+    }
+  }
+
+  // Drops values that don't validate (an odd IMDb id format, a year out of range)
+  const update: Record<string, unknown> = await restorableAttributes(type, values)
+  if (ENTITY_TYPES[type].hasHebrewName && candidate.hebrewLabel && fill('hebrew_name')) {
+    update.hebrew_name = candidate.hebrewLabel
+  }
+
+  const { error } = await supabase.from(type).update(update).eq('id', numericId)
+  if (error) {
+    console.error('[wikidata apply]', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await recordAudit(req, {
+    action:     'entity.wikidata',
+    entityType: type,
+    entityId:   numericId,
+    before:     Object.fromEntries(Object.keys(update).map(k => [k, before[k] ?? null])),
+    after:      update,
+  })
+
+  return NextResponse.json({ ok: true, updated: update })
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { listR2Keys } from '@/lib/r2'
-import { ENTITY_TYPES, EntityType, R2_IMAGES_PREFIX } from '@/lib/constants'
+import { ENTITY_TYPES, JUNCTION_MAP, EntityType, R2_IMAGES_PREFIX } from '@/lib/constants'
+import { fetchAliases, searchAliasIds } from '@/lib/aliases'
+import { attributeColumns } from '@/lib/attributes'
 
 export async function GET(
   req: NextRequest,
@@ -17,7 +19,7 @@ export async function GET(
   const showAll  = req.nextUrl.searchParams.get('all') === 'true'
   const search   = req.nextUrl.searchParams.get('search')?.trim() || null
   const courseId = req.nextUrl.searchParams.get('courseId')
-  const { nameField } = ENTITY_TYPES[entityType]
+  const { nameField, hasHebrewName, hasDescription } = ENTITY_TYPES[entityType]
 
   try {
     // ── Lectures: special fields, courseId filter, no images ──────────────
@@ -48,7 +50,7 @@ export async function GET(
     // 1. Fetch all entities from Supabase
     const extraFields = entityType === 'courses'
       ? ', description, course_r2_url, r2_dir'
-      : ', hebrew_name, description'
+      : `${hasHebrewName ? ', hebrew_name' : ''}${hasDescription ? ', description' : ''}${attributeColumns(entityType)}`
     let query = supabase
       .from(entityType)
       .select(`id, ${nameField}${extraFields}`)
@@ -58,10 +60,28 @@ export async function GET(
       query = query.ilike(nameField, `%${search}%`)
     }
 
-    const { data: rows, error } = await query
+    const { data: nameRows, error } = await query
 
     if (error) throw error
 
+    // 1a. Search also matches aliases — add those entities, keeping name order
+    let rows = nameRows
+    const hasAliases = !!JUNCTION_MAP[entityType]
+    if (search && hasAliases) {
+      const found    = new Set((nameRows as unknown as { id: number }[]).map(r => r.id))
+      const extraIds = (await searchAliasIds(entityType, search)).filter(id => !found.has(id))
+      if (extraIds.length) {
+        const { data: aliasRows, error: aliasErr } = await supabase
+          .from(entityType)
+          .select(`id, ${nameField}${extraFields}`)
+          .in('id', extraIds)
+        if (aliasErr) throw aliasErr
+        const nameOf = (r: unknown) => String((r as Record<string, unknown>)[nameField] ?? '')
+        rows = [...nameRows, ...(aliasRows ?? [])].sort((a, b) => nameOf(a).localeCompare(nameOf(b)))
+      }
+    }
+    const aliases = hasAliases ? await fetchAliases(entityType) : new Map<number, string[]>()
+
     // 1b. For courses: attach subject_ids from junction table
     if (entityType === 'courses' && rows && rows.length > 0) {
       const courseIds = (rows as unknown as { id: number }[]).map(r => r.id)
@@ -99,6 +119,8 @@ export async function GET(
       hasImage:    existingIds.has(row.id as number),
       hebrewName:  (row.hebrew_name as string | null) ?? null,
       description: (row.description as string | null) ?? null,
+      imageSource: (row.image_source as string | null | undefined) ?? null,
+      ...(hasAliases ? { aliases: aliases.get(row.id as number) ?? [] } : {}),
     }))
 
     const entities = showAll
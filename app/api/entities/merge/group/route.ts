@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ENTITY_TYPES, EntityType } from '@/lib/constants'
+import { recordAudit, snapshotRow } from '@/lib/audit'
+import { MergeRef, mergeEntities } from '@/lib/merge'
+
+/** Fields whose surviving value can be picked from any entity in the group */
+type FieldChoice = 'name' | 'hebrew_name' | 'description' | 'image'
+
+const MAX_LOSERS = 20
+
+const refKey = (ref: MergeRef) => `${ref.type}:${ref.id}`
+
+const isRef = (v: unknown): v is MergeRef =>
+  typeof v === 'object' && v != null
+  && typeof (v as MergeRef).type === 'string' && (v as MergeRef).type in ENTITY_TYPES
+  && Number.isInteger((v as MergeRef).id)
+
+/** Column holding a field on an entity of `type` (null when the type doesn't have it) */
+function columnOf(type: EntityType, field: Exclude<FieldChoice, 'image'>): string | null {
+  const config = ENTITY_TYPES[type]
+  if (field === 'name')        return config.nameField
+  if (field === 'hebrew_name') return config.hasHebrewName ? 'hebrew_name' : null
+  return config.hasDescription ? 'description' : null
+}
+
+// GET /api/entities/merge/group?entities=directors:12,films:40
+// The values a group merge can choose between, per entity.
+// Returns: { entities: { type, id, name, hebrew_name, description }[] } (missing entities left out)
+export async function GET(req: NextRequest) {
+  const refs = (req.nextUrl.searchParams.get('entities') ?? '')
+    .split(',')
+    .map(token => {
+      const [type, id] = token.split(':')
+      return { type: type as EntityType, id: parseInt(id, 10) }
+    })
+  if (refs.length === 0 || refs.length > MAX_LOSERS + 1 || !refs.every(isRef)) {
+    return NextResponse.json({ error: 'entities must be a list of type:id' }, { status: 400 })
+  }
+
+  const rows = await Promise.all(refs.map(async ref => {
+    const columns = (['name', 'hebrew_name', 'description'] as const)
+      .map(field => [field, columnOf(ref.type, field)] as const)
+      .filter((c): c is readonly [typeof c[0], string] => c[1] != null)
+    const row = await snapshotRow(ref.type, ref.id, columns.map(c => c[1]).join(', '))
+    if (!row) return null
+    const values = Object.fromEntries(columns.map(([field, column]) => [field, row[column] ?? null]))
+    return { type: ref.type, id: ref.id, name: null, hebrew_name: null, description: null, ...values }
+  }))
+
+  return NextResponse.json({ entities: rows.filter(Boolean) })
+}
+
+// POST /api/entities/merge/group
+// Body: {
+//   keep:    { type, id },
+//   losers:  { type, id }[],
+//   fields?: { name?, hebrew_name?, description?, image?: { type, id } }
+// }
+// Merges every loser into keep in one transaction (merge_entities, see
+// lib/merge), so the group is either merged or not. Each field names the group
+// member whose value survives (keep's own value when left out); the survivor's
+// replaced names become aliases. Undoing any of the journal rows undoes the
+// whole group, keep's fields included.
+// Returns: { ok, journalIds: number[] }
+export async function POST(req: NextRequest) {
+  const body = await req.json() as {
+    keep?:   unknown
+    losers?: unknown
+    fields?: Partial<Record<FieldChoice, unknown>>
+  }
+
+  // ------------------------------------------------------------------
+  // 1. Validate the group and the field choices
+  // ------------------------------------------------------------------
+  const { keep, losers, fields = {} } = body
+  if (!isRef(keep) || !Array.isArray(losers) || losers.length === 0 || !losers.every(isRef)) {
+    return NextResponse.json({ error: 'keep and at least one loser ({ type, id }) required' }, { status: 400 })
+  }
+  if (losers.length > MAX_LOSERS) {
+    return NextResponse.json({ error: `At most ${MAX_LOSERS} entities can be merged at once` }, { status: 400 })
+  }
+  const members = [keep, ...losers]
+  if (new Set(members.map(refKey)).size !== members.length) {
+    return NextResponse.json({ error: 'An entity appears more than once in the group' }, { status: 400 })
+  }
+
+  const choices: Partial<Record<FieldChoice, MergeRef>> = {}
+  for (const field of ['name', 'hebrew_name', 'description', 'image'] as FieldChoice[]) {
+    const choice = fields[field]
+    if (choice == null) continue
+    if (!isRef(choice) || !members.some(m => refKey(m) === refKey(choice))) {
+      return NextResponse.json({ error: `fields.${field} must be an entity of the group` }, { status: 400 })
+    }
+    choices[field] = choice
+  }
+
+  const snapshots = await Promise.all(members.map(m => snapshotRow(m.type, m.id)))
+  const missing   = members.find((_, i) => !snapshots[i])
+  if (missing) {
+    return NextResponse.json({ error: `Entity not found: ${refKey(missing)}` }, { status: 404 })
+  }
+  const rowOf      = new Map(members.map((m, i) => [refKey(m), snapshots[i]!]))
+  const keepBefore = snapshots[0]!
+
+  // ------------------------------------------------------------------
+  // 2. Keep's chosen names and description
+  // ------------------------------------------------------------------
+  const update: Record<string, unknown> = {}
+  for (const field of ['name', 'hebrew_name', 'description'] as const) {
+    const source = choices[field]
+    const column = columnOf(keep.type, field)
+    if (!source || refKey(source) === refKey(keep) || !column) continue
+    const sourceColumn = columnOf(source.type, field)
+    const value        = sourceColumn ? rowOf.get(refKey(source))![sourceColumn] ?? null : null
+    // A survivor always needs a name
+    if (field === 'name' && !value) continue
+    if (value !== keepBefore[column]) update[column] = value
+  }
+
+  // ------------------------------------------------------------------
+  // 3. Merge — the chosen image replaces keep's, the others are only
+  //    backed up
+  // ------------------------------------------------------------------
+  let journals
+  try {
+    journals = await mergeEntities(keep, losers, { keepUpdate: update, imageFrom: choices.image })
+  } catch (e) {
+    console.error('[group merge]', e)
+    return NextResponse.json({ error: e instanceof Error ? e.message : String(e) }, { status: 500 })
+  }
+  if (!journals) {
+    return NextResponse.json({ error: 'An entity of the group no longer exists' }, { status: 404 })
+  }
+
+  await recordAudit(req, {
+    action:     'entity.group_merge',
+    entityType: keep.type,
+    entityId:   keep.id,
+    before:     { keep: { type: keep.type, ...keepBefore }, losers: losers.map(l => ({ type: l.type, ...rowOf.get(refKey(l)) })) },
+    after:      {
+      keep:         { type: keep.type, ...keepBefore, ...update },
+      losers:       null,
+      imageFrom:    choices.image ?? null,
+      aliasesAdded: journals.reduce((n, j) => n + (j.alias_ids?.length ?? 0) + (j.keep_alias_ids?.length ?? 0), 0),
+      journalIds:   journals.map(j => j.id),
+    },
+  })
+
+  return NextResponse.json({ ok: true, journalIds: journals.map(j => j.id) })
+}
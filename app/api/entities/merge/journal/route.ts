@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { ENTITY_TYPES, EntityType } from '@/lib/constants'
+
+// GET /api/entities/merge/journal?limit=20 — most recent merges, newest first
+export async function GET(req: NextRequest) {
+  const limit = Math.min(parseInt(req.nextUrl.searchParams.get('limit') ?? '', 10) || 20, 100)
+
+  const { data, error } = await supabase
+    .from('merge_journal')
+    .select('id, group_id, created_at, keep_type, keep_id, delete_type, delete_id, deleted_entity, moved_rows, dropped_rows, image, undone_at')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const rows = (data ?? []) as {
+    id:             number
+    group_id:       number | null
+    created_at:     string
+    keep_type:      EntityType
+    keep_id:        number
+    delete_type:    EntityType
+    delete_id:      number
+    deleted_entity: Record<string, unknown>
+    moved_rows:     unknown[]
+    dropped_rows:   unknown[]
+    image:          { backupKey: string | null; copiedTo: string | null } | null
+    undone_at:      string | null
+  }[]
+
+  // Current display names of the kept entities, one query per type
+  const keepNames = new Map<string, string>()
+  const idsByType = new Map<EntityType, number[]>()
+  for (const r of rows) {
+    if (!ENTITY_TYPES[r.keep_type]) continue
+    idsByType.set(r.keep_type, [...(idsByType.get(r.keep_type) ?? []), r.keep_id])
+  }
+  await Promise.all(
+    [...idsByType].map(async ([type, ids]) => {
+      const { nameField } = ENTITY_TYPES[type]
+      const { data: entityRows } = await supabase.from(type).select(`id, ${nameField}`).in('id', ids)
+      for (const e of (entityRows ?? []) as unknown as Record<string, unknown>[]) {
+        keepNames.set(`${type}:${e.id}`, e[nameField] as string)
+      }
+    }),
+  )
+
+  return NextResponse.json({
+    merges: rows.map(r => ({
+      id:          r.id,
+      groupId:     r.group_id ?? r.id,
+      createdAt:   r.created_at,
+      keepType:    r.keep_type,
+      keepId:      r.keep_id,
+      keepName:    keepNames.get(`${r.keep_type}:${r.keep_id}`) ?? null,
+      deleteType:  r.delete_type,
+      deleteId:    r.delete_id,
+      deleteName:  (r.deleted_entity?.[ENTITY_TYPES[r.delete_type]?.nameField ?? 'name'] as string | undefined) ?? null,
+      linkCount:   (r.moved_rows?.length ?? 0) + (r.dropped_rows?.length ?? 0),
+      hadImage:    r.image != null,
+      undoneAt:    r.undone_at,
+    })),
+  })
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { ENTITY_TYPES } from '@/lib/constants'
+import { recordAudit } from '@/lib/audit'
+import { MergeJournal, undoMerge } from '@/lib/merge'
+
+// POST /api/entities/merge/undo — reverse a merge recorded in merge_journal.
+// A group merge is undone as a whole, whichever of its rows is given.
+// Body: { journalId: number }
+// Returns: { ok, restored: { type, id }[] }
+export async function POST(req: NextRequest) {
+  const { journalId } = await req.json() as { journalId?: number }
+  if (!journalId) {
+    return NextResponse.json({ error: 'journalId required' }, { status: 400 })
+  }
+
+  // ------------------------------------------------------------------
+  // 1. Fetch the journal row
+  // ------------------------------------------------------------------
+  const { data: rows, error: fetchErr } = await supabase
+    .from('merge_journal')
+    .select('*')
+    .eq('id', journalId)
+    .limit(1)
+
+  if (fetchErr || !rows?.length) {
+    return NextResponse.json({ error: fetchErr?.message ?? 'Journal entry not found' }, { status: 404 })
+  }
+
+  const journal = rows[0] as MergeJournal
+
+  if (journal.undone_at) {
+    return NextResponse.json({ error: 'This merge has already been undone' }, { status: 409 })
+  }
+  if (!ENTITY_TYPES[journal.keep_type] || !ENTITY_TYPES[journal.delete_type]) {
+    return NextResponse.json({ error: 'Unknown entity type in journal' }, { status: 400 })
+  }
+
+  // ------------------------------------------------------------------
+  // 2. Undo the merge call: re-create the entities with their original
+  //    ids and put links, attribute references, aliases, keep's fields
+  //    and images back
+  // ------------------------------------------------------------------
+  let undone: MergeJournal[]
+  try {
+    undone = await undoMerge(journal.group_id ?? journal.id)
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : String(e) }, { status: 500 })
+  }
+  if (undone.length === 0) {
+    return NextResponse.json({ error: 'Journal entry not found' }, { status: 404 })
+  }
+
+  // ------------------------------------------------------------------
+  // 3. Forget the approvals in merge_history, otherwise MergeEntities
+  //    would auto-merge them again
+  // ------------------------------------------------------------------
+  const keepToken = `${journal.keep_type}:${journal.keep_id}`
+  const { data: historyRows } = await supabase
+    .from('merge_history')
+    .select('id, group_sig')
+    .like('group_sig', `%${keepToken}%`)
+  const deleteTokens = undone.map(u => `${u.delete_type}:${u.delete_id}`)
+  const staleIds = ((historyRows ?? []) as { id: number; group_sig: string }[])
+    .filter(h => {
+      const tokens = h.group_sig.split('|')
+      return tokens.includes(keepToken) && deleteTokens.some(t => tokens.includes(t))
+    })
+    .map(h => h.id)
+  if (staleIds.length > 0) {
+    await supabase.from('merge_history').delete().in('id', staleIds)
+  }
+
+  for (const u of undone) {
+    await recordAudit(req, {
+      action:     'entity.merge_undo',
+      entityType: u.delete_type,
+      entityId:   u.delete_id,
+      before:     null,
+      after:      { ...u.deleted_entity, journalId: u.id },
+    })
+  }
+
+  return NextResponse.json({ ok: true, restored: undone.map(u => ({ type: u.delete_type, id: u.delete_id })) })
+}
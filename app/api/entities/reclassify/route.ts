@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
-import { ENTITY_TYPES, JUNCTION_MAP, EntityType, R2_IMAGES_PREFIX } from '@/lib/constants'
+import { ENTITY_TYPES, JUNCTION_MAP, EntityLinkType, EntityType, R2_IMAGES_PREFIX, canLink } from '@/lib/constants'
 import { r2KeyExists, copyInR2, deleteFromR2 } from '@/lib/r2'
+import { recordAudit } from '@/lib/audit'
+import { restorableAttributes } from '@/lib/attributes'
 
 export async function POST(req: NextRequest) {
   const { entityId, fromType, toType } = await req.json() as {
@@ -38,8 +40,10 @@ export async function POST(req: NextRequest) {
   const insertPayload: Record<string, unknown> = {
     [toNameField]: src[fromNameField],
     hebrew_name:   src.hebrew_name  ?? null,
-    description:   src.description  ?? null,
   }
+  if (ENTITY_TYPES[toType].hasDescription) insertPayload.description = src.description ?? null
+  // Attributes both types have (e.g. birth / death years between person types)
+  Object.assign(insertPayload, await restorableAttributes(toType, src))
 
   const { data: inserted, error: insertErr } = await supabase
     .from(toType)
@@ -110,7 +114,48 @@ export async function POST(req: NextRequest) {
   }
 
   // ------------------------------------------------------------------
-  // 4. Delete original entity
+  // 4. Re-point entity links and aliases at the new entity; links its type
+  //    can't have (a director's "directed" once it's a writer) are dropped
+  // ------------------------------------------------------------------
+  const { data: linkRows, error: linkErr } = await supabase
+    .from('entity_links')
+    .select('id, from_type, from_id, to_type, to_id, link_type')
+    .or(
+      `and(from_type.eq.${fromType},from_id.eq.${entityId}),` +
+      `and(to_type.eq.${fromType},to_id.eq.${entityId})`,
+    )
+  if (linkErr) console.warn('[reclassify links]', linkErr)
+
+  const links    = (linkRows ?? []) as { id: number; from_type: EntityType; from_id: number; to_type: EntityType; to_id: number; link_type: EntityLinkType }[]
+  const outgoing = links.filter(l => l.from_type === fromType && l.from_id === entityId)
+  const incoming = links.filter(l => l.to_type === fromType && l.to_id === entityId)
+  const invalid  = new Set([
+    ...outgoing.filter(l => !canLink(l.link_type, toType, l.to_type)),
+    ...incoming.filter(l => !canLink(l.link_type, l.from_type, toType)),
+  ].map(l => l.id))
+  const keptIds  = (rows: typeof links) => rows.map(l => l.id).filter(id => !invalid.has(id))
+  const warn     = ({ error }: { error: unknown }) => { if (error) console.warn('[reclassify links]', error) }
+
+  if (invalid.size > 0) {
+    await supabase.from('entity_links').delete().in('id', [...invalid]).then(warn)
+  }
+  if (keptIds(outgoing).length > 0) {
+    await supabase.from('entity_links').update({ from_type: toType, from_id: newId }).in('id', keptIds(outgoing)).then(warn)
+  }
+  if (keptIds(incoming).length > 0) {
+    await supabase.from('entity_links').update({ to_type: toType, to_id: newId }).in('id', keptIds(incoming)).then(warn)
+  }
+
+  // Aliases follow the entity to its new type and id
+  await supabase
+    .from('entity_aliases')
+    .update({ entity_type: toType, entity_id: newId })
+    .eq('entity_type', fromType)
+    .eq('entity_id', entityId)
+    .then(({ error }) => { if (error) console.warn('[reclassify aliases]', error) })
+
+  // ------------------------------------------------------------------
+  // 5. Delete original entity
   // ------------------------------------------------------------------
   const { error: delErr } = await supabase
     .from(fromType)
@@ -122,7 +167,7 @@ export async function POST(req: NextRequest) {
   }
 
   // ------------------------------------------------------------------
-  // 5. Move R2 image (best-effort)
+  // 6. Move R2 image (best-effort)
   // ------------------------------------------------------------------
   try {
     const srcKey  = `${R2_IMAGES_PREFIX}/${fromType}/${entityId}.jpeg`
@@ -135,5 +180,13 @@ export async function POST(req: NextRequest) {
     console.warn('[reclassify image]', e)
   }
 
+  await recordAudit(req, {
+    action:     'entity.reclassify',
+    entityType: toType,
+    entityId:   newId,
+    before:     { type: fromType, ...src },
+    after:      { type: toType, id: newId, ...insertPayload },
+  })
+
   return NextResponse.json({ ok: true, newId })
 }
@@ -2,6 +2,19 @@ import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { ENTITY_TYPES, JUNCTION_MAP, EntityType, R2_IMAGES_PREFIX } from '@/lib/constants'
 import { r2KeyExists, copyInR2, deleteFromR2 } from '@/lib/r2'
+import { recordAudit } from '@/lib/audit'
+import { restorableAttributes } from '@/lib/attributes'
+import { AliasSource, addAliases } from '@/lib/aliases'
+import { fetchEntityNames } from '@/lib/entities'
+
+interface LinkRow {
+  from_type: EntityType
+  from_id:   number
+  to_type:   EntityType
+  to_id:     number
+  link_type: string
+  source:    string
+}
 
 // POST /api/entities/restore — restore a deleted entity from backup
 export async function POST(req: NextRequest) {
@@ -27,7 +40,10 @@ export async function POST(req: NextRequest) {
     name:          string
     hebrew_name:   string | null
     description:   string | null
+    attributes:    Record<string, unknown> | null
     junction_data: Record<string, unknown>[]
+    aliases:       { alias: string; source: AliasSource }[] | null
+    links:         LinkRow[] | null
     has_image:     boolean
   }
 
@@ -40,13 +56,16 @@ export async function POST(req: NextRequest) {
 
   // ------------------------------------------------------------------
   // 2. Re-insert entity into the original table (gets a new ID)
+  //    Attribute references to entities deleted since are dropped
   // ------------------------------------------------------------------
+  const attributes = await restorableAttributes(backup.entity_type, backup.attributes)
   const { data: inserted, error: insertErr } = await supabase
     .from(backup.entity_type)
     .insert({
       [nameField]:  backup.name,
       hebrew_name:  backup.hebrew_name ?? null,
-      description:  backup.description ?? null,
+      ...(ENTITY_TYPES[backup.entity_type].hasDescription ? { description: backup.description ?? null } : {}),
+      ...attributes,
     })
     .select('id')
     .single()
@@ -88,7 +107,42 @@ export async function POST(req: NextRequest) {
   }
 
   // ------------------------------------------------------------------
-  // 4. Restore R2 image from deleted/ prefix (best-effort)
+  // 4. Re-add the aliases under the new id (best-effort)
+  // ------------------------------------------------------------------
+  for (const source of ['manual', 'merge'] as AliasSource[]) {
+    const names = (backup.aliases ?? []).filter(a => a.source === source).map(a => a.alias)
+    if (names.length === 0) continue
+    await addAliases(backup.entity_type, newId, names, source, [backup.name, backup.hebrew_name])
+      .catch(e => console.warn('[RESTORE aliases]', e))
+  }
+
+  // ------------------------------------------------------------------
+  // 5. Recreate the entity links against the new id — those whose other
+  //    end still exists (best-effort)
+  // ------------------------------------------------------------------
+  const isSelf   = (type: EntityType, id: number) => type === backup.entity_type && id === backup.original_id
+  const otherEnd = (l: LinkRow) => isSelf(l.from_type, l.from_id) ? { type: l.to_type, id: l.to_id } : { type: l.from_type, id: l.from_id }
+  const links    = backup.links ?? []
+  const existing = await fetchEntityNames(links.map(otherEnd))
+  const linkRows = links
+    .filter(l => existing.has(`${otherEnd(l).type}:${otherEnd(l).id}`))
+    .map(l => ({
+      from_type: l.from_type,
+      from_id:   isSelf(l.from_type, l.from_id) ? newId : l.from_id,
+      to_type:   l.to_type,
+      to_id:     isSelf(l.to_type, l.to_id) ? newId : l.to_id,
+      link_type: l.link_type,
+      source:    l.source,
+    }))
+  if (linkRows.length > 0) {
+    const { error: linkErr } = await supabase
+      .from('entity_links')
+      .upsert(linkRows, { onConflict: 'from_type,from_id,to_type,to_id,link_type', ignoreDuplicates: true })
+    if (linkErr) console.warn('[RESTORE links]', linkErr)
+  }
+
+  // ------------------------------------------------------------------
+  // 6. Restore R2 image from deleted/ prefix (best-effort)
   // ------------------------------------------------------------------
   if (backup.has_image) {
     try {
@@ -104,9 +158,17 @@ export async function POST(req: NextRequest) {
   }
 
   // ------------------------------------------------------------------
-  // 5. Remove the backup row
+  // 7. Remove the backup row
   // ------------------------------------------------------------------
   await supabase.from('deleted_entities').delete().eq('id', deletedId)
 
+  await recordAudit(req, {
+    action:     'entity.restore',
+    entityType: backup.entity_type,
+    entityId:   newId,
+    before:     null,
+    after:      { id: newId, restoredFrom: backup.original_id, [nameField]: backup.name, hebrew_name: backup.hebrew_name },
+  })
+
   return NextResponse.json({ ok: true, newId })
 }
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { recordAudit, snapshotRow } from '@/lib/audit'
+
+// DELETE /api/entity-links/:id
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params
+  const linkId = parseInt(id, 10)
+  if (isNaN(linkId)) {
+    return NextResponse.json({ error: 'Invalid id' }, { status: 400 })
+  }
+
+  const before = await snapshotRow('entity_links', linkId)
+  if (!before) {
+    return NextResponse.json({ error: 'Link not found' }, { status: 404 })
+  }
+
+  const { error } = await supabase.from('entity_links').delete().eq('id', linkId)
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await recordAudit(req, {
+    action:     'entity_link.delete',
+    entityType: before.from_type as string,
+    entityId:   before.from_id as number,
+    before,
+    after:      null,
+  })
+
+  return NextResponse.json({ ok: true })
+}
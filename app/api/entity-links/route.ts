@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { ENTITY_TYPES, ENTITY_LINK_TYPES, EntityLinkType, EntityType, canLink } from '@/lib/constants'
+import { fetchEntityNames } from '@/lib/entities'
+import { recordAudit } from '@/lib/audit'
+
+// Typed links between two entities, e.g. directors:12 —directed→ films:40.
+//
+// Table: entity_links
+//   id          bigint generated always as identity primary key
+//   created_at  timestamptz not null default now()
+//   from_type   text   not null
+//   from_id     bigint not null
+//   to_type     text   not null
+//   to_id       bigint not null
+//   link_type   text   not null   -- key of ENTITY_LINK_TYPES
+//   source      text   not null default 'manual'   -- 'manual' | 'suggested'
+//   unique (from_type, from_id, to_type, to_id, link_type)
+//
+// No foreign keys — deleting, merging (lib/merge) or reclassifying an entity
+// removes or re-points its links itself.
+
+interface LinkRow {
+  id:         number
+  created_at: string
+  from_type:  EntityType
+  from_id:    number
+  to_type:    EntityType
+  to_id:      number
+  link_type:  EntityLinkType
+  source:     string
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/entity-links?entityType=directors&entityId=12
+// Every link touching the entity, in either direction, with the other side's name
+// ---------------------------------------------------------------------------
+export async function GET(req: NextRequest) {
+  const entityType = req.nextUrl.searchParams.get('entityType') as EntityType | null
+  const entityId   = parseInt(req.nextUrl.searchParams.get('entityId') ?? '', 10)
+
+  if (!entityType || !ENTITY_TYPES[entityType] || isNaN(entityId)) {
+    return NextResponse.json({ error: 'entityType and entityId required' }, { status: 400 })
+  }
+
+  const { data, error } = await supabase
+    .from('entity_links')
+    .select('*')
+    .or(
+      `and(from_type.eq.${entityType},from_id.eq.${entityId}),` +
+      `and(to_type.eq.${entityType},to_id.eq.${entityId})`,
+    )
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const rows = (data ?? []) as LinkRow[]
+  const isOutgoing = (r: LinkRow) => r.from_type === entityType && r.from_id === entityId
+
+  const names = await fetchEntityNames(
+    rows.map(r => isOutgoing(r) ? { type: r.to_type, id: r.to_id } : { type: r.from_type, id: r.from_id }),
+  )
+
+  return NextResponse.json({
+    links: rows.map(r => {
+      const out       = isOutgoing(r)
+      const otherType = out ? r.to_type : r.from_type
+      const otherId   = out ? r.to_id   : r.from_id
+      const other     = names.get(`${otherType}:${otherId}`)
+      return {
+        id:         r.id,
+        linkType:   r.link_type,
+        direction:  out ? 'out' : 'in',
+        otherType,
+        otherId,
+        otherName:  other?.name ?? `#${otherId}`,
+        hebrewName: other?.hebrewName ?? null,
+        source:     r.source,
+      }
+    }),
+  })
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/entity-links
+// Body: { fromType, fromId, toType, toId, linkType, source? }
+// ---------------------------------------------------------------------------
+export async function POST(req: NextRequest) {
+  const body = await req.json() as {
+    fromType: EntityType
+    fromId:   number
+    toType:   EntityType
+    toId:     number
+    linkType: EntityLinkType
+    source?:  'manual' | 'suggested'
+  }
+  const { fromType, fromId, toType, toId, linkType } = body
+
+  if (!ENTITY_TYPES[fromType] || !ENTITY_TYPES[toType] || !fromId || !toId || !ENTITY_LINK_TYPES[linkType]) {
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 })
+  }
+  if (!canLink(linkType, fromType, toType)) {
+    return NextResponse.json(
+      { error: `${ENTITY_TYPES[fromType].label} cannot be linked to ${ENTITY_TYPES[toType].label} with "${linkType}"` },
+      { status: 400 },
+    )
+  }
+  if (fromType === toType && fromId === toId) {
+    return NextResponse.json({ error: 'An entity cannot be linked to itself' }, { status: 400 })
+  }
+
+  const { data: inserted, error } = await supabase
+    .from('entity_links')
+    .insert({
+      from_type: fromType,
+      from_id:   fromId,
+      to_type:   toType,
+      to_id:     toId,
+      link_type: linkType,
+      source:    body.source === 'suggested' ? 'suggested' : 'manual',
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    // 23505 = unique_violation
+    const status = error.code === '23505' ? 409 : 500
+    return NextResponse.json({ error: status === 409 ? 'This link already exists' : error.message }, { status })
+  }
+
+  await recordAudit(req, {
+    action:     'entity_link.create',
+    entityType: fromType,
+    entityId:   fromId,
+    before:     null,
+    after:      inserted,
+  })
+
+  return NextResponse.json({ ok: true, link: inserted })
+}
@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SchemaType } from '@google/generative-ai'
+import { supabase } from '@/lib/supabase'
+import {
+  ENTITY_TYPES, ENTITY_LINK_TYPES, JUNCTION_MAP,
+  EntityLinkType, EntityType, canLink,
+} from '@/lib/constants'
+import { fetchEntityNames } from '@/lib/entities'
+import { callLlm } from '@/lib/llm'
+import { loadPrompt } from '@/lib/prompts'
+
+// Most co-occurring candidates sent to Gemini — keeps the prompt small
+const MAX_CANDIDATES = 80
+
+const SUGGESTIONS_SCHEMA = {
+  type: SchemaType.OBJECT,
+  properties: {
+    suggestions: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          candidate: { type: SchemaType.STRING },
+          linkType:  { type: SchemaType.STRING },
+          direction: { type: SchemaType.STRING },
+          reason:    { type: SchemaType.STRING },
+        },
+        required: ['candidate', 'linkType', 'direction'],
+      },
+    },
+  },
+  required: ['suggestions'],
+}
+
+interface Candidate {
+  key:     string   // c1, c2, … — what Gemini refers to
+  type:    EntityType
+  id:      number
+  shared:  number   // number of lectures in common
+  allowed: { linkType: EntityLinkType; direction: 'out' | 'in' }[]
+}
+
+// POST /api/entity-links/suggest
+// Body: { entityType, entityId }
+// Proposes links between the entity and entities it shares lectures with.
+// Nothing is written — the UI posts accepted suggestions to /api/entity-links.
+export async function POST(req: NextRequest) {
+  const { entityType, entityId } = await req.json() as { entityType?: EntityType; entityId?: number }
+
+  if (!entityType || !ENTITY_TYPES[entityType] || !entityId) {
+    return NextResponse.json({ error: 'entityType and entityId required' }, { status: 400 })
+  }
+  const junction = JUNCTION_MAP[entityType]
+  if (!junction) {
+    return NextResponse.json({ error: 'Entity type is not linked to lectures' }, { status: 400 })
+  }
+
+  try {
+    // ------------------------------------------------------------------
+    // 1. Which link types can the entity take part in, and with whom
+    // ------------------------------------------------------------------
+    const allowedByType = new Map<EntityType, Candidate['allowed']>()
+    for (const [linkType, cfg] of Object.entries(ENTITY_LINK_TYPES) as [EntityLinkType, typeof ENTITY_LINK_TYPES[EntityLinkType]][]) {
+      if (cfg.from.includes(entityType)) {
+        for (const t of cfg.to) allowedByType.set(t, [...(allowedByType.get(t) ?? []), { linkType, direction: 'out' }])
+      }
+      if (cfg.to.includes(entityType)) {
+        for (const t of cfg.from) allowedByType.set(t, [...(allowedByType.get(t) ?? []), { linkType, direction: 'in' }])
+      }
+    }
+    if (allowedByType.size === 0) {
+      return NextResponse.json({ suggestions: [] })
+    }
+
+    // ------------------------------------------------------------------
+    // 2. Lectures the entity appears in, and everything co-occurring there
+    // ------------------------------------------------------------------
+    const { data: ownRows, error: ownErr } = await supabase
+      .from(junction.table)
+      .select('lecture_id')
+      .eq(junction.fkCol, entityId)
+    if (ownErr) throw ownErr
+
+    const lectureIds = Array.from(new Set(((ownRows ?? []) as { lecture_id: number }[]).map(r => r.lecture_id)))
+    if (lectureIds.length === 0) {
+      return NextResponse.json({ suggestions: [] })
+    }
+
+    const candidates: Candidate[] = []
+    await Promise.all(
+      [...allowedByType].map(async ([type, allowed]) => {
+        const j = JUNCTION_MAP[type]
+        if (!j) return
+        const { data } = await supabase.from(j.table).select(`lecture_id, ${j.fkCol}`).in('lecture_id', lectureIds)
+        const shared = new Map<number, Set<number>>()
+        for (const row of (data ?? []) as unknown as Record<string, number>[]) {
+          const id = row[j.fkCol]
+          if (type === entityType && id === entityId) continue
+          shared.set(id, (shared.get(id) ?? new Set()).add(row.lecture_id))
+        }
+        for (const [id, lectures] of shared) {
+          candidates.push({ key: '', type, id, shared: lectures.size, allowed })
+        }
+      }),
+    )
+
+    // ------------------------------------------------------------------
+    // 3. Drop pairs that are already linked, keep the strongest co-occurrences
+    // ------------------------------------------------------------------
+    const { data: existingRows } = await supabase
+      .from('entity_links')
+      .select('from_type, from_id, to_type, to_id, link_type')
+      .or(
+        `and(from_type.eq.${entityType},from_id.eq.${entityId}),` +
+        `and(to_type.eq.${entityType},to_id.eq.${entityId})`,
+      )
+    const existing = new Set(
+      ((existingRows ?? []) as Record<string, unknown>[]).map(
+        r => `${r.link_type}|${r.from_type}:${r.from_id}|${r.to_type}:${r.to_id}`,
+      ),
+    )
+    const linkKey = (linkType: string, c: { type: EntityType; id: number }, direction: 'out' | 'in') =>
+      direction === 'out'
+        ? `${linkType}|${entityType}:${entityId}|${c.type}:${c.id}`
+        : `${linkType}|${c.type}:${c.id}|${entityType}:${entityId}`
+
+    const top = candidates
+      .map(c => ({ ...c, allowed: c.allowed.filter(a => !existing.has(linkKey(a.linkType, c, a.direction))) }))
+      .filter(c => c.allowed.length > 0)
+      .sort((a, b) => b.shared - a.shared)
+      .slice(0, MAX_CANDIDATES)
+      .map((c, i) => ({ ...c, key: `c${i + 1}` }))
+
+    if (top.length === 0) {
+      return NextResponse.json({ suggestions: [] })
+    }
+
+    // ------------------------------------------------------------------
+    // 4. Ask Gemini which of the candidate links are real
+    // ------------------------------------------------------------------
+    const names  = await fetchEntityNames([{ type: entityType, id: entityId }, ...top])
+    const nameOf = (type: EntityType, id: number) => names.get(`${type}:${id}`)?.name ?? `#${id}`
+    const self   = nameOf(entityType, entityId)
+
+    const linkTypeLines = (Object.keys(ENTITY_LINK_TYPES) as EntityLinkType[])
+      .filter(lt => top.some(c => c.allowed.some(a => a.linkType === lt)))
+      .map(lt => {
+        const cfg = ENTITY_LINK_TYPES[lt]
+        return `- ${lt}: ${cfg.from.join('/')} ${cfg.label} ${cfg.to.join('/')}`
+      })
+    const candidateLines = top.map(c =>
+      `${c.key} | ${c.type} | ${nameOf(c.type, c.id)} | ` +
+      c.allowed.map(a => `${a.linkType} (${a.direction})`).join(', '),
+    )
+
+    const prompt = (await loadPrompt('entity_links.txt'))
+      .replace('{entity}', `${self} (${entityType})`)
+      .replace('{link_types}', linkTypeLines.join('\n'))
+      .replace('{candidates}', candidateLines.join('\n'))
+
+    const text = await callLlm('entity_links', prompt, { json: true, schema: SUGGESTIONS_SCHEMA })
+    const raw  = (JSON.parse(text) as { suggestions?: { candidate: string; linkType: string; direction: string; reason?: string }[] })
+      .suggestions ?? []
+
+    // ------------------------------------------------------------------
+    // 5. Keep only suggestions that respect the link rules
+    // ------------------------------------------------------------------
+    const byKey = new Map(top.map(c => [c.key, c]))
+    const seen  = new Set<string>()
+    const suggestions = raw.flatMap(s => {
+      const c         = byKey.get(s.candidate)
+      const linkType  = s.linkType as EntityLinkType
+      const direction = s.direction === 'in' ? 'in' : 'out'
+      if (!c || !c.allowed.some(a => a.linkType === linkType && a.direction === direction)) return []
+
+      const from = direction === 'out' ? { type: entityType, id: entityId } : { type: c.type, id: c.id }
+      const to   = direction === 'out' ? { type: c.type, id: c.id }        : { type: entityType, id: entityId }
+      if (!canLink(linkType, from.type, to.type)) return []
+
+      const key = linkKey(linkType, c, direction)
+      if (seen.has(key)) return []
+      seen.add(key)
+
+      return [{
+        linkType,
+        fromType:       from.type,
+        fromId:         from.id,
+        fromName:       nameOf(from.type, from.id),
+        toType:         to.type,
+        toId:           to.id,
+        toName:         nameOf(to.type, to.id),
+        sharedLectures: c.shared,
+        reason:         s.reason ?? '',
+      }]
+    })
+
+    return NextResponse.json({ suggestions })
+  } catch (err) {
+    console.error('[entity-links/suggest]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
@@ -1,20 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
-
-const ENTITY_TYPES = [
-  'directors','films','writers','books',
-  'painters','paintings','philosophers',
-] as const
-
-const JOIN_TABLES: Record<string, { join: string; fk: string; name: string }> = {
-  directors:    { join: 'lecture_directors',    fk: 'director_id',   name: 'name'  },
-  films:        { join: 'lecture_films',        fk: 'film_id',       name: 'title' },
-  writers:      { join: 'lecture_writers',      fk: 'writer_id',     name: 'name'  },
-  books:        { join: 'lecture_books',        fk: 'book_id',       name: 'title' },
-  painters:     { join: 'lecture_painters',     fk: 'painter_id',    name: 'name'  },
-  paintings:    { join: 'lecture_paintings',    fk: 'painting_id',   name: 'title' },
-  philosophers: { join: 'lecture_philosophers', fk: 'philosopher_id',name: 'name'  },
-}
+import { recordAudit, snapshotRow } from '@/lib/audit'
+import { ENTITY_TYPES, LINKED_ENTITY_TYPES, EntityType } from '@/lib/constants'
+import { fetchLinkedEntityNames, matchEntityNames } from '@/lib/entities'
+import { applyEntityDescription } from '@/lib/descriptions'
+import { MatchResolutions, resolveMatch } from '@/lib/entity-match'
 
 // POST /api/generate/confirm
 // body: { type, action, data, lectureId?, courseId?, entityType?, entityId? }
@@ -34,30 +24,80 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ ok: true, message: 'Declined — no changes made' })
     }
 
-    // ── lecture_title ──────────────────────────────────────────────────────
-    if (body.type === 'lecture_title') {
-      await supabase.from('lectures').update({ title: body.data.after }).eq('id', body.lectureId)
-      return NextResponse.json({ ok: true })
-    }
-
-    // ── lecture_synopsis ───────────────────────────────────────────────────
-    if (body.type === 'lecture_synopsis') {
-      await supabase.from('lectures').update({ synopsis: body.data.after }).eq('id', body.lectureId)
+    // ── lecture_title / lecture_synopsis ───────────────────────────────────
+    if (body.type === 'lecture_title' || body.type === 'lecture_synopsis') {
+      const field  = body.type === 'lecture_title' ? 'title' : 'synopsis'
+      const before = await snapshotRow('lectures', body.lectureId!, `${field}, course_id`)
+      await supabase.from('lectures').update({ [field]: body.data.after }).eq('id', body.lectureId)
+      await recordAudit(req, {
+        action:     `generate.${body.type}`,
+        entityType: 'lectures',
+        entityId:   body.lectureId,
+        lectureId:  body.lectureId,
+        courseId:   (before?.course_id as number | undefined) ?? null,
+        before:     { [field]: before?.[field] ?? null },
+        after:      { [field]: body.data.after },
+      })
       return NextResponse.json({ ok: true })
     }
 
     // ── course_synopsis ────────────────────────────────────────────────────
     if (body.type === 'course_synopsis') {
+      const before = await snapshotRow('courses', body.courseId!, 'description')
       await supabase.from('courses').update({ description: body.data.after }).eq('id', body.courseId)
+      await recordAudit(req, {
+        action:     'generate.course_synopsis',
+        entityType: 'courses',
+        entityId:   body.courseId,
+        courseId:   body.courseId,
+        before,
+        after:      { description: body.data.after },
+      })
       return NextResponse.json({ ok: true })
     }
 
     // ── entity_desc ────────────────────────────────────────────────────────
     if (body.type === 'entity_desc') {
-      await supabase.from(body.entityType!).update({ description: body.data.after }).eq('id', body.entityId)
+      await applyEntityDescription(req, body.entityType as EntityType, body.entityId!, body.data.after as string)
       return NextResponse.json({ ok: true })
     }
 
+    // ── entity_names ───────────────────────────────────────────────────────
+    // data.items: accepted rows only — { id, name, hebrew_name }
+    if (body.type === 'entity_names') {
+      const entityType = body.entityType as EntityType
+      const cfg        = ENTITY_TYPES[entityType]
+      if (!cfg?.hasHebrewName) {
+        return NextResponse.json({ error: 'Entity type has no Hebrew name' }, { status: 400 })
+      }
+      const { nameField } = cfg
+      const items = (body.data.items ?? []) as { id: number; name: string; hebrew_name: string }[]
+
+      let updated = 0
+      for (const item of items) {
+        const update: Record<string, string> = {}
+        if (item.name?.trim())        update[nameField]     = item.name.trim()
+        if (item.hebrew_name?.trim()) update['hebrew_name'] = item.hebrew_name.trim()
+        if (!Object.keys(update).length) continue
+
+        const before = await snapshotRow(entityType, item.id, `${nameField}, hebrew_name`)
+        const { error } = await supabase.from(entityType).update(update).eq('id', item.id)
+        if (error) {
+          console.error('[confirm entity_names]', entityType, item.id, error)
+          continue
+        }
+        await recordAudit(req, {
+          action:     'generate.entity_names',
+          entityType,
+          entityId:   item.id,
+          before,
+          after:      update,
+        })
+        updated++
+      }
+      return NextResponse.json({ ok: true, updated })
+    }
+
     // ── entities ───────────────────────────────────────────────────────────
     if (body.type === 'entities') {
       const lectureId  = body.lectureId!
@@ -66,24 +106,31 @@ export async function POST(req: NextRequest) {
 
       if (body.action === 'accept_replace') {
         // Remove all existing junction rows for this lecture
-        for (const cfg of Object.values(JOIN_TABLES)) {
-          await supabase.from(cfg.join).delete().eq('lecture_id', lectureId)
+        for (const et of LINKED_ENTITY_TYPES) {
+          await supabase.from(ENTITY_TYPES[et].junction!.table).delete().eq('lecture_id', lectureId)
         }
       }
 
       // Build a set of existing entity names (for accept_new_only dedup)
       const existingNames: Record<string, Set<string>> = {}
       if (body.action === 'accept_new_only') {
-        for (const et of ENTITY_TYPES) {
+        for (const et of LINKED_ENTITY_TYPES) {
           const all = [...(current[et]?.discussed ?? []), ...(current[et]?.mentioned ?? [])]
           existingNames[et] = new Set(all.map(n => n.toLowerCase()))
         }
       }
 
-      // Insert new entities + links
-      for (const et of ENTITY_TYPES) {
-        const cfg = JOIN_TABLES[et]
+      // Insert new entities + links. Each name links to the existing entity it
+      // resolves to (exact / hebrew_name automatically, similar names only when
+      // chosen in the panel) and creates a new entity otherwise.
+      const resolutions = (body.data.resolutions ?? {}) as MatchResolutions
+      let created = 0
+      for (const et of LINKED_ENTITY_TYPES) {
+        const { nameField, junction } = ENTITY_TYPES[et]
+        const cfg = junction!
         const linkedIds = new Set<number>()  // prevent duplicate junction rows per lecture
+        const names     = [...(extracted[et]?.discussed ?? []), ...(extracted[et]?.mentioned ?? [])]
+        const matches   = await matchEntityNames(et, names)
 
         for (const relType of ['discussed', 'mentioned'] as const) {
           for (const name of extracted[et]?.[relType] ?? []) {
@@ -91,18 +138,24 @@ export async function POST(req: NextRequest) {
               continue // skip existing
             }
 
-            // get_or_create entity
-            const nameField = cfg.name
-            const { data: existing } = await supabase
-              .from(et).select('id').eq(nameField, name).maybeSingle()
-
+            // Only a resolution to the match found here is trusted
+            const chosen   = resolveMatch(name, matches, resolutions[et])
+            const match    = matches[name.trim().toLowerCase()]
             let entityId: number
-            if (existing) {
-              entityId = existing.id
+            if (chosen !== null && match?.id === chosen) {
+              entityId = chosen
             } else {
-              const { data: created } = await supabase
-                .from(et).insert({ [nameField]: name }).select('id').single()
-              entityId = created!.id
+              // get_or_create — an identical name is never duplicated
+              const { data: existing } = await supabase
+                .from(et).select('id').eq(nameField, name).maybeSingle()
+              if (existing) {
+                entityId = existing.id
+              } else {
+                const { data: inserted } = await supabase
+                  .from(et).insert({ [nameField]: name }).select('id').single()
+                entityId = inserted!.id
+                created++
+              }
             }
 
             // skip if already linked (entity appears in both discussed + mentioned)
@@ -110,16 +163,27 @@ export async function POST(req: NextRequest) {
             linkedIds.add(entityId)
 
             // upsert junction row
-            await supabase.from(cfg.join).upsert({
+            await supabase.from(cfg.table).upsert({
               lecture_id: lectureId,
-              [cfg.fk]: entityId,
+              [cfg.fkCol]: entityId,
               relationship_type: relType,
-            }, { onConflict: `lecture_id,${cfg.fk}`, ignoreDuplicates: true })
+            }, { onConflict: `lecture_id,${cfg.fkCol}`, ignoreDuplicates: true })
           }
         }
       }
 
-      return NextResponse.json({ ok: true })
+      const lecture = await snapshotRow('lectures', lectureId, 'course_id')
+      await recordAudit(req, {
+        action:     `generate.entities.${body.action}`,
+        entityType: 'lectures',
+        entityId:   lectureId,
+        lectureId,
+        courseId:   (lecture?.course_id as number | undefined) ?? null,
+        before:     current,
+        after:      await fetchLinkedEntityNames(lectureId),
+      })
+
+      return NextResponse.json({ ok: true, created })
     }
 
     return NextResponse.json({ error: 'Unknown type' }, { status: 400 })
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { EntityType } from '@/lib/constants'
+import { generateEntityDescription } from '@/lib/descriptions'
+import { isRateLimitError, runPool, waitForGeminiSlot } from '@/lib/batch'
+
+const DEFAULT_BATCH = 6
+const MAX_BATCH     = 20
+const CONCURRENCY   = 3
+const MAX_ATTEMPTS  = 3
+
+// A running item older than this belongs to a request that died mid-call
+const STALE_RUNNING_MS = 5 * 60_000
+
+interface QueueItem {
+  id:          number
+  entity_type: EntityType
+  entity_id:   number
+  note:        string | null
+  attempts:    number
+}
+
+// POST /api/generate/descriptions/process
+// Body: { limit? }
+// Claims up to `limit` pending items and generates their descriptions,
+// CONCURRENCY at a time and spaced by the shared Gemini rate limiter.
+// The panel calls this in a loop until `remaining` is 0.
+export async function POST(req: NextRequest) {
+  const body  = await req.json().catch(() => ({})) as { limit?: number }
+  const limit = Math.min(Math.max(body.limit ?? DEFAULT_BATCH, 1), MAX_BATCH)
+
+  // ------------------------------------------------------------------
+  // 1. Put stale running items back in the queue — the stalled run counts
+  //    as an attempt, so an item that always stalls ends up failed
+  // ------------------------------------------------------------------
+  const { data: stale } = await supabase
+    .from('description_queue')
+    .select('id, attempts')
+    .eq('status', 'running')
+    .lt('started_at', new Date(Date.now() - STALE_RUNNING_MS).toISOString())
+
+  for (const item of (stale ?? []) as Pick<QueueItem, 'id' | 'attempts'>[]) {
+    const attempts = item.attempts + 1
+    console.warn('[descriptions process] requeueing stale item', item.id)
+    await supabase
+      .from('description_queue')
+      .update({
+        status:     attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        started_at: null,
+        attempts,
+        error:      'Generation stopped responding',
+      })
+      .eq('id', item.id)
+      .eq('status', 'running')
+  }
+
+  // ------------------------------------------------------------------
+  // 2. Claim a batch — the status guard keeps two callers from sharing items
+  // ------------------------------------------------------------------
+  const { data: pendingRows, error: pendingErr } = await supabase
+    .from('description_queue')
+    .select('id')
+    .eq('status', 'pending')
+    .order('id', { ascending: true })
+    .limit(limit)
+
+  if (pendingErr) {
+    return NextResponse.json({ error: pendingErr.message }, { status: 500 })
+  }
+
+  const ids = ((pendingRows ?? []) as { id: number }[]).map(r => r.id)
+  let claimed: QueueItem[] = []
+  if (ids.length > 0) {
+    const { data, error } = await supabase
+      .from('description_queue')
+      .update({ status: 'running', started_at: new Date().toISOString() })
+      .in('id', ids)
+      .eq('status', 'pending')
+      .select('id, entity_type, entity_id, note, attempts')
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+    claimed = (data ?? []) as QueueItem[]
+  }
+
+  // ------------------------------------------------------------------
+  // 3. Generate. On a rate-limit response stop starting new calls and
+  //    hand the rest of the batch back to the queue.
+  // ------------------------------------------------------------------
+  let generated   = 0
+  let failed      = 0
+  let rateLimited = false
+
+  await runPool(claimed, CONCURRENCY, async (item) => {
+    if (rateLimited) {
+      await supabase.from('description_queue').update({ status: 'pending', started_at: null }).eq('id', item.id)
+      return
+    }
+
+    await waitForGeminiSlot()
+    try {
+      const result = await generateEntityDescription(item.entity_type, item.entity_id, item.note ?? undefined)
+      if (!result) {
+        failed++
+        await supabase
+          .from('description_queue')
+          .update({ status: 'failed', error: 'Entity not found', attempts: item.attempts + 1 })
+          .eq('id', item.id)
+        return
+      }
+      generated++
+      await supabase
+        .from('description_queue')
+        .update({
+          status:       'generated',
+          before:       result.before,
+          after:        result.after,
+          error:        null,
+          attempts:     item.attempts + 1,
+          generated_at: new Date().toISOString(),
+        })
+        .eq('id', item.id)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      if (isRateLimitError(err)) {
+        rateLimited = true
+        await supabase.from('description_queue').update({ status: 'pending', started_at: null, error: message }).eq('id', item.id)
+        return
+      }
+      const attempts = item.attempts + 1
+      if (attempts >= MAX_ATTEMPTS) failed++
+      console.warn('[descriptions process]', item.entity_type, item.entity_id, message)
+      await supabase
+        .from('description_queue')
+        .update({ status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending', started_at: null, attempts, error: message })
+        .eq('id', item.id)
+    }
+  })
+
+  const { count: remaining } = await supabase
+    .from('description_queue')
+    .select('*', { count: 'exact', head: true })
+    .in('status', ['pending', 'running'])
+
+  return NextResponse.json({ claimed: claimed.length, generated, failed, rateLimited, remaining: remaining ?? 0 })
+}
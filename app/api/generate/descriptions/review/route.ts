@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { EntityType } from '@/lib/constants'
+import { applyEntityDescription } from '@/lib/descriptions'
+
+// POST /api/generate/descriptions/review
+// Body: { ids: number[], action: 'approve' | 'reject', edits?: { [id]: string } }
+// Approve writes the (optionally edited) description to the entity; reject only marks the item.
+export async function POST(req: NextRequest) {
+  const { ids, action, edits } = await req.json() as {
+    ids:    number[]
+    action: 'approve' | 'reject'
+    edits?: Record<string, string>
+  }
+
+  if (!Array.isArray(ids) || ids.length === 0 || (action !== 'approve' && action !== 'reject')) {
+    return NextResponse.json({ error: 'ids and action required' }, { status: 400 })
+  }
+
+  const { data, error } = await supabase
+    .from('description_queue')
+    .select('id, entity_type, entity_id, after')
+    .in('id', ids)
+    .eq('status', 'generated')
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const items = (data ?? []) as { id: number; entity_type: EntityType; entity_id: number; after: string | null }[]
+
+  if (action === 'reject') {
+    const { error: rejectErr } = await supabase
+      .from('description_queue')
+      .update({ status: 'rejected', reviewed_at: new Date().toISOString() })
+      .in('id', items.map(i => i.id))
+    if (rejectErr) {
+      return NextResponse.json({ error: rejectErr.message }, { status: 500 })
+    }
+    return NextResponse.json({ ok: true, rejected: items.length })
+  }
+
+  let approved = 0
+  const failed: { id: number; error: string }[] = []
+
+  for (const item of items) {
+    const description = (edits?.[item.id] ?? item.after ?? '').trim()
+    if (!description) {
+      failed.push({ id: item.id, error: 'Empty description' })
+      continue
+    }
+    try {
+      await applyEntityDescription(req, item.entity_type, item.entity_id, description)
+      await supabase
+        .from('description_queue')
+        .update({ status: 'approved', after: description, reviewed_at: new Date().toISOString() })
+        .eq('id', item.id)
+      approved++
+    } catch (err) {
+      console.error('[descriptions review]', item.entity_type, item.entity_id, err)
+      failed.push({ id: item.id, error: err instanceof Error ? err.message : String(err) })
+    }
+  }
+
+  return NextResponse.json({ ok: failed.length === 0, approved, failed })
+}
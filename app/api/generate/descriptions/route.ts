@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { recordAudit } from '@/lib/audit'
+import { ENTITY_TYPES, LINKED_ENTITY_TYPES, EntityType } from '@/lib/constants'
+import { fetchEntityNames } from '@/lib/entities'
+
+// Bulk entity-description queue. Items are generated by /process and written
+// to the entity table only when approved through /review.
+//
+// Table: description_queue
+//   id           bigint generated always as identity primary key
+//   created_at   timestamptz not null default now()
+//   entity_type  text   not null
+//   entity_id    bigint not null
+//   note         text
+//   status       text   not null default 'pending'   -- pending | running | generated | failed | approved | rejected
+//   attempts     int    not null default 0
+//   before       text                                -- description at generation time
+//   after        text                                -- generated description
+//   error        text
+//   started_at   timestamptz
+//   generated_at timestamptz
+//   reviewed_at  timestamptz
+
+const QUEUE_STATUSES = ['pending', 'running', 'generated', 'failed', 'approved', 'rejected'] as const
+
+// Types the queue can generate for
+const DESC_TYPES = LINKED_ENTITY_TYPES.filter(t => ENTITY_TYPES[t].hasDescription)
+
+const DEFAULT_LIMIT = 12
+const MAX_LIMIT     = 100
+
+// ---------------------------------------------------------------------------
+// GET /api/generate/descriptions?status=generated&entityType=films&limit=12&offset=0
+// Returns a page of queue items plus item counts per status
+// ---------------------------------------------------------------------------
+export async function GET(req: NextRequest) {
+  const sp         = req.nextUrl.searchParams
+  const status     = sp.get('status') ?? 'generated'
+  const entityType = sp.get('entityType')
+  const limit      = Math.min(parseInt(sp.get('limit') ?? '', 10) || DEFAULT_LIMIT, MAX_LIMIT)
+  const offset     = Math.max(parseInt(sp.get('offset') ?? '', 10) || 0, 0)
+
+  let query = supabase
+    .from('description_queue')
+    .select('id, created_at, entity_type, entity_id, status, attempts, before, after, error, generated_at', { count: 'exact' })
+    .eq('status', status)
+    .order('id', { ascending: true })
+    .range(offset, offset + limit - 1)
+  if (entityType) query = query.eq('entity_type', entityType)
+
+  const { data, count, error } = await query
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const counts = Object.fromEntries(await Promise.all(
+    QUEUE_STATUSES.map(async s => {
+      let q = supabase.from('description_queue').select('*', { count: 'exact', head: true }).eq('status', s)
+      if (entityType) q = q.eq('entity_type', entityType)
+      const { count: c } = await q
+      return [s, c ?? 0] as const
+    }),
+  ))
+
+  const rows  = (data ?? []) as { entity_type: EntityType; entity_id: number }[]
+  const names = await fetchEntityNames(rows.map(r => ({ type: r.entity_type, id: r.entity_id })))
+
+  return NextResponse.json({
+    items: rows.map(r => ({
+      ...r,
+      name:       names.get(`${r.entity_type}:${r.entity_id}`)?.name ?? `#${r.entity_id}`,
+      hebrewName: names.get(`${r.entity_type}:${r.entity_id}`)?.hebrewName ?? null,
+    })),
+    total: count ?? 0,
+    counts,
+  })
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/generate/descriptions
+// Body: { entityType: EntityType | 'all', note? }
+// Queues every entity of that type (or of every type) whose description is empty.
+// Entities that already have an open item (pending / running / generated) are skipped.
+// ---------------------------------------------------------------------------
+export async function POST(req: NextRequest) {
+  const { entityType, note } = await req.json() as { entityType?: EntityType | 'all'; note?: string }
+
+  const types = entityType === 'all' ? DESC_TYPES : DESC_TYPES.filter(t => t === entityType)
+  if (types.length === 0) {
+    return NextResponse.json({ error: 'Unknown or non-describable entity type' }, { status: 400 })
+  }
+
+  let queued  = 0
+  let skipped = 0
+
+  for (const type of types) {
+    const { data: missing, error: missingErr } = await supabase
+      .from(type)
+      .select('id')
+      .or('description.is.null,description.eq.')
+    if (missingErr) {
+      return NextResponse.json({ error: `${type}: ${missingErr.message}` }, { status: 500 })
+    }
+
+    const { data: open } = await supabase
+      .from('description_queue')
+      .select('entity_id')
+      .eq('entity_type', type)
+      .in('status', ['pending', 'running', 'generated'])
+    const openIds = new Set(((open ?? []) as { entity_id: number }[]).map(r => r.entity_id))
+
+    const rows = ((missing ?? []) as { id: number }[])
+      .filter(r => !openIds.has(r.id))
+      .map(r => ({ entity_type: type, entity_id: r.id, note: note?.trim() || null, status: 'pending' }))
+    skipped += (missing ?? []).length - rows.length
+
+    if (rows.length > 0) {
+      const { error: insertErr } = await supabase.from('description_queue').insert(rows)
+      if (insertErr) {
+        return NextResponse.json({ error: insertErr.message }, { status: 500 })
+      }
+      queued += rows.length
+    }
+  }
+
+  await recordAudit(req, {
+    action: 'description_queue.enqueue',
+    before: null,
+    after:  { entityType, note: note?.trim() || null, queued, skipped },
+  })
+  return NextResponse.json({ queued, skipped })
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/generate/descriptions
+// Body: { entityType? } — cancels pending items (optionally of one type)
+// ---------------------------------------------------------------------------
+export async function DELETE(req: NextRequest) {
+  const { entityType } = await req.json().catch(() => ({})) as { entityType?: EntityType }
+
+  let query = supabase.from('description_queue').delete({ count: 'exact' }).eq('status', 'pending')
+  if (entityType) query = query.eq('entity_type', entityType)
+
+  const { count, error } = await query
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await recordAudit(req, {
+    action: 'description_queue.cancel',
+    before: null,
+    after:  { entityType: entityType ?? null, cancelled: count ?? 0 },
+  })
+  return NextResponse.json({ ok: true, cancelled: count ?? 0 })
+}
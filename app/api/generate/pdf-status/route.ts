@@ -9,7 +9,7 @@ export async function GET(req: NextRequest) {
 
   const { data } = await supabase
     .from('regen_jobs')
-    .select('id,status,created_at')
+    .select('id,status,created_at,attempts,error')
     .eq('lecture_id', lectureId)
     .eq('job_type', jobType)
     .order('created_at', { ascending: false })
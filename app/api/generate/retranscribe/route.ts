@@ -1,17 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { deleteFromR2 } from '@/lib/r2'
-
-const JUNCTION_TABLES = [
-  'lecture_directors',
-  'lecture_films',
-  'lecture_writers',
-  'lecture_books',
-  'lecture_painters',
-  'lecture_paintings',
-  'lecture_philosophers',
-  'lecture_themes',
-] as const
+import { JUNCTION_MAP } from '@/lib/constants'
 
 const R2_OUTPUT_FILES = ['summary.pdf', 'transcript.txt', 'chapters.vtt']
 
@@ -40,7 +30,7 @@ export async function POST(req: NextRequest) {
   const r2Prefix = `${course.r2_dir}/${lec.order_in_course}`
 
   // 3. Delete junction table rows
-  for (const table of JUNCTION_TABLES) {
+  for (const { table } of Object.values(JUNCTION_MAP)) {
     await supabase.from(table).delete().eq('lecture_id', lectureId)
   }
 
@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai'
 import { supabase } from '@/lib/supabase'
 import { getR2Text } from '@/lib/r2'
-import fs from 'fs'
-import path from 'path'
-
-const genai = new GoogleGenerativeAI(process.env.GEMINI_API_KEY ?? '')
+import { ENTITY_TYPES, LINKED_ENTITY_TYPES, EntityType } from '@/lib/constants'
+import { fetchLinkedEntityNames, matchEntityNames } from '@/lib/entities'
+import { callLlm } from '@/lib/llm'
+import { loadPrompt } from '@/lib/prompts'
+import { DESCRIPTION_SCHEMA, generateEntityDescription } from '@/lib/descriptions'
+import { proposeEntityNames } from '@/lib/names'
+import { enqueueRegenJob } from '@/lib/regen-jobs'
+import { chunkText, mapChunks } from '@/lib/chunking'
+import { TITLE_SYNOPSIS_SCHEMA } from '@/lib/schemas'
+import { EXTRACTION_RUNS } from '@/lib/entity-votes'
+import { extractEntities, resolveMinVotes } from '@/lib/entity-extraction'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -16,173 +22,67 @@ export type GenerateType =
   | 'course_synopsis'
   | 'entities'
   | 'entity_desc'
+  | 'entity_names'
   | 'summary_pdf'
   | 'chapters_vtt'
 
-const ENTITY_TYPES = [
-  'directors','films','writers','books',
-  'painters','paintings','philosophers',
-] as const
-
-const JOIN_TABLES: Record<string, { join: string; fk: string; name: string }> = {
-  directors:    { join: 'lecture_directors',    fk: 'director_id',    name: 'name'  },
-  films:        { join: 'lecture_films',        fk: 'film_id',        name: 'title' },
-  writers:      { join: 'lecture_writers',      fk: 'writer_id',      name: 'name'  },
-  books:        { join: 'lecture_books',        fk: 'book_id',        name: 'title' },
-  painters:     { join: 'lecture_painters',     fk: 'painter_id',     name: 'name'  },
-  paintings:    { join: 'lecture_paintings',    fk: 'painting_id',    name: 'title' },
-  philosophers: { join: 'lecture_philosophers', fk: 'philosopher_id', name: 'name'  },
-}
-
-const ENTITY_PROMPT_FILES: Record<string, string> = {
-  directors:    'enrich_describe_director.txt',
-  films:        'enrich_describe_film.txt',
-  writers:      'enrich_describe_writer.txt',
-  books:        'enrich_describe_book.txt',
-  painters:     'enrich_describe_painter.txt',
-  paintings:    'enrich_describe_painting.txt',
-  philosophers: 'enrich_describe_philosopher.txt',
-}
-
-// ---------------------------------------------------------------------------
-// Prompt loading
-// ---------------------------------------------------------------------------
-function loadPrompt(filename: string): string {
-  return fs.readFileSync(path.join(process.cwd(), 'prompts', filename), 'utf-8')
-}
-
 // ---------------------------------------------------------------------------
 // Response schemas
 // ---------------------------------------------------------------------------
-const ENTITY_LIST_SCHEMA = {
-  type: SchemaType.OBJECT,
-  properties: {
-    discussed: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
-    mentioned: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
-  },
-}
-
 const SCHEMAS = {
-  titleSynopsis: {
-    type: SchemaType.OBJECT,
-    properties: {
-      title:    { type: SchemaType.STRING },
-      synopsis: { type: SchemaType.STRING },
-    },
-    required: ['title', 'synopsis'],
-  },
-  description: {
-    type: SchemaType.OBJECT,
-    properties: { description: { type: SchemaType.STRING } },
-    required: ['description'],
-  },
-  entities: {
-    type: SchemaType.OBJECT,
-    properties: {
-      directors:    ENTITY_LIST_SCHEMA,
-      films:        ENTITY_LIST_SCHEMA,
-      writers:      ENTITY_LIST_SCHEMA,
-      books:        ENTITY_LIST_SCHEMA,
-      painters:     ENTITY_LIST_SCHEMA,
-      paintings:    ENTITY_LIST_SCHEMA,
-      philosophers: ENTITY_LIST_SCHEMA,
-      themes:       ENTITY_LIST_SCHEMA,
-    },
-  },
+  titleSynopsis: TITLE_SYNOPSIS_SCHEMA,
+  description:   DESCRIPTION_SCHEMA,
 }
 
 // ---------------------------------------------------------------------------
-// Helpers
+// Chunking — transcripts longer than the chunk size for their generate type
+// are processed map-reduce style: each chunk is summarised / extracted on its
+// own and the per-chunk results are merged. CHUNK_CHARS_<TYPE> (generate type
+// upper-cased, e.g. CHUNK_CHARS_ENTITIES=40000) overrides a size without a
+// code change.
 // ---------------------------------------------------------------------------
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function callGemini(prompt: string, jsonMode = false, temperature?: number, schema?: any): Promise<string> {
-  const useJson = jsonMode || schema != null
-  const model = genai.getGenerativeModel({
-    model: 'gemini-2.5-flash',
-    generationConfig: {
-      temperature: temperature ?? (jsonMode ? 0.1 : 0.3),
-      maxOutputTokens: jsonMode ? 8000 : 6000,
-      ...(useJson ? { responseMimeType: 'application/json' } : {}),
-      ...(schema   ? { responseSchema: schema }               : {}),
-    },
-  })
-  const result = await model.generateContent(prompt)
-  return result.response.text().trim()
+const CHUNK_CHARS: Partial<Record<GenerateType, number>> = {
+  lecture_title:    15000,
+  lecture_synopsis: 15000,
+  entities:         30000,
 }
-
-// ---------------------------------------------------------------------------
-// JSON-based entity extraction using entities_all.txt (same as Transcriber).
-// 3 runs, results merged — no text parsing, no comma/semicolon ambiguity.
-// ---------------------------------------------------------------------------
-async function extractEntities(
-  transcript: string,
-  appendNote: (p: string) => string,
-): Promise<Record<string, { discussed: string[]; mentioned: string[] }>> {
-  const NUM_RUNS = 3
-  const allRuns: Record<string, { discussed: string[]; mentioned: string[] }>[] = []
-
-  for (let run = 0; run < NUM_RUNS; run++) {
-    try {
-      const prompt = appendNote(
-        loadPrompt('entities_all.txt').replace('{transcript}', transcript),
-      )
-      const text   = await callGemini(prompt, true, undefined, SCHEMAS.entities)
-      // Strip markdown fences if present (older Gemini versions sometimes add them)
-      const clean  = text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
-      const data   = JSON.parse(clean) as Record<string, { discussed?: string[]; mentioned?: string[] }>
-
-      const runResult: Record<string, { discussed: string[]; mentioned: string[] }> = {}
-      for (const et of ENTITY_TYPES) {
-        const etData = data[et] ?? {}
-        runResult[et] = {
-          discussed: (etData.discussed ?? []).filter((s): s is string => typeof s === 'string' && s.trim() !== ''),
-          mentioned: (etData.mentioned ?? []).filter((s): s is string => typeof s === 'string' && s.trim() !== ''),
-        }
-      }
-      allRuns.push(runResult)
-    } catch {
-      allRuns.push(
-        Object.fromEntries(ENTITY_TYPES.map(et => [et, { discussed: [], mentioned: [] }])),
-      )
-    }
-  }
-
-  // Merge all runs: union by lowercase, preserving first-seen order
-  const merged: Record<string, { discussed: string[]; mentioned: string[] }> = {}
-  for (const et of ENTITY_TYPES) {
-    const discussed: string[] = []
-    const mentioned: string[] = []
-    const seenD = new Set<string>()
-    const seenM = new Set<string>()
-    for (const run of allRuns) {
-      for (const name of run[et]?.discussed ?? []) {
-        if (!seenD.has(name.toLowerCase())) { seenD.add(name.toLowerCase()); discussed.push(name) }
-      }
-      for (const name of run[et]?.mentioned ?? []) {
-        if (!seenM.has(name.toLowerCase())) { seenM.add(name.toLowerCase()); mentioned.push(name) }
-      }
-    }
-    merged[et] = { discussed, mentioned }
+const DEFAULT_CHUNK_CHARS = 15000
+// Below this the overlap between chunks dominates
+const MIN_CHUNK_CHARS     = 2000
+
+/** Chunk size for a generate type: CHUNK_CHARS_<TYPE> → CHUNK_CHARS → DEFAULT_CHUNK_CHARS */
+function chunkChars(type: GenerateType): number {
+  const key = `CHUNK_CHARS_${type.toUpperCase()}`
+  const env = process.env[key]
+  if (env) {
+    const size = Number(env)
+    if (Number.isInteger(size) && size >= MIN_CHUNK_CHARS) return size
+    console.warn(`[generate] ignoring ${key}=${env} — expected an integer >= ${MIN_CHUNK_CHARS}`)
   }
-  return merged
+  return CHUNK_CHARS[type] ?? DEFAULT_CHUNK_CHARS
 }
 
-async function fetchCurrentEntities(lectureId: number) {
-  const current: Record<string, { discussed: string[]; mentioned: string[] }> = {}
-  for (const [et, cfg] of Object.entries(JOIN_TABLES)) {
-    const { data } = await supabase
-      .from(cfg.join)
-      .select(`relationship_type, ${et}!inner(${cfg.name})`)
-      .eq('lecture_id', lectureId)
-    current[et] = { discussed: [], mentioned: [] }
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    for (const row of (data ?? []) as any[]) {
-      const name   = row[et]?.[cfg.name] ?? ''
-      const bucket = row.relationship_type === 'discussed' ? 'discussed' : 'mentioned'
-      if (name) current[et][bucket].push(name)
-    }
-  }
-  return current
+/**
+ * Text for the title/synopsis prompt: the transcript itself when it fits in
+ * one chunk, otherwise a summary of every chunk in lecture order.
+ */
+async function condenseTranscript(transcript: string, chunkChars: number): Promise<{ text: string; chunks: number }> {
+  const chunks = chunkText(transcript, chunkChars)
+  if (chunks.length === 1) return { text: transcript, chunks: 1 }
+
+  const template  = await loadPrompt('chunk_summary.txt')
+  const summaries = await mapChunks(chunks, (chunk, i) => callLlm(
+    'chunk_summary',
+    template
+      .replace('{part}', String(i + 1))
+      .replace('{parts}', String(chunks.length))
+      .replace('{transcript}', chunk),
+  ))
+  const text = [
+    `[A long lecture — summaries of its ${chunks.length} consecutive parts]`,
+    ...summaries.map((summary, i) => `Part ${i + 1}/${chunks.length}:\n${summary}`),
+  ].join('\n\n')
+  return { text, chunks: chunks.length }
 }
 
 // ---------------------------------------------------------------------------
@@ -197,6 +97,8 @@ export async function POST(req: NextRequest) {
       entityType?: string
       entityId?: number
       note?: string
+      /** entities: minimum runs that must agree on a name */
+      minVotes?: number
     }
 
     function appendNote(prompt: string): string {
@@ -207,12 +109,8 @@ export async function POST(req: NextRequest) {
     // ── summary_pdf / chapters_vtt — queue to regen_jobs ──────────────────
     if (body.type === 'summary_pdf' || body.type === 'chapters_vtt') {
       if (!body.lectureId) return NextResponse.json({ error: 'lectureId required' }, { status: 400 })
-      const { data, error } = await supabase
-        .from('regen_jobs')
-        .insert({ job_type: body.type, lecture_id: body.lectureId })
-        .select('id').single()
-      if (error) return NextResponse.json({ error: error.message }, { status: 500 })
-      return NextResponse.json({ status: 'queued', jobId: data.id })
+      const { jobId, existing } = await enqueueRegenJob(body.type, body.lectureId)
+      return NextResponse.json({ status: 'queued', jobId, existing })
     }
 
     // ── lecture_title / lecture_synopsis — need transcript ─────────────────
@@ -228,7 +126,8 @@ export async function POST(req: NextRequest) {
       if (!course?.r2_dir) return NextResponse.json({ error: 'r2_dir not set on course' }, { status: 400 })
 
       const transcript = await getR2Text(`${course.r2_dir}/${lec.order_in_course}/transcript.txt`)
-      const prompt = appendNote(loadPrompt('title_synopsis.txt').replace('{transcript}', transcript.slice(0, 15000)))
+      const condensed  = await condenseTranscript(transcript, chunkChars(body.type))
+      const prompt = appendNote((await loadPrompt('title_synopsis.txt')).replace('{transcript}', condensed.text))
 
       function parseTitleSynopsis(text: string): { title: string; synopsis: string } {
         try { return JSON.parse(text) as { title: string; synopsis: string } } catch { /* fall through */ }
@@ -246,14 +145,14 @@ export async function POST(req: NextRequest) {
 
       if (body.type === 'lecture_title') {
         const texts = await Promise.all(
-          Array.from({ length: 5 }, () => callGemini(prompt, false, 0.9, SCHEMAS.titleSynopsis)),
+          Array.from({ length: 5 }, () => callLlm('lecture_title', prompt, { temperature: 0.9, schema: SCHEMAS.titleSynopsis })),
         )
         const titles = texts.map(t => parseTitleSynopsis(t).title).filter(Boolean)
-        return NextResponse.json({ type: 'lecture_title', lectureId: body.lectureId, before: lec.title, titles })
+        return NextResponse.json({ type: 'lecture_title', lectureId: body.lectureId, before: lec.title, titles, chunks: condensed.chunks })
       } else {
-        const text    = await callGemini(prompt, false, undefined, SCHEMAS.titleSynopsis)
+        const text    = await callLlm('lecture_synopsis', prompt, { schema: SCHEMAS.titleSynopsis })
         const synopsis = parseTitleSynopsis(text).synopsis
-        return NextResponse.json({ type: 'lecture_synopsis', lectureId: body.lectureId, before: lec.synopsis, after: synopsis })
+        return NextResponse.json({ type: 'lecture_synopsis', lectureId: body.lectureId, before: lec.synopsis, after: synopsis, chunks: condensed.chunks })
       }
     }
 
@@ -272,11 +171,11 @@ export async function POST(req: NextRequest) {
         .join('\n\n')
 
       const prompt = appendNote(
-        loadPrompt('course_synopsis.txt')
+        (await loadPrompt('course_synopsis.txt'))
           .replace('{title}', course.title)
           .replace('{lectures}', lecturesText)
       )
-      const text  = await callGemini(prompt, false, undefined, SCHEMAS.description)
+      const text  = await callLlm('course_synopsis', prompt, { schema: SCHEMAS.description })
       let after: string
       try { after = (JSON.parse(text) as { description: string }).description } catch { after = text }
 
@@ -295,10 +194,23 @@ export async function POST(req: NextRequest) {
       if (!course?.r2_dir) return NextResponse.json({ error: 'r2_dir not set on course' }, { status: 400 })
 
       const transcript = await getR2Text(`${course.r2_dir}/${lec.order_in_course}/transcript.txt`)
-      const extracted  = await extractEntities(transcript, appendNote)
-      const current    = await fetchCurrentEntities(body.lectureId)
+      const { extracted, votes, chunks, runs, minVotes } =
+        await extractEntities(
+          transcript, await loadPrompt('entities_all.txt'), chunkChars('entities'),
+          appendNote, resolveMinVotes(body.minVotes),
+        )
+      const current    = await fetchLinkedEntityNames(body.lectureId)
+      const matches    = Object.fromEntries(await Promise.all(LINKED_ENTITY_TYPES.map(async et =>
+        [et, await matchEntityNames(et, votes[et].map(n => n.name))] as const,
+      )))
 
-      return NextResponse.json({ type: 'entities', lectureId: body.lectureId, current, extracted })
+      return NextResponse.json({
+        type: 'entities', lectureId: body.lectureId, current, extracted, votes, matches,
+        runs, minVotes, chunks,
+        ...(runs < EXTRACTION_RUNS && {
+          warning: `Only ${runs} of ${EXTRACTION_RUNS} extraction runs succeeded — votes are out of ${runs}`,
+        }),
+      })
     }
 
     // ── entity_desc ───────────────────────────────────────────────────────
@@ -306,35 +218,30 @@ export async function POST(req: NextRequest) {
       if (!body.entityType || !body.entityId) {
         return NextResponse.json({ error: 'entityType and entityId required' }, { status: 400 })
       }
-      const nameField  = ['films','books','paintings'].includes(body.entityType) ? 'title' : 'name'
-      const { data: row } = await supabase
-        .from(body.entityType).select(`id,${nameField},hebrew_name,description`)
-        .eq('id', body.entityId).single()
-      if (!row) return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
-
-      const name       = (row as Record<string,string>)[nameField] ?? ''
-      const hebrewName = (row as Record<string,string>).hebrew_name ?? ''
-      const display    = hebrewName ? `${hebrewName} (${name})` : name
-      const entityKey  = body.entityType.replace(/s$/, '')
-      const promptFile = ENTITY_PROMPT_FILES[body.entityType] ?? 'enrich_describe.txt'
-      const template   = loadPrompt(promptFile)
-      const prompt     = appendNote(
-        template
-          .replace(/\{display\}/g, display)
-          .replace(/\{label\}/g, entityKey)
-          .replace(/\{name\}/g, name)
-          .replace(/\{hebrew_name\}/g, hebrewName || name)
-      )
-      const text2 = await callGemini(prompt, false, undefined, SCHEMAS.description)
-      let after: string
-      try { after = (JSON.parse(text2) as { description: string }).description } catch { after = text2 }
+      const cfg = ENTITY_TYPES[body.entityType as EntityType]
+      if (!cfg?.hasDescription) {
+        return NextResponse.json({ error: 'Entity type has no description' }, { status: 400 })
+      }
+      const generated = await generateEntityDescription(body.entityType as EntityType, body.entityId, body.note)
+      if (!generated) return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
 
       return NextResponse.json({
         type: 'entity_desc', entityType: body.entityType, entityId: body.entityId,
-        name, before: (row as Record<string,string>).description ?? '', after,
+        ...generated,
       })
     }
 
+    // ── entity_names — Hebrew / English names for a whole type ─────────────
+    if (body.type === 'entity_names') {
+      if (!body.entityType) return NextResponse.json({ error: 'entityType required' }, { status: 400 })
+      const cfg = ENTITY_TYPES[body.entityType as EntityType]
+      if (!cfg?.hasHebrewName) {
+        return NextResponse.json({ error: 'Entity type has no Hebrew name' }, { status: 400 })
+      }
+      const items = await proposeEntityNames(body.entityType as EntityType, body.note)
+      return NextResponse.json({ type: 'entity_names', entityType: body.entityType, items })
+    }
+
     return NextResponse.json({ error: 'Unknown type' }, { status: 400 })
   } catch (err) {
     console.error('[generate]', err)
@@ -1,7 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-// ── Types handled by Wikimedia Commons (+ Wikipedia for films) ────────────────
-const WIKIMEDIA_TYPES = new Set(['philosophers', 'directors', 'writers', 'painters', 'paintings', 'films'])
+import { ENTITY_TYPES, EntityType, WIKIMEDIA_SEARCHES } from '@/lib/constants'
 
 // ── Wikimedia Commons ─────────────────────────────────────────────────────────
 
@@ -135,13 +133,18 @@ export async function GET(req: NextRequest) {
   const type       = searchParams.get('type') ?? ''
   const name       = searchParams.get('name') ?? ''
   const hebrewName = searchParams.get('hebrewName') ?? ''
+  // Canonical image linked from Wikidata — always the first candidate
+  const imageSource = searchParams.get('imageSource')
 
   if (!name) return NextResponse.json({ images: [] })
 
+  // Search strategy comes from the entity-type registry
+  const strategy = ENTITY_TYPES[type as EntityType]?.imageSearch ?? 'web'
+
   let images: string[]
 
-  if (WIKIMEDIA_TYPES.has(type)) {
-    if (type === 'films') {
+  if (WIKIMEDIA_SEARCHES.includes(strategy)) {
+    if (strategy === 'poster') {
       // Wikipedia infobox poster + Commons poster search, in parallel
       const [wikiImgs, commonsImgs] = await Promise.all([
         wikiPageImages(name),
@@ -149,29 +152,20 @@ export async function GET(req: NextRequest) {
       ])
       images = dedup([...wikiImgs, ...commonsImgs]).slice(0, 6)
     } else {
-      const queryMap: Record<string, string> = {
-        directors:    `"${name}" portrait`,
-        writers:      `"${name}" portrait`,
-        painters:     `"${name}" portrait`,
-        philosophers: `"${name}" portrait`,
-        paintings:    `"${name}"`,
-      }
-      const q = queryMap[type] ?? `"${name}"`
+      const q = strategy === 'portrait' ? `"${name}" portrait` : `"${name}"`
       const urls = await searchCommons(q, 20)
       // Fallback: broader search if exact match yields too few results
       const extra = urls.length < 3 ? await searchCommons(`${name} portrait`, 10) : []
       images = dedup([...urls, ...extra]).slice(0, 6)
     }
   } else {
-    // Books / courses — Google CSE (legacy path)
+    // Book covers / everything else — Google CSE (legacy path)
     const hint = hebrewName ? ` ${hebrewName}` : ''
-    const queryMap: Record<string, string> = {
-      books:   `"${name}" book cover`,
-      courses: `"${name}"${hint}`,
-    }
-    const q = queryMap[type] ?? `"${name}"${hint}`
+    const q    = strategy === 'cover' ? `"${name}" book cover` : `"${name}"${hint}`
     images = (await searchGoogleCSE(q, 6)).slice(0, 6)
   }
 
+  if (imageSource) images = dedup([imageSource, ...images]).slice(0, 6)
+
   return NextResponse.json({ images })
 }
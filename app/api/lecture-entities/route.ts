@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { ENTITY_TYPES, JUNCTION_MAP, EntityType } from '@/lib/constants'
+import { recordAudit, snapshotRow } from '@/lib/audit'
 
 type RelType = 'discussed' | 'mentioned'
 
@@ -90,6 +91,8 @@ export async function PATCH(req: NextRequest) {
     return NextResponse.json({ error: 'Category has no junction table' }, { status: 400 })
   }
 
+  const before = await snapshotRow(junction.table, junctionId)
+
   const { error } = await supabase
     .from(junction.table)
     .update({ relationship_type: relationshipType })
@@ -99,5 +102,14 @@ export async function PATCH(req: NextRequest) {
     return NextResponse.json({ error: error.message }, { status: 500 })
   }
 
+  await recordAudit(req, {
+    action:     'link.relationship',
+    entityType: category,
+    entityId:   (before?.[junction.fkCol] as number | undefined) ?? null,
+    lectureId:  (before?.lecture_id as number | undefined) ?? null,
+    before,
+    after:      { ...before, relationship_type: relationshipType },
+  })
+
   return NextResponse.json({ ok: true })
 }
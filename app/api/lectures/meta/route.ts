@@ -1,22 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
+import { recordAudit } from '@/lib/audit'
 
-// GET /api/lectures/meta?lectureId=X
-export async function GET(req: NextRequest) {
-  const lectureId = parseInt(req.nextUrl.searchParams.get('lectureId') ?? '', 10)
-  if (!lectureId) return NextResponse.json({ error: 'lectureId required' }, { status: 400 })
-
+async function fetchLectureMeta(lectureId: number) {
   const [lectureRes, placesRes, yearsRes] = await Promise.all([
-    supabase.from('lectures').select('date').eq('id', lectureId).single(),
+    supabase.from('lectures').select('date, course_id').eq('id', lectureId).single(),
     supabase.from('lecture_places').select('id, place').eq('lecture_id', lectureId).order('id'),
     supabase.from('lecture_years').select('id, year').eq('lecture_id', lectureId).order('year'),
   ])
+  const lecture = lectureRes.data as { date: string | null; course_id: number } | null
 
-  return NextResponse.json({
-    date:   (lectureRes.data as { date: string | null } | null)?.date ?? null,
-    places: ((placesRes.data ?? []) as { id: number; place: string }[]).map(r => ({ id: r.id, value: r.place })),
-    years:  ((yearsRes.data  ?? []) as { id: number; year:  number }[]).map(r => ({ id: r.id, value: r.year  })),
-  })
+  return {
+    courseId: lecture?.course_id ?? null,
+    date:     lecture?.date ?? null,
+    places:   ((placesRes.data ?? []) as { id: number; place: string }[]).map(r => ({ id: r.id, value: r.place })),
+    years:    ((yearsRes.data  ?? []) as { id: number; year:  number }[]).map(r => ({ id: r.id, value: r.year  })),
+  }
+}
+
+// GET /api/lectures/meta?lectureId=X
+export async function GET(req: NextRequest) {
+  const lectureId = parseInt(req.nextUrl.searchParams.get('lectureId') ?? '', 10)
+  if (!lectureId) return NextResponse.json({ error: 'lectureId required' }, { status: 400 })
+
+  const { date, places, years } = await fetchLectureMeta(lectureId)
+  return NextResponse.json({ date, places, years })
 }
 
 // PATCH /api/lectures/meta
@@ -31,6 +39,8 @@ export async function PATCH(req: NextRequest) {
   const { lectureId, date, places, years } = body
   if (!lectureId) return NextResponse.json({ error: 'lectureId required' }, { status: 400 })
 
+  const { courseId, ...before } = await fetchLectureMeta(lectureId)
+
   if (date !== undefined) {
     await supabase.from('lectures').update({ date: date || null }).eq('id', lectureId)
   }
@@ -49,5 +59,23 @@ export async function PATCH(req: NextRequest) {
     }
   }
 
+  await recordAudit(req, {
+    action:     'lecture.meta',
+    entityType: 'lectures',
+    entityId:   lectureId,
+    lectureId,
+    courseId,
+    before:     {
+      ...(date   !== undefined ? { date:   before.date } : {}),
+      ...(places !== undefined ? { places: before.places.map(p => p.value) } : {}),
+      ...(years  !== undefined ? { years:  before.years.map(y => y.value) } : {}),
+    },
+    after:      {
+      ...(date   !== undefined ? { date: date || null } : {}),
+      ...(places !== undefined ? { places } : {}),
+      ...(years  !== undefined ? { years } : {}),
+    },
+  })
+
   return NextResponse.json({ ok: true })
 }
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { recordAudit } from '@/lib/audit'
+import { getActivePrompt, invalidatePromptCache, isKnownPrompt, setActivePrompt } from '@/lib/prompts'
+
+type Params = { params: Promise<{ filename: string }> }
+
+// PUT /api/prompts/[filename]/active
+// Body: { versionId } — activates a saved version (roll back / forward); null = the built-in file
+export async function PUT(req: NextRequest, { params }: Params) {
+  const { filename } = await params
+  if (!isKnownPrompt(filename)) return NextResponse.json({ error: 'Unknown prompt' }, { status: 400 })
+  const { versionId } = await req.json() as { versionId?: number | null }
+  if (versionId === undefined) return NextResponse.json({ error: 'versionId required' }, { status: 400 })
+
+  try {
+    let version: number | null = null
+    if (versionId !== null) {
+      const { data } = await supabase
+        .from('prompt_versions').select('version').eq('id', versionId).eq('filename', filename).maybeSingle()
+      if (!data) return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+      version = data.version as number
+    }
+
+    invalidatePromptCache(filename)
+    const before = await getActivePrompt(filename)
+    await setActivePrompt(filename, versionId)
+    await recordAudit(req, {
+      action:     'prompt.activate',
+      entityType: 'prompt_versions',
+      entityId:   versionId,
+      before:     { filename, version: before.version },
+      after:      { filename, version },
+    })
+    return NextResponse.json({ ok: true, activeVersionId: versionId })
+  } catch (err) {
+    console.error('[prompt activate]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
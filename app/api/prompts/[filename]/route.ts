@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { recordAudit } from '@/lib/audit'
+import {
+  PROMPT_PLACEHOLDERS, createPromptVersion, getActivePrompt, isKnownPrompt,
+  listPromptVersions, placeholdersIn, readPromptFile, setActivePrompt,
+} from '@/lib/prompts'
+import { entityTypesForPrompt, previewSpec } from '@/lib/prompt-preview'
+
+type Params = { params: Promise<{ filename: string }> }
+
+// GET /api/prompts/[filename]
+// Returns the built-in file, saved versions, the active version, the
+// placeholders the built-in file uses (plus every name a generator fills) and how the prompt can be previewed
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { filename } = await params
+  if (!isKnownPrompt(filename)) return NextResponse.json({ error: 'Unknown prompt' }, { status: 404 })
+
+  try {
+    const builtin  = readPromptFile(filename)
+    const versions = await listPromptVersions(filename)
+    const active   = await getActivePrompt(filename)
+    return NextResponse.json({
+      filename,
+      builtin,
+      versions,
+      activeVersionId:   active.versionId,
+      placeholders:      Object.fromEntries(placeholdersIn(builtin).map(p => [p, PROMPT_PLACEHOLDERS[p] ?? ''])),
+      knownPlaceholders: Object.keys(PROMPT_PLACEHOLDERS),
+      preview:           previewSpec(filename),
+      entityTypes:       entityTypesForPrompt(filename),
+    })
+  } catch (err) {
+    console.error('[prompt]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
+
+// POST /api/prompts/[filename]
+// Body: { content, note?, activate? } — saves a new version, optionally making it active
+export async function POST(req: NextRequest, { params }: Params) {
+  const { filename } = await params
+  if (!isKnownPrompt(filename)) return NextResponse.json({ error: 'Unknown prompt' }, { status: 404 })
+
+  const { content, note, activate } = await req.json() as { content?: string; note?: string; activate?: boolean }
+  if (!content?.trim()) return NextResponse.json({ error: 'content required' }, { status: 400 })
+
+  try {
+    const before  = activate ? await getActivePrompt(filename) : null
+    const version = await createPromptVersion(filename, content, note)
+    if (activate) await setActivePrompt(filename, version.id)
+    await recordAudit(req, {
+      action:     'prompt.create',
+      entityType: 'prompt_versions',
+      entityId:   version.id,
+      before:     before ? { filename, activeVersion: before.version } : null,
+      after:      { filename, version: version.version, note: version.note, activated: !!activate },
+    })
+    return NextResponse.json({ version, activeVersionId: activate ? version.id : undefined })
+  } catch (err) {
+    console.error('[prompt save]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
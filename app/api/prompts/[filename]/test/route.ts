@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getActivePrompt, isKnownPrompt } from '@/lib/prompts'
+import { PreviewInput, runPromptPreview } from '@/lib/prompt-preview'
+
+type Params = { params: Promise<{ filename: string }> }
+
+// POST /api/prompts/[filename]/test
+// Body: { content, lectureId? | courseId? | entityType? + entityId? }
+// Runs the draft and the active version on the same input — nothing is written.
+// Returns { draft, active, activeVersion }
+export async function POST(req: NextRequest, { params }: Params) {
+  const { filename } = await params
+  if (!isKnownPrompt(filename)) return NextResponse.json({ error: 'Unknown prompt' }, { status: 404 })
+
+  const body = await req.json() as PreviewInput & { content?: string }
+  if (!body.content?.trim()) return NextResponse.json({ error: 'content required' }, { status: 400 })
+
+  try {
+    const active = await getActivePrompt(filename)
+    const [draft, current] = await runPromptPreview(filename, [body.content, active.content], body)
+    return NextResponse.json({ draft, active: current, activeVersion: active.version })
+  } catch (err) {
+    console.error('[prompt test]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
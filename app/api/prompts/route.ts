@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { listPromptFiles } from '@/lib/prompts'
+
+// GET /api/prompts
+// Returns { prompts: [{ filename, activeVersion }] } — activeVersion null = built-in file
+export async function GET() {
+  try {
+    const { data, error } = await supabase
+      .from('active_prompts')
+      .select('filename, prompt_versions(version)')
+    if (error) throw new Error(error.message)
+
+    const active = new Map((data ?? []).map(r => [
+      r.filename as string,
+      (r.prompt_versions as unknown as { version: number } | null)?.version ?? null,
+    ]))
+    const prompts = listPromptFiles().map(filename => ({ filename, activeVersion: active.get(filename) ?? null }))
+    return NextResponse.json({ prompts })
+  } catch (err) {
+    console.error('[prompts]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
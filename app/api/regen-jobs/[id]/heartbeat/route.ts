@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+
+type Params = { params: Promise<{ id: string }> }
+
+// POST /api/regen-jobs/[id]/heartbeat
+// Body: { workerId, attempt, output? } — attempt is the claimed job's attempts;
+// output is an optional progress log and replaces the stored output
+// Sent by the worker every minute or so while a job runs.
+// Returns { ok, cancel } — cancel is true when the job should be abandoned.
+export async function POST(req: NextRequest, { params }: Params) {
+  const { id } = await params
+  const body   = await req.json().catch(() => ({})) as { workerId?: string; attempt?: number; output?: string }
+
+  if (!body.workerId || !Number.isInteger(body.attempt)) {
+    return NextResponse.json({ error: 'workerId and attempt required' }, { status: 400 })
+  }
+
+  const update: Record<string, unknown> = { heartbeat_at: new Date().toISOString() }
+  if (body.output !== undefined) update.output = body.output
+
+  const { data, error } = await supabase
+    .from('regen_jobs')
+    .update(update)
+    .eq('id', Number(id))
+    .eq('status', 'running')
+    .eq('worker_id', body.workerId)
+    .eq('attempts', body.attempt!)
+    .select('id')
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  // No row updated → the job was cancelled, or requeued as stale (and maybe
+  // claimed again by another run)
+  return NextResponse.json({ ok: true, cancel: !data?.length })
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { recordAudit } from '@/lib/audit'
+import { REGEN_RETRY_ATTEMPTS, RegenJob } from '@/lib/regen-jobs'
+
+type Params = { params: Promise<{ id: string }> }
+
+// POST /api/regen-jobs/[id]/retry
+// Re-queues a failed or cancelled job immediately with a fresh attempt budget:
+// max_attempts is raised rather than attempts reset (see REGEN_RETRY_ATTEMPTS).
+export async function POST(req: NextRequest, { params }: Params) {
+  const { id } = await params
+
+  const { data: rows, error: fetchErr } = await supabase
+    .from('regen_jobs')
+    .select('attempts')
+    .eq('id', Number(id))
+    .limit(1)
+  if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+  if (!rows?.length) return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  const { attempts } = rows[0] as Pick<RegenJob, 'attempts'>
+
+  const { data, error } = await supabase
+    .from('regen_jobs')
+    .update({
+      status:          'pending',
+      max_attempts:    attempts + REGEN_RETRY_ATTEMPTS,
+      next_attempt_at: null,
+      worker_id:       null,
+      started_at:      null,
+      heartbeat_at:    null,
+      completed_at:    null,
+      error:           null,
+    })
+    .eq('id', Number(id))
+    .eq('attempts', attempts)
+    .in('status', ['failed', 'cancelled'])
+    .select('id, lecture_id')
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  if (!data?.length) {
+    return NextResponse.json({ error: 'Only failed or cancelled jobs can be retried' }, { status: 409 })
+  }
+
+  const lectureId = (data[0] as { lecture_id: number }).lecture_id
+  await recordAudit(req, {
+    action:     'regen_job.retry',
+    entityType: 'lectures',
+    entityId:   lectureId,
+    lectureId,
+    before:     null,
+    after:      { jobId: Number(id), status: 'pending' },
+  })
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { recordAudit } from '@/lib/audit'
+import { RegenJob, regenBackoffMs } from '@/lib/regen-jobs'
+
+type Params = { params: Promise<{ id: string }> }
+
+async function fetchJob(id: number): Promise<RegenJob | null> {
+  const { data } = await supabase.from('regen_jobs').select('*').eq('id', id).maybeSingle()
+  return (data as RegenJob | null) ?? null
+}
+
+// GET /api/regen-jobs/[id]
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { id } = await params
+  const job    = await fetchJob(Number(id))
+  if (!job) return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  return NextResponse.json({ job })
+}
+
+// PATCH /api/regen-jobs/[id]
+// Body: { workerId, attempt, status: 'done' | 'failed', output?, error?, retryable? }
+// Called by the worker when a job finishes; workerId and attempt identify the
+// run that claimed it. A failure is retried with exponential backoff until
+// max_attempts, unless retryable is false.
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const { id } = await params
+  const body   = await req.json() as {
+    workerId?:  string
+    attempt?:   number
+    status:     'done' | 'failed'
+    output?:    string
+    error?:     string
+    retryable?: boolean
+  }
+
+  if (!body.workerId || !Number.isInteger(body.attempt)) {
+    return NextResponse.json({ error: 'workerId and attempt required' }, { status: 400 })
+  }
+
+  const job = await fetchJob(Number(id))
+  if (!job) return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  if (job.status !== 'running' || job.worker_id !== body.workerId || job.attempts !== body.attempt) {
+    // Cancelled, or requeued as stale (and maybe claimed by another run)
+    // while the worker was busy — drop the report
+    return NextResponse.json({ ok: false, status: job.status }, { status: 409 })
+  }
+
+  const now = new Date()
+  let update: Record<string, unknown>
+
+  if (body.status === 'done') {
+    update = { status: 'done', output: body.output ?? null, error: null, completed_at: now.toISOString() }
+  } else if (body.status === 'failed') {
+    const retry = body.retryable !== false && job.attempts < job.max_attempts
+    update = retry
+      ? {
+          status:          'pending',
+          worker_id:       null,
+          output:          body.output ?? null,
+          error:           body.error ?? null,
+          next_attempt_at: new Date(now.getTime() + regenBackoffMs(job.attempts)).toISOString(),
+        }
+      : {
+          status:       'failed',
+          output:       body.output ?? null,
+          error:        body.error ?? null,
+          completed_at: now.toISOString(),
+        }
+  } else {
+    return NextResponse.json({ error: 'status must be done or failed' }, { status: 400 })
+  }
+
+  const { data: updated, error } = await supabase
+    .from('regen_jobs')
+    .update(update)
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('worker_id', body.workerId)
+    .eq('attempts', body.attempt!)
+    .select('id')
+  if (error) {
+    console.error('[PATCH regen job]', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+  if (!updated?.length) {
+    // Lost the run between the read and the update
+    return NextResponse.json({ ok: false, status: (await fetchJob(job.id))?.status ?? null }, { status: 409 })
+  }
+  return NextResponse.json({ ok: true, status: update.status })
+}
+
+// DELETE /api/regen-jobs/[id]
+// Cancels a pending or running job. A running worker learns about it from
+// its next heartbeat.
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { id } = await params
+  const job    = await fetchJob(Number(id))
+  if (!job) return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+
+  if (job.status !== 'pending' && job.status !== 'running') {
+    return NextResponse.json({ error: `Cannot cancel job with status: ${job.status}` }, { status: 409 })
+  }
+
+  const { error } = await supabase
+    .from('regen_jobs')
+    .update({ status: 'cancelled', error: '[Cancelled by user]', completed_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .eq('status', job.status)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  await recordAudit(req, {
+    action:     'regen_job.cancel',
+    entityType: 'lectures',
+    entityId:   job.lecture_id,
+    lectureId:  job.lecture_id,
+    before:     { jobId: job.id, status: job.status },
+    after:      { jobId: job.id, status: 'cancelled' },
+  })
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { REGEN_HEARTBEAT_TIMEOUT_MS, RegenJob, regenBackoffMs } from '@/lib/regen-jobs'
+
+// Candidates fetched per claim attempt — if another worker wins the race for
+// the first one, the next is tried.
+const CLAIM_CANDIDATES = 5
+
+// POST /api/regen-jobs/next
+// Body: { workerId?, jobTypes? }
+// Called by the worker to claim the oldest eligible pending regen job.
+// The worker passes its workerId and the job's attempts back with every
+// heartbeat and PATCH, so a run that was requeued can't touch the next one.
+// Returns { job } or { job: null } if nothing is ready.
+export async function POST(req: NextRequest) {
+  const body     = await req.json().catch(() => ({})) as { workerId?: string; jobTypes?: string[] }
+  const workerId = body.workerId ?? 'default'
+  const now      = new Date()
+
+  // 1. Requeue running jobs whose worker stopped sending heartbeats
+  const staleBefore = new Date(now.getTime() - REGEN_HEARTBEAT_TIMEOUT_MS).toISOString()
+  const { data: stale } = await supabase
+    .from('regen_jobs')
+    .select('id, attempts, max_attempts, heartbeat_at, started_at')
+    .eq('status', 'running')
+    .or(`heartbeat_at.lt.${staleBefore},and(heartbeat_at.is.null,started_at.lt.${staleBefore})`)
+
+  for (const job of (stale ?? []) as Pick<RegenJob, 'id' | 'attempts' | 'max_attempts'>[]) {
+    const exhausted = job.attempts >= job.max_attempts
+    console.warn('[regen-jobs next] requeueing stale job', job.id)
+    await supabase
+      .from('regen_jobs')
+      .update(exhausted
+        ? { status: 'failed', error: 'Worker stopped responding', completed_at: now.toISOString() }
+        : {
+            status:          'pending',
+            worker_id:       null,
+            error:           'Worker stopped responding',
+            next_attempt_at: new Date(now.getTime() + regenBackoffMs(job.attempts)).toISOString(),
+          })
+      .eq('id', job.id)
+      .eq('status', 'running')
+  }
+
+  // 2. Oldest pending jobs whose backoff has elapsed
+  let query = supabase
+    .from('regen_jobs')
+    .select('id, attempts')
+    .eq('status', 'pending')
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${now.toISOString()}`)
+    .order('created_at', { ascending: true })
+    .limit(CLAIM_CANDIDATES)
+  if (body.jobTypes?.length) query = query.in('job_type', body.jobTypes)
+
+  const { data: candidates, error: candErr } = await query
+  if (candErr) {
+    return NextResponse.json({ error: candErr.message }, { status: 500 })
+  }
+
+  // 3. Claim — the status guard makes sure only one worker gets each job
+  // attempts counts started runs
+  for (const { id, attempts } of (candidates ?? []) as { id: number; attempts: number }[]) {
+    const { data: claimed, error } = await supabase
+      .from('regen_jobs')
+      .update({
+        status:       'running',
+        attempts:     attempts + 1,
+        worker_id:    workerId,
+        started_at:   now.toISOString(),
+        heartbeat_at: now.toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('*')
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+    if (claimed?.length) {
+      return NextResponse.json({ job: claimed[0] as RegenJob })
+    }
+  }
+
+  return NextResponse.json({ job: null })
+}
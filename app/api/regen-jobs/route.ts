@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { recordAudit } from '@/lib/audit'
+import {
+  REGEN_JOB_STATUSES, REGEN_JOB_TYPES, RegenJob, RegenJobType, enqueueRegenJob,
+} from '@/lib/regen-jobs'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT     = 200
+
+interface LectureRow { id: number; title: string; order_in_course: number; course_id: number }
+interface CourseRow  { id: number; title: string }
+
+// ---------------------------------------------------------------------------
+// GET /api/regen-jobs?status=pending,running&jobType=summary_pdf&courseId=3&lectureId=N&limit=50&offset=0
+// Lists regeneration jobs (newest first) with lecture and course titles,
+// plus job counts per status.
+// ---------------------------------------------------------------------------
+export async function GET(req: NextRequest) {
+  const sp        = req.nextUrl.searchParams
+  const statuses  = (sp.get('status') ?? '').split(',').filter(Boolean)
+  const jobType   = sp.get('jobType')
+  const courseId  = Number(sp.get('courseId')) || null
+  const lectureId = Number(sp.get('lectureId')) || null
+  const limit     = Math.min(Number(sp.get('limit')) || DEFAULT_LIMIT, MAX_LIMIT)
+  const offset    = Math.max(Number(sp.get('offset')) || 0, 0)
+
+  // courseId filter → resolve to that course's lectures first
+  let lectureIds: number[] | null = lectureId ? [lectureId] : null
+  if (courseId && !lectureId) {
+    const { data } = await supabase.from('lectures').select('id').eq('course_id', courseId)
+    lectureIds = ((data ?? []) as { id: number }[]).map(l => l.id)
+    if (lectureIds.length === 0) {
+      return NextResponse.json({ jobs: [], total: 0, counts: {} })
+    }
+  }
+
+  let query = supabase
+    .from('regen_jobs')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+  if (statuses.length) query = query.in('status', statuses)
+  if (jobType)         query = query.eq('job_type', jobType)
+  if (lectureIds)      query = query.in('lecture_id', lectureIds)
+
+  const { data, count, error } = await query
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+  const jobs = (data ?? []) as RegenJob[]
+
+  const counts = Object.fromEntries(await Promise.all(
+    REGEN_JOB_STATUSES.map(async s => {
+      let q = supabase.from('regen_jobs').select('*', { count: 'exact', head: true }).eq('status', s)
+      if (jobType)    q = q.eq('job_type', jobType)
+      if (lectureIds) q = q.in('lecture_id', lectureIds)
+      const { count: c } = await q
+      return [s, c ?? 0] as const
+    }),
+  ))
+
+  // Lecture + course titles for display
+  const jobLectureIds = [...new Set(jobs.map(j => j.lecture_id))]
+  const { data: lectureRows } = jobLectureIds.length
+    ? await supabase.from('lectures').select('id, title, order_in_course, course_id').in('id', jobLectureIds)
+    : { data: [] }
+  const lectures = new Map(((lectureRows ?? []) as LectureRow[]).map(l => [l.id, l]))
+
+  const courseIds = [...new Set(Array.from(lectures.values()).map(l => l.course_id))]
+  const { data: courseRows } = courseIds.length
+    ? await supabase.from('courses').select('id, title').in('id', courseIds)
+    : { data: [] }
+  const courses = new Map(((courseRows ?? []) as CourseRow[]).map(c => [c.id, c.title]))
+
+  return NextResponse.json({
+    jobs: jobs.map(j => {
+      const lec = lectures.get(j.lecture_id)
+      return {
+        ...j,
+        lectureTitle:  lec?.title ?? null,
+        lectureNumber: lec?.order_in_course ?? null,
+        courseId:      lec?.course_id ?? null,
+        courseTitle:   lec ? courses.get(lec.course_id) ?? null : null,
+      }
+    }),
+    total: count ?? 0,
+    counts,
+  })
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/regen-jobs
+// Body: { jobType, lectureId }
+// Queues a regeneration; an open job for the same lecture + type is reused.
+// ---------------------------------------------------------------------------
+export async function POST(req: NextRequest) {
+  const { jobType, lectureId } = await req.json() as { jobType?: RegenJobType; lectureId?: number }
+
+  if (!jobType || !REGEN_JOB_TYPES.includes(jobType) || !lectureId) {
+    return NextResponse.json({ error: 'jobType and lectureId required' }, { status: 400 })
+  }
+
+  try {
+    const { jobId, existing } = await enqueueRegenJob(jobType, lectureId)
+    if (!existing) {
+      await recordAudit(req, {
+        action:     'regen_job.create',
+        entityType: 'lectures',
+        entityId:   lectureId,
+        lectureId,
+        before:     null,
+        after:      { jobId, jobType },
+      })
+    }
+    return NextResponse.json({ jobId, existing })
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
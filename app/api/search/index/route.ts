@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { indexLectures } from '@/lib/transcript-search'
+
+const DEFAULT_BATCH = 25
+
+// GET /api/search/index
+// Returns { indexed, lectures, lastIndexedAt } — how much of the catalogue is searchable
+export async function GET() {
+  const [{ count: indexed }, { count: lectures }, { data: latest }] = await Promise.all([
+    supabase.from('transcript_index').select('lecture_id', { count: 'exact', head: true }),
+    supabase.from('lectures').select('id', { count: 'exact', head: true }),
+    supabase.from('transcript_index').select('indexed_at').order('indexed_at', { ascending: false }).limit(1),
+  ])
+  return NextResponse.json({
+    indexed:       indexed ?? 0,
+    lectures:      lectures ?? 0,
+    lastIndexedAt: (latest?.[0]?.indexed_at as string | undefined) ?? null,
+  })
+}
+
+// POST /api/search/index
+// Body: { courseId?, afterLectureId?, limit? }
+// (Re)builds the index one batch at a time: indexes the next `limit` lectures
+// with id > afterLectureId. The client repeats with the returned cursor until
+// nextAfterLectureId is null.
+// Returns { indexed, missing, failed, failedIds, nextAfterLectureId }
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({})) as { courseId?: number; afterLectureId?: number; limit?: number }
+  const limit = Math.min(Math.max(body.limit ?? DEFAULT_BATCH, 1), 100)
+
+  let query = supabase
+    .from('lectures')
+    .select('id')
+    .gt('id', body.afterLectureId ?? 0)
+    .order('id', { ascending: true })
+    .limit(limit)
+  if (body.courseId) query = query.eq('course_id', body.courseId)
+
+  const { data, error } = await query
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  const ids    = ((data ?? []) as { id: number }[]).map(l => l.id)
+  const counts = await indexLectures(ids)
+
+  return NextResponse.json({
+    ...counts,
+    nextAfterLectureId: ids.length === limit ? ids[ids.length - 1] : null,
+  })
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { searchTranscripts, syncTranscriptIndex } from '@/lib/transcript-search'
+
+const MAX_LIMIT = 50
+
+// GET /api/search?q=...[&courseId=X][&limit=20][&offset=0]
+// Full-text search over lecture transcripts (Hebrew or English).
+// Every term must appear; "quoted phrases" match as a whole.
+// Returns { hits, total, terms } — hits carry lecture/course context and
+// highlighted snippets.
+export async function GET(req: NextRequest) {
+  const sp       = req.nextUrl.searchParams
+  const q        = sp.get('q')?.trim() ?? ''
+  const courseId = sp.get('courseId') ? Number(sp.get('courseId')) : undefined
+  const limit    = Math.min(Number(sp.get('limit') ?? 20) || 20, MAX_LIMIT)
+  const offset   = Math.max(Number(sp.get('offset') ?? 0) || 0, 0)
+
+  if (!q) return NextResponse.json({ error: 'q required' }, { status: 400 })
+
+  // Pick up lectures transcribed since the last search
+  await syncTranscriptIndex()
+
+  try {
+    return NextResponse.json(await searchTranscripts(q, { courseId, limit, offset }))
+  } catch (err) {
+    console.error('[search]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
@@ -2,11 +2,9 @@ import { NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { r2, bucketName } from '@/lib/r2'
 import { ListObjectsV2Command } from '@aws-sdk/client-s3'
+import { ENTITY_TYPES, EntityType } from '@/lib/constants'
 
-const ENTITY_TABLES = [
-  'courses', 'lectures', 'directors', 'films', 'writers',
-  'books', 'painters', 'paintings', 'philosophers', 'themes',
-] as const
+const ENTITY_TABLES = Object.keys(ENTITY_TYPES) as EntityType[]
 
 function withTimeout<T>(promise: Promise<T>, ms = 9000): Promise<T> {
   return Promise.race([
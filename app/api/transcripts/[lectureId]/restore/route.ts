@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { recordAudit } from '@/lib/audit'
+import { indexLectureTranscript } from '@/lib/transcript-search'
+import { fetchLectureLocation, getTranscriptVersion, saveTranscript } from '@/lib/transcripts'
+
+type Params = { params: Promise<{ lectureId: string }> }
+
+// POST /api/transcripts/[lectureId]/restore
+// Body: { version } — makes a backup version current again (the current text is backed up first)
+export async function POST(req: NextRequest, { params }: Params) {
+  const { lectureId } = await params
+  const { version }   = await req.json() as { version?: string }
+  if (!version) return NextResponse.json({ error: 'version required' }, { status: 400 })
+
+  const loc = await fetchLectureLocation(Number(lectureId))
+  if (!loc) return NextResponse.json({ error: 'Lecture not found or course has no r2_dir' }, { status: 404 })
+
+  try {
+    const text   = await getTranscriptVersion(loc.r2Prefix, version)
+    const backup = await saveTranscript(loc.r2Prefix, text)
+    await indexLectureTranscript(loc.lectureId)
+    await recordAudit(req, {
+      action:     'transcript.restore',
+      entityType: 'lectures',
+      entityId:   loc.lectureId,
+      lectureId:  loc.lectureId,
+      courseId:   loc.courseId,
+      before:     backup ? { version: backup } : null,
+      after:      { restoredFrom: version },
+    })
+    return NextResponse.json({ ok: true, text, backup })
+  } catch (err) {
+    console.error('[restore transcript]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
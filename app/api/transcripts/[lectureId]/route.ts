@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getR2Text } from '@/lib/r2'
+import { recordAudit } from '@/lib/audit'
+import { indexLectureTranscript } from '@/lib/transcript-search'
+import {
+  fetchLectureLocation, getTranscriptVersion, listTranscriptVersions, saveTranscript, transcriptKey,
+} from '@/lib/transcripts'
+
+type Params = { params: Promise<{ lectureId: string }> }
+
+// GET /api/transcripts/[lectureId][?version=transcript.<stamp>.txt]
+// Returns the current transcript (or a backup version) and the list of versions
+export async function GET(req: NextRequest, { params }: Params) {
+  const { lectureId } = await params
+  const loc = await fetchLectureLocation(Number(lectureId))
+  if (!loc) return NextResponse.json({ error: 'Lecture not found or course has no r2_dir' }, { status: 404 })
+
+  const version = req.nextUrl.searchParams.get('version')
+  try {
+    const [text, versions] = await Promise.all([
+      version ? getTranscriptVersion(loc.r2Prefix, version) : getR2Text(transcriptKey(loc.r2Prefix)),
+      listTranscriptVersions(loc.r2Prefix),
+    ])
+    return NextResponse.json({
+      lectureId:   loc.lectureId,
+      courseId:    loc.courseId,
+      title:       loc.title,
+      courseTitle: loc.courseTitle,
+      version:     version ?? null,
+      text,
+      versions,
+    })
+  } catch (err) {
+    console.error('[GET transcript]', err)
+    return NextResponse.json({ error: 'Transcript not found in R2' }, { status: 404 })
+  }
+}
+
+// PUT /api/transcripts/[lectureId]
+// Body: { text }
+// Saves a corrected transcript; the previous text is kept as a version.
+export async function PUT(req: NextRequest, { params }: Params) {
+  const { lectureId } = await params
+  const { text }      = await req.json() as { text?: string }
+  if (typeof text !== 'string' || !text.trim()) {
+    return NextResponse.json({ error: 'text required' }, { status: 400 })
+  }
+
+  const loc = await fetchLectureLocation(Number(lectureId))
+  if (!loc) return NextResponse.json({ error: 'Lecture not found or course has no r2_dir' }, { status: 404 })
+
+  try {
+    const backup = await saveTranscript(loc.r2Prefix, text)
+    await indexLectureTranscript(loc.lectureId)
+    await recordAudit(req, {
+      action:     'transcript.update',
+      entityType: 'lectures',
+      entityId:   loc.lectureId,
+      lectureId:  loc.lectureId,
+      courseId:   loc.courseId,
+      before:     backup ? { version: backup } : null,
+      after:      { length: text.length },
+    })
+    return NextResponse.json({ ok: true, backup })
+  } catch (err) {
+    console.error('[PUT transcript]', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { recordAudit } from '@/lib/audit'
+import { listR2LectureNumbers, queueLectures } from '@/lib/upload-jobs'
+
+// POST /api/upload-jobs/bulk
+// Body: { scope: 'course' | 'range' | 'failed', courseId?, from?, to?, priority? }
+//   course — every lecture of the course found in R2 that is not transcribed or queued yet
+//   range  — the same, limited to lectures from..to (inclusive)
+//   failed — re-queues every failed job of the course, or of all courses when courseId is omitted
+// Returns { queued, requeued, skipped }.
+export async function POST(req: NextRequest) {
+  const body = await req.json() as {
+    scope:     'course' | 'range' | 'failed'
+    courseId?: number
+    from?:     number
+    to?:       number
+    priority?: number
+  }
+  const priority = Number.isInteger(body.priority) ? body.priority! : 0
+
+  // ── failed — no R2 lookup needed ─────────────────────────────────────────
+  if (body.scope === 'failed') {
+    let query = supabase
+      .from('upload_jobs')
+      .update({ status: 'pending', retry_count: 0, output: null, completed_at: null, started_at: null, position: null, priority })
+      .eq('status', 'failed')
+    if (body.courseId) query = query.eq('course_id', body.courseId)
+
+    const { data, error } = await query.select('id')
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+    const requeued = data?.length ?? 0
+    await recordAudit(req, {
+      action:   'upload_jobs.bulk_queue',
+      courseId: body.courseId ?? null,
+      before:   null,
+      after:    { scope: 'failed', requeued },
+    })
+    return NextResponse.json({ queued: 0, requeued, skipped: 0 })
+  }
+
+  if (body.scope !== 'course' && body.scope !== 'range') {
+    return NextResponse.json({ error: 'scope must be course, range or failed' }, { status: 400 })
+  }
+  if (!body.courseId) {
+    return NextResponse.json({ error: 'courseId required' }, { status: 400 })
+  }
+  if (body.scope === 'range' && (!body.from || !body.to || body.from > body.to)) {
+    return NextResponse.json({ error: 'from and to required (from <= to)' }, { status: 400 })
+  }
+
+  const { data: course, error: courseErr } = await supabase
+    .from('courses')
+    .select('r2_dir')
+    .eq('id', body.courseId)
+    .single()
+
+  if (courseErr || !course?.r2_dir) {
+    return NextResponse.json({ error: 'Course not found or has no r2_dir' }, { status: 404 })
+  }
+
+  let lectureNumbers: number[]
+  try {
+    lectureNumbers = await listR2LectureNumbers(course.r2_dir)
+  } catch (err) {
+    return NextResponse.json({ error: `R2 listing failed: ${err instanceof Error ? err.message : err}` }, { status: 502 })
+  }
+  if (body.scope === 'range') {
+    lectureNumbers = lectureNumbers.filter(n => n >= body.from! && n <= body.to!)
+  }
+
+  // Lectures already in the DB were transcribed (possibly before upload_jobs existed)
+  const { data: dbLectures } = await supabase
+    .from('lectures')
+    .select('order_in_course')
+    .eq('course_id', body.courseId)
+  const transcribed = new Set(((dbLectures ?? []) as { order_in_course: number | null }[]).map(l => l.order_in_course))
+  const toQueue     = lectureNumbers.filter(n => !transcribed.has(n))
+
+  try {
+    const result = await queueLectures(body.courseId, course.r2_dir, toQueue, priority)
+    await recordAudit(req, {
+      action:   'upload_jobs.bulk_queue',
+      courseId: body.courseId,
+      before:   null,
+      after:    { scope: body.scope, from: body.from ?? null, to: body.to ?? null, ...result },
+    })
+    return NextResponse.json({ ...result, skipped: result.skipped + lectureNumbers.length - toQueue.length })
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
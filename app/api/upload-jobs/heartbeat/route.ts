@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { touchWorker } from '@/lib/upload-jobs'
+
+// POST /api/upload-jobs/heartbeat
+// Body: { workerId, jobId?, output? }
+// Sent by the daemon about once a minute — while idle (no jobId) and while
+// transcribing. Extends the job's lease; output, if given, replaces the job's log.
+// Returns { ok, cancel } — cancel is true when the job is no longer running
+// (cancelled from the panel or recovered as stale) and should be abandoned.
+export async function POST(req: NextRequest) {
+  const body     = await req.json().catch(() => ({})) as { workerId?: string; jobId?: number; output?: string }
+  const workerId = body.workerId ?? 'default'
+
+  if (!body.jobId) {
+    await touchWorker(workerId, null)
+    return NextResponse.json({ ok: true, cancel: false })
+  }
+
+  const update: Record<string, unknown> = { heartbeat_at: new Date().toISOString() }
+  if (body.output !== undefined) update.output = body.output
+
+  const { data, error } = await supabase
+    .from('upload_jobs')
+    .update(update)
+    .eq('id', body.jobId)
+    .eq('status', 'running')
+    .eq('worker_id', workerId)
+    .select('id')
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const holding = !!data?.length
+  await touchWorker(workerId, holding ? body.jobId : null)
+  return NextResponse.json({ ok: true, cancel: !holding })
+}
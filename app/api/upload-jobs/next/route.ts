@@ -1,54 +1,61 @@
 // LOCATION: app/api/upload-jobs/next/route.ts  (NEW file — create this folder)
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { supabase } from '@/lib/supabase'
+import { getUploadQueueSettings, recoverStaleUploadJobs, touchWorker } from '@/lib/upload-jobs'
+import { syncTranscriptIndex } from '@/lib/transcript-search'
 
 // POST /api/upload-jobs/next
-// Called by the daemon to atomically claim the oldest pending job.
-// Returns { job } or { job: null } if nothing is pending.
-// IMPORTANT: Checks for any globally running job first — if one is running, returns null.
-// This enforces strict single-concurrency across ALL courses.
-export async function POST(_req: NextRequest) {
-  // 1. Is anything already running? If so, do nothing.
-  const { data: runningRows } = await supabase
-    .from('upload_jobs')
-    .select('id')
-    .eq('status', 'running')
-    .limit(1)
-
-  if (runningRows && runningRows.length > 0) {
-    return NextResponse.json({ job: null })
+// Body: { workerId? }
+// Called by each daemon to atomically claim the next pending job.
+// Returns { job } or { job: null } if nothing can be claimed.
+// Jobs are handed out by priority (high first), then manual position, then age,
+// while staying within the global and per-course concurrency limits in
+// upload_queue_settings — the claim_upload_job function picks and claims the
+// job in one locked step, so concurrent claims can't exceed the limits.
+// Nothing is handed out while the queue is paused.
+// Running jobs whose lease expired (no heartbeat) are recovered first, so a
+// crashed daemon no longer stalls the queue. Transcripts of jobs that
+// succeeded since the last call are added to the search index once the
+// response has been sent, so the claim doesn't wait on R2 reads.
+export async function POST(req: NextRequest) {
+  const body     = await req.json().catch(() => ({})) as { workerId?: string }
+  const workerId = body.workerId ?? 'default'
+
+  await touchWorker(workerId, null)
+
+  // 0. Return abandoned running jobs to the queue
+  await recoverStaleUploadJobs()
+
+  // A daemon asks for its next job right after finishing one
+  after(() => syncTranscriptIndex())
+
+  const settings = await getUploadQueueSettings()
+  if (settings.paused) {
+    return NextResponse.json({ job: null, paused: true })
   }
 
-  // 2. Pick the oldest pending job (any course)
-  const { data: pendingRows } = await supabase
-    .from('upload_jobs')
-    .select('id, course_id, lecture_number, r2_dir')
-    .eq('status', 'pending')
-    .order('created_at', { ascending: true })
-    .limit(1)
-
-  if (!pendingRows || pendingRows.length === 0) {
-    return NextResponse.json({ job: null })
+  // 1. Pick and claim the next job that fits the limits
+  const { data: claimed, error: claimErr } = await supabase.rpc('claim_upload_job', { worker: workerId })
+  if (claimErr) {
+    return NextResponse.json({ error: claimErr.message }, { status: 500 })
   }
 
-  const job = pendingRows[0] as {
+  // The function returns the whole row; the daemon gets the fields it uses
+  const row = ((claimed ?? []) as {
     id:             number
     course_id:      number
     lecture_number: number
     r2_dir:         string
+    priority:       number
+  }[])[0]
+  if (!row) {
+    return NextResponse.json({ job: null })
   }
 
-  // 3. Atomically mark it as running
-  const { error: updateErr } = await supabase
-    .from('upload_jobs')
-    .update({ status: 'running', started_at: new Date().toISOString() })
-    .eq('id', job.id)
-    .eq('status', 'pending')  // guard against race condition
-
-  if (updateErr) {
-    return NextResponse.json({ error: updateErr.message }, { status: 500 })
-  }
+  const { id, course_id, lecture_number, r2_dir, priority } = row
+  const job = { id, course_id, lecture_number, r2_dir, priority }
 
+  await touchWorker(workerId, job.id)
   return NextResponse.json({ job })
-}
\ No newline at end of file
+}
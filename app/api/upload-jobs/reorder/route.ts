@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { recordAudit } from '@/lib/audit'
+
+// POST /api/upload-jobs/reorder
+// Body: { jobIds: number[] } — pending jobs of one priority in the desired claim order
+// Positions are only compared within the same priority, so jobs of different
+// priorities can't be ordered against each other. Jobs not listed keep their
+// position (new jobs have none and run after ordered ones). All positions are
+// written in one statement (reorder_upload_jobs, see lib/upload-jobs).
+export async function POST(req: NextRequest) {
+  const { jobIds } = await req.json() as { jobIds?: number[] }
+  if (!Array.isArray(jobIds) || jobIds.length === 0 || !jobIds.every(Number.isInteger)) {
+    return NextResponse.json({ error: 'jobIds required' }, { status: 400 })
+  }
+
+  const { data: jobs, error: fetchErr } = await supabase
+    .from('upload_jobs')
+    .select('id, priority, position')
+    .in('id', jobIds)
+    .eq('status', 'pending')
+  if (fetchErr) {
+    return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+  }
+  const pending = (jobs ?? []) as { id: number; priority: number; position: number | null }[]
+  if (new Set(pending.map(j => j.priority)).size > 1) {
+    return NextResponse.json({ error: 'Only jobs of the same priority can be reordered' }, { status: 400 })
+  }
+
+  const { error } = await supabase.rpc('reorder_upload_jobs', { job_ids: jobIds })
+  if (error) {
+    console.error('[upload-jobs reorder]', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await recordAudit(req, {
+    action: 'upload_jobs.reorder',
+    before: pending.map(j => ({ jobId: j.id, position: j.position })),
+    after:  jobIds.map((jobId, i) => ({ jobId, position: i + 1 })),
+  })
+  return NextResponse.json({ ok: true })
+}
@@ -2,6 +2,8 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
+import { recordAudit, snapshotRow } from '@/lib/audit'
+import { UPLOAD_LEASE_MS, WorkerRow, getUploadQueueSettings } from '@/lib/upload-jobs'
 
 interface JobRow {
   id:             number
@@ -11,6 +13,10 @@ interface JobRow {
   completed_at:   string | null
   created_at:     string | null
   started_at:     string | null
+  worker_id:      string | null
+  heartbeat_at:   string | null
+  priority:       number | null
+  position:       number | null
 }
 
 interface CourseRow {
@@ -19,21 +25,36 @@ interface CourseRow {
 }
 
 // GET /api/upload-jobs
-// Returns transcription job progress grouped by course.
+// Returns transcription job progress grouped by course, plus the last
+// heartbeat of every known worker.
 export async function GET() {
-  const { data: jobRows, error: jobErr } = await supabase
-    .from('upload_jobs')
-    .select('id, course_id, status, lecture_number, completed_at, created_at, started_at')
-    .order('created_at', { ascending: false })
+  const [{ data: jobRows, error: jobErr }, { data: workerRows }] = await Promise.all([
+    supabase
+      .from('upload_jobs')
+      .select('id, course_id, status, lecture_number, completed_at, created_at, started_at, worker_id, heartbeat_at, priority, position')
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('transcriber_workers')
+      .select('worker_id, first_seen_at, last_heartbeat_at, current_job_id')
+      .order('last_heartbeat_at', { ascending: false }),
+  ])
 
   if (jobErr) {
     return NextResponse.json({ error: jobErr.message }, { status: 500 })
   }
 
-  const rows = (jobRows ?? []) as JobRow[]
+  const rows   = (jobRows ?? []) as JobRow[]
+  const paused = (await getUploadQueueSettings()).paused
+
+  const workers = ((workerRows ?? []) as WorkerRow[]).map(w => ({
+    workerId:        w.worker_id,
+    lastHeartbeatAt: w.last_heartbeat_at,
+    currentJobId:    w.current_job_id,
+    stale:           Date.now() - new Date(w.last_heartbeat_at).getTime() > UPLOAD_LEASE_MS,
+  }))
 
   if (rows.length === 0) {
-    return NextResponse.json({ jobs: [], active: [], lastCompleted: null, succeededPerCourse: {} })
+    return NextResponse.json({ jobs: [], active: [], lastCompleted: null, succeededPerCourse: {}, workers, paused })
   }
 
   // Fetch course titles
@@ -77,17 +98,26 @@ export async function GET() {
     else if (row.status === 'pending')   g.pending++
   }
 
-  // Active jobs (running or pending), sorted by created_at ascending (oldest first)
-  // Include started_at so the UI can show elapsed time
+  // Active jobs (running or pending): running first, then in claim order
+  // (priority, position, oldest first). Include started_at so the UI can show elapsed time
   const active = rows
     .filter(r => r.status === 'running' || r.status === 'pending')
-    .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? ''))
+    .sort((a, b) =>
+      Number(b.status === 'running') - Number(a.status === 'running') ||
+      (b.priority ?? 0) - (a.priority ?? 0) ||
+      (a.position ?? Infinity) - (b.position ?? Infinity) ||
+      (a.created_at ?? '').localeCompare(b.created_at ?? ''),
+    )
     .map(r => ({
+      jobId:         r.id,
       courseId:      r.course_id,
       courseTitle:   courseMap.get(r.course_id) ?? `Course ${r.course_id}`,
       lectureNumber: r.lecture_number,
       status:        r.status,
       startedAt:     r.started_at ?? null,
+      workerId:      r.worker_id ?? null,
+      heartbeatAt:   r.heartbeat_at ?? null,
+      priority:      r.priority ?? 0,
     }))
 
   // Most recent terminal job
@@ -125,12 +155,13 @@ export async function GET() {
     }
   }
 
-  return NextResponse.json({ jobs: [...groups.values()], active, lastCompleted, succeededPerCourse })
+  return NextResponse.json({ jobs: [...groups.values()], active, lastCompleted, succeededPerCourse, workers, paused })
 }
 
 // DELETE /api/upload-jobs
 // Body: { jobId: number }
 // Cancels a pending job (deletes the row) or marks a running job as failed.
+// The daemon holding a running job sees cancel: true on its next heartbeat.
 export async function DELETE(req: NextRequest) {
   const body  = await req.json()
   const jobId = body.jobId as number | undefined
@@ -141,7 +172,7 @@ export async function DELETE(req: NextRequest) {
 
   const { data: job, error: fetchErr } = await supabase
     .from('upload_jobs')
-    .select('id, status')
+    .select('id, status, course_id, lecture_number')
     .eq('id', jobId)
     .maybeSingle()
 
@@ -149,22 +180,31 @@ export async function DELETE(req: NextRequest) {
     return NextResponse.json({ error: 'Job not found' }, { status: 404 })
   }
 
-  interface JobRecord { id: number; status: string }
+  interface JobRecord { id: number; status: string; course_id: number; lecture_number: number }
   const j = job as JobRecord
+  const audit = (status: string) => recordAudit(req, {
+    action:   'upload_jobs.cancel',
+    courseId: j.course_id,
+    before:   { jobId: j.id, lectureNumber: j.lecture_number, status: j.status },
+    after:    { jobId: j.id, lectureNumber: j.lecture_number, status },
+  })
 
   if (j.status === 'pending') {
     const { error } = await supabase.from('upload_jobs').delete().eq('id', jobId)
     if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+    await audit('deleted')
     return NextResponse.json({ ok: true, action: 'deleted' })
   }
 
   if (j.status === 'running') {
-    // Can't kill the subprocess remotely; mark as failed so it won't be retried
+    // Can't kill the subprocess remotely; mark as failed so it won't be retried —
+    // the worker stops at its next heartbeat
     const { error } = await supabase
       .from('upload_jobs')
       .update({ status: 'failed', output: '[Cancelled by user]', completed_at: new Date().toISOString() })
       .eq('id', jobId)
     if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+    await audit('failed')
     return NextResponse.json({ ok: true, action: 'cancelled' })
   }
 
@@ -174,13 +214,49 @@ export async function DELETE(req: NextRequest) {
   )
 }
 
+// PATCH /api/upload-jobs
+// Body: { jobId: number, priority: number }
+// Changes the priority of a pending job — higher is claimed first.
+export async function PATCH(req: NextRequest) {
+  const body     = await req.json()
+  const jobId    = body.jobId    as number | undefined
+  const priority = body.priority as number | undefined
+
+  if (!jobId || !Number.isInteger(priority)) {
+    return NextResponse.json({ error: 'jobId and integer priority required' }, { status: 400 })
+  }
+
+  const before = await snapshotRow('upload_jobs', jobId, 'course_id, priority')
+
+  const { data, error } = await supabase
+    .from('upload_jobs')
+    .update({ priority })
+    .eq('id', jobId)
+    .eq('status', 'pending')
+    .select('id')
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  if (!data?.length) {
+    return NextResponse.json({ error: 'Only pending jobs can be reprioritised' }, { status: 409 })
+  }
+
+  await recordAudit(req, {
+    action:   'upload_jobs.priority',
+    courseId: (before?.course_id as number | undefined) ?? null,
+    before:   { jobId, priority: before?.priority ?? null },
+    after:    { jobId, priority },
+  })
+  return NextResponse.json({ ok: true })
+}
+
 // POST /api/upload-jobs
-// Body: { courseId: number, lectureNumber: number }
+// Body: { courseId: number, lectureNumber: number, priority?: number }
 // Queues a single lecture for transcription. Re-queues failed jobs.
 export async function POST(req: NextRequest) {
   const body          = await req.json()
   const courseId      = body.courseId      as number | undefined
   const lectureNumber = body.lectureNumber as number | undefined
+  const priority      = Number.isInteger(body.priority) ? body.priority as number : 0
 
   if (!courseId || !lectureNumber) {
     return NextResponse.json({ error: 'courseId and lectureNumber required' }, { status: 400 })
@@ -219,12 +295,18 @@ export async function POST(req: NextRequest) {
     // Re-queue a failed job
     const { error: updateErr } = await supabase
       .from('upload_jobs')
-      .update({ status: 'pending', retry_count: 0, output: null, completed_at: null, started_at: null })
+      .update({ status: 'pending', retry_count: 0, output: null, completed_at: null, started_at: null, priority })
       .eq('id', existingJob.id)
 
     if (updateErr) {
       return NextResponse.json({ error: updateErr.message }, { status: 500 })
     }
+    await recordAudit(req, {
+      action:   'upload_jobs.queue',
+      courseId,
+      before:   { jobId: existingJob.id, lectureNumber, status: 'failed' },
+      after:    { jobId: existingJob.id, lectureNumber, status: 'pending', priority },
+    })
     return NextResponse.json({ jobId: existingJob.id })
   }
 
@@ -236,6 +318,7 @@ export async function POST(req: NextRequest) {
       r2_dir:         course.r2_dir,
       lecture_number: lectureNumber,
       status:         'pending',
+      priority,
     })
     .select('id')
     .single()
@@ -244,5 +327,12 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: jobErr?.message ?? 'Insert failed' }, { status: 500 })
   }
 
-  return NextResponse.json({ jobId: (job as { id: number }).id })
+  const newId = (job as { id: number }).id
+  await recordAudit(req, {
+    action:   'upload_jobs.queue',
+    courseId,
+    before:   null,
+    after:    { jobId: newId, lectureNumber, status: 'pending', priority },
+  })
+  return NextResponse.json({ jobId: newId })
 }
\ No newline at end of file
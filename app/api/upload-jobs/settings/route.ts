@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { recordAudit } from '@/lib/audit'
+import { getUploadQueueSettings } from '@/lib/upload-jobs'
+
+// GET /api/upload-jobs/settings
+export async function GET() {
+  return NextResponse.json({ settings: await getUploadQueueSettings() })
+}
+
+// PATCH /api/upload-jobs/settings
+// Body: { maxConcurrent?, maxPerCourse?, paused? }
+// Pausing stops new claims; running jobs finish normally and no rows are touched.
+export async function PATCH(req: NextRequest) {
+  const body = await req.json() as { maxConcurrent?: number; maxPerCourse?: number; paused?: boolean }
+
+  const before = await getUploadQueueSettings()
+  const update: Record<string, number | boolean> = {}
+  if (body.paused !== undefined) update.paused = !!body.paused
+  for (const [key, col] of [['maxConcurrent', 'max_concurrent'], ['maxPerCourse', 'max_per_course']] as const) {
+    const v = body[key]
+    if (v === undefined) continue
+    if (!Number.isInteger(v) || v < 1 || v > 20) {
+      return NextResponse.json({ error: `${key} must be an integer between 1 and 20` }, { status: 400 })
+    }
+    update[col] = v
+  }
+  if (!Object.keys(update).length) {
+    return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+  }
+
+  const { error } = await supabase
+    .from('upload_queue_settings')
+    .upsert({ id: 1, ...before, ...update, updated_at: new Date().toISOString() }, { onConflict: 'id' })
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await recordAudit(req, {
+    action: 'upload_queue.settings',
+    before,
+    after:  { ...before, ...update },
+  })
+
+  return NextResponse.json({ ok: true, settings: { ...before, ...update } })
+}
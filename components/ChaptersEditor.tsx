@@ -0,0 +1,276 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { AlertTriangle, Crosshair, ListOrdered, Loader2, Play, Plus, Save, Trash2 } from 'lucide-react'
+import clsx from 'clsx'
+import { useToast } from './ToastProvider'
+import { VttCue, VttIssue, formatTimestamp, parseTimestamp, validateCues } from '@/lib/vtt'
+
+const DEFAULT_CHAPTER_SECONDS = 300
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+/** Editable cue — times kept as typed so half-edited values don't jump around */
+interface CueDraft { key: number; start: string; end: string; title: string }
+
+let nextKey = 1
+const toDraft = (c: VttCue): CueDraft => ({
+  key: nextKey++, start: formatTimestamp(c.start), end: formatTimestamp(c.end), title: c.title,
+})
+const toCue = (d: CueDraft): VttCue => ({ start: parseTimestamp(d.start), end: parseTimestamp(d.end), title: d.title })
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+export function ChaptersEditor({ lectureId }: { lectureId: string }) {
+  const { success, error: showError } = useToast()
+
+  const [drafts,   setDrafts]   = useState<CueDraft[]>([])
+  const [original, setOriginal] = useState('')
+  const [exists,   setExists]   = useState(false)
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [mediaUrl, setMediaUrl] = useState<string | null>(null)
+  const [loading,  setLoading]  = useState(false)
+  const [saving,   setSaving]   = useState(false)
+  const [now,      setNow]      = useState(0)
+
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  const cues   = useMemo(() => drafts.map(toCue), [drafts])
+  const issues = useMemo(() => validateCues(cues), [cues])
+  const dirty  = JSON.stringify(cues) !== original
+  const active = cues.findIndex(c => now >= c.start && now < c.end)
+
+  const issuesFor = (i: number) => issues.filter(x => x.index === i)
+  const fileIssues: VttIssue[] = issues.filter(x => x.index === null)
+
+  // ── load chapters when lecture changes ───────────────────────────────────
+  useEffect(() => {
+    setDrafts([])
+    setOriginal(JSON.stringify([]))
+    setExists(false)
+    setWarnings([])
+    setMediaUrl(null)
+    if (!lectureId) return
+
+    let cancelled = false
+    setLoading(true)
+    fetch(`/api/chapters/${lectureId}`)
+      .then(async r => {
+        const d = await r.json()
+        if (cancelled) return
+        if (!r.ok) throw new Error(d.error)
+        setDrafts((d.cues as VttCue[]).map(toDraft))
+        setOriginal(JSON.stringify(d.cues))
+        setExists(d.exists)
+        setWarnings(d.warnings ?? [])
+        setMediaUrl(d.mediaUrl)
+      })
+      .catch(err => { if (!cancelled) showError('Failed to load chapters', err instanceof Error ? err.message : String(err)) })
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => { cancelled = true }
+  }, [lectureId, showError])
+
+  // ── editing ──────────────────────────────────────────────────────────────
+  function update(key: number, patch: Partial<CueDraft>) {
+    setDrafts(ds => ds.map(d => d.key === key ? { ...d, ...patch } : d))
+  }
+
+  /** Normalise a typed time once the field loses focus */
+  function tidyTime(key: number, field: 'start' | 'end', value: string) {
+    const secs = parseTimestamp(value)
+    if (Number.isFinite(secs)) update(key, { [field]: formatTimestamp(secs) })
+  }
+
+  function insertAfter(index: number) {
+    const prev  = cues[index]
+    const next  = cues[index + 1]
+    const start = prev && Number.isFinite(prev.end) ? prev.end : (videoRef.current?.currentTime ?? 0)
+    const end   = next && Number.isFinite(next.start) && next.start > start ? next.start : start + DEFAULT_CHAPTER_SECONDS
+    const draft = toDraft({ start, end, title: '' })
+    setDrafts(ds => [...ds.slice(0, index + 1), draft, ...ds.slice(index + 1)])
+  }
+
+  function remove(key: number) {
+    setDrafts(ds => ds.filter(d => d.key !== key))
+  }
+
+  function sortByStart() {
+    setDrafts(ds => [...ds].sort((a, b) => parseTimestamp(a.start) - parseTimestamp(b.start)))
+  }
+
+  /** End every chapter where the next one starts */
+  function closeGaps() {
+    setDrafts(ds => ds.map((d, i) => i < ds.length - 1 ? { ...d, end: ds[i + 1].start } : d))
+  }
+
+  // ── media navigation ─────────────────────────────────────────────────────
+  function seek(seconds: number) {
+    const v = videoRef.current
+    if (!v || !Number.isFinite(seconds)) return
+    v.currentTime = seconds
+    void v.play().catch(() => {})
+  }
+
+  function setFromPlayhead(key: number, field: 'start' | 'end') {
+    const v = videoRef.current
+    if (v) update(key, { [field]: formatTimestamp(v.currentTime) })
+  }
+
+  // ── save ─────────────────────────────────────────────────────────────────
+  async function handleSave() {
+    if (issues.length || !dirty) return
+    setSaving(true)
+    try {
+      const res  = await fetch(`/api/chapters/${lectureId}`, {
+        method:  'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ cues }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        const detail = (data.issues as VttIssue[] | undefined)?.map(i => i.message).join('; ')
+        throw new Error(detail || data.error)
+      }
+      setOriginal(JSON.stringify(cues))
+      setExists(true)
+      setWarnings([])
+      success('Chapters saved', data.backup ? 'Previous chapters.vtt kept as a version' : `${cues.length} chapters`)
+    } catch (err) {
+      showError('Save failed', err instanceof Error ? err.message : String(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const timeCls = (bad: boolean) => clsx(
+    'w-[7.5rem] px-2 py-1 rounded-lg bg-black/30 border text-xs font-mono text-aura-text focus:outline-none',
+    bad ? 'border-aura-error/40' : 'border-white/[0.08] focus:border-aura-accent/40',
+  )
+
+  return (
+    <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-3">
+      <div className="flex items-center gap-2">
+        <ListOrdered size={14} className="text-aura-accent" />
+        <h3 className="text-xs font-semibold text-aura-text">Chapters</h3>
+        <span className="text-[11px] text-aura-muted">
+          {exists ? `${drafts.length} in chapters.vtt` : 'No chapters.vtt yet'}
+        </span>
+        {loading && <Loader2 size={12} className="animate-spin text-aura-muted" />}
+      </div>
+
+      {mediaUrl && (
+        <video
+          ref={videoRef}
+          src={mediaUrl}
+          controls
+          preload="metadata"
+          onTimeUpdate={e => setNow(e.currentTarget.currentTime)}
+          className="w-full max-h-64 rounded-xl bg-black"
+        />
+      )}
+
+      {warnings.length > 0 && (
+        <div className="rounded-xl bg-aura-warning/[0.06] border border-aura-warning/20 p-2 text-[11px] text-aura-warning space-y-0.5">
+          {warnings.map((w, i) => <p key={i}>{w}</p>)}
+        </div>
+      )}
+
+      {/* Cues */}
+      <div className="space-y-1.5">
+        {drafts.map((d, i) => {
+          const rowIssues = issuesFor(i)
+          const cue       = cues[i]
+          return (
+            <div
+              key={d.key}
+              className={clsx(
+                'rounded-xl border p-2 space-y-1.5',
+                i === active ? 'bg-aura-accent/[0.05] border-aura-accent/25' : 'bg-black/20 border-white/[0.05]',
+                rowIssues.length > 0 && 'border-aura-error/30',
+              )}
+            >
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span className="w-5 text-[10px] text-aura-muted text-right">{i + 1}</span>
+                <input
+                  value={d.start}
+                  onChange={e => update(d.key, { start: e.target.value })}
+                  onBlur={e => tidyTime(d.key, 'start', e.target.value)}
+                  className={timeCls(!Number.isFinite(cue.start))}
+                />
+                {mediaUrl && (
+                  <button onClick={() => setFromPlayhead(d.key, 'start')} title="Set start to playhead" className="p-1 text-aura-muted hover:text-aura-accent">
+                    <Crosshair size={12} />
+                  </button>
+                )}
+                <span className="text-aura-muted text-xs">→</span>
+                <input
+                  value={d.end}
+                  onChange={e => update(d.key, { end: e.target.value })}
+                  onBlur={e => tidyTime(d.key, 'end', e.target.value)}
+                  className={timeCls(!Number.isFinite(cue.end))}
+                />
+                {mediaUrl && (
+                  <button onClick={() => setFromPlayhead(d.key, 'end')} title="Set end to playhead" className="p-1 text-aura-muted hover:text-aura-accent">
+                    <Crosshair size={12} />
+                  </button>
+                )}
+                <div className="ml-auto flex items-center">
+                  {mediaUrl && (
+                    <button onClick={() => seek(cue.start)} title="Play from here" className="p-1.5 rounded-lg text-aura-muted hover:text-aura-accent hover:bg-aura-accent/10">
+                      <Play size={12} />
+                    </button>
+                  )}
+                  <button onClick={() => insertAfter(i)} title="Insert chapter after" className="p-1.5 rounded-lg text-aura-muted hover:text-aura-text hover:bg-white/[0.05]">
+                    <Plus size={12} />
+                  </button>
+                  <button onClick={() => remove(d.key)} title="Remove" className="p-1.5 rounded-lg text-aura-muted hover:text-aura-error hover:bg-aura-error/10">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+              <input
+                dir="auto"
+                value={d.title}
+                onChange={e => update(d.key, { title: e.target.value })}
+                placeholder="Chapter title…"
+                className="w-full px-2 py-1.5 rounded-lg bg-black/30 border border-white/[0.08] text-sm text-aura-text focus:outline-none focus:border-aura-accent/40"
+              />
+              {rowIssues.map((x, j) => (
+                <p key={j} className="flex items-center gap-1 text-[11px] text-aura-error">
+                  <AlertTriangle size={11} /> {x.message}
+                </p>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+
+      {fileIssues.map((x, i) => <p key={i} className="text-[11px] text-aura-muted">{x.message}</p>)}
+
+      {/* Actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => insertAfter(drafts.length - 1)} className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs bg-black/20 text-aura-muted border border-white/[0.05] hover:text-aura-text">
+          <Plus size={12} /> Add chapter
+        </button>
+        <button onClick={sortByStart} disabled={drafts.length < 2} className="px-2.5 py-1.5 rounded-lg text-xs text-aura-muted hover:text-aura-text disabled:opacity-40">
+          Sort by start
+        </button>
+        <button onClick={closeGaps} disabled={drafts.length < 2} className="px-2.5 py-1.5 rounded-lg text-xs text-aura-muted hover:text-aura-text disabled:opacity-40">
+          Close gaps
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!dirty || saving || issues.length > 0}
+          className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold
+                     bg-aura-accent/15 text-aura-accent border border-aura-accent/30
+                     disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {saving ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />}
+          Save chapters
+        </button>
+      </div>
+    </div>
+  )
+}
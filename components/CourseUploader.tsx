@@ -1,15 +1,19 @@
 'use client'
 
 import { useCallback, useEffect, useRef, useState } from 'react'
-import { motion, AnimatePresence } from 'framer-motion'
+import { motion, AnimatePresence, Reorder } from 'framer-motion'
 import {
   ArrowLeft,
   BookOpen,
   Check,
   ChevronRight,
+  ChevronsUp,
   Clock,
   FolderOpen,
+  GripVertical,
   Loader2,
+  Pause,
+  Play,
   RefreshCw,
   Upload,
   X,
@@ -28,13 +32,25 @@ interface LectureItem   {
   lectureNumber: number
   status:        'none' | 'pending' | 'running' | 'succeeded' | 'failed'
   jobId:         number | null
+  priority:      number
+  workerId:      string | null
 }
-interface ActiveJob     { courseId: number; courseTitle: string; lectureNumber: number; status: string; startedAt: string | null }
+interface ActiveJob     {
+  jobId: number; courseId: number; courseTitle: string; lectureNumber: number; status: string; startedAt: string | null
+  workerId: string | null; heartbeatAt: string | null; priority: number
+}
+interface WorkerStatus  { workerId: string; lastHeartbeatAt: string; currentJobId: number | null; stale: boolean }
+interface QueueSettings { max_concurrent: number; max_per_course: number }
+
+// Matches UPLOAD_PRIORITY_HIGH in lib/upload-jobs
+const PRIORITY_HIGH = 10
 interface LastCompleted { courseId: number; courseTitle: string; lectureNumber: number; status: string; completedAt: string | null }
 interface UploadStatusData {
   active:             ActiveJob[]
   lastCompleted:      LastCompleted | null
   succeededPerCourse: Record<number, number>
+  workers:            WorkerStatus[]
+  paused:             boolean
 }
 
 type Phase = 'loading' | 'home' | 'form' | 'manage'
@@ -90,11 +106,12 @@ function StatusBadge({ status }: { status: LectureItem['status'] }) {
 // ---------------------------------------------------------------------------
 // Active job row with live elapsed timer
 // ---------------------------------------------------------------------------
-function ActiveJobRow({ job }: { job: ActiveJob }) {
+function ActiveJobRow({ job, draggable }: { job: ActiveJob; draggable?: boolean }) {
   const elapsed = useElapsed(job.status === 'running' ? job.startedAt : null)
 
   return (
     <div className="flex items-center gap-3 px-4 py-2.5">
+      {draggable && <GripVertical size={12} className="shrink-0 -ml-2 text-aura-muted/50 cursor-grab active:cursor-grabbing" />}
       <Loader2
         size={12}
         className={clsx(
@@ -103,9 +120,14 @@ function ActiveJobRow({ job }: { job: ActiveJob }) {
         )}
       />
       <div className="min-w-0 flex-1">
-        <p className="text-xs text-aura-text truncate">{job.courseTitle}</p>
+        <p className="text-xs text-aura-text truncate">
+          {job.priority > 0 && <ChevronsUp size={10} className="inline -mt-0.5 mr-0.5 text-aura-accent" />}
+          {job.courseTitle}
+        </p>
         <p className="text-[10px] text-aura-muted">
           Lecture {job.lectureNumber} · {job.status === 'running' ? 'in progress' : 'queued'}
+          {job.status === 'running' && job.workerId && ` · ${job.workerId}`}
+          {job.status === 'running' && job.heartbeatAt && ` · heartbeat ${formatRelative(job.heartbeatAt)}`}
         </p>
       </div>
       {job.status === 'running' && elapsed && (
@@ -118,6 +140,25 @@ function ActiveJobRow({ job }: { job: ActiveJob }) {
   )
 }
 
+// ---------------------------------------------------------------------------
+// Worker heartbeat row
+// ---------------------------------------------------------------------------
+function WorkerRow({ worker }: { worker: WorkerStatus }) {
+  return (
+    <div className="flex items-center gap-3 px-4 py-2">
+      <span className={clsx(
+        'w-1.5 h-1.5 rounded-full shrink-0',
+        worker.stale ? 'bg-aura-error' : 'bg-aura-success',
+      )} />
+      <p className="text-xs text-aura-text font-mono truncate flex-1">{worker.workerId}</p>
+      <p className={clsx('text-[10px] shrink-0', worker.stale ? 'text-aura-error' : 'text-aura-muted')}>
+        {worker.currentJobId ? `job #${worker.currentJobId} · ` : 'idle · '}
+        {formatRelative(worker.lastHeartbeatAt)}
+      </p>
+    </div>
+  )
+}
+
 // ---------------------------------------------------------------------------
 // Main component
 // ---------------------------------------------------------------------------
@@ -139,8 +180,16 @@ export function CourseUploader() {
   const [queuingAll,        setQueuingAll]        = useState(false)
   const [cancellingLecture, setCancellingLecture] = useState<number | null>(null)
   const [loadingLectures,   setLoadingLectures]   = useState(false)
+  const [reprioritising,    setReprioritising]    = useState<number | null>(null)
+  const [queueSettings,     setQueueSettings]     = useState<QueueSettings | null>(null)
 
-  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const [rangeFrom,         setRangeFrom]         = useState('')
+  const [rangeTo,           setRangeTo]           = useState('')
+  const [togglingPause,     setTogglingPause]     = useState(false)
+
+  const pollRef     = useRef<ReturnType<typeof setInterval> | null>(null)
+  const draggingRef = useRef(false)
+  const pendingRef  = useRef<ActiveJob[] | null>(null)   // latest order while dragging
 
   // -------------------------------------------------------------------------
   // Poll upload status (global queue)
@@ -149,7 +198,8 @@ export function CourseUploader() {
     try {
       const res  = await fetch('/api/upload-jobs')
       const data = await res.json()
-      setUploadStatus(data)
+      // Don't reshuffle the queue under the user's cursor
+      if (!draggingRef.current) setUploadStatus(data)
 
       // Refresh managed courses so upload count stays in sync
       const mRes  = await fetch('/api/courses/managed')
@@ -179,11 +229,12 @@ export function CourseUploader() {
   const loadHome = useCallback(async () => {
     setPhase('loading')
     try {
-      const [dirsRes, subjectsRes, managedRes, statusRes] = await Promise.all([
+      const [dirsRes, subjectsRes, managedRes, statusRes, settingsRes] = await Promise.all([
         fetch('/api/r2-dirs').then(r => r.json()),
         fetch('/api/subjects').then(r => r.json()),
         fetch('/api/courses/managed').then(r => r.json()),
         fetch('/api/upload-jobs').then(r => r.json()),
+        fetch('/api/upload-jobs/settings').then(r => r.json()),
       ])
 
       setDirs(
@@ -204,6 +255,7 @@ export function CourseUploader() {
         })),
       )
       setUploadStatus(statusRes)
+      setQueueSettings(settingsRes.settings ?? null)
       setPhase('home')
     } catch (e) {
       toastError('Failed', e instanceof Error ? e.message : String(e))
@@ -376,37 +428,146 @@ export function CourseUploader() {
   }
 
   // -------------------------------------------------------------------------
-  // Queue all unqueued / failed lectures
+  // Raise / lower the priority of a pending lecture
+  // -------------------------------------------------------------------------
+  async function handleTogglePriority(lecture: LectureItem) {
+    if (!lecture.jobId) return
+    const priority = lecture.priority > 0 ? 0 : PRIORITY_HIGH
+    setReprioritising(lecture.lectureNumber)
+    try {
+      const res  = await fetch('/api/upload-jobs', {
+        method:  'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ jobId: lecture.jobId, priority }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setLectures(prev => prev.map(l => l.lectureNumber === lecture.lectureNumber ? { ...l, priority } : l))
+      fetchUploadStatus()
+    } catch (e) {
+      toastError('Failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setReprioritising(null)
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Concurrency limits
   // -------------------------------------------------------------------------
-  async function handleQueueAll() {
+  async function handleSaveSettings(patch: { maxConcurrent?: number; maxPerCourse?: number }) {
+    try {
+      const res  = await fetch('/api/upload-jobs/settings', {
+        method:  'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify(patch),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setQueueSettings(data.settings)
+      success('Saved', 'Queue concurrency updated.')
+    } catch (e) {
+      toastError('Failed', e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Bulk queue — whole course, a lecture range, or every failed lecture
+  // -------------------------------------------------------------------------
+  async function handleBulkQueue(scope: 'course' | 'range' | 'failed') {
     if (!currentCourse || queuingAll) return
-    const toQueue = lectures.filter(l => l.status === 'none' || l.status === 'failed')
-    if (toQueue.length === 0) return
+    const body: Record<string, unknown> = { scope, courseId: currentCourse.id }
+    if (scope === 'range') {
+      body.from = Number(rangeFrom)
+      body.to   = Number(rangeTo || rangeFrom)
+    }
     setQueuingAll(true)
-    let queued = 0
-    for (const l of toQueue) {
-      try {
-        const res  = await fetch('/api/upload-jobs', {
-          method:  'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body:    JSON.stringify({ courseId: currentCourse.id, lectureNumber: l.lectureNumber }),
-        })
-        const data = await res.json()
-        if (!res.ok) throw new Error(data.error)
-        queued++
-        setLectures(prev =>
-          prev.map(x =>
-            x.lectureNumber === l.lectureNumber
-              ? { ...x, status: 'pending', jobId: data.jobId as number }
-              : x,
-          ),
-        )
-      } catch { /* individual failures are silent; the row stays at its current status */ }
+    try {
+      const res  = await fetch('/api/upload-jobs/bulk', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      const queued = (data.queued as number) + (data.requeued as number)
+      if (queued > 0) {
+        success('Queued!', `${queued} lecture${queued !== 1 ? 's' : ''} added to transcription queue.`)
+      } else {
+        success('Nothing to queue', 'Every selected lecture is already queued or transcribed.')
+      }
+      await loadLectures(currentCourse.id)
+      fetchUploadStatus()
+    } catch (e) {
+      toastError('Failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setQueuingAll(false)
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Drag-and-drop ordering of pending jobs — only within one priority, since
+  // the daemon claims higher priorities first whatever their position
+  // -------------------------------------------------------------------------
+  function handleReorderPending(priority: number, reordered: ActiveJob[]) {
+    pendingRef.current = reordered
+    setUploadStatus(prev => {
+      if (!prev) return prev
+      const pending = prev.active.filter(j => j.status === 'pending')
+      const start   = pending.findIndex(j => j.priority === priority)
+      const others  = pending.filter(j => j.priority !== priority)
+      return {
+        ...prev,
+        active: [
+          ...prev.active.filter(j => j.status !== 'pending'),
+          ...others.slice(0, start),
+          ...reordered,
+          ...others.slice(start),
+        ],
+      }
+    })
+  }
+
+  async function persistPendingOrder() {
+    draggingRef.current = false
+    const ids = (pendingRef.current ?? []).map(j => j.jobId)
+    pendingRef.current = null
+    if (ids.length === 0) return
+    try {
+      const res  = await fetch('/api/upload-jobs/reorder', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ jobIds: ids }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+    } catch (e) {
+      toastError('Reorder failed', e instanceof Error ? e.message : String(e))
+      fetchUploadStatus()
     }
-    setQueuingAll(false)
-    if (queued > 0) {
-      success('Queued!', `${queued} lecture${queued !== 1 ? 's' : ''} added to transcription queue.`)
-      setTimeout(() => loadLectures(currentCourse.id), 4_000)
+  }
+
+  // -------------------------------------------------------------------------
+  // Pause / resume the whole queue
+  // -------------------------------------------------------------------------
+  async function handleTogglePause() {
+    if (!uploadStatus) return
+    const paused = !uploadStatus.paused
+    setTogglingPause(true)
+    try {
+      const res  = await fetch('/api/upload-jobs/settings', {
+        method:  'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ paused }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setUploadStatus(prev => prev && { ...prev, paused })
+      success(paused ? 'Queue paused' : 'Queue resumed',
+        paused ? 'Running jobs will finish; nothing new starts.' : 'Workers will pick up pending jobs again.')
+    } catch (e) {
+      toastError('Failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setTogglingPause(false)
     }
   }
 
@@ -496,18 +657,59 @@ export function CourseUploader() {
             </div>
 
             {/* Upload status widget */}
-            {uploadStatus && (uploadStatus.active.length > 0 || uploadStatus.lastCompleted) && (
+            {uploadStatus && (uploadStatus.active.length > 0 || uploadStatus.lastCompleted || uploadStatus.workers?.length > 0) && (
               <div className="glass rounded-2xl border border-white/[0.07] overflow-hidden">
-                <div className="px-4 py-3 border-b border-white/[0.05]">
-                  <p className="text-xs font-semibold text-aura-muted uppercase tracking-widest">
+                <div className="px-4 py-3 border-b border-white/[0.05] flex items-center gap-2">
+                  <p className="text-xs font-semibold text-aura-muted uppercase tracking-widest flex-1">
                     {uploadStatus.active.length > 0 ? 'Upload Queue' : 'Last Upload'}
+                    {uploadStatus.paused && <span className="ml-2 normal-case tracking-normal text-aura-warning">paused</span>}
                   </p>
+                  <button
+                    onClick={handleTogglePause}
+                    disabled={togglingPause}
+                    title={uploadStatus.paused ? 'Resume queue' : 'Pause queue'}
+                    className={clsx(
+                      'flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-medium border transition-colors',
+                      uploadStatus.paused
+                        ? 'text-aura-accent border-aura-accent/30 bg-aura-accent/10'
+                        : 'text-aura-muted border-white/[0.08] hover:text-aura-text',
+                      'disabled:opacity-40',
+                    )}
+                  >
+                    {uploadStatus.paused ? <Play size={10} /> : <Pause size={10} />}
+                    {uploadStatus.paused ? 'Resume' : 'Pause'}
+                  </button>
                 </div>
                 {uploadStatus.active.length > 0 ? (
                   <div className="divide-y divide-white/[0.03]">
-                    {uploadStatus.active.map((j, i) => (
-                      <ActiveJobRow key={i} job={j} />
+                    {uploadStatus.active.filter(j => j.status === 'running').map(j => (
+                      <ActiveJobRow key={j.jobId} job={j} />
                     ))}
+                    {[...new Set(uploadStatus.active.filter(j => j.status === 'pending').map(j => j.priority))].map(priority => {
+                      const pending = uploadStatus.active.filter(j => j.status === 'pending' && j.priority === priority)
+                      return (
+                        <Reorder.Group
+                          key={priority}
+                          as="div"
+                          axis="y"
+                          values={pending}
+                          onReorder={reordered => handleReorderPending(priority, reordered)}
+                          className="divide-y divide-white/[0.03]"
+                        >
+                          {pending.map(j => (
+                            <Reorder.Item
+                              as="div"
+                              key={j.jobId}
+                              value={j}
+                              onDragStart={() => { draggingRef.current = true }}
+                              onDragEnd={persistPendingOrder}
+                            >
+                              <ActiveJobRow job={j} draggable />
+                            </Reorder.Item>
+                          ))}
+                        </Reorder.Group>
+                      )
+                    })}
                   </div>
                 ) : uploadStatus.lastCompleted ? (
                   <div className="flex items-center gap-3 px-4 py-2.5">
@@ -530,6 +732,42 @@ export function CourseUploader() {
                     </span>
                   </div>
                 ) : null}
+                {queueSettings && (
+                  <div className="flex items-center gap-3 px-4 py-2.5 border-t border-white/[0.05] text-[10px] text-aura-muted">
+                    <label className="flex items-center gap-1.5">
+                      Max running
+                      <input
+                        type="number" min={1} max={20}
+                        defaultValue={queueSettings.max_concurrent}
+                        onBlur={e => {
+                          const v = Number(e.target.value)
+                          if (v !== queueSettings.max_concurrent) handleSaveSettings({ maxConcurrent: v })
+                        }}
+                        className="w-12 px-1.5 py-0.5 rounded-md bg-black/30 border border-white/[0.08] text-aura-text focus:outline-none"
+                      />
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      Per course
+                      <input
+                        type="number" min={1} max={20}
+                        defaultValue={queueSettings.max_per_course}
+                        onBlur={e => {
+                          const v = Number(e.target.value)
+                          if (v !== queueSettings.max_per_course) handleSaveSettings({ maxPerCourse: v })
+                        }}
+                        className="w-12 px-1.5 py-0.5 rounded-md bg-black/30 border border-white/[0.08] text-aura-text focus:outline-none"
+                      />
+                    </label>
+                  </div>
+                )}
+                {uploadStatus.workers?.length > 0 && (
+                  <div className="border-t border-white/[0.05]">
+                    <p className="px-4 pt-2.5 text-[10px] text-aura-muted uppercase tracking-widest">Workers</p>
+                    <div className="divide-y divide-white/[0.03]">
+                      {uploadStatus.workers.map(w => <WorkerRow key={w.workerId} worker={w} />)}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
 
@@ -705,9 +943,24 @@ export function CourseUploader() {
                   </p>
                 </div>
                 <div className="flex items-center gap-2 shrink-0">
+                  {lectures.some(l => l.status === 'failed') && (
+                    <button
+                      onClick={() => handleBulkQueue('failed')}
+                      disabled={queuingAll}
+                      className={clsx(
+                        'flex items-center gap-1 px-2.5 py-1 rounded-lg text-[10px] font-semibold',
+                        'text-aura-error border border-aura-error/20 hover:bg-aura-error/10 transition-colors',
+                        'disabled:opacity-40 disabled:cursor-not-allowed',
+                      )}
+                      title="Re-queue every failed lecture"
+                    >
+                      <RefreshCw size={10} />
+                      Retry Failed
+                    </button>
+                  )}
                   {lectures.some(l => l.status === 'none' || l.status === 'failed') && (
                     <button
-                      onClick={handleQueueAll}
+                      onClick={() => handleBulkQueue('course')}
                       disabled={queuingAll}
                       className={clsx(
                         'flex items-center gap-1 px-2.5 py-1 rounded-lg text-[10px] font-semibold',
@@ -734,6 +987,27 @@ export function CourseUploader() {
                 </div>
               </div>
 
+              {/* Queue a range of lectures */}
+              <div className="px-4 py-2 border-b border-white/[0.05] flex items-center gap-2 text-[10px] text-aura-muted">
+                Lectures
+                <input
+                  type="number" min={1} value={rangeFrom} onChange={e => setRangeFrom(e.target.value)} placeholder="from"
+                  className="w-14 px-1.5 py-0.5 rounded-md bg-black/30 border border-white/[0.08] text-aura-text focus:outline-none"
+                />
+                –
+                <input
+                  type="number" min={1} value={rangeTo} onChange={e => setRangeTo(e.target.value)} placeholder="to"
+                  className="w-14 px-1.5 py-0.5 rounded-md bg-black/30 border border-white/[0.08] text-aura-text focus:outline-none"
+                />
+                <button
+                  onClick={() => handleBulkQueue('range')}
+                  disabled={!rangeFrom || queuingAll}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-md text-aura-accent border border-aura-accent/20 hover:bg-aura-accent/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <Zap size={10} /> Queue range
+                </button>
+              </div>
+
               {loadingLectures ? (
                 <div className="flex justify-center py-8">
                   <Loader2 size={18} className="animate-spin text-aura-accent" />
@@ -748,9 +1022,31 @@ export function CourseUploader() {
                       <span className="text-[10px] text-aura-muted font-mono w-6 shrink-0 text-right">
                         {l.lectureNumber}
                       </span>
-                      <div className="flex-1">
+                      <div className="flex-1 flex items-center gap-2 min-w-0">
                         <StatusBadge status={l.status} />
+                        {l.status === 'running' && l.workerId && (
+                          <span className="text-[10px] text-aura-muted font-mono truncate">{l.workerId}</span>
+                        )}
                       </div>
+                      {l.status === 'pending' && (
+                        <button
+                          onClick={() => handleTogglePriority(l)}
+                          disabled={reprioritising === l.lectureNumber}
+                          title={l.priority > 0 ? 'Remove priority' : 'Transcribe next'}
+                          className={clsx(
+                            'flex items-center justify-center w-6 h-6 rounded-lg border transition-colors',
+                            l.priority > 0
+                              ? 'text-aura-accent border-aura-accent/30 bg-aura-accent/10'
+                              : 'text-aura-muted border-white/[0.08] hover:text-aura-accent',
+                            'disabled:opacity-40 disabled:cursor-not-allowed',
+                          )}
+                        >
+                          {reprioritising === l.lectureNumber
+                            ? <Loader2 size={10} className="animate-spin" />
+                            : <ChevronsUp size={10} />
+                          }
+                        </button>
+                      )}
                       {(l.status === 'none' || l.status === 'failed') && (
                         <button
                           onClick={() => handleQueueLecture(l.lectureNumber)}
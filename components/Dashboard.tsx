@@ -2,25 +2,40 @@
 
 import { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Film, GitMerge, ImageIcon, Link2, Pencil, RotateCcw, Shuffle, Sparkles, BarChart2 } from 'lucide-react'
+import { Cog, FileCode, FileText, Film, GitMerge, History, ImageIcon, Link2, Pencil, RotateCcw, Shuffle, Sparkles, BarChart2 } from 'lucide-react'
 import { EditPanel } from './EditPanel'
 import { MergeEntities } from './MergeEntities'
 import { EntityReclassifier } from './EntityReclassifier'
 import { RecoveryPanel } from './RecoveryPanel'
 import { RelationshipManager } from './RelationshipManager'
 import { CourseUploader } from './CourseUploader'
-import { GeneratePanel } from './GeneratePanel'
+import { GeneratePanel, GenerateTarget } from './GeneratePanel'
 import { ImageGame } from './ImageGame'
 import { SystemDashboard } from './SystemDashboard'
+import { HistoryPanel } from './HistoryPanel'
+import { JobsPanel } from './JobsPanel'
+import { TranscriptEditor, TranscriptTarget } from './TranscriptEditor'
+import { TranscriptSearch } from './TranscriptSearch'
+import { PromptsPanel } from './PromptsPanel'
 import clsx from 'clsx'
 
-type Tab = 'stats' | 'edit' | 'merge' | 'entities' | 'recovery' | 'links' | 'courses' | 'generate' | 'images'
+type Tab = 'stats' | 'edit' | 'merge' | 'entities' | 'recovery' | 'links' | 'courses' | 'transcript' | 'generate' | 'prompts' | 'jobs' | 'images' | 'history'
 
 // ---------------------------------------------------------------------------
 // Dashboard
 // ---------------------------------------------------------------------------
 export function Dashboard() {
   const [tab, setTab] = useState<Tab>('stats')
+  // Set when another tab hands a lecture over to Generate
+  const [generateTarget, setGenerateTarget] = useState<GenerateTarget | null>(null)
+  // Set when a search result opens a lecture's transcript
+  const [transcriptTarget, setTranscriptTarget] = useState<TranscriptTarget | null>(null)
+
+  function selectTab(id: Tab) {
+    setGenerateTarget(null)
+    setTranscriptTarget(null)
+    setTab(id)
+  }
 
   return (
     <div className="min-h-screen bg-aura-base text-aura-text">
@@ -34,7 +49,7 @@ export function Dashboard() {
 
       <div className="relative z-10 px-3 py-5">
 
-        {/* Header — two rows */}
+        {/* Header — three rows */}
         <motion.header
           initial={{ opacity: 0, y: -16 }}
           animate={{ opacity: 1, y: 0 }}
@@ -58,7 +73,15 @@ export function Dashboard() {
             </div>
           </div>
 
-          {/* Row 2: tab switcher — scrollable */}
+          {/* Row 2: transcript search */}
+          <TranscriptSearch
+            onOpen={(courseId, lectureId, find) => {
+              setTranscriptTarget({ courseId, lectureId, find })
+              setTab('transcript')
+            }}
+          />
+
+          {/* Row 3: tab switcher — scrollable */}
           <div className="flex p-0.5 rounded-xl bg-black/30 border border-white/[0.06] overflow-x-auto scrollbar-none">
             {([
               { id: 'stats',    label: 'Stats',    icon: <BarChart2  size={12} /> },
@@ -68,12 +91,16 @@ export function Dashboard() {
               { id: 'recovery', label: 'Recovery', icon: <RotateCcw  size={12} /> },
               { id: 'links',    label: 'Links',    icon: <Link2      size={12} /> },
               { id: 'courses',  label: 'Courses',  icon: <Film       size={12} /> },
+              { id: 'transcript', label: 'Transcript', icon: <FileText   size={12} /> },
               { id: 'generate', label: 'Generate', icon: <Sparkles   size={12} /> },
+              { id: 'prompts',  label: 'Prompts',  icon: <FileCode   size={12} /> },
+              { id: 'jobs',     label: 'Jobs',     icon: <Cog        size={12} /> },
               { id: 'images',   label: 'Images',   icon: <ImageIcon  size={12} /> },
+              { id: 'history',  label: 'History',  icon: <History    size={12} /> },
             ] as { id: Tab; label: string; icon: React.ReactNode }[]).map(({ id, label, icon }) => (
               <button
                 key={id}
-                onClick={() => setTab(id)}
+                onClick={() => selectTab(id)}
                 className={clsx(
                   'shrink-0 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg',
                   'text-xs font-medium transition-all duration-200 whitespace-nowrap',
@@ -168,6 +195,25 @@ export function Dashboard() {
               <CourseUploader />
             </motion.div>
           )}
+          {tab === 'transcript' && (
+            <motion.div
+              key="transcript"
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -8 }}
+              transition={{ duration: 0.18 }}
+            >
+              <TranscriptEditor
+                // Remount so a new search result replaces the current selection
+                key={transcriptTarget ? `${transcriptTarget.lectureId}:${transcriptTarget.find ?? ''}` : 'none'}
+                initialTarget={transcriptTarget}
+                onRegenerate={(genType, courseId, lectureId) => {
+                  setGenerateTarget({ genType, courseId, lectureId })
+                  setTab('generate')
+                }}
+              />
+            </motion.div>
+          )}
           {tab === 'generate' && (
             <motion.div
               key="generate"
@@ -176,7 +222,29 @@ export function Dashboard() {
               exit={{ opacity: 0, y: -8 }}
               transition={{ duration: 0.18 }}
             >
-              <GeneratePanel />
+              <GeneratePanel initialTarget={generateTarget} />
+            </motion.div>
+          )}
+          {tab === 'prompts' && (
+            <motion.div
+              key="prompts"
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -8 }}
+              transition={{ duration: 0.18 }}
+            >
+              <PromptsPanel />
+            </motion.div>
+          )}
+          {tab === 'jobs' && (
+            <motion.div
+              key="jobs"
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -8 }}
+              transition={{ duration: 0.18 }}
+            >
+              <JobsPanel />
             </motion.div>
           )}
           {tab === 'images' && (
@@ -190,6 +258,17 @@ export function Dashboard() {
               <ImageGame />
             </motion.div>
           )}
+          {tab === 'history' && (
+            <motion.div
+              key="history"
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -8 }}
+              transition={{ duration: 0.18 }}
+            >
+              <HistoryPanel />
+            </motion.div>
+          )}
         </AnimatePresence>
 
       </div>
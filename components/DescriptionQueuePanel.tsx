@@ -0,0 +1,352 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Check, ChevronLeft, ChevronRight, ListPlus, Loader2, Pause, Play, X } from 'lucide-react'
+import clsx from 'clsx'
+import { useToast } from './ToastProvider'
+import { ENTITY_TYPES, EntityType, LINKED_ENTITY_TYPES } from '@/lib/constants'
+
+const PAGE_SIZE = 12
+
+// How long the processing loop backs off after Gemini reports a rate limit
+const RATE_LIMIT_PAUSE_MS = 20_000
+
+const DESC_TYPES = LINKED_ENTITY_TYPES.filter(t => ENTITY_TYPES[t].hasDescription)
+
+const STATUS_STYLES: Record<string, string> = {
+  pending:   'text-aura-muted',
+  running:   'text-aura-accent',
+  generated: 'text-aura-indigo',
+  failed:    'text-aura-error',
+  approved:  'text-aura-success',
+  rejected:  'text-aura-muted/60',
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+interface QueueItem {
+  id:          number
+  entity_type: EntityType
+  entity_id:   number
+  name:        string
+  hebrewName:  string | null
+  before:      string | null
+  after:       string | null
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+export function DescriptionQueuePanel() {
+  const { success, error: showError, info } = useToast()
+
+  const [entityType, setEntityType] = useState<EntityType | 'all'>('all')
+  const [note,       setNote]       = useState('')
+  const [queueing,   setQueueing]   = useState(false)
+
+  const [counts,  setCounts]  = useState<Record<string, number>>({})
+  const [items,   setItems]   = useState<QueueItem[]>([])
+  const [total,   setTotal]   = useState(0)
+  const [offset,  setOffset]  = useState(0)
+  const [edits,   setEdits]   = useState<Record<number, string>>({})
+  const [busyIds, setBusyIds] = useState<Set<number>>(new Set())
+
+  const [processing, setProcessing] = useState(false)
+  const stopRef = useRef(false)
+
+  const typeParam = entityType === 'all' ? '' : entityType
+
+  // ── load review page ──────────────────────────────────────────────────────
+  const load = useCallback(async () => {
+    const params = new URLSearchParams({ status: 'generated', limit: String(PAGE_SIZE), offset: String(offset) })
+    if (typeParam) params.set('entityType', typeParam)
+    try {
+      const res  = await fetch(`/api/generate/descriptions?${params}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      // Reviewing the last page can leave it empty — step back a page
+      if (data.items.length === 0 && offset > 0) { setOffset(Math.max(offset - PAGE_SIZE, 0)); return }
+      setItems(data.items)
+      setTotal(data.total)
+      setCounts(data.counts)
+    } catch (err) {
+      showError('Failed to load queue', err instanceof Error ? err.message : String(err))
+    }
+  }, [offset, typeParam, showError])
+
+  useEffect(() => { load() }, [load])
+  useEffect(() => { setOffset(0) }, [entityType])
+
+  // Stop the loop when the panel unmounts
+  useEffect(() => () => { stopRef.current = true }, [])
+
+  // ── queue missing descriptions ────────────────────────────────────────────
+  async function handleQueue() {
+    setQueueing(true)
+    try {
+      const res  = await fetch('/api/generate/descriptions', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ entityType, note: note || undefined }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      success('Queued', `${data.queued} entities queued, ${data.skipped} already in the queue`)
+      await load()
+    } catch (err) {
+      showError('Queue failed', err instanceof Error ? err.message : String(err))
+    } finally {
+      setQueueing(false)
+    }
+  }
+
+  async function handleCancelPending() {
+    try {
+      const res  = await fetch('/api/generate/descriptions', {
+        method:  'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ entityType: typeParam || undefined }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      info('Cancelled', `${data.cancelled} pending items removed`)
+      await load()
+    } catch (err) {
+      showError('Cancel failed', err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  // ── processing loop ───────────────────────────────────────────────────────
+  async function handleStart() {
+    stopRef.current = false
+    setProcessing(true)
+    try {
+      while (!stopRef.current) {
+        const res  = await fetch('/api/generate/descriptions/process', { method: 'POST' })
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error)
+        await load()
+        if (data.remaining === 0) {
+          success('Queue finished', 'All pending descriptions have been generated')
+          break
+        }
+        if (data.rateLimited) {
+          info('Rate limited', `Pausing ${RATE_LIMIT_PAUSE_MS / 1000}s before continuing`)
+          await sleep(RATE_LIMIT_PAUSE_MS)
+        }
+      }
+    } catch (err) {
+      showError('Processing stopped', err instanceof Error ? err.message : String(err))
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  // ── review ────────────────────────────────────────────────────────────────
+  async function review(ids: number[], action: 'approve' | 'reject') {
+    if (!ids.length) return
+    setBusyIds(prev => new Set([...Array.from(prev), ...ids]))
+    try {
+      const pageEdits = Object.fromEntries(ids.filter(id => edits[id] !== undefined).map(id => [id, edits[id]]))
+      const res  = await fetch('/api/generate/descriptions/review', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ ids, action, edits: pageEdits }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      if (action === 'approve') {
+        if (data.failed?.length) showError('Some approvals failed', `${data.failed.length} of ${ids.length} not saved`)
+        else success('Approved', `${data.approved} descriptions saved`)
+      }
+      setEdits(prev => {
+        const next = { ...prev }
+        for (const id of ids) delete next[id]
+        return next
+      })
+      await load()
+    } catch (err) {
+      showError('Review failed', err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusyIds(prev => new Set(Array.from(prev).filter(id => !ids.includes(id))))
+    }
+  }
+
+  const pageIds = items.map(i => i.id)
+  const open    = (counts.pending ?? 0) + (counts.running ?? 0)
+
+  // ── render ────────────────────────────────────────────────────────────────
+  return (
+    <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-4">
+      <div className="flex items-center gap-2">
+        <ListPlus size={16} className="text-aura-accent" />
+        <h2 className="text-sm font-semibold text-aura-text">Bulk Descriptions</h2>
+      </div>
+
+      {/* Queue controls */}
+      <div className="space-y-2">
+        <select
+          value={entityType}
+          onChange={e => setEntityType(e.target.value as EntityType | 'all')}
+          className="w-full appearance-none bg-black/30 border border-white/[0.08] rounded-xl px-3 py-2.5 text-sm text-aura-text focus:outline-none focus:border-aura-accent/40"
+        >
+          <option value="all">All entity types</option>
+          {DESC_TYPES.map(t => <option key={t} value={t}>{ENTITY_TYPES[t].label}</option>)}
+        </select>
+        <input
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="Note applied to every queued item (optional)…"
+          className="w-full px-3 py-2 rounded-xl bg-black/30 border border-white/[0.08] text-sm text-aura-text placeholder-aura-muted/50 focus:outline-none focus:border-aura-accent/40"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={handleQueue}
+            disabled={queueing}
+            className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-xl text-xs font-semibold bg-aura-accent/10 border border-aura-accent/30 text-aura-accent hover:bg-aura-accent/15 transition-colors disabled:opacity-40"
+          >
+            {queueing ? <Loader2 size={12} className="animate-spin" /> : <ListPlus size={12} />}
+            Queue missing descriptions
+          </button>
+          {processing ? (
+            <button
+              onClick={() => { stopRef.current = true }}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-semibold bg-aura-error/10 border border-aura-error/30 text-aura-error"
+            >
+              <Pause size={12} /> Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={open === 0}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-semibold bg-gradient-to-r from-aura-accent to-aura-indigo text-aura-base disabled:opacity-40"
+            >
+              <Play size={12} /> Process
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Status counts */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        {Object.entries(STATUS_STYLES).map(([status, cls]) => (
+          <span key={status} className="px-2 py-1 rounded-lg bg-black/20 border border-white/[0.05] text-[11px]">
+            <span className={clsx('font-semibold', cls)}>{counts[status] ?? 0}</span>
+            <span className="text-aura-muted ml-1">{status}</span>
+          </span>
+        ))}
+        {processing && <Loader2 size={12} className="animate-spin text-aura-accent ml-1" />}
+        {(counts.pending ?? 0) > 0 && !processing && (
+          <button onClick={handleCancelPending} className="ml-auto text-[11px] text-aura-muted hover:text-aura-error">
+            Cancel pending
+          </button>
+        )}
+      </div>
+
+      {/* Review grid */}
+      {total > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] uppercase tracking-widest text-aura-muted">
+              Awaiting review · {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </p>
+            <div className="flex gap-1.5">
+              <button
+                onClick={() => review(pageIds, 'reject')}
+                className="px-2.5 py-1 rounded-lg text-[11px] text-aura-muted border border-white/[0.07] hover:text-aura-error"
+              >
+                Reject page
+              </button>
+              <button
+                onClick={() => review(pageIds, 'approve')}
+                className="px-2.5 py-1 rounded-lg text-[11px] font-semibold text-aura-success border border-aura-success/30 bg-aura-success/[0.06]"
+              >
+                Approve page
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <AnimatePresence initial={false}>
+              {items.map(item => {
+                const busy = busyIds.has(item.id)
+                return (
+                  <motion.div
+                    key={item.id}
+                    layout
+                    initial={{ opacity: 0, y: 6 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, scale: 0.97 }}
+                    className={clsx('rounded-xl bg-black/20 border border-white/[0.06] p-3 space-y-2', busy && 'opacity-50')}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-aura-text truncate">{item.hebrewName || item.name}</p>
+                        <p className="text-[10px] text-aura-muted">
+                          {ENTITY_TYPES[item.entity_type]?.label ?? item.entity_type}
+                          {item.hebrewName && ` · ${item.name}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <button
+                          onClick={() => review([item.id], 'reject')}
+                          disabled={busy}
+                          className="p-1.5 rounded-lg text-aura-muted hover:text-aura-error hover:bg-aura-error/10"
+                        >
+                          <X size={13} />
+                        </button>
+                        <button
+                          onClick={() => review([item.id], 'approve')}
+                          disabled={busy}
+                          className="p-1.5 rounded-lg text-aura-success hover:bg-aura-success/10"
+                        >
+                          <Check size={13} />
+                        </button>
+                      </div>
+                    </div>
+                    {item.before && (
+                      <p className="text-[11px] text-aura-muted/70 line-clamp-2">{item.before}</p>
+                    )}
+                    <textarea
+                      dir="rtl"
+                      value={edits[item.id] ?? item.after ?? ''}
+                      onChange={e => setEdits(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      rows={4}
+                      className="w-full px-2.5 py-2 rounded-lg bg-aura-accent/[0.04] border border-aura-accent/20 text-sm text-aura-text leading-relaxed resize-y focus:outline-none focus:border-aura-accent/40"
+                    />
+                  </motion.div>
+                )
+              })}
+            </AnimatePresence>
+          </div>
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-center gap-2">
+              <button
+                onClick={() => setOffset(o => Math.max(o - PAGE_SIZE, 0))}
+                disabled={offset === 0}
+                className="p-1.5 rounded-lg text-aura-muted hover:text-aura-text disabled:opacity-30"
+              >
+                <ChevronLeft size={14} />
+              </button>
+              <span className="text-[11px] text-aura-muted">
+                Page {Math.floor(offset / PAGE_SIZE) + 1} / {Math.ceil(total / PAGE_SIZE)}
+              </span>
+              <button
+                onClick={() => setOffset(o => o + PAGE_SIZE)}
+                disabled={offset + PAGE_SIZE >= total}
+                className="p-1.5 rounded-lg text-aura-muted hover:text-aura-text disabled:opacity-30"
+              >
+                <ChevronRight size={14} />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
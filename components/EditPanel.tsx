@@ -7,9 +7,9 @@
  * No external store dependency.
  *
  * Schema-accurate editable fields:
- *   directors / writers / philosophers / painters : name, hebrew_name, description
- *   films / books / paintings                      : title, hebrew_name, description
- *   themes                                         : name, hebrew_name  (no description, no image)
+ *   lecture-linked types : nameField / hebrew_name / description and typed attributes
+ *                          (years, nationality, external ids), per ENTITY_TYPES in lib/constants,
+ *                          plus aliases (entity_aliases) and a Wikidata link that backfills them
  *   courses     : title, description, course_r2_url, r2_dir
  *   lectures    : title, synopsis, duration, date, order_in_course, transcribed (no image)
  */
@@ -19,9 +19,10 @@ import { motion, AnimatePresence } from 'framer-motion'
 import {
   Edit3, ImageIcon, Save, X, Check, Plus,
   Loader2, Trash2, FileImage, RefreshCw,
-  ChevronDown, ToggleLeft, ToggleRight, Search, Link,
+  ChevronDown, ToggleLeft, ToggleRight, Search, Link, ExternalLink, Globe,
 } from 'lucide-react'
-import { EntityType, ENTITY_TYPES, JUNCTION_MAP } from '@/lib/constants'
+import { AttributeDef, EntityType, ENTITY_TYPES, LINKED_ENTITY_TYPES } from '@/lib/constants'
+import type { WikidataCandidate } from '@/lib/wikidata'
 import { useToast } from './ToastProvider'
 import clsx from 'clsx'
 
@@ -29,62 +30,60 @@ import clsx from 'clsx'
 // Constants
 // ─────────────────────────────────────────────────────────────────────────────
 
-/** Extended type that includes entity types + themes (lectures is now in ENTITY_TYPES) */
-type EditableType = EntityType | 'themes'
-
-/** Entity types that NEVER have an image */
-const NO_IMAGE_TYPES: EditableType[] = ['lectures', 'themes']
+/** Every editable type (lectures and themes are in ENTITY_TYPES) */
+type EditableType = EntityType
 
 type FieldDef = {
   key:          string
   label:        string
-  type:         'text' | 'textarea' | 'number' | 'boolean'
+  type:         'text' | 'textarea' | 'number' | 'boolean' | 'entity' | 'external_id' | 'url'
   placeholder?: string
   required?:    boolean
   hint?:        string
+  /** entity: type whose rows the select offers */
+  refType?:     EntityType
+  /** external_id: regex the value must match, and page URL with {id} */
+  pattern?:     string
+  url?:         string
 }
 
-const FIELD_MAP: Record<EditableType, FieldDef[]> = {
-  directors: [
-    { key: 'name',        label: 'Name',        type: 'text',     required: true, placeholder: 'Full name' },
-    { key: 'hebrew_name', label: 'Hebrew Name',  type: 'text',     placeholder: 'שם בעברית' },
-    { key: 'description', label: 'Description',  type: 'textarea', placeholder: 'Bio / notes…' },
-  ],
-  writers: [
-    { key: 'name',        label: 'Name',        type: 'text',     required: true, placeholder: 'Full name' },
-    { key: 'hebrew_name', label: 'Hebrew Name',  type: 'text',     placeholder: 'שם בעברית' },
-    { key: 'description', label: 'Description',  type: 'textarea', placeholder: 'Bio / notes…' },
-  ],
-  philosophers: [
-    { key: 'name',        label: 'Name',        type: 'text',     required: true, placeholder: 'Full name' },
-    { key: 'hebrew_name', label: 'Hebrew Name',  type: 'text',     placeholder: 'שם בעברית' },
-    { key: 'description', label: 'Description',  type: 'textarea', placeholder: 'Bio / notes…' },
-  ],
-  painters: [
-    { key: 'name',        label: 'Name',        type: 'text',     required: true, placeholder: 'Full name' },
-    { key: 'hebrew_name', label: 'Hebrew Name',  type: 'text',     placeholder: 'שם בעברית' },
-    { key: 'description', label: 'Description',  type: 'textarea', placeholder: 'Bio / notes…' },
-  ],
-  films: [
-    { key: 'title',       label: 'Title',       type: 'text',     required: true, placeholder: 'Film title' },
-    { key: 'hebrew_name', label: 'Hebrew Name',  type: 'text',     placeholder: 'שם בעברית' },
-    { key: 'description', label: 'Description',  type: 'textarea', placeholder: 'Film notes…' },
-  ],
-  books: [
-    { key: 'title',       label: 'Title',       type: 'text',     required: true, placeholder: 'Book title' },
-    { key: 'hebrew_name', label: 'Hebrew Name',  type: 'text',     placeholder: 'שם בעברית' },
-    { key: 'description', label: 'Description',  type: 'textarea', placeholder: 'Book notes…' },
-  ],
-  paintings: [
-    { key: 'title',       label: 'Title',       type: 'text',     required: true, placeholder: 'Painting title' },
-    { key: 'hebrew_name', label: 'Hebrew Name',  type: 'text',     placeholder: 'שם בעברית' },
-    { key: 'description', label: 'Description',  type: 'textarea', placeholder: 'Notes…' },
-  ],
-  themes: [
-    // No description column in themes table, no image
-    { key: 'name',        label: 'Name',        type: 'text',     required: true, placeholder: 'Theme name' },
-    { key: 'hebrew_name', label: 'Hebrew Name',  type: 'text',     placeholder: 'שם בעברית' },
-  ],
+/** FieldDef for a typed attribute column */
+function attributeField(attr: AttributeDef): FieldDef {
+  const type = attr.kind === 'year' ? 'number' : attr.kind === 'entity' ? 'entity' : attr.kind
+  return {
+    key:         attr.key,
+    label:       attr.label,
+    type,
+    placeholder: attr.placeholder,
+    hint:        attr.kind === 'year' ? 'Negative for BCE' : undefined,
+    refType:     attr.refType as EntityType | undefined,
+    pattern:     attr.pattern,
+    url:         attr.url,
+  }
+}
+
+/** Name / Hebrew name / description / attribute fields, derived from the entity-type registry */
+function registryFields(type: EntityType): FieldDef[] {
+  const cfg    = ENTITY_TYPES[type]
+  const person = cfg.kind === 'person'
+  const fields: FieldDef[] = [{
+    key:         cfg.nameField,
+    label:       cfg.nameField === 'title' ? 'Title' : 'Name',
+    type:        'text',
+    required:    true,
+    placeholder: person ? 'Full name' : `${cfg.label.replace(/s$/, '')} ${cfg.nameField}`,
+  }]
+  if (cfg.hasHebrewName) {
+    fields.push({ key: 'hebrew_name', label: 'Hebrew Name', type: 'text', placeholder: 'שם בעברית' })
+  }
+  if (cfg.hasDescription) {
+    fields.push({ key: 'description', label: 'Description', type: 'textarea', placeholder: person ? 'Bio / notes…' : 'Notes…' })
+  }
+  return [...fields, ...cfg.attributes.map(attributeField)]
+}
+
+const FIELD_MAP = {
+  ...Object.fromEntries(LINKED_ENTITY_TYPES.map(t => [t, registryFields(t)])),
   courses: [
     { key: 'title',         label: 'Title',         type: 'text',     required: true, placeholder: 'Course title' },
     { key: 'description',   label: 'Description',   type: 'textarea', placeholder: 'Course overview…' },
@@ -100,7 +99,7 @@ const FIELD_MAP: Record<EditableType, FieldDef[]> = {
     { key: 'order_in_course', label: 'Order in Course', type: 'number',   placeholder: '1' },
     { key: 'transcribed',     label: 'Transcribed',     type: 'boolean' },
   ],
-}
+} as Record<EditableType, FieldDef[]>
 
 type EntityRow = Record<string, unknown>
 
@@ -112,7 +111,7 @@ function entityDisplayName(entity: EntityRow, type: EntityType): string {
 }
 
 function supportsImage(type: EditableType): boolean {
-  return !NO_IMAGE_TYPES.includes(type)
+  return ENTITY_TYPES[type].imageAspect != null
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -209,6 +208,39 @@ function FieldEditor({
     )
   }
 
+  if (field.type === 'entity' && field.refType) {
+    return <EntityRefSelect refType={field.refType} value={value} onChange={onChange} saving={saving} className={base} />
+  }
+
+  if (field.type === 'external_id' || field.type === 'url') {
+    const id    = String(value ?? '').trim()
+    const valid = !id || (field.type === 'url' ? /^https?:\/\/\S+$/.test(id) : !field.pattern || new RegExp(field.pattern).test(id))
+    const href  = field.type === 'url' ? id : field.url?.replace('{id}', encodeURIComponent(id))
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={String(value ?? '')}
+          onChange={e => onChange(e.target.value)}
+          disabled={saving}
+          placeholder={field.placeholder}
+          className={clsx(base, field.type === 'external_id' && 'font-mono', !valid && 'border-aura-error/50 focus:border-aura-error/60')}
+        />
+        {id && valid && href && (
+          <a
+            href={href}
+            target="_blank"
+            rel="noreferrer"
+            title={`Open ${field.label} page`}
+            className="p-2.5 rounded-xl border border-white/[0.08] text-aura-muted hover:text-aura-accent hover:border-aura-accent/40 transition-colors"
+          >
+            <ExternalLink size={13} />
+          </a>
+        )}
+      </div>
+    )
+  }
+
   return (
     <input
       type="text"
@@ -222,6 +254,37 @@ function FieldEditor({
   )
 }
 
+/** Select for an entity attribute (a film's director) — options from /api/entities/<refType> */
+function EntityRefSelect({
+  refType, value, onChange, saving, className,
+}: {
+  refType:   EntityType
+  value:     unknown
+  onChange:  (val: unknown) => void
+  saving:    boolean
+  className: string
+}) {
+  const { entities, loading } = useEntities(refType)
+  const label = ENTITY_TYPES[refType].label.replace(/s$/, '').toLowerCase()
+
+  return (
+    <div className="relative">
+      <select
+        value={value == null ? '' : String(value)}
+        onChange={e => onChange(e.target.value ? Number(e.target.value) : null)}
+        disabled={saving || loading}
+        className={clsx(className, 'appearance-none pr-8')}
+      >
+        <option value="">{loading ? 'Loading…' : `— no ${label} —`}</option>
+        {entities.map(e => (
+          <option key={e.id as number} value={e.id as number}>{entityDisplayName(e, refType)}</option>
+        ))}
+      </select>
+      <ChevronDown size={13} className="absolute right-3 top-1/2 -translate-y-1/2 text-aura-muted pointer-events-none" />
+    </div>
+  )
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // ImageUploader
 // ─────────────────────────────────────────────────────────────────────────────
@@ -518,6 +581,203 @@ function PlacesEditor({ places, onChange, saving }: {
   )
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// AliasesEditor — alternate names / spellings (entity_aliases)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function AliasesEditor({ aliases, onChange, saving }: {
+  aliases:  string[]
+  onChange: (aliases: string[]) => void
+  saving:   boolean
+}) {
+  const [inputVal, setInputVal] = useState('')
+  const lower = aliases.map(a => a.toLowerCase())
+
+  function addAlias() {
+    const t = inputVal.trim()
+    if (!t || lower.includes(t.toLowerCase())) return
+    onChange([...aliases, t])
+    setInputVal('')
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1.5 min-h-[28px] items-center">
+        {aliases.map(a => (
+          <span key={a} dir="auto" className="flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-medium bg-white/[0.05] border border-white/[0.10] text-aura-text">
+            {a}
+            <button
+              type="button"
+              onClick={() => onChange(aliases.filter(x => x !== a))}
+              disabled={saving}
+              className="hover:text-aura-error transition-colors"
+            >
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        {aliases.length === 0 && (
+          <span className="text-[11px] text-aura-muted/40">No aliases</span>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          dir="auto"
+          value={inputVal}
+          onChange={e => setInputVal(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addAlias() } }}
+          placeholder="Alternate spelling…"
+          disabled={saving}
+          className="flex-1 bg-black/20 border border-white/[0.08] rounded-xl px-3 py-2 text-sm text-aura-text placeholder-aura-muted/40 focus:outline-none focus:border-aura-accent/40"
+        />
+        <button
+          type="button"
+          onClick={addAlias}
+          disabled={!inputVal.trim() || saving}
+          className="px-3 py-2 rounded-xl text-xs font-semibold bg-white/[0.04] border border-white/[0.08] text-aura-text hover:bg-white/[0.08] disabled:opacity-40 transition-colors"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// WikidataLookup — pick the entity's Wikidata item; the server backfills
+// hebrew_name, attributes and image_source from it
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** "Born 1932 · Died 1986 · Russian" — attribute values worth showing when choosing */
+function candidateSummary(type: EntityType, c: WikidataCandidate): string {
+  return ENTITY_TYPES[type].attributes
+    .filter(a => a.kind === 'year' || a.kind === 'text' || a.kind === 'entity')
+    .flatMap(a => {
+      const v = a.kind === 'entity' ? c.refLabels[a.key] : c.attributes[a.key]
+      if (v == null) return []
+      return [a.kind === 'year' ? `${a.label} ${v}` : String(v)]
+    })
+    .join(' · ')
+}
+
+function WikidataLookup({ type, entityId, current, onApplied }: {
+  type:      EntityType
+  entityId:  number
+  current:   string | null
+  onApplied: (updated: Record<string, unknown>) => void
+}) {
+  const { error: toastError, success } = useToast()
+  const [candidates, setCandidates] = useState<WikidataCandidate[] | null>(null)
+  const [loading,    setLoading]    = useState(false)
+  const [applying,   setApplying]   = useState<string | null>(null)
+  const [overwrite,  setOverwrite]  = useState(false)
+
+  useEffect(() => { setCandidates(null) }, [type, entityId])
+
+  async function search() {
+    setLoading(true)
+    try {
+      const res  = await fetch(`/api/entities/${type}/${entityId}/wikidata`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error ?? 'Lookup failed')
+      setCandidates(data.candidates ?? [])
+    } catch (e) {
+      toastError('Wikidata lookup failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function apply(qid: string) {
+    setApplying(qid)
+    try {
+      const res  = await fetch(`/api/entities/${type}/${entityId}/wikidata`, {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ qid, overwrite }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error ?? 'Link failed')
+      const filled = Object.keys(data.updated ?? {}).filter(k => k !== 'wikidata_id')
+      success('Linked to Wikidata', filled.length ? `Filled ${filled.join(', ')}.` : `${qid} — nothing new to fill.`)
+      setCandidates(null)
+      onApplied(data.updated ?? {})
+    } catch (e) {
+      toastError('Wikidata link failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setApplying(null)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={search}
+          disabled={loading || applying != null}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs text-aura-muted border border-white/[0.07] hover:border-white/[0.14] hover:text-aura-text hover:bg-white/[0.03] transition-colors disabled:opacity-40"
+        >
+          {loading ? <Loader2 size={11} className="animate-spin" /> : <Globe size={11} />}
+          {current ? 'Re-check Wikidata' : 'Find on Wikidata'}
+        </button>
+        {candidates && (
+          <label className="flex items-center gap-1.5 text-[10px] text-aura-muted cursor-pointer">
+            <input type="checkbox" checked={overwrite} onChange={e => setOverwrite(e.target.checked)} />
+            Overwrite filled fields
+          </label>
+        )}
+      </div>
+
+      {candidates && candidates.length === 0 && (
+        <p className="text-[11px] text-aura-muted/60">No Wikidata items match this name.</p>
+      )}
+
+      {candidates?.map(c => (
+        <div
+          key={c.id}
+          className={clsx(
+            'flex gap-3 p-2.5 rounded-xl border transition-colors',
+            c.id === current ? 'border-aura-success/30 bg-aura-success/[0.05]' : 'border-white/[0.07] bg-white/[0.02]',
+          )}
+        >
+          {c.image
+            // eslint-disable-next-line @next/next/no-img-element
+            ? <img src={c.image} alt="" className="w-10 h-12 rounded-lg object-cover flex-shrink-0" />
+            : <div className="w-10 h-12 rounded-lg bg-white/[0.04] flex-shrink-0" />
+          }
+          <div className="flex-1 min-w-0 space-y-0.5">
+            <div className="flex items-center gap-1.5 flex-wrap">
+              <span className="text-xs font-semibold text-aura-text">{c.label ?? c.id}</span>
+              {c.hebrewLabel && <span dir="rtl" className="text-xs text-aura-muted">{c.hebrewLabel}</span>}
+              <a href={c.url} target="_blank" rel="noreferrer" className="text-[10px] font-mono text-aura-muted/60 hover:text-aura-accent">
+                {c.id}
+              </a>
+              {c.id === current && <span className="text-[9px] px-1.5 rounded-full bg-aura-success/15 text-aura-success">linked</span>}
+              {!c.typeMatch && <span className="text-[9px] px-1.5 rounded-full bg-aura-warning/15 text-aura-warning">other type</span>}
+            </div>
+            {(c.description || c.hebrewDescription) && (
+              <p dir="auto" className="text-[11px] text-aura-muted truncate">{c.description ?? c.hebrewDescription}</p>
+            )}
+            {candidateSummary(type, c) && (
+              <p className="text-[10px] text-aura-muted/70">{candidateSummary(type, c)}</p>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => apply(c.id)}
+            disabled={applying != null}
+            className="self-center px-3 py-1.5 rounded-xl text-xs font-semibold bg-white/[0.05] border border-white/[0.08] text-aura-text hover:bg-white/[0.08] disabled:opacity-40 transition-colors"
+          >
+            {applying === c.id ? <Loader2 size={11} className="animate-spin" /> : 'Use'}
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // EntityEditForm
 // ─────────────────────────────────────────────────────────────────────────────
@@ -531,9 +791,13 @@ function EntityEditForm({
 }) {
   const { error: toastError, success } = useToast()
   const fields = FIELD_MAP[type] ?? []
+  // Lecture-linked types have aliases, sent with the other fields on save
+  const hasAliases  = LINKED_ENTITY_TYPES.includes(type)
+  const hasWikidata = ENTITY_TYPES[type].attributes.some(a => a.key === 'wikidata_id')
 
   function initValues() {
-    return Object.fromEntries(fields.map(f => [f.key, entity[f.key] ?? null]))
+    const base = Object.fromEntries(fields.map(f => [f.key, entity[f.key] ?? null]))
+    return hasAliases ? { ...base, aliases: (entity.aliases as string[] | undefined) ?? [] } : base
   }
 
   const [values, setValues] = useState<Record<string, unknown>>(initValues)
@@ -594,6 +858,29 @@ function EntityEditForm({
         </div>
       ))}
 
+      {hasWikidata && (
+        <WikidataLookup
+          type={type}
+          entityId={entity.id as number}
+          current={(values.wikidata_id as string | null) ?? null}
+          onApplied={updated => { setValues(prev => ({ ...prev, ...updated })); onSaved() }}
+        />
+      )}
+
+      {hasAliases && (
+        <div>
+          <label className="flex items-center gap-1.5 mb-1.5">
+            <span className="text-xs font-medium text-aura-text">Aliases</span>
+            <span className="text-[9px] text-aura-muted/60 italic">Other spellings — used by search, duplicates and name matching</span>
+          </label>
+          <AliasesEditor
+            aliases={values.aliases as string[]}
+            onChange={val => handleChange('aliases', val)}
+            saving={saving}
+          />
+        </div>
+      )}
+
       <div className="flex items-center gap-2 pt-1">
         {dirty && (
           <button
@@ -1565,7 +1852,7 @@ export function LectureMetaEditor() {
 // LectureEntityEditor — toggle discussed/mentioned for lecture entity links
 // ─────────────────────────────────────────────────────────────────────────────
 
-const LECTURE_ENTITY_CATEGORIES = Object.keys(JUNCTION_MAP) as EntityType[]
+const LECTURE_ENTITY_CATEGORIES = LINKED_ENTITY_TYPES
 
 interface LectureEntityRow {
   junctionId:       number
@@ -1,23 +1,28 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   BookOpen, ChevronDown, FileText, Layers, Loader2,
-  RefreshCw, Sparkles, Tag, Users, X, Check, Plus, Minus, AlertTriangle,
+  RefreshCw, Sparkles, Tag, Users, X, Check, Plus, Minus, AlertTriangle, Languages,
 } from 'lucide-react'
 import clsx from 'clsx'
 import { useToast } from './ToastProvider'
+import { DescriptionQueuePanel } from './DescriptionQueuePanel'
+import { ENTITY_TYPES, EntityType, LINKED_ENTITY_TYPES } from '@/lib/constants'
+import { DEFAULT_MIN_VOTES, EntityLists, ExtractedName, acceptedLists, relationshipOf } from '@/lib/entity-votes'
+import type { EntityMatch, MatchResolutions } from '@/lib/entity-match'
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
-type GenerateType =
+export type GenerateType =
   | 'lecture_title'
   | 'lecture_synopsis'
   | 'course_synopsis'
   | 'entities'
   | 'entity_desc'
+  | 'entity_names'
   | 'summary_pdf'
   | 'chapters_vtt'
 
@@ -27,20 +32,17 @@ interface EntityRow{ id: number; name: string }
 
 type Phase = 'idle' | 'generating' | 'preview' | 'confirming' | 'done'
 
-const ENTITY_TYPES = [
-  'directors','films','writers','books',
-  'painters','paintings','philosophers',
-] as const
-type EntityType = typeof ENTITY_TYPES[number]
+// Only types with a description column can be an entity_desc target
+const DESC_ENTITY_TYPES = LINKED_ENTITY_TYPES.filter(et => ENTITY_TYPES[et].hasDescription)
 
-const ENTITY_LABELS: Record<EntityType, string> = {
-  directors: 'Directors', films: 'Films', writers: 'Writers', books: 'Books',
-  painters: 'Painters', paintings: 'Paintings', philosophers: 'Philosophers',
-}
+// …and only types with a hebrew_name column an entity_names target
+const NAME_ENTITY_TYPES = LINKED_ENTITY_TYPES.filter(et => ENTITY_TYPES[et].hasHebrewName)
 
 // ---------------------------------------------------------------------------
 // Small helpers
 // ---------------------------------------------------------------------------
+const isJobFinished = (status: string) => ['done', 'failed', 'cancelled'].includes(status)
+
 function Select({
   value, onChange, placeholder, disabled, children,
 }: {
@@ -82,7 +84,7 @@ function computeDiff(
   extracted: Record<string, { discussed: string[]; mentioned: string[] }>,
 ): Record<EntityType, EntityDiff> {
   const result = {} as Record<EntityType, EntityDiff>
-  for (const et of ENTITY_TYPES) {
+  for (const et of LINKED_ENTITY_TYPES) {
     const currentAll = [...(current[et]?.discussed ?? []), ...(current[et]?.mentioned ?? [])]
     const extractAll = [...(extracted[et]?.discussed ?? []), ...(extracted[et]?.mentioned ?? [])]
     const currentSet = new Set(currentAll.map(n => n.toLowerCase()))
@@ -108,8 +110,8 @@ function computeDiff(
 }
 
 function EntityDiffView({ diff }: { diff: Record<EntityType, EntityDiff> }) {
-  const totalAdded   = ENTITY_TYPES.reduce((s, et) => s + diff[et].added.length,   0)
-  const totalRemoved = ENTITY_TYPES.reduce((s, et) => s + diff[et].removed.length, 0)
+  const totalAdded   = LINKED_ENTITY_TYPES.reduce((s, et) => s + diff[et].added.length,   0)
+  const totalRemoved = LINKED_ENTITY_TYPES.reduce((s, et) => s + diff[et].removed.length, 0)
 
   if (totalAdded === 0 && totalRemoved === 0) {
     return <p className="text-sm text-aura-muted italic">No differences — extracted list matches current.</p>
@@ -132,13 +134,13 @@ function EntityDiffView({ diff }: { diff: Record<EntityType, EntityDiff> }) {
       </div>
 
       {/* Per-type chip rows */}
-      {ENTITY_TYPES.map(et => {
+      {LINKED_ENTITY_TYPES.map(et => {
         const { added, removed } = diff[et]
         if (!added.length && !removed.length) return null
         return (
           <div key={et}>
             <p className="text-[10px] uppercase tracking-widest text-aura-muted mb-1.5">
-              {ENTITY_LABELS[et]}
+              {ENTITY_TYPES[et].label}
               {added.length   > 0 && <span className="ml-1.5 text-aura-success font-bold">+{added.length}</span>}
               {removed.length > 0 && <span className="ml-1 text-aura-error font-bold">−{removed.length}</span>}
             </p>
@@ -165,6 +167,268 @@ function EntityDiffView({ diff }: { diff: Record<EntityType, EntityDiff> }) {
   )
 }
 
+// ---------------------------------------------------------------------------
+// Extraction confidence review (entities)
+// ---------------------------------------------------------------------------
+type VoteOverrides = Record<string, Record<string, boolean>>
+
+function VoteBadge({ n, runs }: { n: ExtractedName; runs: number }) {
+  const tone = n.votes >= runs ? 'high' : n.votes > 1 ? 'mid' : 'low'
+  return (
+    <span
+      title={`Found in ${n.votes} of ${runs} runs — discussed ${n.discussedVotes}, mentioned ${n.mentionedVotes}`}
+      className={clsx(
+        'px-1 rounded text-[10px] font-bold tabular-nums',
+        tone === 'high' && 'bg-aura-success/15 text-aura-success',
+        tone === 'mid'  && 'bg-aura-warning/15 text-aura-warning',
+        tone === 'low'  && 'bg-aura-error/15 text-aura-error',
+      )}
+    >
+      {n.votes}/{runs}
+    </span>
+  )
+}
+
+function EntityVoteReview({
+  votes, runs, minVotes, overrides, onMinVotes, onOverrides,
+}: {
+  votes: Record<string, ExtractedName[]>; runs: number; minVotes: number; overrides: VoteOverrides
+  onMinVotes: (v: number) => void; onOverrides: (o: VoteOverrides) => void
+}) {
+  const isIncluded = (et: string, n: ExtractedName) => overrides[et]?.[n.name.toLowerCase()] ?? n.votes >= minVotes
+
+  function toggle(et: string, n: ExtractedName) {
+    onOverrides({ ...overrides, [et]: { ...overrides[et], [n.name.toLowerCase()]: !isIncluded(et, n) } })
+  }
+
+  const total = LINKED_ENTITY_TYPES.reduce((s, et) => s + (votes[et]?.length ?? 0), 0)
+  if (!total) return <p className="text-sm text-aura-muted italic">Nothing extracted.</p>
+
+  const lowCount = LINKED_ENTITY_TYPES.reduce((s, et) => s + (votes[et] ?? []).filter(n => n.votes < runs).length, 0)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-[10px] uppercase tracking-widest text-aura-muted">Accept names found in at least</p>
+        <div className="flex p-0.5 rounded-lg bg-black/30 border border-white/[0.06]">
+          {Array.from({ length: runs }, (_, i) => i + 1).map(v => (
+            <button
+              key={v}
+              onClick={() => { onMinVotes(v); onOverrides({}) }}
+              className={clsx(
+                'px-2 py-0.5 rounded-md text-[11px] font-semibold',
+                minVotes === v ? 'bg-aura-accent/15 text-aura-accent' : 'text-aura-muted hover:text-aura-text',
+              )}
+            >
+              {v}/{runs}
+            </button>
+          ))}
+        </div>
+        <p className="text-[11px] text-aura-muted">runs · {lowCount} of {total} names below full agreement</p>
+      </div>
+
+      {/* Per-type chips — least confident first so doubtful names get reviewed */}
+      {LINKED_ENTITY_TYPES.map(et => {
+        const names = [...(votes[et] ?? [])].sort((a, b) => a.votes - b.votes)
+        if (!names.length) return null
+        return (
+          <div key={et}>
+            <p className="text-[10px] uppercase tracking-widest text-aura-muted mb-1.5">{ENTITY_TYPES[et].label}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {names.map(n => {
+                const included = isIncluded(et, n)
+                return (
+                  <button
+                    key={n.name}
+                    onClick={() => toggle(et, n)}
+                    title={included ? 'Click to leave out' : 'Click to accept'}
+                    className={clsx(
+                      'inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs font-medium border transition-colors',
+                      included
+                        ? 'bg-white/[0.05] border-white/[0.12] text-aura-text'
+                        : 'bg-black/20 border-white/[0.05] text-aura-muted/60 line-through',
+                    )}
+                  >
+                    <VoteBadge n={n} runs={runs} />
+                    {n.name}
+                    {relationshipOf(n) === 'mentioned' && <span className="text-[10px] text-aura-muted">mentioned</span>}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Matches to existing entities (entities)
+// ---------------------------------------------------------------------------
+type EntityMatches = Record<string, Record<string, EntityMatch>>
+
+/** Per type: lower-cased name → link to the match (true) or create a new entity (false) */
+type MatchChoices = Record<string, Record<string, boolean>>
+
+const isLinked = (choices: MatchChoices, et: string, key: string) => choices[et]?.[key] ?? true
+
+/** What confirm should do with every matched name */
+function matchResolutions(matches: EntityMatches, choices: MatchChoices): MatchResolutions {
+  return Object.fromEntries(Object.entries(matches).map(([et, byName]) => [
+    et,
+    Object.fromEntries(Object.entries(byName).map(([key, m]) => [key, isLinked(choices, et, key) ? m.id : null])),
+  ]))
+}
+
+/** Extracted names as they will be saved — linked names take the existing entity's name */
+function resolvedLists(lists: EntityLists, matches: EntityMatches, choices: MatchChoices): EntityLists {
+  const resolve = (et: string, n: string) => {
+    const m = matches[et]?.[n.toLowerCase()]
+    return m && isLinked(choices, et, n.toLowerCase()) ? m.name : n
+  }
+  return Object.fromEntries(Object.entries(lists).map(([et, l]) => [et, {
+    discussed: l.discussed.map(n => resolve(et, n)),
+    mentioned: l.mentioned.map(n => resolve(et, n)),
+  }]))
+}
+
+function EntityMatchReview({
+  lists, matches, choices, onChange,
+}: {
+  lists: EntityLists; matches: EntityMatches; choices: MatchChoices; onChange: (c: MatchChoices) => void
+}) {
+  // Exact name matches are the same entity — only other matches need a decision
+  const rows = LINKED_ENTITY_TYPES.flatMap(et =>
+    [...(lists[et]?.discussed ?? []), ...(lists[et]?.mentioned ?? [])]
+      .map(name => ({ et, name, key: name.toLowerCase(), match: matches[et]?.[name.toLowerCase()] }))
+      .filter((r): r is typeof r & { match: EntityMatch } => !!r.match && r.match.kind !== 'exact'),
+  )
+  if (!rows.length) return null
+
+  function choose(et: string, key: string, link: boolean) {
+    onChange({ ...choices, [et]: { ...choices[et], [key]: link } })
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <p className="text-[10px] uppercase tracking-widest text-aura-muted">Possible existing entities</p>
+      {rows.map(({ et, name, key, match }) => {
+        const link = isLinked(choices, et, key)
+        return (
+          <div key={`${et}:${key}`} className="flex flex-wrap items-center gap-2 rounded-xl bg-black/20 border border-white/[0.05] px-3 py-2 text-xs">
+            <span className="text-aura-text">{name}</span>
+            <span className="text-aura-muted">→</span>
+            <span className="text-aura-text">{match.name}</span>
+            {match.hebrewName && <span dir="rtl" className="text-aura-muted">{match.hebrewName}</span>}
+            <span className="text-[10px] text-aura-muted">
+              {ENTITY_TYPES[et as EntityType].label} #{match.id} ·{' '}
+              {match.kind === 'hebrew_name' ? 'Hebrew name' : match.kind === 'alias' ? 'alias' : `${Math.round(match.similarity * 100)}% similar`}
+            </span>
+            <div className="ml-auto flex p-0.5 rounded-lg bg-black/30 border border-white/[0.06]">
+              <button
+                onClick={() => choose(et, key, true)}
+                className={clsx('px-2 py-0.5 rounded-md text-[11px] font-semibold', link ? 'bg-aura-accent/15 text-aura-accent' : 'text-aura-muted')}
+              >
+                Link existing
+              </button>
+              <button
+                onClick={() => choose(et, key, false)}
+                className={clsx('px-2 py-0.5 rounded-md text-[11px] font-semibold', !link ? 'bg-aura-warning/15 text-aura-warning' : 'text-aura-muted')}
+              >
+                Create new
+              </button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Name proposals review table (entity_names)
+// ---------------------------------------------------------------------------
+interface NameProposal {
+  id:                 number
+  name:               string
+  hebrewName:         string
+  proposedName:       string
+  proposedHebrewName: string
+}
+
+type NameEdits = Record<number, { name: string; hebrew_name: string; accepted: boolean }>
+
+function NameReviewTable({
+  items, edits, onChange,
+}: {
+  items: NameProposal[]; edits: NameEdits; onChange: (edits: NameEdits) => void
+}) {
+  const acceptedCount = items.filter(i => edits[i.id]?.accepted).length
+
+  function setAll(accepted: boolean) {
+    onChange(Object.fromEntries(items.map(i => [i.id, { ...edits[i.id], accepted }])))
+  }
+  function update(id: number, patch: Partial<NameEdits[number]>) {
+    onChange({ ...edits, [id]: { ...edits[id], ...patch } })
+  }
+
+  if (!items.length) {
+    return <p className="text-sm text-aura-muted">Nothing to translate — every entity already has both names.</p>
+  }
+
+  const inputCls = 'w-full px-2 py-1 rounded-lg bg-black/30 border border-white/[0.08] text-xs text-aura-text focus:outline-none focus:border-aura-accent/40'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] uppercase tracking-widest text-aura-muted">
+          {acceptedCount} of {items.length} selected
+        </p>
+        <div className="flex gap-2 text-[11px]">
+          <button onClick={() => setAll(true)}  className="text-aura-accent hover:underline">Select all</button>
+          <button onClick={() => setAll(false)} className="text-aura-muted hover:underline">Select none</button>
+        </div>
+      </div>
+      <div className="max-h-[420px] overflow-y-auto rounded-xl border border-white/[0.05]">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-aura-base/95 text-[10px] uppercase tracking-widest text-aura-muted">
+            <tr>
+              <th className="w-8 p-2" />
+              <th className="p-2 text-left font-medium">Current</th>
+              <th className="p-2 text-left font-medium">Proposed name</th>
+              <th className="p-2 text-left font-medium">Proposed Hebrew name</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => {
+              const e = edits[item.id]
+              if (!e) return null
+              return (
+                <tr key={item.id} className={clsx('border-t border-white/[0.04]', !e.accepted && 'opacity-50')}>
+                  <td className="p-2 text-center">
+                    <input type="checkbox" checked={e.accepted} onChange={ev => update(item.id, { accepted: ev.target.checked })} />
+                  </td>
+                  <td className="p-2 text-aura-text/70">
+                    <div>{item.name || <span className="italic text-aura-muted/50">empty</span>}</div>
+                    <div dir="rtl" className="text-aura-muted">{item.hebrewName || <span className="italic text-aura-muted/50">—</span>}</div>
+                  </td>
+                  <td className="p-2">
+                    <input value={e.name} onChange={ev => update(item.id, { name: ev.target.value })} className={inputCls} />
+                  </td>
+                  <td className="p-2">
+                    <input dir="rtl" value={e.hebrew_name} onChange={ev => update(item.id, { hebrew_name: ev.target.value })} className={inputCls} />
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
 // ---------------------------------------------------------------------------
 // Before / after card
 // ---------------------------------------------------------------------------
@@ -191,15 +455,23 @@ function BeforeAfter({ label, before, after }: { label: string; before: string;
 // ---------------------------------------------------------------------------
 // Main component
 // ---------------------------------------------------------------------------
-export function GeneratePanel() {
+export interface GenerateTarget {
+  genType:   GenerateType
+  courseId:  number
+  lectureId: number
+}
+
+export function GeneratePanel({ initialTarget }: { initialTarget?: GenerateTarget | null } = {}) {
   const { success, error: showError } = useToast()
 
   // ── selection state ──────────────────────────────────────────────────────
-  const [genType,    setGenType]    = useState<GenerateType>('lecture_title')
+  const [genType,    setGenType]    = useState<GenerateType>(initialTarget?.genType ?? 'lecture_title')
   const [courses,    setCourses]    = useState<Course[]>([])
-  const [courseId,   setCourseId]   = useState('')
+  const [courseId,   setCourseId]   = useState(initialTarget ? String(initialTarget.courseId) : '')
   const [lectures,   setLectures]   = useState<Lecture[]>([])
   const [lectureId,  setLectureId]  = useState('')
+  // Lecture preselected by another tab — applied once its course's lectures load
+  const pendingLectureId = useRef(initialTarget ? String(initialTarget.lectureId) : '')
   const [entityType, setEntityType] = useState<EntityType>('directors')
   const [entities,   setEntities]   = useState<EntityRow[]>([])
   const [entityId,   setEntityId]   = useState('')
@@ -216,6 +488,10 @@ export function GeneratePanel() {
   const [selectedTitle,    setSelectedTitle]    = useState<string | null>(null)
   const [pdfJob,           setPdfJob]           = useState<{ id: number; status: string } | null>(null)
   const [showPdfAfterTitle, setShowPdfAfterTitle] = useState(false)
+  const [nameEdits,        setNameEdits]        = useState<NameEdits>({})
+  const [minVotes,         setMinVotes]         = useState(DEFAULT_MIN_VOTES)
+  const [voteOverrides,    setVoteOverrides]    = useState<VoteOverrides>({})
+  const [matchChoices,     setMatchChoices]     = useState<MatchChoices>({})
 
   // ── load courses on mount ─────────────────────────────────────────────────
   useEffect(() => {
@@ -232,7 +508,13 @@ export function GeneratePanel() {
     if (!courseId) return
     fetch(`/api/lectures?courseId=${courseId}`)
       .then(r => r.json())
-      .then(d => setLectures(d.lectures ?? []))
+      .then(d => {
+        setLectures(d.lectures ?? [])
+        if (pendingLectureId.current) {
+          setLectureId(pendingLectureId.current)
+          pendingLectureId.current = ''
+        }
+      })
       .catch(console.error)
   }, [courseId])
 
@@ -254,7 +536,7 @@ export function GeneratePanel() {
 
   // ── poll queued job status (summary_pdf or chapters_vtt) ─────────────────
   useEffect(() => {
-    if (!pdfJob || pdfJob.status === 'done' || pdfJob.status === 'failed') return
+    if (!pdfJob || isJobFinished(pdfJob.status)) return
     const jobType = genType === 'chapters_vtt' ? 'chapters_vtt' : 'summary_pdf'
     const timer = setInterval(async () => {
       const r = await fetch(`/api/generate/pdf-status?lectureId=${lectureId}&jobType=${jobType}`)
@@ -265,9 +547,17 @@ export function GeneratePanel() {
   }, [pdfJob, lectureId, genType])
 
   // ── helpers ───────────────────────────────────────────────────────────────
-  function needsCourse(t: GenerateType) { return t !== 'entity_desc' }
-  function needsLecture(t: GenerateType) { return !['course_synopsis', 'entity_desc'].includes(t) }
+  function needsCourse(t: GenerateType) { return !['entity_desc', 'entity_names'].includes(t) }
+  function needsLecture(t: GenerateType) { return !['course_synopsis', 'entity_desc', 'entity_names'].includes(t) }
   function needsEntity(t: GenerateType)  { return t === 'entity_desc' }
+  function needsEntityType(t: GenerateType) { return t === 'entity_desc' || t === 'entity_names' }
+  function entityTypesFor(t: GenerateType) { return t === 'entity_names' ? NAME_ENTITY_TYPES : DESC_ENTITY_TYPES }
+
+  function selectGenType(t: GenerateType) {
+    setGenType(t)
+    if (needsEntityType(t) && !entityTypesFor(t).includes(entityType)) setEntityType(entityTypesFor(t)[0])
+    resetResult()
+  }
 
   function isReady() {
     if (needsLecture(genType) && !lectureId) return false
@@ -282,6 +572,9 @@ export function GeneratePanel() {
     setSelectedTitle(null)
     setPdfJob(null)
     setShowPdfAfterTitle(false)
+    setNameEdits({})
+    setVoteOverrides({})
+    setMatchChoices({})
   }
 
   // ── generate ─────────────────────────────────────────────────────────────
@@ -296,6 +589,7 @@ export function GeneratePanel() {
       if (courseId && !lectureId) body.courseId = Number(courseId)
       if (courseId && needsCourse(genType) && !needsLecture(genType)) body.courseId = Number(courseId)
       if (needsEntity(genType)) { body.entityType = entityType; body.entityId = Number(entityId) }
+      if (genType === 'entity_names') body.entityType = entityType
       if (note.trim()) body.note = note.trim()
 
       const res = await fetch('/api/generate', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
@@ -309,6 +603,14 @@ export function GeneratePanel() {
         return
       }
 
+      if (genType === 'entity_names') {
+        setNameEdits(Object.fromEntries((data.items as NameProposal[]).map(i => [
+          i.id, { name: i.proposedName, hebrew_name: i.proposedHebrewName, accepted: true },
+        ])))
+      }
+
+      if (genType === 'entities' && typeof data.minVotes === 'number') setMinVotes(data.minVotes)
+
       setResult(data)
       setPhase('preview')
     } catch (err) {
@@ -324,13 +626,22 @@ export function GeneratePanel() {
     try {
       const confirmData = (genType === 'lecture_title' && selectedTitle)
         ? { ...result, after: selectedTitle }
-        : result
+        : genType === 'entity_names'
+          ? { items: Object.entries(nameEdits).filter(([, e]) => e.accepted).map(([id, e]) => ({ id: Number(id), name: e.name, hebrew_name: e.hebrew_name })) }
+          : genType === 'entities' && result?.votes
+            ? {
+                ...result,
+                extracted:   acceptedLists(result.votes as Record<string, ExtractedName[]>, minVotes, voteOverrides),
+                resolutions: matchResolutions((result.matches ?? {}) as EntityMatches, matchChoices),
+              }
+            : result
       const body: Record<string, unknown> = {
         type: genType, action, data: confirmData,
       }
       if (lectureId) body.lectureId = Number(lectureId)
       if (courseId)  body.courseId  = Number(courseId)
       if (needsEntity(genType)) { body.entityType = entityType; body.entityId = Number(entityId) }
+      if (genType === 'entity_names') body.entityType = entityType
 
       const res = await fetch('/api/generate/confirm', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
       const data = await res.json()
@@ -341,7 +652,9 @@ export function GeneratePanel() {
       } else {
         setTimeout(resetResult, 1500)
       }
-      success('Saved', 'Changes applied successfully.')
+      success('Saved', genType === 'entity_names' ? `${data.updated} names updated.`
+        : genType === 'entities' && typeof data.created === 'number' ? `Links saved — ${data.created} new entities created.`
+        : 'Changes applied successfully.')
       setPhase('done')
     } catch (err) {
       showError('Failed to save', err instanceof Error ? err.message : String(err))
@@ -389,12 +702,18 @@ export function GeneratePanel() {
   }
 
   // ── render ────────────────────────────────────────────────────────────────
+  const acceptedNames = Object.values(nameEdits).filter(e => e.accepted).length
+  const canConfirm    = genType === 'lecture_title' ? !!selectedTitle
+    : genType === 'entity_names' ? acceptedNames > 0
+    : true
+
   const GEN_TYPES: { id: GenerateType; label: string; icon: React.ReactNode }[] = [
     { id: 'lecture_title',    label: 'Lecture Title',    icon: <Tag size={12} />      },
     { id: 'lecture_synopsis', label: 'Lecture Synopsis', icon: <FileText size={12} /> },
     { id: 'course_synopsis',  label: 'Course Synopsis',  icon: <BookOpen size={12} /> },
     { id: 'entities',         label: 'Entities',         icon: <Users size={12} />    },
     { id: 'entity_desc',      label: 'Entity Desc',      icon: <Layers size={12} />   },
+    { id: 'entity_names',     label: 'Entity Names',     icon: <Languages size={12} />},
     { id: 'summary_pdf',      label: 'Summary PDF',      icon: <FileText size={12} /> },
     { id: 'chapters_vtt',     label: 'Chapters VTT',     icon: <RefreshCw size={12} />},
   ]
@@ -415,7 +734,7 @@ export function GeneratePanel() {
           {GEN_TYPES.map(({ id, label, icon }) => (
             <button
               key={id}
-              onClick={() => { setGenType(id); resetResult() }}
+              onClick={() => selectGenType(id)}
               className={clsx(
                 'flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-all duration-200',
                 genType === id
@@ -450,15 +769,15 @@ export function GeneratePanel() {
         )}
 
         {/* Entity type + entity picker */}
+        {needsEntityType(genType) && (
+          <Select value={entityType} onChange={v => setEntityType(v as EntityType)} placeholder="Entity type…">
+            {entityTypesFor(genType).map(et => <option key={et} value={et}>{ENTITY_TYPES[et].label}</option>)}
+          </Select>
+        )}
         {needsEntity(genType) && (
-          <>
-            <Select value={entityType} onChange={v => setEntityType(v as EntityType)} placeholder="Entity type…">
-              {ENTITY_TYPES.map(et => <option key={et} value={et}>{ENTITY_LABELS[et]}</option>)}
-            </Select>
-            <Select value={entityId} onChange={setEntityId} placeholder="Select entity…" disabled={!entities.length}>
-              {entities.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
-            </Select>
-          </>
+          <Select value={entityId} onChange={setEntityId} placeholder="Select entity…" disabled={!entities.length}>
+            {entities.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+          </Select>
         )}
 
         {/* Note textarea */}
@@ -509,7 +828,12 @@ export function GeneratePanel() {
             className="glass rounded-2xl p-4 border border-aura-accent/20 space-y-4"
           >
             <div className="flex items-center justify-between">
-              <p className="text-xs font-semibold text-aura-accent">Results</p>
+              <p className="text-xs font-semibold text-aura-accent">
+                Results
+                {typeof result.chunks === 'number' && result.chunks > 1 && (
+                  <span className="ml-2 font-normal text-aura-muted">long transcript — processed in {result.chunks} parts</span>
+                )}
+              </p>
               <button onClick={resetResult} className="text-aura-muted"><X size={14} /></button>
             </div>
 
@@ -548,12 +872,40 @@ export function GeneratePanel() {
               />
             )}
 
+            {/* Name proposals */}
+            {genType === 'entity_names' && Array.isArray(result.items) && (
+              <NameReviewTable items={result.items as NameProposal[]} edits={nameEdits} onChange={setNameEdits} />
+            )}
+
             {/* Entity diff */}
             {genType === 'entities' && (() => {
-              const current   = result.current   as Record<string, { discussed: string[]; mentioned: string[] }>
-              const extracted = result.extracted as Record<string, { discussed: string[]; mentioned: string[] }>
-              const diff = computeDiff(current, extracted)
-              return <EntityDiffView diff={diff} />
+              const current   = result.current as EntityLists
+              const votes     = result.votes as Record<string, ExtractedName[]> | undefined
+              const matches   = (result.matches ?? {}) as EntityMatches
+              const extracted = votes ? acceptedLists(votes, minVotes, voteOverrides) : result.extracted as EntityLists
+              const diff = computeDiff(current, resolvedLists(extracted, matches, matchChoices))
+              return (
+                <>
+                  {typeof result.warning === 'string' && (
+                    <div className="flex items-start gap-2 px-3 py-2 rounded-xl bg-aura-warning/[0.05] border border-aura-warning/15">
+                      <AlertTriangle size={11} className="text-aura-warning shrink-0 mt-0.5" />
+                      <p className="text-[11px] text-aura-warning/80 leading-relaxed">{result.warning}</p>
+                    </div>
+                  )}
+                  {votes && (
+                    <EntityVoteReview
+                      votes={votes}
+                      runs={Number(result.runs)}
+                      minVotes={minVotes}
+                      overrides={voteOverrides}
+                      onMinVotes={setMinVotes}
+                      onOverrides={setVoteOverrides}
+                    />
+                  )}
+                  <EntityMatchReview lists={extracted} matches={matches} choices={matchChoices} onChange={setMatchChoices} />
+                  <EntityDiffView diff={diff} />
+                </>
+              )
             })()}
 
             {/* Action buttons */}
@@ -576,15 +928,17 @@ export function GeneratePanel() {
               ) : (
                 <>
                   <button onClick={() => handleConfirm('confirm')}
-                    disabled={phase === 'confirming' || (genType === 'lecture_title' && !selectedTitle)}
+                    disabled={phase === 'confirming' || !canConfirm}
                     className={clsx(
                       'flex-1 flex items-center justify-center gap-1.5 py-2 rounded-xl',
                       'bg-aura-accent/10 border border-aura-accent/30 text-aura-accent text-xs font-semibold',
-                      (phase === 'confirming' || (genType === 'lecture_title' && !selectedTitle)) && 'opacity-40 pointer-events-none',
+                      (phase === 'confirming' || !canConfirm) && 'opacity-40 pointer-events-none',
                     )}>
                     {phase === 'confirming'
                       ? <><Loader2 size={12} className="animate-spin" /> Saving…</>
-                      : <><Check size={12} /> Confirm</>}
+                      : genType === 'entity_names'
+                        ? <><Check size={12} /> Apply {acceptedNames} names</>
+                        : <><Check size={12} /> Confirm</>}
                   </button>
                   <button onClick={() => handleConfirm('decline')}
                     className="flex items-center justify-center gap-1.5 px-3 py-2 rounded-xl bg-aura-error/10 border border-aura-error/30 text-aura-error text-xs font-semibold">
@@ -608,7 +962,7 @@ export function GeneratePanel() {
             <div className="flex items-center gap-2">
               {pdfJob.status === 'done'
                 ? <Check size={14} className="text-aura-success" />
-                : pdfJob.status === 'failed'
+                : pdfJob.status === 'failed' || pdfJob.status === 'cancelled'
                   ? <X size={14} className="text-aura-error" />
                   : <Loader2 size={14} className="animate-spin text-aura-accent" />}
               <span className="text-sm text-aura-text">
@@ -616,16 +970,16 @@ export function GeneratePanel() {
                 <span className={clsx(
                   'font-semibold',
                   pdfJob.status === 'done' ? 'text-aura-success' :
-                  pdfJob.status === 'failed' ? 'text-aura-error' : 'text-aura-accent',
+                  pdfJob.status === 'failed' || pdfJob.status === 'cancelled' ? 'text-aura-error' : 'text-aura-accent',
                 )}>
                   {pdfJob.status}
                 </span>
               </span>
-              {(pdfJob.status === 'done' || pdfJob.status === 'failed') && (
+              {isJobFinished(pdfJob.status) && (
                 <button onClick={resetResult} className="ml-auto text-aura-muted"><X size={14} /></button>
               )}
             </div>
-            {pdfJob.status !== 'done' && pdfJob.status !== 'failed' && (
+            {!isJobFinished(pdfJob.status) && (
               <p className="text-xs text-aura-muted mt-1.5">
                 {genType === 'chapters_vtt' ? 'Chapters VTT' : 'The PDF'} will be generated in the background.
               </p>
@@ -669,6 +1023,9 @@ export function GeneratePanel() {
         )}
       </AnimatePresence>
 
+      {/* Bulk description queue */}
+      {genType === 'entity_desc' && <DescriptionQueuePanel />}
+
       {/* Re-transcribe — destructive action */}
       <div className="rounded-2xl border border-aura-error/20 bg-aura-error/[0.02] overflow-hidden">
         <div className="px-4 py-3.5 flex items-center gap-3">
@@ -0,0 +1,284 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { ChevronDown, History, Loader2, RotateCcw, User } from 'lucide-react'
+import { ENTITY_TYPES, EntityType } from '@/lib/constants'
+import { useToast } from './ToastProvider'
+import clsx from 'clsx'
+
+const PAGE_SIZE = 50
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+interface AuditEntry {
+  id:          number
+  created_at:  string
+  route:       string
+  method:      string
+  action:      string
+  entity_type: string | null
+  entity_id:   number | null
+  course_id:   number | null
+  lecture_id:  number | null
+  before:      unknown
+  after:       unknown
+  actor:       string | null
+}
+
+interface Course { id: number; title: string }
+
+interface FieldChange {
+  field:  string
+  before: unknown
+  after:  unknown
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+/** Field-level changes between two snapshots; non-object snapshots diff as a whole */
+function diffSnapshots(before: unknown, after: unknown): FieldChange[] {
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ field: '', before, after }]
+  }
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+  return fields
+    .filter(f => JSON.stringify(before[f] ?? null) !== JSON.stringify(after[f] ?? null))
+    .map(f => ({ field: f, before: before[f] ?? null, after: after[f] ?? null }))
+}
+
+function fmtValue(v: unknown): string {
+  if (v === null || v === undefined || v === '') return '—'
+  if (typeof v === 'string') return v
+  return JSON.stringify(v, null, 1)
+}
+
+function fmtWhen(iso: string): string {
+  return new Date(iso).toLocaleString('en-GB', {
+    day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit',
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Single audit row
+// ---------------------------------------------------------------------------
+function AuditRow({ entry, courseTitle }: { entry: AuditEntry; courseTitle?: string }) {
+  const [open, setOpen] = useState(false)
+  const cfg     = entry.entity_type ? ENTITY_TYPES[entry.entity_type as EntityType] : undefined
+  const changes = open ? diffSnapshots(entry.before, entry.after) : []
+
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, y: 6 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0 }}
+      className="border-b border-white/[0.04] last:border-0"
+    >
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-white/[0.02] transition-colors"
+      >
+        <span className="text-lg leading-none mt-0.5 shrink-0">{cfg?.icon ?? '•'}</span>
+
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-aura-text truncate">
+            {entry.action}
+            {entry.entity_id != null && (
+              <span className="text-aura-muted font-normal"> · {cfg?.label ?? entry.entity_type} #{entry.entity_id}</span>
+            )}
+          </p>
+          <div className="flex items-center gap-3 mt-1">
+            <span className="text-[10px] text-aura-muted font-mono truncate">{entry.method} {entry.route}</span>
+            {courseTitle && (
+              <span className="text-[10px] text-aura-indigo truncate">{courseTitle}</span>
+            )}
+          </div>
+          <div className="flex items-center gap-3 mt-1">
+            <span className="flex items-center gap-1 text-[10px] text-aura-muted/70 truncate" title={entry.actor ?? ''}>
+              <User size={9} />
+              {(entry.actor ?? 'unknown').slice(0, 8)}
+            </span>
+            <span className="text-[10px] text-aura-muted/60 ml-auto">{fmtWhen(entry.created_at)}</span>
+          </div>
+        </div>
+
+        <ChevronDown
+          size={14}
+          className={clsx('text-aura-muted shrink-0 mt-1 transition-transform', open && 'rotate-180')}
+        />
+      </button>
+
+      {open && (
+        <div className="px-4 pb-3 space-y-2">
+          {changes.length === 0 ? (
+            <p className="text-xs text-aura-muted italic">No field-level changes recorded.</p>
+          ) : changes.map(c => (
+            <div key={c.field || '_'}>
+              {c.field && (
+                <p className="text-[10px] uppercase tracking-widest text-aura-muted mb-1">{c.field}</p>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <pre className="rounded-lg bg-black/20 border border-white/[0.05] p-2 text-[11px]
+                                text-aura-text/60 whitespace-pre-wrap break-words max-h-48 overflow-auto">
+                  {fmtValue(c.before)}
+                </pre>
+                <pre className="rounded-lg bg-aura-accent/[0.04] border border-aura-accent/20 p-2 text-[11px]
+                                text-aura-text whitespace-pre-wrap break-words max-h-48 overflow-auto">
+                  {fmtValue(c.after)}
+                </pre>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Main HistoryPanel
+// ---------------------------------------------------------------------------
+export function HistoryPanel() {
+  const { error: toastError } = useToast()
+
+  const [entries,    setEntries]    = useState<AuditEntry[]>([])
+  const [total,      setTotal]      = useState(0)
+  const [loading,    setLoading]    = useState(false)
+  const [courses,    setCourses]    = useState<Course[]>([])
+
+  const [entityType, setEntityType] = useState('')
+  const [entityId,   setEntityId]   = useState('')
+  const [courseId,   setCourseId]   = useState('')
+  const [from,       setFrom]       = useState('')
+  const [to,         setTo]         = useState('')
+
+  useEffect(() => {
+    fetch('/api/courses')
+      .then(r => r.json())
+      .then(d => setCourses(d.courses ?? []))
+      .catch(console.error)
+  }, [])
+
+  const load = useCallback(async (offset: number) => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) })
+      if (entityType)      params.set('entityType', entityType)
+      if (entityId.trim()) params.set('entityId',   entityId.trim())
+      if (courseId)        params.set('courseId',   courseId)
+      if (from)            params.set('from',       from)
+      if (to)              params.set('to',         to)
+
+      const res  = await fetch(`/api/audit?${params}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error ?? 'Failed to load')
+
+      setEntries(prev => offset === 0 ? data.entries : [...prev, ...data.entries])
+      setTotal(data.total ?? 0)
+    } catch (e) {
+      toastError('Load failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+    }
+  }, [entityType, entityId, courseId, from, to, toastError])
+
+  useEffect(() => { load(0) }, [load])
+
+  const courseTitles = new Map(courses.map(c => [c.id, c.title]))
+
+  const inputCls = clsx(
+    'w-full bg-black/30 border border-white/[0.08] rounded-xl px-3 py-2 text-xs text-aura-text',
+    'focus:outline-none focus:border-aura-accent/40 transition-colors',
+  )
+
+  return (
+    <div className="space-y-4">
+
+      {/* Header + filters */}
+      <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="flex items-center gap-2">
+              <History size={15} className="text-aura-accent" />
+              <p className="text-sm font-semibold text-aura-text">History</p>
+            </div>
+            <p className="text-xs text-aura-muted mt-0.5">
+              {loading && entries.length === 0 ? '…' : `${total} change${total !== 1 ? 's' : ''} recorded`}
+            </p>
+          </div>
+          <button
+            onClick={() => load(0)}
+            disabled={loading}
+            className="text-aura-muted disabled:opacity-40"
+            title="Refresh"
+          >
+            <RotateCcw size={14} className={loading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <select value={entityType} onChange={e => setEntityType(e.target.value)} className={inputCls}>
+            <option value="">All entity types</option>
+            {(Object.keys(ENTITY_TYPES) as EntityType[]).map(t => (
+              <option key={t} value={t}>{ENTITY_TYPES[t].icon} {ENTITY_TYPES[t].label}</option>
+            ))}
+          </select>
+          <input
+            value={entityId}
+            onChange={e => setEntityId(e.target.value.replace(/\D/g, ''))}
+            placeholder="Entity id"
+            inputMode="numeric"
+            className={inputCls}
+          />
+          <select value={courseId} onChange={e => setCourseId(e.target.value)} className={clsx(inputCls, 'col-span-2')}>
+            <option value="">All courses</option>
+            {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+          </select>
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} className={inputCls} title="From" />
+          <input type="date" value={to}   onChange={e => setTo(e.target.value)}   className={inputCls} title="To" />
+        </div>
+      </div>
+
+      {/* List */}
+      <div className="glass rounded-2xl border border-white/[0.07] overflow-hidden">
+        {loading && entries.length === 0 ? (
+          <div className="flex items-center justify-center py-14 gap-2 text-aura-muted">
+            <Loader2 size={16} className="animate-spin" />
+            <span className="text-sm">Loading…</span>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-aura-muted text-sm py-14">No changes match these filters</p>
+        ) : (
+          <AnimatePresence initial={false}>
+            {entries.map(entry => (
+              <AuditRow
+                key={entry.id}
+                entry={entry}
+                courseTitle={entry.course_id != null ? courseTitles.get(entry.course_id) : undefined}
+              />
+            ))}
+          </AnimatePresence>
+        )}
+      </div>
+
+      {entries.length < total && (
+        <button
+          onClick={() => load(entries.length)}
+          disabled={loading}
+          className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl glass border border-white/[0.08]
+                     text-xs text-aura-muted hover:text-aura-text transition-colors disabled:opacity-40"
+        >
+          {loading ? <Loader2 size={12} className="animate-spin" /> : null}
+          Load more ({total - entries.length} remaining)
+        </button>
+      )}
+    </div>
+  )
+}
@@ -4,18 +4,18 @@ import { useCallback, useEffect, useRef, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { ChevronRight, Loader2, Palette, Star, Trash2 } from 'lucide-react'
 import { useToast } from './ToastProvider'
-import { ENTITY_TYPES, Entity } from '@/lib/constants'
+import { ENTITY_TYPES, Entity, EntityType, IMAGE_ENTITY_TYPES, WIKIMEDIA_SEARCHES } from '@/lib/constants'
 import type { ImageResult } from '@/app/api/image-process/route'
 
-// Entity types that support images (no lectures)
-const IMAGE_TYPES = ['films', 'directors', 'writers', 'painters', 'philosophers', 'paintings', 'books', 'courses'] as const
-type ImageType = (typeof IMAGE_TYPES)[number]
+// Entity types that support images (no lectures / themes)
+const IMAGE_TYPES = IMAGE_ENTITY_TYPES
+type ImageType = EntityType
 
 // Types that get Wikimedia Commons search + NIMA scoring
-const WIKIMEDIA_TYPES = new Set(['philosophers', 'directors', 'writers', 'painters', 'paintings', 'films'])
-
-// Portrait ratio for these types, square for people
-const PORTRAIT_TYPES = new Set(['films', 'paintings', 'books'])
+function isWikimediaType(type: string): boolean {
+  const strategy = ENTITY_TYPES[type as EntityType]?.imageSearch
+  return strategy != null && WIKIMEDIA_SEARCHES.includes(strategy)
+}
 
 interface TypeStats {
   total:   number
@@ -104,6 +104,7 @@ export function ImageGame() {
         type,
         name: entity.displayName,
         ...(entity.hebrewName ? { hebrewName: entity.hebrewName } : {}),
+        ...(entity.imageSource ? { imageSource: entity.imageSource } : {}),
       })
       const res  = await fetch(`/api/image-search?${params}`)
       const json = await res.json()
@@ -111,7 +112,7 @@ export function ImageGame() {
       setImages(urls)
       setSearchLoading(false)
 
-      if (!urls.length || !WIKIMEDIA_TYPES.has(type)) return
+      if (!urls.length || !isWikimediaType(type)) return
 
       // Phase 2: NIMA scoring + B&W detection (~3-10s)
       setScoresLoading(true)
@@ -232,7 +233,7 @@ export function ImageGame() {
   const entity     = queue[queueIdx] ?? null
   const allDone    = !statsLoading && activeType !== null && queueIdx >= queue.length
   const remaining  = Math.max(0, queue.length - queueIdx)
-  const isPortrait = activeType ? PORTRAIT_TYPES.has(activeType) : false
+  const isPortrait = activeType ? ENTITY_TYPES[activeType].imageAspect === 'portrait' : false
 
   return (
     <div className="space-y-4">
@@ -261,8 +262,8 @@ export function ImageGame() {
                     : 'bg-white/[0.03] text-aura-muted border border-white/5'
                 }`}
               >
-                <span>{ENTITY_TYPES[t as keyof typeof ENTITY_TYPES]?.icon}</span>
-                <span>{ENTITY_TYPES[t as keyof typeof ENTITY_TYPES]?.label}</span>
+                <span>{ENTITY_TYPES[t].icon}</span>
+                <span>{ENTITY_TYPES[t].label}</span>
                 <span className={`ml-0.5 font-bold ${s.missing > 0 ? 'text-aura-error' : 'text-aura-success'}`}>
                   {s.missing}
                 </span>
@@ -283,7 +284,7 @@ export function ImageGame() {
           >
             {IMAGE_TYPES.map((t) => (
               <option key={t} value={t}>
-                {ENTITY_TYPES[t as keyof typeof ENTITY_TYPES]?.label}
+                {ENTITY_TYPES[t].label}
               </option>
             ))}
           </select>
@@ -0,0 +1,264 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { ChevronDown, Cog, Loader2, RefreshCw, RotateCcw, X } from 'lucide-react'
+import clsx from 'clsx'
+import { useToast } from './ToastProvider'
+
+const PAGE_SIZE   = 50
+const POLL_MS     = 5000
+
+const JOB_TYPE_LABELS: Record<string, string> = {
+  summary_pdf:  'Summary PDF',
+  chapters_vtt: 'Chapters VTT',
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  pending:   'text-aura-muted border-white/[0.08]',
+  running:   'text-aura-accent border-aura-accent/30',
+  done:      'text-aura-success border-aura-success/30',
+  failed:    'text-aura-error border-aura-error/30',
+  cancelled: 'text-aura-muted/60 border-white/[0.05]',
+}
+
+const FILTERS: { id: string; label: string; statuses: string }[] = [
+  { id: 'active', label: 'Active', statuses: 'pending,running'  },
+  { id: 'failed', label: 'Failed', statuses: 'failed,cancelled' },
+  { id: 'done',   label: 'Done',   statuses: 'done'             },
+  { id: 'all',    label: 'All',    statuses: ''                 },
+]
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+interface RegenJobView {
+  id:              number
+  created_at:      string
+  job_type:        string
+  lecture_id:      number
+  status:          string
+  attempts:        number
+  max_attempts:    number
+  next_attempt_at: string | null
+  worker_id:       string | null
+  started_at:      string | null
+  heartbeat_at:    string | null
+  completed_at:    string | null
+  output:          string | null
+  error:           string | null
+  lectureTitle:    string | null
+  lectureNumber:   number | null
+  courseTitle:     string | null
+}
+
+function fmtTime(iso: string | null): string {
+  if (!iso) return '—'
+  return new Date(iso).toLocaleString('en-GB', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })
+}
+
+// ---------------------------------------------------------------------------
+// Job row
+// ---------------------------------------------------------------------------
+function JobRow({ job, onCancel, onRetry }: {
+  job: RegenJobView; onCancel: () => void; onRetry: () => void
+}) {
+  const [open, setOpen] = useState(false)
+  const retryAt = job.status === 'pending' && job.next_attempt_at && new Date(job.next_attempt_at) > new Date()
+    ? job.next_attempt_at : null
+
+  return (
+    <div className="rounded-xl bg-black/20 border border-white/[0.05]">
+      <div className="flex items-center gap-2 px-3 py-2.5">
+        <span className={clsx('px-1.5 py-0.5 rounded-md border text-[10px] font-semibold uppercase', STATUS_STYLES[job.status])}>
+          {job.status}
+        </span>
+        <div className="min-w-0 flex-1">
+          <p className="text-xs text-aura-text truncate">
+            {JOB_TYPE_LABELS[job.job_type] ?? job.job_type}
+            <span className="text-aura-muted"> · {job.courseTitle ?? 'Unknown course'}</span>
+          </p>
+          <p className="text-[10px] text-aura-muted truncate">
+            Lecture {job.lectureNumber ?? '?'} — {job.lectureTitle ?? `#${job.lecture_id}`}
+            {' · '}attempt {job.attempts}/{job.max_attempts}
+            {retryAt && ` · retry after ${fmtTime(retryAt)}`}
+          </p>
+        </div>
+        {job.status === 'running' && <Loader2 size={12} className="animate-spin text-aura-accent shrink-0" />}
+        {(job.status === 'pending' || job.status === 'running') && (
+          <button onClick={onCancel} title="Cancel" className="p-1.5 rounded-lg text-aura-muted hover:text-aura-error hover:bg-aura-error/10">
+            <X size={12} />
+          </button>
+        )}
+        {(job.status === 'failed' || job.status === 'cancelled') && (
+          <button onClick={onRetry} title="Retry" className="p-1.5 rounded-lg text-aura-muted hover:text-aura-accent hover:bg-aura-accent/10">
+            <RotateCcw size={12} />
+          </button>
+        )}
+        <button onClick={() => setOpen(o => !o)} className="p-1 text-aura-muted">
+          <ChevronDown size={12} className={clsx('transition-transform', open && 'rotate-180')} />
+        </button>
+      </div>
+      <AnimatePresence initial={false}>
+        {open && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="px-3 pb-3 space-y-2 text-[11px] border-t border-white/[0.04] pt-2">
+              <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-aura-muted">
+                <span>Queued: {fmtTime(job.created_at)}</span>
+                <span>Started: {fmtTime(job.started_at)}</span>
+                <span>Heartbeat: {fmtTime(job.heartbeat_at)}</span>
+                <span>Finished: {fmtTime(job.completed_at)}</span>
+                <span className="col-span-2">Worker: {job.worker_id ?? '—'}</span>
+              </div>
+              {job.error && (
+                <pre className="whitespace-pre-wrap break-words rounded-lg bg-aura-error/[0.06] border border-aura-error/20 p-2 text-aura-error/90">
+                  {job.error}
+                </pre>
+              )}
+              {job.output && (
+                <pre className="whitespace-pre-wrap break-words rounded-lg bg-black/30 border border-white/[0.05] p-2 text-aura-text/70 max-h-48 overflow-y-auto">
+                  {job.output}
+                </pre>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+export function JobsPanel() {
+  const { error: showError, success } = useToast()
+
+  const [filter,  setFilter]  = useState('active')
+  const [jobType, setJobType] = useState('')
+  const [jobs,    setJobs]    = useState<RegenJobView[]>([])
+  const [counts,  setCounts]  = useState<Record<string, number>>({})
+  const [total,   setTotal]   = useState(0)
+  const [loading, setLoading] = useState(false)
+
+  const load = useCallback(async (quiet = false) => {
+    if (!quiet) setLoading(true)
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+      const statuses = FILTERS.find(f => f.id === filter)?.statuses
+      if (statuses) params.set('status', statuses)
+      if (jobType)  params.set('jobType', jobType)
+      const res  = await fetch(`/api/regen-jobs?${params}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setJobs(data.jobs)
+      setCounts(data.counts)
+      setTotal(data.total)
+    } catch (err) {
+      if (!quiet) showError('Failed to load jobs', err instanceof Error ? err.message : String(err))
+    } finally {
+      if (!quiet) setLoading(false)
+    }
+  }, [filter, jobType, showError])
+
+  useEffect(() => { load() }, [load])
+
+  // Poll while anything is queued or running
+  const active = (counts.pending ?? 0) + (counts.running ?? 0)
+  useEffect(() => {
+    if (!active) return
+    const timer = setInterval(() => load(true), POLL_MS)
+    return () => clearInterval(timer)
+  }, [active, load])
+
+  async function handleCancel(job: RegenJobView) {
+    try {
+      const res  = await fetch(`/api/regen-jobs/${job.id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      success('Cancelled', `${JOB_TYPE_LABELS[job.job_type] ?? job.job_type} job cancelled`)
+      load(true)
+    } catch (err) {
+      showError('Cancel failed', err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  async function handleRetry(job: RegenJobView) {
+    try {
+      const res  = await fetch(`/api/regen-jobs/${job.id}/retry`, { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      success('Re-queued', `${JOB_TYPE_LABELS[job.job_type] ?? job.job_type} job queued again`)
+      load(true)
+    } catch (err) {
+      showError('Retry failed', err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-3">
+        <div className="flex items-center gap-2">
+          <Cog size={16} className="text-aura-accent" />
+          <h2 className="text-sm font-semibold text-aura-text">Regeneration Jobs</h2>
+          <button onClick={() => load()} className="ml-auto p-1.5 rounded-lg text-aura-muted hover:text-aura-text">
+            {loading ? <Loader2 size={13} className="animate-spin" /> : <RefreshCw size={13} />}
+          </button>
+        </div>
+
+        {/* Status counts */}
+        <div className="flex flex-wrap gap-1.5">
+          {Object.keys(STATUS_STYLES).map(s => (
+            <span key={s} className="px-2 py-1 rounded-lg bg-black/20 border border-white/[0.05] text-[11px]">
+              <span className={clsx('font-semibold', STATUS_STYLES[s].split(' ')[0])}>{counts[s] ?? 0}</span>
+              <span className="text-aura-muted ml-1">{s}</span>
+            </span>
+          ))}
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-1.5">
+          {FILTERS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFilter(f.id)}
+              className={clsx(
+                'px-2.5 py-1.5 rounded-lg text-xs font-medium transition-all duration-200',
+                filter === f.id
+                  ? 'bg-aura-accent/15 text-aura-accent border border-aura-accent/30'
+                  : 'bg-black/20 text-aura-muted border border-white/[0.05] hover:text-aura-text',
+              )}
+            >
+              {f.label}
+            </button>
+          ))}
+          <select
+            value={jobType}
+            onChange={e => setJobType(e.target.value)}
+            className="ml-auto appearance-none bg-black/30 border border-white/[0.08] rounded-lg px-2.5 py-1.5 text-xs text-aura-text focus:outline-none"
+          >
+            <option value="">All job types</option>
+            {Object.entries(JOB_TYPE_LABELS).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {jobs.length === 0 && !loading && (
+          <p className="text-center text-xs text-aura-muted py-6">No jobs</p>
+        )}
+        {jobs.map(job => (
+          <JobRow key={job.id} job={job} onCancel={() => handleCancel(job)} onRetry={() => handleRetry(job)} />
+        ))}
+        {total > jobs.length && (
+          <p className="text-center text-[11px] text-aura-muted">Showing the newest {jobs.length} of {total}</p>
+        )}
+      </div>
+    </div>
+  )
+}
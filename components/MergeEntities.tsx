@@ -1,20 +1,18 @@
 'use client'
 
-import { useCallback, useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   GitMerge, Loader2, RefreshCw, CheckCircle2,
   ArrowRight, ImageIcon, Link2, X, RotateCcw,
   Plus, Search, ChevronDown, Trash2, Shield,
-  AlertTriangle, Languages,
+  AlertTriangle, Languages, History, Undo2,
 } from 'lucide-react'
 import { EntityType, ENTITY_TYPES, JUNCTION_MAP } from '@/lib/constants'
+import { isHebrew } from '@/lib/hebrew'
 import { useToast } from './ToastProvider'
 import clsx from 'clsx'
 
-// Hebrew Unicode range detector
-const isHebrew = (s: string) => /[\u0590-\u05FF]/.test(s)
-
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -40,6 +38,36 @@ interface HistoryRow {
   keep_type: string | null
 }
 
+interface JournalMerge {
+  id:         number
+  /** Rows of one merge call share it and are undone together */
+  groupId:    number
+  createdAt:  string
+  keepType:   EntityType
+  keepId:     number
+  keepName:   string | null
+  deleteType: EntityType
+  deleteId:   number
+  deleteName: string | null
+  linkCount:  number
+  hadImage:   boolean
+  undoneAt:   string | null
+}
+
+/** Values a group merge can choose between (GET /api/entities/merge/group) */
+interface GroupMemberFields {
+  type:        EntityType
+  id:          number
+  name:        string | null
+  hebrew_name: string | null
+  description: string | null
+}
+
+type GroupField = 'name' | 'hebrew_name' | 'description' | 'image'
+
+/** Group member whose value survives, per field */
+type GroupFieldChoices = Partial<Record<GroupField, { type: EntityType; id: number }>>
+
 interface MergeSelection {
   keepIdx:   number  // index in group.entities to keep
   deleteIdx: number  // index in group.entities to delete
@@ -182,6 +210,163 @@ function MergeArrow() {
   )
 }
 
+// ---------------------------------------------------------------------------
+// GroupMergeOptions — merge every other entity of a group into the kept one,
+// picking which member's name / Hebrew name / description / image survives
+// ---------------------------------------------------------------------------
+const GROUP_FIELDS: { field: GroupField; label: string }[] = [
+  { field: 'name',        label: 'Name' },
+  { field: 'hebrew_name', label: 'Hebrew name' },
+  { field: 'description', label: 'Description' },
+  { field: 'image',       label: 'Image' },
+]
+
+function GroupMergeOptions({
+  group,
+  keepIdx,
+  merging,
+  onCancel,
+  onMerge,
+}: {
+  group:    DuplicateGroup
+  keepIdx:  number
+  merging:  boolean
+  onCancel: () => void
+  onMerge:  (fields: GroupFieldChoices) => void
+}) {
+  const [members, setMembers] = useState<GroupMemberFields[] | null>(null)
+  const [loadErr, setLoadErr] = useState<string | null>(null)
+  const [choices, setChoices] = useState<Partial<Record<GroupField, number>>>({})
+
+  const keepEntity = group.entities[keepIdx]
+
+  useEffect(() => {
+    const entities = group.entities.map(e => `${e.type}:${e.id}`).join(',')
+    fetch(`/api/entities/merge/group?entities=${encodeURIComponent(entities)}`)
+      .then(r => r.json())
+      .then(d => {
+        if (d.error) throw new Error(d.error)
+        setMembers(d.entities)
+      })
+      .catch(e => setLoadErr(e instanceof Error ? e.message : String(e)))
+  }, [group])
+
+  /** Distinct non-empty values of a field, first member holding each */
+  function optionsFor(field: GroupField): { idx: number; label: string }[] {
+    if (field === 'image') {
+      return group.entities
+        .map((e, idx) => ({ idx, label: `#${e.id} ${e.displayName}` }))
+        .filter(o => group.entities[o.idx].hasImage)
+    }
+    if (!members) return []
+    const seen = new Set<string>()
+    const out: { idx: number; label: string }[] = []
+    group.entities.forEach((e, idx) => {
+      const value = members.find(m => m.type === e.type && m.id === e.id)?.[field]
+      if (!value || seen.has(value)) return
+      seen.add(value)
+      out.push({ idx, label: value })
+    })
+    return out
+  }
+
+  // Fields the kept entity's type doesn't have can't be chosen
+  const keepCfg   = ENTITY_TYPES[keepEntity.type]
+  const available = GROUP_FIELDS.filter(({ field }) =>
+    (field !== 'hebrew_name' || keepCfg.hasHebrewName) && (field !== 'description' || keepCfg.hasDescription))
+
+  function submit() {
+    const fields: GroupFieldChoices = {}
+    for (const [field, idx] of Object.entries(choices) as [GroupField, number][]) {
+      const e = group.entities[idx]
+      fields[field] = { type: e.type, id: e.id }
+    }
+    onMerge(fields)
+  }
+
+  return (
+    <div className="px-3 pb-3 space-y-2">
+      <div className="px-3 py-2 rounded-xl bg-aura-indigo/[0.06] border border-aura-indigo/15 space-y-2">
+        <p className="text-[11px] text-aura-text">
+          Merge {group.entities.length - 1} entities into{' '}
+          <span className="font-semibold text-aura-success">{keepEntity.displayName}</span>
+          <span className="text-aura-muted"> ({keepCfg.label.replace(/s$/, '')})</span>
+        </p>
+
+        {loadErr && <p className="text-[10px] text-aura-error">{loadErr}</p>}
+        {!members && !loadErr && (
+          <p className="flex items-center gap-1.5 text-[10px] text-aura-muted">
+            <Loader2 size={10} className="animate-spin" /> Loading values…
+          </p>
+        )}
+
+        {members && available.map(({ field, label }) => {
+          const options = optionsFor(field)
+          // Nothing to choose unless another member has a (different) value
+          if (field === 'image' ? !options.some(o => o.idx !== keepIdx) : options.length < 2) return null
+          return (
+            <div key={field} className="flex items-center gap-2">
+              <span className="text-[10px] text-aura-muted w-20 shrink-0">{label}</span>
+              <select
+                value={choices[field] ?? ''}
+                onChange={e => {
+                  const v = e.target.value
+                  setChoices(prev => {
+                    const n = { ...prev }
+                    if (v === '') delete n[field]
+                    else n[field] = parseInt(v, 10)
+                    return n
+                  })
+                }}
+                dir={field === 'hebrew_name' ? 'rtl' : undefined}
+                className="flex-1 min-w-0 bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1
+                           text-[11px] text-aura-text focus:outline-none focus:border-aura-indigo/40"
+              >
+                <option value="">{field === 'image' ? 'Keep current (or first found)' : 'Keep current'}</option>
+                {options.map(o => (
+                  <option key={o.idx} value={o.idx}>
+                    {field === 'description' && o.label.length > 80 ? `${o.label.slice(0, 80)}…` : o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )
+        })}
+
+        <p className="text-[10px] text-aura-muted/70 leading-relaxed">
+          Lecture links move to the kept entity and replaced names are kept as aliases.
+          If any merge fails, the whole group is left unmerged.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs text-aura-muted
+                     border border-white/[0.07] hover:bg-white/[0.04] transition-colors"
+        >
+          <RotateCcw size={11} /> Back
+        </button>
+        <button
+          onClick={submit}
+          disabled={merging || !members}
+          className={clsx(
+            'flex-1 flex items-center justify-center gap-2 py-2 rounded-xl text-xs font-bold',
+            'bg-gradient-to-r from-aura-indigo to-aura-accent text-white',
+            'shadow-[0_0_16px_rgba(129,140,248,0.25)] hover:opacity-90',
+            'transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed',
+          )}
+        >
+          {merging
+            ? <><Loader2 size={12} className="animate-spin" /> Merging…</>
+            : <><GitMerge size={12} /> Merge all {group.entities.length}</>
+          }
+        </button>
+      </div>
+    </div>
+  )
+}
+
 // ---------------------------------------------------------------------------
 // DuplicateCard — redesigned with clear keep/delete selection
 // ---------------------------------------------------------------------------
@@ -190,17 +375,19 @@ function DuplicateCard({
   selection,
   onSelect,
   onMerge,
+  onGroupMerge,
   onDecline,
   merging,
 }: {
-  group:     DuplicateGroup
-  selection: MergeSelection | null
-  onSelect:  (keepIdx: number, deleteIdx: number) => void
-  onMerge:   () => void
-  onDecline: () => void
-  merging:   boolean
+  group:        DuplicateGroup
+  selection:    MergeSelection | null
+  onSelect:     (keepIdx: number, deleteIdx: number) => void
+  onMerge:      () => void
+  onGroupMerge: (keepIdx: number, fields: GroupFieldChoices) => void
+  onDecline:    () => void
+  merging:      boolean
 }) {
-  const [step, setStep] = useState<'choose-keep' | 'choose-delete' | 'confirm'>('choose-keep')
+  const [step, setStep] = useState<'choose-keep' | 'choose-delete' | 'confirm' | 'group'>('choose-keep')
 
   // Reset step when selection changes externally
   useEffect(() => {
@@ -227,7 +414,7 @@ function DuplicateCard({
       onSelect(keepIdx, idx)
       setStep('confirm')
     } else {
-      // In confirm mode: clicking any entity resets
+      // In confirm / group mode: clicking any entity resets
       setStep('choose-keep')
       onSelect(-1, -1)
     }
@@ -241,6 +428,8 @@ function DuplicateCard({
     ? 'Tap the entity to KEEP →'
     : step === 'choose-delete'
     ? 'Now tap the entity to DELETE →'
+    : step === 'group'
+    ? 'Merge the whole group'
     : 'Ready to merge'
 
   return (
@@ -292,13 +481,22 @@ function DuplicateCard({
       {/* Step instruction */}
       <div className={clsx(
         'px-4 py-2 text-[11px] font-medium flex items-center gap-2 border-b border-white/[0.04]',
-        step === 'confirm' ? 'text-aura-indigo bg-aura-indigo/[0.05]' : 'text-aura-muted',
+        step === 'confirm' || step === 'group' ? 'text-aura-indigo bg-aura-indigo/[0.05]' : 'text-aura-muted',
       )}>
-        {step === 'confirm'
+        {step === 'confirm' || step === 'group'
           ? <CheckCircle2 size={11} className="text-aura-indigo shrink-0" />
           : <span className="w-2 h-2 rounded-full bg-current shrink-0 opacity-60" />
         }
         {stepLabel}
+        {step === 'choose-delete' && (
+          <button
+            onClick={() => setStep('group')}
+            className="ml-auto flex items-center gap-1 px-2 py-0.5 rounded-lg text-[10px] font-semibold text-aura-indigo
+                       border border-aura-indigo/20 hover:bg-aura-indigo/10 transition-colors"
+          >
+            <GitMerge size={10} /> Merge all into kept
+          </button>
+        )}
       </div>
 
       {/* Entities grid */}
@@ -311,7 +509,7 @@ function DuplicateCard({
                 entity={group.entities[0]}
                 role={
                   selection?.keepIdx   === 0 ? 'keep'
-                  : selection?.deleteIdx === 0 ? 'delete'
+                  : selection?.deleteIdx === 0 || (step === 'group' && selection) ? 'delete'
                   : null
                 }
                 selected={selection?.keepIdx === 0 || selection?.deleteIdx === 0}
@@ -324,7 +522,7 @@ function DuplicateCard({
                 entity={group.entities[1]}
                 role={
                   selection?.keepIdx   === 1 ? 'keep'
-                  : selection?.deleteIdx === 1 ? 'delete'
+                  : selection?.deleteIdx === 1 || (step === 'group' && selection) ? 'delete'
                   : null
                 }
                 selected={selection?.keepIdx === 1 || selection?.deleteIdx === 1}
@@ -341,7 +539,7 @@ function DuplicateCard({
                 entity={entity}
                 role={
                   selection?.keepIdx   === idx ? 'keep'
-                  : selection?.deleteIdx === idx ? 'delete'
+                  : selection?.deleteIdx === idx || (step === 'group' && selection) ? 'delete'
                   : null
                 }
                 selected={selection?.keepIdx === idx || selection?.deleteIdx === idx}
@@ -352,6 +550,27 @@ function DuplicateCard({
         )}
       </div>
 
+      {/* Group merge options */}
+      <AnimatePresence>
+        {step === 'group' && keepEntity && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="overflow-hidden"
+          >
+            <GroupMergeOptions
+              group={group}
+              keepIdx={selection!.keepIdx}
+              merging={merging}
+              onCancel={() => setStep('choose-delete')}
+              onMerge={fields => onGroupMerge(selection!.keepIdx, fields)}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Merge summary + action */}
       <AnimatePresence>
         {isReady && keepEntity && deleteEntity && (
@@ -646,6 +865,151 @@ function CustomMergePanel({ onMerged }: { onMerged: () => void }) {
   )
 }
 
+// ---------------------------------------------------------------------------
+// RecentMergesPanel — merge journal with per-merge Undo
+// ---------------------------------------------------------------------------
+function RecentMergesPanel({ refreshKey, onUndone }: { refreshKey: number; onUndone: () => void }) {
+  const { success, error: toastError } = useToast()
+
+  const [open,      setOpen]      = useState(false)
+  const [merges,    setMerges]    = useState<JournalMerge[]>([])
+  const [loading,   setLoading]   = useState(false)
+  const [undoingId, setUndoingId] = useState<number | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res  = await fetch('/api/entities/merge/journal?limit=20')
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error ?? 'Failed to load')
+      setMerges(data.merges ?? [])
+    } catch (e) {
+      toastError('Load failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+    }
+  }, [toastError])
+
+  useEffect(() => { if (open) load() }, [open, refreshKey, load])
+
+  async function handleUndo(m: JournalMerge) {
+    setUndoingId(m.id)
+    try {
+      const res  = await fetch('/api/entities/merge/undo', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ journalId: m.id }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error ?? 'Undo failed')
+
+      const undoneAt = new Date().toISOString()
+      setMerges(prev => prev.map(x => x.groupId === m.groupId ? { ...x, undoneAt } : x))
+      const restored = (data.restored ?? []).length
+      success('Merge undone', restored > 1
+        ? `${restored} entities restored with their links.`
+        : `"${m.deleteName ?? `#${m.deleteId}`}" restored with its links.`)
+      onUndone()
+    } catch (e) {
+      toastError('Undo failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setUndoingId(null)
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/[0.07] overflow-hidden bg-white/[0.01]">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-4 py-3.5 hover:bg-white/[0.02] transition-colors"
+      >
+        <div className="flex items-center gap-2.5">
+          <div className="w-6 h-6 rounded-lg bg-aura-accent/10 border border-aura-accent/20 flex items-center justify-center shrink-0">
+            <History size={12} className="text-aura-accent" />
+          </div>
+          <div className="text-left">
+            <p className="text-xs font-semibold text-aura-text">Recent Merges</p>
+            <p className="text-[10px] text-aura-muted">Undo a merge and restore the deleted entity</p>
+          </div>
+        </div>
+        <ChevronDown
+          size={13}
+          className={clsx('text-aura-muted transition-transform duration-200 shrink-0', open && 'rotate-180')}
+        />
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="overflow-hidden"
+          >
+            <div className="border-t border-white/[0.05]">
+              {loading && merges.length === 0 ? (
+                <div className="flex items-center justify-center py-8 gap-2 text-aura-muted">
+                  <Loader2 size={14} className="animate-spin" />
+                  <span className="text-xs">Loading…</span>
+                </div>
+              ) : merges.length === 0 ? (
+                <p className="text-center text-aura-muted text-xs py-8">No merges recorded yet</p>
+              ) : merges.map(m => (
+                <div
+                  key={m.id}
+                  className={clsx(
+                    'flex items-center gap-3 px-4 py-2.5 border-b border-white/[0.04] last:border-0',
+                    m.undoneAt && 'opacity-40',
+                  )}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-aura-text truncate">
+                      <span className="line-through text-aura-muted">{m.deleteName ?? `#${m.deleteId}`}</span>
+                      <ArrowRight size={10} className="inline mx-1.5 text-aura-indigo/60" />
+                      <span className="font-medium">{m.keepName ?? `#${m.keepId}`}</span>
+                    </p>
+                    <div className="flex items-center gap-3 mt-0.5">
+                      <span className="text-[10px] text-aura-muted">
+                        {ENTITY_TYPES[m.deleteType]?.icon} → {ENTITY_TYPES[m.keepType]?.icon}
+                      </span>
+                      {m.linkCount > 0 && (
+                        <span className="flex items-center gap-1 text-[10px] text-aura-muted">
+                          <Link2 size={9} />{m.linkCount}
+                        </span>
+                      )}
+                      {m.hadImage && <ImageIcon size={9} className="text-aura-success" />}
+                      <span className="text-[10px] text-aura-muted/60 ml-auto">
+                        {new Date(m.createdAt).toLocaleString('en-GB', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    </div>
+                  </div>
+                  {m.undoneAt ? (
+                    <span className="text-[10px] text-aura-muted shrink-0">Undone</span>
+                  ) : (
+                    <button
+                      onClick={() => handleUndo(m)}
+                      disabled={undoingId !== null}
+                      className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-[10px] font-semibold shrink-0
+                                 bg-aura-warning/10 border border-aura-warning/25 text-aura-warning
+                                 hover:bg-aura-warning/15 transition-colors disabled:opacity-40"
+                    >
+                      {undoingId === m.id
+                        ? <Loader2 size={10} className="animate-spin" />
+                        : <Undo2 size={10} />}
+                      Undo
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
+
 // Small entity picker sub-component
 function EntityPicker({
   label, labelColor, borderColor, bgColor,
@@ -1117,6 +1481,13 @@ export function MergeEntities() {
   const [selections,  setSelections]  = useState<Record<string, MergeSelection>>({})
   const [merging,     setMerging]     = useState<string | null>(null)
   const [hasHistory,  setHasHistory]  = useState(false)
+  const [mergeCount,  setMergeCount]  = useState(0)
+  // Paging through /api/entities/duplicates — declines shift the server's
+  // offsets, so they're subtracted from nextOffset when loading more
+  const [totals,      setTotals]      = useState({ exact: 0, similar: 0 })
+  const [nextOffset,  setNextOffset]  = useState<number | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const declinedSincePage = useRef(0)
 
   function setSelection(key: string, keepIdx: number, deleteIdx: number) {
     if (keepIdx < 0) {
@@ -1154,6 +1525,51 @@ export function MergeEntities() {
 
       await saveHistoryEntry(groupSig(group), 'approved', keepEntity.type)
       setHasHistory(true)
+      setMergeCount(c => c + 1)
+
+      const remove = (prev: DuplicateGroup[]) => prev.filter(g => groupKey(section, g) !== key)
+      if (section === 'exact') setExact(remove)
+      else setSimilar(remove)
+      setSelections(prev => { const n = { ...prev }; delete n[key]; return n })
+
+      return true
+    } catch (e: unknown) {
+      toastError('Merge failed', e instanceof Error ? e.message : String(e))
+      return false
+    } finally {
+      setMerging(null)
+    }
+  }, [toastError])
+
+  /** Merge every other entity of the group into keepIdx in one all-or-nothing call */
+  const doGroupMerge = useCallback(async (
+    section: 'exact' | 'similar',
+    group:   DuplicateGroup,
+    keepIdx: number,
+    fields:  GroupFieldChoices = {},
+  ): Promise<boolean> => {
+    const key        = groupKey(section, group)
+    const keepEntity = group.entities[keepIdx]
+
+    setMerging(key)
+    try {
+      const res = await fetch('/api/entities/merge/group', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          keep:   { type: keepEntity.type, id: keepEntity.id },
+          losers: group.entities.filter((_, i) => i !== keepIdx).map(e => ({ type: e.type, id: e.id })),
+          fields,
+        }),
+      })
+      if (!res.ok) {
+        const d = await res.json()
+        throw new Error(d.error ?? 'Merge failed')
+      }
+
+      await saveHistoryEntry(groupSig(group), 'approved', keepEntity.type)
+      setHasHistory(true)
+      setMergeCount(c => c + 1)
 
       const remove = (prev: DuplicateGroup[]) => prev.filter(g => groupKey(section, g) !== key)
       if (section === 'exact') setExact(remove)
@@ -1169,6 +1585,19 @@ export function MergeEntities() {
     }
   }, [toastError])
 
+  const handleGroupMerge = useCallback(async (
+    section: 'exact' | 'similar',
+    group:   DuplicateGroup,
+    keepIdx: number,
+    fields:  GroupFieldChoices,
+  ) => {
+    const keepEntity = group.entities[keepIdx]
+    const ok = await doGroupMerge(section, group, keepIdx, fields)
+    if (ok) {
+      success('Merged!', `${group.entities.length - 1} merged into "${keepEntity.displayName}" (${ENTITY_TYPES[keepEntity.type].label.replace(/s$/, '')})`)
+    }
+  }, [doGroupMerge, success])
+
   const handleMerge = useCallback(async (section: 'exact' | 'similar', group: DuplicateGroup) => {
     const key = groupKey(section, group)
     const sel = selections[key]
@@ -1189,6 +1618,7 @@ export function MergeEntities() {
     const remove = (prev: DuplicateGroup[]) => prev.filter(g => groupSig(g) !== sig)
     if (section === 'exact') setExact(remove)
     else setSimilar(remove)
+    declinedSincePage.current++
   }, [])
 
   const resetHistory = useCallback(async () => {
@@ -1197,55 +1627,75 @@ export function MergeEntities() {
     success('Reset', 'Merge history cleared.')
   }, [success])
 
+  /** Load one page of groups; previously approved groups on it are merged again automatically */
+  const loadPage = useCallback(async (offset: number, append: boolean) => {
+    const params = new URLSearchParams({ offset: String(offset), ...(append ? {} : { refresh: 'true' }) })
+    const [dupRes, history] = await Promise.all([
+      fetch(`/api/entities/duplicates?${params}`).then(r => r.json()),
+      fetchHistory(),
+    ])
+
+    if (!dupRes || dupRes.error) throw new Error(dupRes?.error ?? 'Failed to load duplicates')
+
+    const approvedMap = new Map<string, string>()
+    const declinedSet = new Set<string>()
+    for (const row of history) {
+      if (row.action === 'approved' && row.keep_type) approvedMap.set(row.group_sig, row.keep_type)
+      if (row.action === 'declined') declinedSet.add(row.group_sig)
+    }
+    setHasHistory(history.length > 0)
+    setTotals(dupRes.total ?? { exact: 0, similar: 0 })
+    setNextOffset(dupRes.nextOffset ?? null)
+    declinedSincePage.current = 0
+
+    const exactAll:   DuplicateGroup[] = (dupRes.exact   ?? []).filter((g: DuplicateGroup) => !declinedSet.has(groupSig(g)))
+    const similarAll: DuplicateGroup[] = (dupRes.similar ?? []).filter((g: DuplicateGroup) => !declinedSet.has(groupSig(g)))
+
+    const toAutoMerge = [...exactAll, ...similarAll].filter(g => approvedMap.has(groupSig(g)))
+    const exactNew    = exactAll.filter(g => !approvedMap.has(groupSig(g)))
+    const similarNew  = similarAll.filter(g => !approvedMap.has(groupSig(g)))
+    setExact(prev => append ? [...prev, ...exactNew] : exactNew)
+    setSimilar(prev => append ? [...prev, ...similarNew] : similarNew)
+
+    let autoCount = 0
+    for (const group of toAutoMerge) {
+      const keepType = approvedMap.get(groupSig(group))!
+      const keepIdx  = group.entities.findIndex(e => e.type === keepType)
+      const section  = exactAll.includes(group) ? 'exact' : 'similar'
+      if (keepIdx !== -1) {
+        // Auto-merge: the rest of the group into the approved keep type
+        const ok = await doGroupMerge(section, group, keepIdx)
+        if (ok) autoCount++
+      }
+    }
+    if (autoCount > 0) {
+      success('Auto-merged', `${autoCount} previously approved merge${autoCount > 1 ? 's' : ''} applied.`)
+    }
+  }, [doGroupMerge, success])
+
   const fetchDuplicates = useCallback(async () => {
     setLoading(true)
     setSelections({})
     try {
-      const [dupRes, history] = await Promise.all([
-        fetch('/api/entities/duplicates').then(r => r.json()),
-        fetchHistory(),
-      ])
-
-      if (!dupRes || dupRes.error) throw new Error(dupRes?.error ?? 'Failed to load duplicates')
-
-      const approvedMap = new Map<string, string>()
-      const declinedSet = new Set<string>()
-      for (const row of history) {
-        if (row.action === 'approved' && row.keep_type) approvedMap.set(row.group_sig, row.keep_type)
-        if (row.action === 'declined') declinedSet.add(row.group_sig)
-      }
-      setHasHistory(history.length > 0)
-
-      const exactAll:   DuplicateGroup[] = (dupRes.exact   ?? []).filter((g: DuplicateGroup) => !declinedSet.has(groupSig(g)))
-      const similarAll: DuplicateGroup[] = (dupRes.similar ?? []).filter((g: DuplicateGroup) => !declinedSet.has(groupSig(g)))
-
-      const toAutoMerge = [...exactAll, ...similarAll].filter(g => approvedMap.has(groupSig(g)))
-      setExact(exactAll.filter(g => !approvedMap.has(groupSig(g))))
-      setSimilar(similarAll.filter(g => !approvedMap.has(groupSig(g))))
-
-      let autoCount = 0
-      for (const group of toAutoMerge) {
-        const keepType = approvedMap.get(groupSig(group))!
-        const keepIdx  = group.entities.findIndex(e => e.type === keepType)
-        const section  = exactAll.includes(group) ? 'exact' : 'similar'
-        if (keepIdx !== -1) {
-          // Auto-merge: pick first non-keep entity as delete target
-          const deleteIdx = group.entities.findIndex((_, i) => i !== keepIdx)
-          if (deleteIdx !== -1) {
-            const ok = await doMerge(section, group, { keepIdx, deleteIdx })
-            if (ok) autoCount++
-          }
-        }
-      }
-      if (autoCount > 0) {
-        success('Auto-merged', `${autoCount} previously approved merge${autoCount > 1 ? 's' : ''} applied.`)
-      }
+      await loadPage(0, false)
     } catch (e: unknown) {
       toastError('Load failed', e instanceof Error ? e.message : String(e))
     } finally {
       setLoading(false)
     }
-  }, [doMerge, success, toastError])
+  }, [loadPage, toastError])
+
+  const loadMore = useCallback(async () => {
+    if (nextOffset == null) return
+    setLoadingMore(true)
+    try {
+      await loadPage(Math.max(0, nextOffset - declinedSincePage.current), true)
+    } catch (e: unknown) {
+      toastError('Load failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [nextOffset, loadPage, toastError])
 
   useEffect(() => { fetchDuplicates() }, [fetchDuplicates])
 
@@ -1295,8 +1745,9 @@ export function MergeEntities() {
                 ? 'Scanning all entity types for duplicates…'
                 : totalCount > 0
                 ? <>
-                    Found <span className="text-aura-error font-semibold">{exact.length}</span> exact
-                    {' '}and <span className="text-aura-warning font-semibold">{similar.length}</span> similar matches.
+                    Found <span className="text-aura-error font-semibold">{totals.exact}</span> exact
+                    {' '}and <span className="text-aura-warning font-semibold">{totals.similar}</span> similar matches
+                    {nextOffset != null && <> — showing {totalCount}</>}.
                     <br />
                     Tap <strong>Keep</strong> first, then <strong>Delete</strong> to merge.
                   </>
@@ -1346,7 +1797,10 @@ export function MergeEntities() {
       </div>
 
       {/* Manual merge panel */}
-      <CustomMergePanel onMerged={fetchDuplicates} />
+      <CustomMergePanel onMerged={() => { setMergeCount(c => c + 1); fetchDuplicates() }} />
+
+      {/* Merge journal / undo */}
+      <RecentMergesPanel refreshKey={mergeCount} onUndone={fetchDuplicates} />
 
       {/* Duplicate list */}
       {loading ? (
@@ -1371,6 +1825,7 @@ export function MergeEntities() {
                       selection={selections[key] ?? null}
                       onSelect={(keepIdx, deleteIdx) => setSelection(key, keepIdx, deleteIdx)}
                       onMerge={() => handleMerge('exact', group)}
+                      onGroupMerge={(keepIdx, fields) => handleGroupMerge('exact', group, keepIdx, fields)}
                       onDecline={() => handleDecline('exact', group)}
                       merging={merging === key}
                     />
@@ -1393,6 +1848,7 @@ export function MergeEntities() {
                       selection={selections[key] ?? null}
                       onSelect={(keepIdx, deleteIdx) => setSelection(key, keepIdx, deleteIdx)}
                       onMerge={() => handleMerge('similar', group)}
+                      onGroupMerge={(keepIdx, fields) => handleGroupMerge('similar', group, keepIdx, fields)}
                       onDecline={() => handleDecline('similar', group)}
                       merging={merging === key}
                     />
@@ -1402,7 +1858,19 @@ export function MergeEntities() {
             </>
           )}
 
-          {!loading && totalCount === 0 && (
+          {nextOffset != null && (
+            <button
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl text-xs font-semibold text-aura-muted
+                         border border-white/[0.07] hover:bg-white/[0.04] hover:text-aura-text transition-colors disabled:opacity-40"
+            >
+              {loadingMore ? <Loader2 size={12} className="animate-spin" /> : <ChevronDown size={12} />}
+              Load more
+            </button>
+          )}
+
+          {!loading && totalCount === 0 && nextOffset == null && (
             <div className="flex flex-col items-center gap-3 py-14 text-center">
               <div className="w-12 h-12 rounded-2xl bg-aura-success/10 border border-aura-success/20 flex items-center justify-center">
                 <CheckCircle2 size={22} className="text-aura-success" />
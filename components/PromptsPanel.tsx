@@ -0,0 +1,534 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { ChevronDown, FileCode, FlaskConical, Loader2, RotateCcw, Save, CheckCircle2 } from 'lucide-react'
+import clsx from 'clsx'
+import { useToast } from './ToastProvider'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+interface PromptSummary { filename: string; activeVersion: number | null }
+interface PromptVersion { id: number; version: number; content: string; note: string | null; createdAt: string }
+interface PreviewSpec   { target: 'lecture' | 'course' | 'entity'; task: string }
+
+interface PromptDetail {
+  filename:          string
+  builtin:           string
+  versions:          PromptVersion[]
+  activeVersionId:   number | null
+  /** Placeholders the built-in file uses, with descriptions */
+  placeholders:      Record<string, string>
+  /** Every placeholder some generator fills in */
+  knownPlaceholders: string[]
+  preview:           PreviewSpec | null
+  entityTypes:       string[]
+}
+
+interface Course  { id: number; title: string }
+interface Lecture { id: number; title: string; order_in_course: number }
+interface Entity  { id: number; name: string }
+
+interface TestResult { draft: string; active: string; activeVersion: number | null }
+
+type DiffLine = { kind: 'same' | 'add' | 'del'; text: string }
+
+function fmtTime(iso: string): string {
+  const d = new Date(iso)
+  if (isNaN(d.getTime())) return iso
+  return d.toLocaleString('en-GB', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+const placeholdersIn = (template: string) => [...new Set([...template.matchAll(/\{(\w+)\}/g)].map(m => m[1]))]
+
+/** JSON responses are compared pretty-printed so the diff is per field */
+function prettyOutput(raw: string): string {
+  try { return JSON.stringify(JSON.parse(raw), null, 2) } catch { return raw }
+}
+
+/** Line diff via LCS — active output as the old side, draft output as the new */
+function lineDiff(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+  const out: DiffLine[] = []
+  let i = 0, j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j])                    { out.push({ kind: 'same', text: a[i] }); i++; j++ }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) out.push({ kind: 'del', text: a[i++] })
+    else                                     out.push({ kind: 'add', text: b[j++] })
+  }
+  while (i < a.length) out.push({ kind: 'del', text: a[i++] })
+  while (j < b.length) out.push({ kind: 'add', text: b[j++] })
+  return out
+}
+
+// ---------------------------------------------------------------------------
+// Select (same look as the Generate tab)
+// ---------------------------------------------------------------------------
+function Select({
+  value, onChange, placeholder, disabled, children,
+}: {
+  value: string; onChange: (v: string) => void; placeholder: string
+  disabled?: boolean; children: React.ReactNode
+}) {
+  return (
+    <div className="relative">
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        disabled={disabled}
+        className={clsx(
+          'w-full appearance-none bg-black/30 border border-white/[0.08] rounded-xl',
+          'px-3 py-2.5 pr-8 text-sm text-aura-text focus:outline-none',
+          'focus:border-aura-accent/40 transition-colors',
+          disabled && 'opacity-40 cursor-not-allowed',
+        )}
+      >
+        <option value="">{placeholder}</option>
+        {children}
+      </select>
+      <ChevronDown size={14} className="absolute right-2.5 top-1/2 -translate-y-1/2 text-aura-muted pointer-events-none" />
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Test against a lecture / course / entity
+// ---------------------------------------------------------------------------
+function PromptTest({ detail, draft }: { detail: PromptDetail; draft: string }) {
+  const { error: showError } = useToast()
+  const spec = detail.preview
+
+  const [courses,    setCourses]    = useState<Course[]>([])
+  const [courseId,   setCourseId]   = useState('')
+  const [lectures,   setLectures]   = useState<Lecture[]>([])
+  const [lectureId,  setLectureId]  = useState('')
+  const [entityType, setEntityType] = useState(detail.entityTypes[0] ?? '')
+  const [entities,   setEntities]   = useState<Entity[]>([])
+  const [entityId,   setEntityId]   = useState('')
+  const [running,    setRunning]    = useState(false)
+  const [result,     setResult]     = useState<TestResult | null>(null)
+
+  useEffect(() => {
+    if (spec?.target !== 'lecture' && spec?.target !== 'course') return
+    fetch('/api/courses')
+      .then(r => r.json())
+      .then(d => setCourses(d.courses ?? []))
+      .catch(console.error)
+  }, [spec?.target])
+
+  useEffect(() => {
+    setLectureId('')
+    setLectures([])
+    if (!courseId || spec?.target !== 'lecture') return
+    fetch(`/api/lectures?courseId=${courseId}`)
+      .then(r => r.json())
+      .then(d => setLectures(d.lectures ?? []))
+      .catch(console.error)
+  }, [courseId, spec?.target])
+
+  useEffect(() => {
+    setEntityId('')
+    setEntities([])
+    if (!entityType || spec?.target !== 'entity') return
+    fetch(`/api/entities/${entityType}?all=true`)
+      .then(r => r.json())
+      .then(d => setEntities((d.entities ?? []).map((e: { id: number; displayName: string }) => ({ id: e.id, name: e.displayName }))))
+      .catch(console.error)
+  }, [entityType, spec?.target])
+
+  const diff = useMemo(
+    () => result ? lineDiff(prettyOutput(result.active), prettyOutput(result.draft)) : [],
+    [result],
+  )
+
+  if (!spec) {
+    return <p className="text-[11px] text-aura-muted">This prompt runs over a whole batch and has no single-item preview.</p>
+  }
+
+  const ready = spec.target === 'lecture' ? !!lectureId
+    : spec.target === 'course' ? !!courseId
+    : !!entityType && !!entityId
+
+  async function handleRun() {
+    if (!spec || !ready) return
+    setRunning(true)
+    setResult(null)
+    try {
+      const input = spec.target === 'lecture' ? { lectureId: Number(lectureId) }
+        : spec.target === 'course' ? { courseId: Number(courseId) }
+        : { entityType, entityId: Number(entityId) }
+      const res  = await fetch(`/api/prompts/${detail.filename}/test`, {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ content: draft, ...input }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setResult(data)
+    } catch (err) {
+      showError('Test failed', err instanceof Error ? err.message : String(err))
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {(spec.target === 'lecture' || spec.target === 'course') && (
+          <Select value={courseId} onChange={setCourseId} placeholder="Course…">
+            {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+          </Select>
+        )}
+        {spec.target === 'lecture' && (
+          <Select value={lectureId} onChange={setLectureId} placeholder="Lecture…" disabled={!courseId}>
+            {lectures.map(l => <option key={l.id} value={l.id}>{l.order_in_course}. {l.title}</option>)}
+          </Select>
+        )}
+        {spec.target === 'entity' && (
+          <>
+            <Select value={entityType} onChange={setEntityType} placeholder="Entity type…">
+              {detail.entityTypes.map(et => <option key={et} value={et}>{et}</option>)}
+            </Select>
+            <Select value={entityId} onChange={setEntityId} placeholder="Entity…" disabled={!entityType}>
+              {entities.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+            </Select>
+          </>
+        )}
+        <button
+          onClick={handleRun}
+          disabled={!ready || running || !draft.trim()}
+          className="flex items-center justify-center gap-1.5 px-3 py-2 rounded-xl text-xs font-semibold
+                     bg-aura-indigo/15 text-aura-indigo border border-aura-indigo/30
+                     disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {running ? <Loader2 size={12} className="animate-spin" /> : <FlaskConical size={12} />}
+          Test draft vs active
+        </button>
+      </div>
+      {spec.target === 'lecture' && (
+        <p className="text-[11px] text-aura-muted">Uses the first part of the transcript, the same size as one chunk.</p>
+      )}
+
+      {result && (
+        <div className="rounded-xl bg-black/20 border border-white/[0.05] p-2 space-y-1">
+          <p className="text-[11px] text-aura-muted">
+            <span className="text-aura-error">− active ({result.activeVersion ? `v${result.activeVersion}` : 'built-in'})</span>
+            {'  '}
+            <span className="text-aura-success">+ draft</span>
+            {result.draft === result.active && ' — identical output'}
+          </p>
+          <pre dir="auto" className="max-h-96 overflow-auto text-[11px] font-mono leading-relaxed whitespace-pre-wrap">
+            {diff.map((l, i) => (
+              <div
+                key={i}
+                className={clsx(
+                  l.kind === 'add' && 'bg-aura-success/[0.08] text-aura-success',
+                  l.kind === 'del' && 'bg-aura-error/[0.08] text-aura-error',
+                  l.kind === 'same' && 'text-aura-muted',
+                )}
+              >
+                {l.kind === 'add' ? '+ ' : l.kind === 'del' ? '− ' : '  '}{l.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+export function PromptsPanel() {
+  const { success, error: showError } = useToast()
+
+  const [prompts,  setPrompts]  = useState<PromptSummary[]>([])
+  const [filename, setFilename] = useState('')
+  const [detail,   setDetail]   = useState<PromptDetail | null>(null)
+  const [draft,    setDraft]    = useState('')
+  // What the editor was loaded from — 'builtin' or a version id
+  const [source,   setSource]   = useState<'builtin' | number>('builtin')
+  const [note,     setNote]     = useState('')
+  const [loading,  setLoading]  = useState(false)
+  const [saving,   setSaving]   = useState(false)
+  const [switching, setSwitching] = useState<string | null>(null)
+
+  const editorRef = useRef<HTMLTextAreaElement>(null)
+
+  const sourceContent = !detail ? ''
+    : source === 'builtin' ? detail.builtin
+    : detail.versions.find(v => v.id === source)?.content ?? ''
+  const dirty = draft !== sourceContent
+
+  const used    = useMemo(() => placeholdersIn(draft), [draft])
+  const missing = detail ? Object.keys(detail.placeholders).filter(p => !used.includes(p)) : []
+  const unknown = detail ? used.filter(p => !detail.knownPlaceholders.includes(p)) : []
+
+  // ── load prompt list on mount ────────────────────────────────────────────
+  function loadList() {
+    fetch('/api/prompts')
+      .then(r => r.json())
+      .then(d => setPrompts(d.prompts ?? []))
+      .catch(console.error)
+  }
+  useEffect(loadList, [])
+
+  // ── load prompt when selection changes ───────────────────────────────────
+  async function loadDetail(name: string, keepSource?: 'builtin' | number) {
+    const res  = await fetch(`/api/prompts/${name}`)
+    const data = await res.json() as PromptDetail & { error?: string }
+    if (!res.ok) throw new Error(data.error)
+    setDetail(data)
+    const from   = keepSource ?? data.activeVersionId ?? 'builtin'
+    const loaded = from === 'builtin' ? data.builtin : data.versions.find(v => v.id === from)?.content ?? data.builtin
+    setSource(from)
+    setDraft(loaded)
+  }
+
+  useEffect(() => {
+    setDetail(null)
+    setDraft('')
+    setNote('')
+    if (!filename) return
+    let cancelled = false
+    setLoading(true)
+    loadDetail(filename)
+      .catch(err => { if (!cancelled) showError('Failed to load prompt', err instanceof Error ? err.message : String(err)) })
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => { cancelled = true }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filename])
+
+  // ── editing ──────────────────────────────────────────────────────────────
+  function insertPlaceholder(name: string) {
+    const el    = editorRef.current
+    const token = `{${name}}`
+    if (!el) { setDraft(d => d + token); return }
+    const { selectionStart: s, selectionEnd: e } = el
+    setDraft(d => d.slice(0, s) + token + d.slice(e))
+    requestAnimationFrame(() => {
+      el.focus()
+      el.setSelectionRange(s + token.length, s + token.length)
+    })
+  }
+
+  function openVersion(from: 'builtin' | number) {
+    if (dirty && !confirm('Discard unsaved changes?')) return
+    setSource(from)
+    setDraft(from === 'builtin' ? detail!.builtin : detail!.versions.find(v => v.id === from)?.content ?? '')
+  }
+
+  // ── save / activate ──────────────────────────────────────────────────────
+  async function handleSave(activate: boolean) {
+    if (!detail || !draft.trim()) return
+    setSaving(true)
+    try {
+      const res  = await fetch(`/api/prompts/${detail.filename}`, {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ content: draft, note, activate }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setNote('')
+      await loadDetail(detail.filename, data.version.id)
+      loadList()
+      success(`Saved v${data.version.version}`, activate ? 'Now active' : 'Not active yet')
+    } catch (err) {
+      showError('Save failed', err instanceof Error ? err.message : String(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleActivate(versionId: number | null) {
+    if (!detail) return
+    const key = versionId === null ? 'builtin' : String(versionId)
+    setSwitching(key)
+    try {
+      const res  = await fetch(`/api/prompts/${detail.filename}/active`, {
+        method:  'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ versionId }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setDetail(d => d && { ...d, activeVersionId: versionId })
+      loadList()
+      const label = versionId === null ? 'Built-in file' : `v${detail.versions.find(v => v.id === versionId)?.version}`
+      success('Active version changed', `${label} is now used by generation`)
+    } catch (err) {
+      showError('Activate failed', err instanceof Error ? err.message : String(err))
+    } finally {
+      setSwitching(null)
+    }
+  }
+
+  const rows: { key: string; id: number | null; label: string; sub: string }[] = detail ? [
+    ...detail.versions.map(v => ({
+      key: String(v.id), id: v.id, label: `v${v.version}`, sub: [fmtTime(v.createdAt), v.note].filter(Boolean).join(' · '),
+    })),
+    { key: 'builtin', id: null, label: 'Built-in', sub: `prompts/${detail.filename}` },
+  ] : []
+
+  return (
+    <div className="space-y-4">
+      {/* Prompt picker */}
+      <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-3">
+        <div className="flex items-center gap-2">
+          <FileCode size={14} className="text-aura-accent" />
+          <h3 className="text-xs font-semibold text-aura-text">Prompts</h3>
+          {loading && <Loader2 size={12} className="animate-spin text-aura-muted" />}
+        </div>
+        <Select value={filename} onChange={setFilename} placeholder="Choose a prompt…">
+          {prompts.map(p => (
+            <option key={p.filename} value={p.filename}>
+              {p.filename}{p.activeVersion ? ` (v${p.activeVersion})` : ''}
+            </option>
+          ))}
+        </Select>
+      </div>
+
+      {detail && (
+        <>
+          {/* Editor */}
+          <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-3">
+            <div className="flex items-center gap-2">
+              <h3 className="text-xs font-semibold text-aura-text">
+                Editing {source === 'builtin' ? 'built-in file' : `v${detail.versions.find(v => v.id === source)?.version}`}
+              </h3>
+              {dirty && <span className="text-[11px] text-aura-warning">unsaved changes</span>}
+            </div>
+
+            {/* Placeholders */}
+            <div className="flex flex-wrap gap-1.5">
+              {Object.entries(detail.placeholders).map(([name, desc]) => (
+                <button
+                  key={name}
+                  onClick={() => insertPlaceholder(name)}
+                  title={`${desc} — click to insert`}
+                  className={clsx(
+                    'px-2 py-0.5 rounded-md text-[11px] font-mono border',
+                    used.includes(name)
+                      ? 'bg-aura-accent/10 text-aura-accent border-aura-accent/20'
+                      : 'bg-aura-error/10 text-aura-error border-aura-error/30',
+                  )}
+                >
+                  {`{${name}}`}
+                </button>
+              ))}
+            </div>
+            {missing.length > 0 && (
+              <p className="text-[11px] text-aura-error">
+                Missing {missing.map(p => `{${p}}`).join(', ')} — the generator fills these in and the model won&apos;t see that input.
+              </p>
+            )}
+            {unknown.length > 0 && (
+              <p className="text-[11px] text-aura-warning">
+                {unknown.map(p => `{${p}}`).join(', ')} {unknown.length === 1 ? 'is' : 'are'} not filled in by the generator and will reach the model as typed.
+              </p>
+            )}
+
+            <textarea
+              ref={editorRef}
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              spellCheck={false}
+              dir="auto"
+              className="w-full min-h-[22rem] p-3 rounded-xl bg-black/30 border border-white/[0.08]
+                         text-xs font-mono leading-relaxed text-aura-text focus:outline-none focus:border-aura-accent/40"
+            />
+
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                placeholder="Version note (optional)…"
+                className="flex-1 min-w-[12rem] px-3 py-1.5 rounded-lg bg-black/30 border border-white/[0.08] text-xs text-aura-text focus:outline-none focus:border-aura-accent/40"
+              />
+              <button
+                onClick={() => setDraft(sourceContent)}
+                disabled={!dirty}
+                className="px-2.5 py-1.5 rounded-lg text-xs text-aura-muted hover:text-aura-text disabled:opacity-40"
+              >
+                Revert
+              </button>
+              <button
+                onClick={() => handleSave(false)}
+                disabled={saving || !draft.trim()}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-black/20 text-aura-text border border-white/[0.08] disabled:opacity-40"
+              >
+                <Save size={12} /> Save version
+              </button>
+              <button
+                onClick={() => handleSave(true)}
+                disabled={saving || !draft.trim()}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold
+                           bg-aura-accent/15 text-aura-accent border border-aura-accent/30
+                           disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {saving ? <Loader2 size={12} className="animate-spin" /> : <CheckCircle2 size={12} />}
+                Save &amp; activate
+              </button>
+            </div>
+          </div>
+
+          {/* Test */}
+          <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-3">
+            <div className="flex items-center gap-2">
+              <FlaskConical size={14} className="text-aura-indigo" />
+              <h3 className="text-xs font-semibold text-aura-text">Test this prompt</h3>
+            </div>
+            <PromptTest key={detail.filename} detail={detail} draft={draft} />
+          </div>
+
+          {/* Versions */}
+          <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-2">
+            <h3 className="text-xs font-semibold text-aura-text">Versions</h3>
+            {rows.map(r => {
+              const isActive = detail.activeVersionId === r.id
+              return (
+                <div
+                  key={r.key}
+                  className={clsx(
+                    'flex items-center gap-2 rounded-xl border px-3 py-2',
+                    isActive ? 'bg-aura-accent/[0.05] border-aura-accent/25' : 'bg-black/20 border-white/[0.05]',
+                  )}
+                >
+                  <span className="text-xs font-semibold text-aura-text w-16">{r.label}</span>
+                  <span className="flex-1 min-w-0 truncate text-[11px] text-aura-muted">{r.sub}</span>
+                  {isActive && <span className="text-[10px] font-semibold text-aura-accent">ACTIVE</span>}
+                  <button
+                    onClick={() => openVersion(r.id ?? 'builtin')}
+                    className="px-2 py-1 rounded-lg text-[11px] text-aura-muted hover:text-aura-text hover:bg-white/[0.05]"
+                  >
+                    Edit
+                  </button>
+                  {!isActive && (
+                    <button
+                      onClick={() => handleActivate(r.id)}
+                      disabled={switching !== null}
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg text-[11px] text-aura-accent hover:bg-aura-accent/10 disabled:opacity-40"
+                    >
+                      {switching === r.key ? <Loader2 size={11} className="animate-spin" /> : <RotateCcw size={11} />}
+                      Activate
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
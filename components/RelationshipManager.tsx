@@ -2,8 +2,11 @@
 
 import { useEffect, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Loader2, ChevronDown, RefreshCw } from 'lucide-react'
-import { ENTITY_TYPES, JUNCTION_MAP, EntityType } from '@/lib/constants'
+import { Loader2, ChevronDown, RefreshCw, Link2, Plus, Sparkles, Trash2, X, Check } from 'lucide-react'
+import {
+  ENTITY_TYPES, ENTITY_LINK_TYPES, LINKED_ENTITY_TYPES,
+  EntityLinkType, EntityType,
+} from '@/lib/constants'
 import { useToast } from './ToastProvider'
 import clsx from 'clsx'
 
@@ -168,7 +171,7 @@ function CategoryPills({
   selected: EntityType | null
   onChange: (t: EntityType) => void
 }) {
-  const categories = Object.keys(JUNCTION_MAP) as EntityType[]
+  const categories = LINKED_ENTITY_TYPES
 
   return (
     <div className="flex flex-wrap gap-1.5">
@@ -195,6 +198,414 @@ function CategoryPills({
   )
 }
 
+// ---------------------------------------------------------------------------
+// Entity links — typed entity-to-entity links (directed, wrote, painted, …)
+// ---------------------------------------------------------------------------
+const LINKABLE_TYPES = Array.from(
+  new Set(Object.values(ENTITY_LINK_TYPES).flatMap(cfg => [...cfg.from, ...cfg.to])),
+)
+
+interface EntityRef { id: number; displayName: string; type: EntityType }
+
+interface EntityLink {
+  id:         number
+  linkType:   EntityLinkType
+  direction:  'out' | 'in'
+  otherType:  EntityType
+  otherId:    number
+  otherName:  string
+  hebrewName: string | null
+  source:     string
+}
+
+interface LinkSuggestion {
+  linkType:       EntityLinkType
+  fromType:       EntityType
+  fromId:         number
+  fromName:       string
+  toType:         EntityType
+  toId:           number
+  toName:         string
+  sharedLectures: number
+  reason:         string
+}
+
+/** (linkType, direction) pairs the given type can take part in */
+function linkOptionsFor(type: EntityType): { linkType: EntityLinkType; direction: 'out' | 'in' }[] {
+  return (Object.keys(ENTITY_LINK_TYPES) as EntityLinkType[]).flatMap(lt => {
+    const cfg = ENTITY_LINK_TYPES[lt]
+    return [
+      ...(cfg.from.includes(type) ? [{ linkType: lt, direction: 'out' as const }] : []),
+      ...(cfg.to.includes(type)   ? [{ linkType: lt, direction: 'in'  as const }] : []),
+    ]
+  })
+}
+
+function EntitySearch({
+  types,
+  type,
+  onTypeChange,
+  selected,
+  onSelect,
+  placeholder,
+}: {
+  types:        EntityType[]
+  type:         EntityType
+  onTypeChange: (t: EntityType) => void
+  selected:     EntityRef | null
+  onSelect:     (e: EntityRef | null) => void
+  placeholder:  string
+}) {
+  const [query,   setQuery]   = useState('')
+  const [results, setResults] = useState<EntityRef[]>([])
+
+  useEffect(() => {
+    if (!query.trim()) { setResults([]); return }
+    const t = setTimeout(async () => {
+      const res  = await fetch(`/api/entities/${type}?all=true&search=${encodeURIComponent(query)}`)
+      const data = await res.json()
+      setResults(((data.entities ?? []) as { id: number; displayName: string }[])
+        .slice(0, 20)
+        .map(e => ({ id: e.id, displayName: e.displayName, type })))
+    }, 300)
+    return () => clearTimeout(t)
+  }, [type, query])
+
+  const inputCls = clsx(
+    'bg-black/30 border border-white/[0.08] rounded-xl px-3 py-2 text-xs text-aura-text',
+    'focus:outline-none focus:border-aura-accent/40 transition-colors',
+  )
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex gap-2">
+        <select
+          value={type}
+          onChange={e => { onTypeChange(e.target.value as EntityType); onSelect(null); setQuery('') }}
+          className={clsx(inputCls, 'shrink-0')}
+        >
+          {types.map(t => <option key={t} value={t}>{ENTITY_TYPES[t].icon} {ENTITY_TYPES[t].label}</option>)}
+        </select>
+        {selected ? (
+          <div className="flex-1 min-w-0 flex items-center gap-2 px-3 py-2 rounded-xl border border-aura-accent/25 bg-aura-accent/[0.05]">
+            <span className="flex-1 text-xs text-aura-text truncate">{selected.displayName}</span>
+            <button onClick={() => onSelect(null)} className="text-aura-muted hover:text-aura-text" title="Clear">
+              <X size={12} />
+            </button>
+          </div>
+        ) : (
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={placeholder}
+            className={clsx(inputCls, 'flex-1 min-w-0')}
+          />
+        )}
+      </div>
+      {!selected && results.length > 0 && (
+        <div className="max-h-40 overflow-y-auto rounded-xl border border-white/[0.08] bg-black/20">
+          {results.map(r => (
+            <button
+              key={r.id}
+              onClick={() => { onSelect(r); setQuery(''); setResults([]) }}
+              className="w-full text-left px-3 py-2 text-xs text-aura-text hover:bg-white/[0.04] truncate"
+            >
+              {r.displayName}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function EntityLinksSection() {
+  const { success, error: toastError } = useToast()
+
+  const [entityType,  setEntityType]  = useState<EntityType>(LINKABLE_TYPES[0])
+  const [entity,      setEntity]      = useState<EntityRef | null>(null)
+  const [links,       setLinks]       = useState<EntityLink[]>([])
+  const [loading,     setLoading]     = useState(false)
+  const [deletingId,  setDeletingId]  = useState<number | null>(null)
+
+  const [option,      setOption]      = useState(0)   // index into linkOptionsFor(entity.type)
+  const [targetType,  setTargetType]  = useState<EntityType | null>(null)
+  const [target,      setTarget]      = useState<EntityRef | null>(null)
+  const [adding,      setAdding]      = useState(false)
+
+  const [suggestions, setSuggestions] = useState<LinkSuggestion[] | null>(null)
+  const [suggesting,  setSuggesting]  = useState(false)
+  const [acceptingIx, setAcceptingIx] = useState<number | null>(null)
+
+  const options      = entity ? linkOptionsFor(entity.type) : []
+  const current      = options[option] ?? null
+  const targetTypes  = current
+    ? (current.direction === 'out' ? ENTITY_LINK_TYPES[current.linkType].to : ENTITY_LINK_TYPES[current.linkType].from)
+    : []
+
+  async function loadLinks(e: EntityRef) {
+    setLoading(true)
+    try {
+      const res  = await fetch(`/api/entity-links?entityType=${e.type}&entityId=${e.id}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setLinks(data.links ?? [])
+    } catch (err) {
+      toastError('Load failed', err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function handleEntitySelect(e: EntityRef | null) {
+    setEntity(e)
+    setLinks([])
+    setSuggestions(null)
+    setOption(0)
+    setTarget(null)
+    if (e) {
+      const first = linkOptionsFor(e.type)[0]
+      if (first) {
+        const cfg = ENTITY_LINK_TYPES[first.linkType]
+        setTargetType((first.direction === 'out' ? cfg.to : cfg.from)[0])
+      }
+      loadLinks(e)
+    }
+  }
+
+  function handleOptionChange(ix: number) {
+    setOption(ix)
+    setTarget(null)
+    const o = options[ix]
+    if (!o) return
+    const cfg = ENTITY_LINK_TYPES[o.linkType]
+    setTargetType((o.direction === 'out' ? cfg.to : cfg.from)[0])
+  }
+
+  async function createLink(body: Record<string, unknown>): Promise<void> {
+    const res  = await fetch('/api/entity-links', {
+      method:  'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body:    JSON.stringify(body),
+    })
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error)
+  }
+
+  async function handleAdd() {
+    if (!entity || !target || !current) return
+    setAdding(true)
+    const [from, to] = current.direction === 'out' ? [entity, target] : [target, entity]
+    try {
+      await createLink({ fromType: from.type, fromId: from.id, toType: to.type, toId: to.id, linkType: current.linkType })
+      success('Linked', `${from.displayName} ${ENTITY_LINK_TYPES[current.linkType].label} ${to.displayName}.`)
+      setTarget(null)
+      loadLinks(entity)
+    } catch (e) {
+      toastError('Link failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  async function handleDelete(link: EntityLink) {
+    if (!entity) return
+    setDeletingId(link.id)
+    try {
+      const res  = await fetch(`/api/entity-links/${link.id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setLinks(prev => prev.filter(l => l.id !== link.id))
+    } catch (e) {
+      toastError('Delete failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  async function handleSuggest() {
+    if (!entity) return
+    setSuggesting(true)
+    try {
+      const res  = await fetch('/api/entity-links/suggest', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ entityType: entity.type, entityId: entity.id }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setSuggestions(data.suggestions ?? [])
+    } catch (e) {
+      toastError('Suggest failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setSuggesting(false)
+    }
+  }
+
+  async function handleAccept(ix: number) {
+    const s = suggestions?.[ix]
+    if (!s || !entity) return
+    setAcceptingIx(ix)
+    try {
+      await createLink({
+        fromType: s.fromType, fromId: s.fromId, toType: s.toType, toId: s.toId,
+        linkType: s.linkType, source: 'suggested',
+      })
+      setSuggestions(prev => prev?.filter((_, i) => i !== ix) ?? null)
+      loadLinks(entity)
+    } catch (e) {
+      toastError('Link failed', e instanceof Error ? e.message : String(e))
+    } finally {
+      setAcceptingIx(null)
+    }
+  }
+
+  return (
+    <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-3">
+      <div className="flex items-center gap-2">
+        <Link2 size={14} className="text-aura-accent" />
+        <p className="text-xs font-semibold text-aura-muted uppercase tracking-widest">Entity links</p>
+      </div>
+
+      <EntitySearch
+        types={LINKABLE_TYPES}
+        type={entityType}
+        onTypeChange={setEntityType}
+        selected={entity}
+        onSelect={handleEntitySelect}
+        placeholder={`Search ${ENTITY_TYPES[entityType].label.toLowerCase()}…`}
+      />
+
+      {entity && (
+        <>
+          {/* Existing links */}
+          <div className="rounded-xl border border-white/[0.06] overflow-hidden">
+            {loading ? (
+              <div className="flex items-center justify-center py-6 gap-2 text-aura-muted">
+                <Loader2 size={14} className="animate-spin" />
+                <span className="text-xs">Loading…</span>
+              </div>
+            ) : links.length === 0 ? (
+              <p className="text-center text-aura-muted text-xs py-6">No links yet</p>
+            ) : links.map(link => (
+              <div key={link.id} className="flex items-center gap-2 px-3 py-2 border-b border-white/[0.04] last:border-0">
+                <span className="text-sm leading-none">{ENTITY_TYPES[link.otherType]?.icon}</span>
+                <p className="flex-1 min-w-0 text-xs text-aura-text truncate">
+                  {link.direction === 'out' ? (
+                    <><span className="text-aura-muted">{ENTITY_LINK_TYPES[link.linkType]?.label}</span> {link.otherName}</>
+                  ) : (
+                    <>{link.otherName} <span className="text-aura-muted">{ENTITY_LINK_TYPES[link.linkType]?.label} this</span></>
+                  )}
+                </p>
+                {link.source === 'suggested' && (
+                  <Sparkles size={10} className="text-aura-indigo shrink-0" aria-label="Accepted suggestion" />
+                )}
+                <button
+                  onClick={() => handleDelete(link)}
+                  disabled={deletingId === link.id}
+                  className="text-aura-muted hover:text-aura-error disabled:opacity-40 shrink-0"
+                  title="Remove link"
+                >
+                  {deletingId === link.id ? <Loader2 size={12} className="animate-spin" /> : <Trash2 size={12} />}
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Add a link */}
+          {options.length > 0 && targetType && (
+            <div className="space-y-2">
+              <select
+                value={option}
+                onChange={e => handleOptionChange(parseInt(e.target.value, 10))}
+                className="w-full bg-black/30 border border-white/[0.08] rounded-xl px-3 py-2 text-xs text-aura-text
+                           focus:outline-none focus:border-aura-accent/40"
+              >
+                {options.map((o, i) => (
+                  <option key={`${o.linkType}:${o.direction}`} value={i}>
+                    {o.direction === 'out'
+                      ? `${entity.displayName} ${ENTITY_LINK_TYPES[o.linkType].label} …`
+                      : `… ${ENTITY_LINK_TYPES[o.linkType].label} ${entity.displayName}`}
+                  </option>
+                ))}
+              </select>
+              <EntitySearch
+                types={targetTypes}
+                type={targetType}
+                onTypeChange={setTargetType}
+                selected={target}
+                onSelect={setTarget}
+                placeholder={`Search ${ENTITY_TYPES[targetType].label.toLowerCase()}…`}
+              />
+              <button
+                onClick={handleAdd}
+                disabled={!target || adding}
+                className="w-full flex items-center justify-center gap-1.5 py-2 rounded-xl text-xs font-semibold
+                           bg-aura-accent/10 text-aura-accent border border-aura-accent/20 disabled:opacity-40"
+              >
+                {adding ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+                Add link
+              </button>
+            </div>
+          )}
+
+          {/* Gemini suggestions */}
+          <button
+            onClick={handleSuggest}
+            disabled={suggesting}
+            className="w-full flex items-center justify-center gap-1.5 py-2 rounded-xl text-xs font-semibold
+                       bg-aura-indigo/10 text-aura-indigo border border-aura-indigo/20 disabled:opacity-40"
+          >
+            {suggesting ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+            Suggest links from shared lectures
+          </button>
+
+          {suggestions && (
+            suggestions.length === 0 ? (
+              <p className="text-center text-aura-muted text-xs py-2">No suggestions</p>
+            ) : (
+              <div className="space-y-1.5">
+                {suggestions.map((s, ix) => (
+                  <div
+                    key={`${s.linkType}|${s.fromType}:${s.fromId}|${s.toType}:${s.toId}`}
+                    className="flex items-start gap-2 px-3 py-2 rounded-xl border border-aura-indigo/15 bg-aura-indigo/[0.04]"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-aura-text">
+                        {s.fromName} <span className="text-aura-indigo">{ENTITY_LINK_TYPES[s.linkType]?.label}</span> {s.toName}
+                      </p>
+                      {s.reason && <p className="text-[10px] text-aura-muted mt-0.5">{s.reason}</p>}
+                      <p className="text-[10px] text-aura-muted/60 mt-0.5">
+                        {s.sharedLectures} shared lecture{s.sharedLectures !== 1 ? 's' : ''}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleAccept(ix)}
+                      disabled={acceptingIx !== null}
+                      className="text-aura-success disabled:opacity-40 shrink-0"
+                      title="Accept"
+                    >
+                      {acceptingIx === ix ? <Loader2 size={13} className="animate-spin" /> : <Check size={13} />}
+                    </button>
+                    <button
+                      onClick={() => setSuggestions(prev => prev?.filter((_, i) => i !== ix) ?? null)}
+                      disabled={acceptingIx !== null}
+                      className="text-aura-muted hover:text-aura-error disabled:opacity-40 shrink-0"
+                      title="Dismiss"
+                    >
+                      <X size={13} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
 // ---------------------------------------------------------------------------
 // Main component
 // ---------------------------------------------------------------------------
@@ -454,6 +865,9 @@ export function RelationshipManager() {
         )}
       </AnimatePresence>
 
+      {/* Entity-to-entity links */}
+      <EntityLinksSection />
+
     </div>
   )
 }
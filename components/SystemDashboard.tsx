@@ -8,6 +8,7 @@ import {
   Server, XCircle, Zap, X,
 } from 'lucide-react'
 import clsx from 'clsx'
+import { ENTITY_TYPES } from '@/lib/constants'
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -434,12 +435,9 @@ function ArchDiagram({ stats, onNodeClick }: { stats: Stats; onNodeClick: (id: N
 
 // ── Modal detail content per node ─────────────────────────────────────────────
 
-const ENTITY_LABELS: Record<string, string> = {
-  courses: 'Courses', lectures: 'Lectures',
-  directors: 'Directors', films: 'Films', writers: 'Writers',
-  books: 'Books', painters: 'Painters', paintings: 'Paintings',
-  philosophers: 'Philosophers', themes: 'Themes',
-}
+const ENTITY_LABELS: Record<string, string> = Object.fromEntries(
+  Object.entries(ENTITY_TYPES).map(([t, cfg]) => [t, cfg.label]),
+)
 
 function SupabaseModalContent({ stats }: { stats: SupabaseStats }) {
   return (
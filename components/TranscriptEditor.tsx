@@ -0,0 +1,420 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+  ChevronDown, Eye, FileText, History, Loader2, Replace, RotateCcw, Save, Sparkles, Tag, Users,
+} from 'lucide-react'
+import clsx from 'clsx'
+import { useToast } from './ToastProvider'
+import { ChaptersEditor } from './ChaptersEditor'
+import type { GenerateType } from './GeneratePanel'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+interface Course  { id: number; title: string }
+interface Lecture { id: number; title: string; order_in_course: number }
+interface TranscriptVersion { name: string; savedAt: string }
+
+export interface TranscriptTarget {
+  courseId:  number
+  lectureId: number
+  /** Prefills find & replace, e.g. with a search query */
+  find?:     string
+}
+
+const RERUN_TYPES: { id: GenerateType; label: string; icon: React.ReactNode }[] = [
+  { id: 'entities',         label: 'Entities',         icon: <Users size={12} />    },
+  { id: 'lecture_title',    label: 'Lecture Title',    icon: <Tag size={12} />      },
+  { id: 'lecture_synopsis', label: 'Lecture Synopsis', icon: <FileText size={12} /> },
+]
+
+function fmtTime(iso: string): string {
+  const d = new Date(iso)
+  if (isNaN(d.getTime())) return iso
+  return d.toLocaleString('en-GB', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+function countMatches(text: string, find: string): number {
+  return find ? text.split(find).length - 1 : 0
+}
+
+// ---------------------------------------------------------------------------
+// Select (same look as the Generate tab)
+// ---------------------------------------------------------------------------
+function Select({
+  value, onChange, placeholder, disabled, children,
+}: {
+  value: string; onChange: (v: string) => void; placeholder: string
+  disabled?: boolean; children: React.ReactNode
+}) {
+  return (
+    <div className="relative">
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        disabled={disabled}
+        className={clsx(
+          'w-full appearance-none bg-black/30 border border-white/[0.08] rounded-xl',
+          'px-3 py-2.5 pr-8 text-sm text-aura-text focus:outline-none',
+          'focus:border-aura-accent/40 transition-colors',
+          disabled && 'opacity-40 cursor-not-allowed',
+        )}
+      >
+        <option value="">{placeholder}</option>
+        {children}
+      </select>
+      <ChevronDown size={14} className="absolute right-2.5 top-1/2 -translate-y-1/2 text-aura-muted pointer-events-none" />
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+export function TranscriptEditor({
+  initialTarget, onRegenerate,
+}: {
+  initialTarget?: TranscriptTarget | null
+  /** Open the Generate tab for this lecture with the given type preselected */
+  onRegenerate: (genType: GenerateType, courseId: number, lectureId: number) => void
+}) {
+  const { success, error: showError } = useToast()
+
+  // ── selection state ──────────────────────────────────────────────────────
+  const [courses,   setCourses]   = useState<Course[]>([])
+  const [courseId,  setCourseId]  = useState(initialTarget ? String(initialTarget.courseId) : '')
+  const [lectures,  setLectures]  = useState<Lecture[]>([])
+  const [lectureId, setLectureId] = useState('')
+  // Lecture opened from search — applied once its course's lectures load
+  const pendingLectureId = useRef(initialTarget ? String(initialTarget.lectureId) : '')
+
+  // ── transcript state ─────────────────────────────────────────────────────
+  const [original,  setOriginal]  = useState('')
+  const [text,      setText]      = useState('')
+  const [versions,  setVersions]  = useState<TranscriptVersion[]>([])
+  const [loading,   setLoading]   = useState(false)
+  const [saving,    setSaving]    = useState(false)
+  const [savedOnce, setSavedOnce] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  // ── find & replace ───────────────────────────────────────────────────────
+  const [find,    setFind]    = useState(initialTarget?.find ?? '')
+  const [replace, setReplace] = useState('')
+
+  // ── version preview ──────────────────────────────────────────────────────
+  const [showVersions, setShowVersions] = useState(false)
+  const [preview,      setPreview]      = useState<{ name: string; text: string } | null>(null)
+  const [restoring,    setRestoring]    = useState<string | null>(null)
+
+  const dirty   = text !== original
+  const matches = countMatches(text, find)
+
+  // ── load courses on mount ─────────────────────────────────────────────────
+  useEffect(() => {
+    fetch('/api/courses')
+      .then(r => r.json())
+      .then(d => setCourses(d.courses ?? []))
+      .catch(console.error)
+  }, [])
+
+  // ── load lectures when course changes ────────────────────────────────────
+  useEffect(() => {
+    setLectureId('')
+    setLectures([])
+    if (!courseId) return
+    fetch(`/api/lectures?courseId=${courseId}`)
+      .then(r => r.json())
+      .then(d => {
+        setLectures(d.lectures ?? [])
+        if (pendingLectureId.current) {
+          setLectureId(pendingLectureId.current)
+          pendingLectureId.current = ''
+        }
+      })
+      .catch(console.error)
+  }, [courseId])
+
+  // ── load transcript when lecture changes ─────────────────────────────────
+  useEffect(() => {
+    setOriginal('')
+    setText('')
+    setVersions([])
+    setPreview(null)
+    setSavedOnce(false)
+    setLoadError(null)
+    if (!lectureId) return
+
+    let cancelled = false
+    setLoading(true)
+    fetch(`/api/transcripts/${lectureId}`)
+      .then(async r => {
+        const d = await r.json()
+        if (cancelled) return
+        if (!r.ok) { setLoadError(d.error ?? 'Failed to load transcript'); return }
+        setOriginal(d.text)
+        setText(d.text)
+        setVersions(d.versions ?? [])
+      })
+      .catch(err => { if (!cancelled) setLoadError(String(err)) })
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => { cancelled = true }
+  }, [lectureId])
+
+  // ── actions ──────────────────────────────────────────────────────────────
+  function selectLecture(v: string) {
+    if (dirty && !confirm('Discard unsaved transcript changes?')) return
+    setLectureId(v)
+  }
+
+  function selectCourse(v: string) {
+    if (dirty && !confirm('Discard unsaved transcript changes?')) return
+    setCourseId(v)
+  }
+
+  function handleReplaceAll() {
+    if (!find || !matches) return
+    setText(t => t.split(find).join(replace))
+    success('Replaced', `${matches} occurrence${matches === 1 ? '' : 's'} of "${find}"`)
+  }
+
+  async function refreshVersions() {
+    const r = await fetch(`/api/transcripts/${lectureId}`)
+    const d = await r.json()
+    if (r.ok) setVersions(d.versions ?? [])
+  }
+
+  async function handleSave() {
+    if (!dirty || !text.trim()) return
+    setSaving(true)
+    try {
+      const res  = await fetch(`/api/transcripts/${lectureId}`, {
+        method:  'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ text }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setOriginal(text)
+      setSavedOnce(true)
+      success('Transcript saved', data.backup ? 'Previous text kept as a version' : undefined)
+      await refreshVersions()
+    } catch (err) {
+      showError('Save failed', err instanceof Error ? err.message : String(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handlePreview(name: string) {
+    if (preview?.name === name) { setPreview(null); return }
+    try {
+      const res  = await fetch(`/api/transcripts/${lectureId}?version=${encodeURIComponent(name)}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setPreview({ name, text: data.text })
+    } catch (err) {
+      showError('Failed to load version', err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  async function handleRestore(name: string) {
+    if (dirty && !confirm('Discard unsaved transcript changes?')) return
+    setRestoring(name)
+    try {
+      const res  = await fetch(`/api/transcripts/${lectureId}/restore`, {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ version: name }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      setOriginal(data.text)
+      setText(data.text)
+      setPreview(null)
+      setSavedOnce(true)
+      success('Version restored', fmtTime(versions.find(v => v.name === name)?.savedAt ?? name))
+      await refreshVersions()
+    } catch (err) {
+      showError('Restore failed', err instanceof Error ? err.message : String(err))
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  const inputCls = 'w-full px-3 py-2 rounded-xl bg-black/30 border border-white/[0.08] text-sm text-aura-text placeholder:text-aura-muted/50 focus:outline-none focus:border-aura-accent/40'
+
+  return (
+    <div className="space-y-4">
+
+      {/* Header + target selection */}
+      <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-3">
+        <div className="flex items-center gap-2">
+          <FileText size={16} className="text-aura-accent" />
+          <h2 className="text-sm font-semibold text-aura-text">Transcript</h2>
+        </div>
+        <Select value={courseId} onChange={selectCourse} placeholder="Select course…">
+          {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+        </Select>
+        <Select value={lectureId} onChange={selectLecture} placeholder="Select lecture…" disabled={!courseId}>
+          {lectures.map(l => (
+            <option key={l.id} value={l.id}>Lecture {l.order_in_course} — {l.title}</option>
+          ))}
+        </Select>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center gap-2 py-6 text-xs text-aura-muted">
+          <Loader2 size={14} className="animate-spin" /> Loading transcript…
+        </div>
+      )}
+      {loadError && !loading && (
+        <p className="text-center text-xs text-aura-error py-4">{loadError}</p>
+      )}
+
+      {lectureId && !loading && !loadError && (
+        <>
+          {/* Find & replace */}
+          <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-2">
+            <p className="text-[10px] uppercase tracking-widest text-aura-muted">Find &amp; replace</p>
+            <div className="grid grid-cols-2 gap-2">
+              <input dir="auto" value={find}    onChange={e => setFind(e.target.value)}    placeholder="Find…"         className={inputCls} />
+              <input dir="auto" value={replace} onChange={e => setReplace(e.target.value)} placeholder="Replace with…" className={inputCls} />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-[11px] text-aura-muted">
+                {find ? `${matches} match${matches === 1 ? '' : 'es'}` : 'Exact, case-sensitive match'}
+              </span>
+              <button
+                onClick={handleReplaceAll}
+                disabled={!matches}
+                className="ml-auto flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium
+                           bg-black/20 text-aura-muted border border-white/[0.05] hover:text-aura-text
+                           disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Replace size={12} /> Replace all
+              </button>
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-3">
+            <textarea
+              dir="rtl"
+              value={text}
+              onChange={e => setText(e.target.value)}
+              rows={20}
+              className="w-full rounded-xl bg-black/30 border border-white/[0.08] p-3 text-sm leading-relaxed
+                         text-aura-text focus:outline-none focus:border-aura-accent/40 resize-y font-[inherit]"
+            />
+            <div className="flex items-center gap-2">
+              <span className="text-[11px] text-aura-muted">
+                {text.length.toLocaleString()} chars
+                {dirty && <span className="text-aura-warning"> · unsaved changes</span>}
+              </span>
+              {dirty && (
+                <button
+                  onClick={() => setText(original)}
+                  className="ml-auto px-2.5 py-1.5 rounded-lg text-xs text-aura-muted hover:text-aura-text"
+                >
+                  Revert
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={!dirty || saving || !text.trim()}
+                className={clsx(
+                  'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold',
+                  'bg-aura-accent/15 text-aura-accent border border-aura-accent/30',
+                  'disabled:opacity-40 disabled:cursor-not-allowed',
+                  !dirty && 'ml-auto',
+                )}
+              >
+                {saving ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />}
+                Save
+              </button>
+            </div>
+          </div>
+
+          {/* Re-run generation against the corrected text */}
+          <AnimatePresence>
+            {savedOnce && !dirty && (
+              <motion.div
+                initial={{ opacity: 0, y: 8 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -8 }}
+                className="glass rounded-2xl p-4 border border-aura-accent/20 space-y-2"
+              >
+                <div className="flex items-center gap-2">
+                  <Sparkles size={14} className="text-aura-accent" />
+                  <p className="text-xs text-aura-text">Re-run generation with the corrected transcript</p>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {RERUN_TYPES.map(({ id, label, icon }) => (
+                    <button
+                      key={id}
+                      onClick={() => onRegenerate(id, Number(courseId), Number(lectureId))}
+                      className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium
+                                 bg-black/20 text-aura-muted border border-white/[0.05] hover:text-aura-accent"
+                    >
+                      {icon}{label}
+                    </button>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Versions */}
+          <div className="glass rounded-2xl p-4 border border-white/[0.07] space-y-2">
+            <button onClick={() => setShowVersions(s => !s)} className="w-full flex items-center gap-2">
+              <History size={14} className="text-aura-muted" />
+              <span className="text-xs text-aura-text">Previous versions</span>
+              <span className="text-[11px] text-aura-muted">({versions.length})</span>
+              <ChevronDown size={12} className={clsx('ml-auto text-aura-muted transition-transform', showVersions && 'rotate-180')} />
+            </button>
+            {showVersions && (
+              <div className="space-y-1.5">
+                {versions.length === 0 && <p className="text-[11px] text-aura-muted">No saved versions yet</p>}
+                {versions.map(v => (
+                  <div key={v.name} className="rounded-xl bg-black/20 border border-white/[0.05]">
+                    <div className="flex items-center gap-2 px-3 py-2">
+                      <span className="text-xs text-aura-text/80">{fmtTime(v.savedAt)}</span>
+                      <button
+                        onClick={() => handlePreview(v.name)}
+                        title="View"
+                        className={clsx(
+                          'ml-auto p-1.5 rounded-lg hover:bg-white/[0.05]',
+                          preview?.name === v.name ? 'text-aura-accent' : 'text-aura-muted hover:text-aura-text',
+                        )}
+                      >
+                        <Eye size={12} />
+                      </button>
+                      <button
+                        onClick={() => handleRestore(v.name)}
+                        disabled={!!restoring}
+                        title="Restore"
+                        className="p-1.5 rounded-lg text-aura-muted hover:text-aura-accent hover:bg-aura-accent/10 disabled:opacity-40"
+                      >
+                        {restoring === v.name ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                      </button>
+                    </div>
+                    {preview?.name === v.name && (
+                      <pre dir="rtl" className="whitespace-pre-wrap break-words border-t border-white/[0.04] p-3 text-[11px] text-aura-text/70 max-h-64 overflow-y-auto font-[inherit]">
+                        {preview.text}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Chapters are edited independently of the transcript text */}
+      {lectureId && !loading && <ChaptersEditor lectureId={lectureId} />}
+    </div>
+  )
+}
@@ -0,0 +1,228 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Database, Loader2, Search, X } from 'lucide-react'
+import clsx from 'clsx'
+import { useToast } from './ToastProvider'
+
+const DEBOUNCE_MS = 300
+const MIN_QUERY   = 2
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+interface SearchSnippet { text: string; highlights: [number, number][] }
+
+interface TranscriptHit {
+  lectureId:     number
+  lectureTitle:  string
+  lectureNumber: number | null
+  courseId:      number
+  courseTitle:   string
+  matchCount:    number
+  snippets:      SearchSnippet[]
+}
+
+interface IndexStatus { indexed: number; lectures: number; lastIndexedAt: string | null }
+
+function Highlighted({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = []
+  let at = 0
+  snippet.highlights.forEach(([s, e], i) => {
+    if (s > at) parts.push(snippet.text.slice(at, s))
+    parts.push(<mark key={i} className="bg-aura-accent/25 text-aura-text rounded px-0.5">{snippet.text.slice(s, e)}</mark>)
+    at = e
+  })
+  parts.push(snippet.text.slice(at))
+  return <p dir="auto" className="text-[11px] text-aura-muted leading-relaxed">{parts}</p>
+}
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+export function TranscriptSearch({
+  onOpen,
+}: {
+  /** Open a lecture's transcript, with the query to find in it */
+  onOpen: (courseId: number, lectureId: number, query: string) => void
+}) {
+  const { success, error: showError } = useToast()
+
+  const [query,    setQuery]    = useState('')
+  const [hits,     setHits]     = useState<TranscriptHit[]>([])
+  const [total,    setTotal]    = useState(0)
+  const [loading,  setLoading]  = useState(false)
+  const [open,     setOpen]     = useState(false)
+  const [status,   setStatus]   = useState<IndexStatus | null>(null)
+  const [indexing, setIndexing] = useState<{ done: number } | null>(null)
+
+  const boxRef = useRef<HTMLDivElement>(null)
+
+  // ── debounced search ─────────────────────────────────────────────────────
+  useEffect(() => {
+    const q = query.trim()
+    if (q.length < MIN_QUERY) { setHits([]); setTotal(0); return }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setLoading(true)
+      try {
+        const res  = await fetch(`/api/search?q=${encodeURIComponent(q)}`)
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error)
+        if (!cancelled) { setHits(data.hits); setTotal(data.total) }
+      } catch (err) {
+        if (!cancelled) showError('Search failed', err instanceof Error ? err.message : String(err))
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, DEBOUNCE_MS)
+    return () => { cancelled = true; clearTimeout(timer) }
+  }, [query, showError])
+
+  // ── close on outside click ───────────────────────────────────────────────
+  useEffect(() => {
+    if (!open) return
+    const onDown = (e: MouseEvent) => {
+      if (!boxRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', onDown)
+    return () => document.removeEventListener('mousedown', onDown)
+  }, [open])
+
+  // ── index status when the dropdown opens ─────────────────────────────────
+  useEffect(() => {
+    if (!open || status) return
+    fetch('/api/search/index')
+      .then(r => r.json())
+      .then(setStatus)
+      .catch(console.error)
+  }, [open, status])
+
+  async function handleRebuild() {
+    setIndexing({ done: 0 })
+    let after: number | null = 0
+    let done = 0, failed = 0
+    try {
+      while (after !== null) {
+        const res: Response = await fetch('/api/search/index', {
+          method:  'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body:    JSON.stringify({ afterLectureId: after }),
+        })
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error)
+        done   += data.indexed
+        failed += data.failed
+        after   = data.nextAfterLectureId
+        setIndexing({ done })
+      }
+      success('Search index rebuilt', `${done} transcripts indexed${failed ? `, ${failed} failed` : ''}`)
+    } catch (err) {
+      showError('Indexing failed', err instanceof Error ? err.message : String(err))
+    } finally {
+      setIndexing(null)
+      setStatus(null)   // refetch
+    }
+  }
+
+  function pick(hit: TranscriptHit) {
+    setOpen(false)
+    // The editor's find box takes one exact string — use the first term or phrase
+    const first = query.match(/"([^"]+)"|(\S+)/)
+    onOpen(hit.courseId, hit.lectureId, first ? (first[1] ?? first[2]) : '')
+  }
+
+  const showPanel = open && (query.trim().length >= MIN_QUERY || !!status)
+
+  return (
+    <div ref={boxRef} className="relative mb-3">
+      <div className="relative">
+        <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-aura-muted pointer-events-none" />
+        <input
+          dir="auto"
+          value={query}
+          onChange={e => { setQuery(e.target.value); setOpen(true) }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={e => {
+            if (e.key === 'Escape') setOpen(false)
+            if (e.key === 'Enter' && hits[0]) pick(hits[0])
+          }}
+          placeholder="Search transcripts…"
+          className="w-full pl-9 pr-9 py-2 rounded-xl bg-black/30 border border-white/[0.06] text-sm text-aura-text
+                     placeholder:text-aura-muted/50 focus:outline-none focus:border-aura-accent/40"
+        />
+        {loading
+          ? <Loader2 size={14} className="absolute right-3 top-1/2 -translate-y-1/2 animate-spin text-aura-muted" />
+          : query && (
+            <button onClick={() => { setQuery(''); setHits([]) }} className="absolute right-2.5 top-1/2 -translate-y-1/2 p-0.5 text-aura-muted hover:text-aura-text">
+              <X size={14} />
+            </button>
+          )}
+      </div>
+
+      <AnimatePresence>
+        {showPanel && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.15 }}
+            className="absolute z-30 left-0 right-0 mt-1.5 rounded-2xl bg-aura-surface/95 backdrop-blur border border-white/[0.08] shadow-xl overflow-hidden"
+          >
+            {query.trim().length >= MIN_QUERY && (
+              <div className="max-h-[60vh] overflow-y-auto divide-y divide-white/[0.04]">
+                {!loading && hits.length === 0 && (
+                  <p className="text-center text-xs text-aura-muted py-5">No transcripts mention this</p>
+                )}
+                {hits.map(hit => (
+                  <button
+                    key={hit.lectureId}
+                    onClick={() => pick(hit)}
+                    className="w-full text-left px-3 py-2.5 hover:bg-white/[0.03] space-y-1"
+                  >
+                    <div className="flex items-center gap-2">
+                      <p className="text-xs text-aura-text truncate flex-1">
+                        {hit.courseTitle}
+                        <span className="text-aura-muted"> · Lecture {hit.lectureNumber ?? '?'} — {hit.lectureTitle}</span>
+                      </p>
+                      <span className="shrink-0 text-[10px] text-aura-accent">
+                        {hit.matchCount} match{hit.matchCount === 1 ? '' : 'es'}
+                      </span>
+                    </div>
+                    {hit.snippets.map((s, i) => <Highlighted key={i} snippet={s} />)}
+                  </button>
+                ))}
+                {total > hits.length && (
+                  <p className="text-center text-[11px] text-aura-muted py-2">
+                    Showing {hits.length} of {total} lectures — refine the query to narrow down
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Index status */}
+            <div className={clsx(
+              'flex items-center gap-2 px-3 py-2 text-[11px] text-aura-muted bg-black/20',
+              query.trim().length >= MIN_QUERY && 'border-t border-white/[0.05]',
+            )}>
+              <Database size={11} />
+              {status
+                ? <span>{status.indexed} of {status.lectures} lectures indexed</span>
+                : <span>Loading index status…</span>}
+              <button
+                onClick={handleRebuild}
+                disabled={!!indexing}
+                className="ml-auto flex items-center gap-1 text-aura-accent hover:underline disabled:opacity-60"
+              >
+                {indexing && <Loader2 size={11} className="animate-spin" />}
+                {indexing ? `Indexing… ${indexing.done}` : 'Rebuild index'}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { selectAll, supabase } from '@/lib/supabase'
+import type { EntityType } from '@/lib/constants'
+
+// Alternate names and spellings of an entity ("Dostoyevsky" for "Fyodor
+// Dostoevsky", Hebrew variants). Merges keep the losing entity's names here;
+// aliases are edited in EditPanel and honoured by entity search, duplicate
+// detection and extracted-name matching.
+//
+// Table: entity_aliases
+//   id          bigint generated always as identity primary key
+//   entity_type text   not null
+//   entity_id   bigint not null
+//   alias       text   not null
+//   source      text   not null default 'manual'   -- 'manual' | 'merge'
+//   created_at  timestamptz not null default now()
+//   unique (entity_type, entity_id, alias)
+//
+// Rows stay when their entity is merged away, so a merge undo (which brings
+// the entity back under its original id) gets them back. Deleting an entity
+// moves its aliases into the deleted_entities backup and a restore re-adds
+// them under the new id; reclassifying moves them to the new type and id.
+
+export type AliasSource = 'manual' | 'merge'
+
+/** Trimmed, non-empty, case-insensitively unique — first spelling kept */
+export function cleanAliases(aliases: string[], exclude: (string | null | undefined)[] = []): string[] {
+  const seen = new Set(exclude.filter((s): s is string => !!s).map(s => s.trim().toLowerCase()))
+  const out: string[] = []
+  for (const a of aliases) {
+    const t = a.trim()
+    if (!t || seen.has(t.toLowerCase())) continue
+    seen.add(t.toLowerCase())
+    out.push(t)
+  }
+  return out
+}
+
+/** Aliases per entity id for one type (every entity of the type when ids is omitted) */
+export async function fetchAliases(entityType: EntityType, ids?: number[]): Promise<Map<number, string[]>> {
+  const rows = await selectAll<{ entity_id: number; alias: string }>((from, to) => {
+    let query = supabase
+      .from('entity_aliases')
+      .select('entity_id, alias')
+      .eq('entity_type', entityType)
+      .order('id')
+      .range(from, to)
+    if (ids) query = query.in('entity_id', ids)
+    return query
+  })
+
+  const byId = new Map<number, string[]>()
+  for (const row of rows) {
+    byId.set(row.entity_id, [...(byId.get(row.entity_id) ?? []), row.alias])
+  }
+  return byId
+}
+
+/** Entity ids of a type with an alias containing the search text */
+export async function searchAliasIds(entityType: EntityType, search: string): Promise<number[]> {
+  const { data, error } = await supabase
+    .from('entity_aliases')
+    .select('entity_id')
+    .eq('entity_type', entityType)
+    .ilike('alias', `%${search}%`)
+  if (error) throw new Error(error.message)
+  return [...new Set(((data ?? []) as { entity_id: number }[]).map(r => r.entity_id))]
+}
+
+/**
+ * Add aliases an entity doesn't have yet. Names equal to one of `exclude`
+ * (usually the entity's own name / hebrew_name) are skipped.
+ * Returns the ids of the inserted rows.
+ */
+export async function addAliases(
+  entityType: EntityType,
+  entityId:   number,
+  aliases:    string[],
+  source:     AliasSource,
+  exclude:    (string | null | undefined)[] = [],
+): Promise<number[]> {
+  const existing = (await fetchAliases(entityType, [entityId])).get(entityId) ?? []
+  const fresh    = cleanAliases(aliases, [...exclude, ...existing])
+  if (!fresh.length) return []
+
+  const { data, error } = await supabase
+    .from('entity_aliases')
+    .insert(fresh.map(alias => ({ entity_type: entityType, entity_id: entityId, alias, source })))
+    .select('id')
+  if (error) throw new Error(error.message)
+  return ((data ?? []) as { id: number }[]).map(r => r.id)
+}
+
+/** Replace an entity's aliases with the given list (panel edits). Returns the saved list */
+export async function replaceAliases(
+  entityType: EntityType,
+  entityId:   number,
+  aliases:    string[],
+  exclude:    (string | null | undefined)[] = [],
+): Promise<string[]> {
+  const wanted  = cleanAliases(aliases, exclude)
+  const current = (await fetchAliases(entityType, [entityId])).get(entityId) ?? []
+  const keep    = new Set(wanted.map(a => a.toLowerCase()))
+  const removed = current.filter(a => !keep.has(a.toLowerCase()))
+
+  if (removed.length) {
+    const { error } = await supabase
+      .from('entity_aliases')
+      .delete()
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .in('alias', removed)
+    if (error) throw new Error(error.message)
+  }
+  await addAliases(entityType, entityId, wanted, 'manual')
+  return wanted
+}
@@ -0,0 +1,126 @@
+import { supabase } from '@/lib/supabase'
+import { ENTITY_TYPES, AttributeDef, EntityType } from '@/lib/constants'
+
+// Typed attribute columns declared per type in ENTITY_TYPES[type].attributes
+// (birth / death years, nationality, Wikidata / IMDb ids, a film's director).
+// Columns live on the entity tables themselves:
+//
+//   directors, writers, painters, philosophers, composers
+//     birth_year int, death_year int, nationality text, wikidata_id text, image_source text
+//     directors also: imdb_id text
+//   films          release_year int, director_id bigint references directors(id) on delete set null,
+//                  wikidata_id text, imdb_id text, image_source text
+//   books          publication_year int, wikidata_id text, image_source text
+//   paintings      year int, museum text, wikidata_id text, image_source text
+//   musical_works  wikidata_id text, image_source text
+
+/** Attribute defs of a type ([] for types without any) */
+export const attributesOf = (entityType: EntityType): AttributeDef[] =>
+  ENTITY_TYPES[entityType]?.attributes ?? []
+
+/** Attribute columns for a select list, with a leading comma ('' when there are none) */
+export function attributeColumns(entityType: EntityType): string {
+  return attributesOf(entityType).map(a => `, ${a.key}`).join('')
+}
+
+/** The attribute values of a row (missing ones as null) */
+export function pickAttributes(entityType: EntityType, row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(attributesOf(entityType).map(a => [a.key, row[a.key] ?? null]))
+}
+
+const MIN_YEAR = -3000
+const MAX_YEAR = 2100
+
+async function entityExists(entityType: string, id: number): Promise<boolean> {
+  if (!(entityType in ENTITY_TYPES)) return false
+  const { data } = await supabase.from(entityType).select('id').eq('id', id).limit(1)
+  return !!data?.length
+}
+
+/** Validate and normalise one value; empty input clears the attribute */
+async function parseValue(def: AttributeDef, raw: unknown): Promise<{ value: unknown } | { error: string }> {
+  if (raw === null || (typeof raw === 'string' && !raw.trim())) return { value: null }
+
+  switch (def.kind) {
+    case 'year': {
+      const year = typeof raw === 'number' ? raw : Number(String(raw).trim())
+      if (!Number.isInteger(year) || year < MIN_YEAR || year > MAX_YEAR) {
+        return { error: `${def.label}: expected a year between ${MIN_YEAR} and ${MAX_YEAR}` }
+      }
+      return { value: year }
+    }
+    case 'text':
+      if (typeof raw !== 'string') return { error: `${def.label}: expected text` }
+      return { value: raw.trim() }
+    case 'external_id': {
+      const id = String(raw).trim()
+      if (def.pattern && !new RegExp(def.pattern).test(id)) {
+        return { error: `${def.label}: "${id}" is not a valid id${def.placeholder ? ` (e.g. ${def.placeholder})` : ''}` }
+      }
+      return { value: id }
+    }
+    case 'url': {
+      const url = String(raw).trim()
+      if (!/^https?:\/\/\S+$/.test(url)) return { error: `${def.label}: expected an http(s) URL` }
+      return { value: url }
+    }
+    case 'entity': {
+      const id = typeof raw === 'number' ? raw : parseInt(String(raw), 10)
+      if (!Number.isInteger(id) || !def.refType || !(await entityExists(def.refType, id))) {
+        return { error: `${def.label}: no ${def.refType ?? 'entity'} with id ${String(raw)}` }
+      }
+      return { value: id }
+    }
+  }
+}
+
+/**
+ * Attribute updates from a PATCH body — only keys present in the body.
+ * Returns the first validation error instead when a value is invalid.
+ */
+export async function parseAttributes(
+  entityType: EntityType,
+  body:       Record<string, unknown>,
+): Promise<{ values: Record<string, unknown> } | { error: string }> {
+  const values: Record<string, unknown> = {}
+  for (const def of attributesOf(entityType)) {
+    if (body[def.key] === undefined) continue
+    const parsed = await parseValue(def, body[def.key])
+    if ('error' in parsed) return parsed
+    values[def.key] = parsed.value
+  }
+  return { values }
+}
+
+/**
+ * Backed-up attribute values that can be written back: invalid values and
+ * references to entities that no longer exist are dropped.
+ */
+export async function restorableAttributes(
+  entityType: EntityType,
+  saved:      Record<string, unknown> | null | undefined,
+): Promise<Record<string, unknown>> {
+  const values: Record<string, unknown> = {}
+  for (const def of attributesOf(entityType)) {
+    if (saved?.[def.key] == null) continue
+    const parsed = await parseValue(def, saved[def.key])
+    if ('value' in parsed) values[def.key] = parsed.value
+  }
+  return values
+}
+
+/** Rows of one type whose entity attribute `key` points at a given entity */
+export interface AttributeRefs {
+  type: EntityType
+  key:  string
+  ids:  number[]
+}
+
+/** Entity attributes that can point at an entity of `refType`, e.g. films.director_id for directors */
+export function attributeRefsTo(refType: EntityType): { type: EntityType; key: string }[] {
+  return (Object.keys(ENTITY_TYPES) as EntityType[]).flatMap(type =>
+    attributesOf(type)
+      .filter(def => def.kind === 'entity' && def.refType === refType)
+      .map(def => ({ type, key: def.key })),
+  )
+}
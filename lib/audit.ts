@@ -0,0 +1,75 @@
+import type { NextRequest } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { SESSION_COOKIE, SESSION_HEADER } from '@/lib/constants'
+
+// Append-only audit trail for every mutating API route.
+//
+// Table: audit_log
+//   id          bigint generated always as identity primary key
+//   created_at  timestamptz not null default now()
+//   route       text        not null   -- e.g. /api/entities/directors/12
+//   method      text        not null   -- PATCH / POST / DELETE
+//   action      text        not null   -- e.g. 'entity.update', 'entity.merge'
+//   entity_type text
+//   entity_id   bigint
+//   course_id   bigint
+//   lecture_id  bigint
+//   before      jsonb
+//   after       jsonb
+//   actor       text                   -- panel-session cookie, or 'transcriber' / 'anonymous'
+//   ip          text
+//   user_agent  text
+
+export interface AuditEntry {
+  action:      string
+  entityType?: string | null
+  entityId?:   number | null
+  courseId?:   number | null
+  lectureId?:  number | null
+  before?:     unknown
+  after?:      unknown
+}
+
+/** Identify who made the request: the browser session, the Transcriber daemon, or nobody */
+export function auditActor(req: NextRequest): string {
+  // The daemon sends no cookie, but middleware may still hand it a fresh session id
+  if (req.headers.get('x-panel-token')) return 'transcriber'
+  // Middleware sets the header, including on the request that assigns the session
+  return req.headers.get(SESSION_HEADER) ?? req.cookies.get(SESSION_COOKIE)?.value ?? 'anonymous'
+}
+
+/** Fetch a single row as a plain object for a before/after snapshot (null if missing) */
+export async function snapshotRow(
+  table:   string,
+  id:      number,
+  columns = '*',
+): Promise<Record<string, unknown> | null> {
+  const { data } = await supabase
+    .from(table)
+    .select(columns)
+    .eq('id', id)
+    .limit(1)
+  return ((data ?? [])[0] as unknown as Record<string, unknown> | undefined) ?? null
+}
+
+/**
+ * Append one row to audit_log. Best-effort: a failed audit write is logged
+ * but never fails the mutation that triggered it.
+ */
+export async function recordAudit(req: NextRequest, entry: AuditEntry): Promise<void> {
+  const { error } = await supabase.from('audit_log').insert({
+    route:       req.nextUrl.pathname,
+    method:      req.method,
+    action:      entry.action,
+    entity_type: entry.entityType ?? null,
+    entity_id:   entry.entityId   ?? null,
+    course_id:   entry.courseId   ?? null,
+    lecture_id:  entry.lectureId  ?? null,
+    before:      entry.before     ?? null,
+    after:       entry.after      ?? null,
+    actor:       auditActor(req),
+    ip:          req.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+    user_agent:  req.headers.get('user-agent'),
+  })
+  if (error) console.warn('[audit]', entry.action, error.message)
+}
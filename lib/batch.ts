@@ -0,0 +1,34 @@
+// Helpers for batch jobs that call Gemini many times in one request
+// (bulk descriptions, bulk translations).
+
+// Minimum spacing between Gemini calls started by batch jobs (≈50 requests/minute).
+// Shared by every batch running in this server instance.
+const GEMINI_MIN_INTERVAL_MS = 1200
+
+let nextGeminiSlot = 0
+
+/** Resolve once the next Gemini request slot is free */
+export async function waitForGeminiSlot(): Promise<void> {
+  const now  = Date.now()
+  const slot = Math.max(now, nextGeminiSlot)
+  nextGeminiSlot = slot + GEMINI_MIN_INTERVAL_MS
+  if (slot > now) await new Promise(resolve => setTimeout(resolve, slot - now))
+}
+
+/** Quota / rate-limit responses from Gemini (HTTP 429, RESOURCE_EXHAUSTED) */
+export function isRateLimitError(err: unknown): boolean {
+  const msg = err instanceof Error ? err.message : String(err)
+  return /\b429\b|RESOURCE_EXHAUSTED|rate limit|quota/i.test(msg)
+}
+
+/** Run fn over items with at most `concurrency` calls in flight */
+export async function runPool<T>(items: T[], concurrency: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++]
+      await fn(item)
+    }
+  })
+  await Promise.all(workers)
+}
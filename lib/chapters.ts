@@ -0,0 +1,33 @@
+import { GetObjectCommand } from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { r2, bucketName, getR2Text, listR2Keys, r2KeyExists } from '@/lib/r2'
+import { saveLectureFile } from '@/lib/transcripts'
+import { VttCue, formatVtt, parseVtt } from '@/lib/vtt'
+
+// Chapters live next to the transcript at `${r2_dir}/${order_in_course}/chapters.vtt`
+
+const CHAPTERS_FILE = 'chapters.vtt'
+const MEDIA_EXT     = /\.(mp4|m4v|mov|webm|mkv|mp3|m4a|wav|aac|ogg)$/i
+const MEDIA_URL_TTL = 3600
+
+export const chaptersKey = (r2Prefix: string) => `${r2Prefix}/${CHAPTERS_FILE}`
+
+/** Parsed chapters, or null when the lecture has no chapters.vtt yet */
+export async function readChapters(r2Prefix: string): Promise<{ cues: VttCue[]; warnings: string[] } | null> {
+  if (!(await r2KeyExists(chaptersKey(r2Prefix)))) return null
+  return parseVtt(await getR2Text(chaptersKey(r2Prefix)))
+}
+
+/** Write cues as chapters.vtt, backing up the previous file. Returns the backup's version name. */
+export async function saveChapters(r2Prefix: string, cues: VttCue[]): Promise<string | null> {
+  return saveLectureFile(r2Prefix, CHAPTERS_FILE, formatVtt(cues), 'text/vtt; charset=utf-8')
+}
+
+/** Presigned URL of the lecture's source video/audio, for seeking to chapter timestamps */
+export async function lectureMediaUrl(r2Prefix: string): Promise<string | null> {
+  const keys  = await listR2Keys(`${r2Prefix}/`)
+  // Only direct children — versions/ and other sub-folders are never media
+  const media = keys.find(k => !k.slice(r2Prefix.length + 1).includes('/') && MEDIA_EXT.test(k))
+  if (!media) return null
+  return getSignedUrl(r2, new GetObjectCommand({ Bucket: bucketName, Key: media }), { expiresIn: MEDIA_URL_TTL })
+}
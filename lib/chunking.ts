@@ -0,0 +1,51 @@
+import { runPool } from '@/lib/batch'
+
+// Splitting long transcripts for map-reduce prompts.
+
+// Characters repeated at the start of each chunk so a sentence or name cut
+// at a boundary is still seen whole by one of the two chunks
+const DEFAULT_OVERLAP = 400
+
+// Preferred break points, best first
+const BREAKS = ['\n\n', '\n', '. ', '? ', '! ', ' ']
+
+/**
+ * Split text into chunks of at most `size` characters, breaking at paragraph,
+ * line, sentence or word boundaries where possible. Text that already fits
+ * is returned as a single chunk.
+ */
+export function chunkText(text: string, size: number, overlap = DEFAULT_OVERLAP): string[] {
+  if (text.length <= size) return [text]
+  overlap = Math.min(overlap, Math.floor(size / 4))
+
+  const chunks: string[] = []
+  let start = 0
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length)
+    if (end < text.length) {
+      // Look for a break in the last quarter of the window
+      const floor = start + Math.floor(size * 0.75)
+      for (const br of BREAKS) {
+        const at = text.lastIndexOf(br, end - br.length)
+        if (at >= floor) { end = at + br.length; break }
+      }
+    }
+    chunks.push(text.slice(start, end).trim())
+    if (end >= text.length) break
+    // Begin the overlap on a word boundary
+    const back  = end - overlap
+    const space = text.indexOf(' ', back)
+    start = Math.max(space !== -1 && space < end ? space + 1 : back, start + 1)
+  }
+  return chunks.filter(Boolean)
+}
+
+// LLM calls in flight per request while mapping over chunks
+const CHUNK_CONCURRENCY = 3
+
+/** fn over every chunk, at most CHUNK_CONCURRENCY at a time; results in chunk order */
+export async function mapChunks<T>(chunks: string[], fn: (chunk: string, index: number) => Promise<T>): Promise<T[]> {
+  const results = new Array<T>(chunks.length)
+  await runPool(chunks.map((_, i) => i), CHUNK_CONCURRENCY, async i => { results[i] = await fn(chunks[i], i) })
+  return results
+}
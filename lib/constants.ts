@@ -1,16 +1,196 @@
-export const ENTITY_TYPES = {
-  courses:      { label: 'Courses',      nameField: 'title' as const, icon: '🎓' },
-  lectures:     { label: 'Lectures',     nameField: 'title' as const, icon: '🎤' },
-  directors:    { label: 'Directors',    nameField: 'name'  as const, icon: '🎬' },
-  films:        { label: 'Films',        nameField: 'title' as const, icon: '🎞' },
-  writers:      { label: 'Writers',      nameField: 'name'  as const, icon: '✍️' },
-  books:        { label: 'Books',        nameField: 'title' as const, icon: '📚' },
-  painters:     { label: 'Painters',     nameField: 'name'  as const, icon: '🎨' },
-  paintings:    { label: 'Paintings',    nameField: 'title' as const, icon: '🖼' },
-  philosophers: { label: 'Philosophers', nameField: 'name'  as const, icon: '🏛' },
-} as const
-
-export type EntityType = keyof typeof ENTITY_TYPES
+// ---------------------------------------------------------------------------
+// Entity-type registry — every route and component derives its per-type
+// behaviour from here, so adding a type is a single entry below (plus its
+// Supabase table and junction table).
+// ---------------------------------------------------------------------------
+
+/** person / work types may be misclassified as each other and are compared for duplicates */
+export type EntityKind = 'container' | 'person' | 'work' | 'concept'
+
+/**
+ * How /api/image-search finds candidate images:
+ *   portrait — Wikimedia Commons, "<name>" portrait
+ *   artwork  — Wikimedia Commons, "<name>"
+ *   poster   — Wikipedia infobox image + Commons poster search
+ *   cover    — Google CSE, "<name>" book cover
+ *   web      — Google CSE, "<name>" plus the Hebrew name
+ */
+export type ImageSearchStrategy = 'portrait' | 'artwork' | 'poster' | 'cover' | 'web'
+
+/**
+ * A typed column on an entity table beyond name / hebrew_name / description.
+ *   year        — int, a year (negative = BCE)
+ *   text        — short free text
+ *   entity      — bigint id of another entity (refType), on delete set null
+ *   external_id — identifier in an outside catalogue, checked against pattern
+ *   url         — http(s) URL
+ */
+export interface AttributeDef {
+  key:      string
+  label:    string
+  kind:     'year' | 'text' | 'entity' | 'external_id' | 'url'
+  /** entity: the referenced EntityType (a string here — EntityType is derived from REGISTRY) */
+  refType?: string
+  /** external_id: regex the value must match */
+  pattern?: string
+  /** external_id: page URL with {id} */
+  url?:     string
+  placeholder?: string
+}
+
+const WIKIDATA_ID: AttributeDef = {
+  key: 'wikidata_id', label: 'Wikidata', kind: 'external_id',
+  pattern: '^Q[1-9]\\d*$', url: 'https://www.wikidata.org/wiki/{id}', placeholder: 'Q12345',
+}
+/** Canonical image (Wikidata's P18 on Commons) — offered first by /api/image-search */
+const IMAGE_SOURCE: AttributeDef = {
+  key: 'image_source', label: 'Image source', kind: 'url', placeholder: 'https://commons.wikimedia.org/…',
+}
+const IMDB_PERSON_ID: AttributeDef = {
+  key: 'imdb_id', label: 'IMDb', kind: 'external_id',
+  pattern: '^nm\\d{7,}$', url: 'https://www.imdb.com/name/{id}/', placeholder: 'nm0000000',
+}
+const IMDB_TITLE_ID: AttributeDef = {
+  key: 'imdb_id', label: 'IMDb', kind: 'external_id',
+  pattern: '^tt\\d{7,}$', url: 'https://www.imdb.com/title/{id}/', placeholder: 'tt0000000',
+}
+
+// People: birth_year int, death_year int, nationality text, wikidata_id text, image_source text
+const PERSON_ATTRIBUTES: AttributeDef[] = [
+  { key: 'birth_year',  label: 'Born',        kind: 'year', placeholder: '1932' },
+  { key: 'death_year',  label: 'Died',        kind: 'year', placeholder: '1986' },
+  { key: 'nationality', label: 'Nationality', kind: 'text', placeholder: 'Russian' },
+  WIKIDATA_ID,
+  IMAGE_SOURCE,
+]
+
+export interface EntityTypeConfig {
+  label:          string
+  nameField:      'name' | 'title'
+  icon:           string
+  kind:           EntityKind
+  /** Lecture junction table; null for types not linked to lectures */
+  junction:       { table: string; fkCol: string } | null
+  /** entity_desc prompt under prompts/; null falls back to enrich_describe.txt */
+  promptFile:     string | null
+  /** null = the type never has an image */
+  imageAspect:    'square' | 'portrait' | null
+  imageSearch:    ImageSearchStrategy | null
+  hasDescription: boolean
+  hasHebrewName:  boolean
+  /** Typed columns edited in EditPanel and returned by /api/entities/[type] */
+  attributes:     AttributeDef[]
+}
+
+const REGISTRY = {
+  courses: {
+    label: 'Courses', nameField: 'title', icon: '🎓', kind: 'container',
+    junction: null, promptFile: null,
+    imageAspect: 'square', imageSearch: 'web', hasDescription: true, hasHebrewName: false,
+    attributes: [],
+  },
+  lectures: {
+    label: 'Lectures', nameField: 'title', icon: '🎤', kind: 'container',
+    junction: null, promptFile: null,
+    imageAspect: null, imageSearch: null, hasDescription: false, hasHebrewName: false,
+    attributes: [],
+  },
+  directors: {
+    label: 'Directors', nameField: 'name', icon: '🎬', kind: 'person',
+    junction: { table: 'lecture_directors', fkCol: 'director_id' },
+    promptFile: 'enrich_describe_director.txt',
+    imageAspect: 'square', imageSearch: 'portrait', hasDescription: true, hasHebrewName: true,
+    attributes: [...PERSON_ATTRIBUTES, IMDB_PERSON_ID],
+  },
+  films: {
+    label: 'Films', nameField: 'title', icon: '🎞', kind: 'work',
+    junction: { table: 'lecture_films', fkCol: 'film_id' },
+    promptFile: 'enrich_describe_film.txt',
+    imageAspect: 'portrait', imageSearch: 'poster', hasDescription: true, hasHebrewName: true,
+    attributes: [
+      { key: 'release_year', label: 'Released', kind: 'year', placeholder: '1972' },
+      { key: 'director_id',  label: 'Director', kind: 'entity', refType: 'directors' },
+      WIKIDATA_ID,
+      IMDB_TITLE_ID,
+      IMAGE_SOURCE,
+    ],
+  },
+  writers: {
+    label: 'Writers', nameField: 'name', icon: '✍️', kind: 'person',
+    junction: { table: 'lecture_writers', fkCol: 'writer_id' },
+    promptFile: 'enrich_describe_writer.txt',
+    imageAspect: 'square', imageSearch: 'portrait', hasDescription: true, hasHebrewName: true,
+    attributes: PERSON_ATTRIBUTES,
+  },
+  books: {
+    label: 'Books', nameField: 'title', icon: '📚', kind: 'work',
+    junction: { table: 'lecture_books', fkCol: 'book_id' },
+    promptFile: 'enrich_describe_book.txt',
+    imageAspect: 'portrait', imageSearch: 'cover', hasDescription: true, hasHebrewName: true,
+    attributes: [
+      { key: 'publication_year', label: 'Published', kind: 'year', placeholder: '1866' },
+      WIKIDATA_ID,
+      IMAGE_SOURCE,
+    ],
+  },
+  painters: {
+    label: 'Painters', nameField: 'name', icon: '🎨', kind: 'person',
+    junction: { table: 'lecture_painters', fkCol: 'painter_id' },
+    promptFile: 'enrich_describe_painter.txt',
+    imageAspect: 'square', imageSearch: 'portrait', hasDescription: true, hasHebrewName: true,
+    attributes: PERSON_ATTRIBUTES,
+  },
+  paintings: {
+    label: 'Paintings', nameField: 'title', icon: '🖼', kind: 'work',
+    junction: { table: 'lecture_paintings', fkCol: 'painting_id' },
+    promptFile: 'enrich_describe_painting.txt',
+    imageAspect: 'portrait', imageSearch: 'artwork', hasDescription: true, hasHebrewName: true,
+    attributes: [
+      { key: 'year',   label: 'Year',   kind: 'year', placeholder: '1889' },
+      { key: 'museum', label: 'Museum', kind: 'text', placeholder: 'Museum of Modern Art, New York' },
+      WIKIDATA_ID,
+      IMAGE_SOURCE,
+    ],
+  },
+  philosophers: {
+    label: 'Philosophers', nameField: 'name', icon: '🏛', kind: 'person',
+    junction: { table: 'lecture_philosophers', fkCol: 'philosopher_id' },
+    promptFile: 'enrich_describe_philosopher.txt',
+    imageAspect: 'square', imageSearch: 'portrait', hasDescription: true, hasHebrewName: true,
+    attributes: PERSON_ATTRIBUTES,
+  },
+  // Tables: composers (id, name, hebrew_name, description)
+  //         lecture_composers (id, lecture_id, composer_id, relationship_type, unique (lecture_id, composer_id))
+  composers: {
+    label: 'Composers', nameField: 'name', icon: '🎼', kind: 'person',
+    junction: { table: 'lecture_composers', fkCol: 'composer_id' },
+    promptFile: 'enrich_describe_composer.txt',
+    imageAspect: 'square', imageSearch: 'portrait', hasDescription: true, hasHebrewName: true,
+    attributes: PERSON_ATTRIBUTES,
+  },
+  // Tables: musical_works (id, title, hebrew_name, description)
+  //         lecture_musical_works (id, lecture_id, musical_work_id, relationship_type, unique (lecture_id, musical_work_id))
+  musical_works: {
+    label: 'Musical Works', nameField: 'title', icon: '🎵', kind: 'work',
+    junction: { table: 'lecture_musical_works', fkCol: 'musical_work_id' },
+    promptFile: 'enrich_describe_musical_work.txt',
+    imageAspect: 'square', imageSearch: 'artwork', hasDescription: true, hasHebrewName: true,
+    attributes: [WIKIDATA_ID, IMAGE_SOURCE],
+  },
+  themes: {
+    label: 'Themes', nameField: 'name', icon: '💡', kind: 'concept',
+    junction: { table: 'lecture_themes', fkCol: 'theme_id' },
+    promptFile: null,
+    imageAspect: null, imageSearch: null, hasDescription: false, hasHebrewName: true,
+    attributes: [],
+  },
+} satisfies Record<string, EntityTypeConfig>
+
+export type EntityType = keyof typeof REGISTRY
+
+export const ENTITY_TYPES: Record<EntityType, EntityTypeConfig> = REGISTRY
+
+const ALL_ENTITY_TYPES = Object.keys(ENTITY_TYPES) as EntityType[]
 
 export interface Entity {
   id:           number
@@ -18,17 +198,62 @@ export interface Entity {
   hasImage?:    boolean
   hebrewName?:  string | null
   description?: string | null
+  /** Canonical image URL (image_source attribute), when known */
+  imageSource?: string | null
+}
+
+// Junction table info for each type linked to lectures (used for delete cleanup)
+export const JUNCTION_MAP: Partial<Record<EntityType, { table: string; fkCol: string }>> = Object.fromEntries(
+  ALL_ENTITY_TYPES.flatMap(t => ENTITY_TYPES[t].junction ? [[t, ENTITY_TYPES[t].junction]] : []),
+)
+
+// Types linked to lectures through a junction table — what the entities generator extracts
+export const LINKED_ENTITY_TYPES = ALL_ENTITY_TYPES.filter(t => ENTITY_TYPES[t].junction)
+
+// Types that can carry an image under images/<type>/<id>.jpeg
+export const IMAGE_ENTITY_TYPES = ALL_ENTITY_TYPES.filter(t => ENTITY_TYPES[t].imageAspect)
+
+// Types compared by duplicate detection and offered for cross-type merges
+export const DEDUPE_ENTITY_TYPES = ALL_ENTITY_TYPES.filter(
+  t => ENTITY_TYPES[t].kind === 'person' || ENTITY_TYPES[t].kind === 'work',
+)
+
+// Image searches served by Wikimedia — these results get NIMA scoring in the image game
+export const WIKIMEDIA_SEARCHES: ImageSearchStrategy[] = ['portrait', 'artwork', 'poster']
+
+// ---------------------------------------------------------------------------
+// Entity-to-entity link types (entity_links table) — which types each link
+// may connect, always read as "<from> <label> <to>"
+// ---------------------------------------------------------------------------
+export interface EntityLinkTypeConfig {
+  label: string
+  from:  EntityType[]
+  to:    EntityType[]
 }
 
-// Junction table info for each editable entity type (used for delete cleanup)
-export const JUNCTION_MAP: Partial<Record<EntityType, { table: string; fkCol: string }>> = {
-  directors:    { table: 'lecture_directors',    fkCol: 'director_id'    },
-  films:        { table: 'lecture_films',        fkCol: 'film_id'        },
-  writers:      { table: 'lecture_writers',      fkCol: 'writer_id'      },
-  books:        { table: 'lecture_books',        fkCol: 'book_id'        },
-  painters:     { table: 'lecture_painters',     fkCol: 'painter_id'     },
-  paintings:    { table: 'lecture_paintings',    fkCol: 'painting_id'    },
-  philosophers: { table: 'lecture_philosophers', fkCol: 'philosopher_id' },
+const PERSON_TYPES = ALL_ENTITY_TYPES.filter(t => ENTITY_TYPES[t].kind === 'person')
+
+const LINK_REGISTRY = {
+  directed:   { label: 'directed',   from: ['directors'],               to: ['films']         },
+  wrote:      { label: 'wrote',      from: ['writers', 'philosophers'], to: ['books']         },
+  painted:    { label: 'painted',    from: ['painters'],                to: ['paintings']     },
+  composed:   { label: 'composed',   from: ['composers'],               to: ['musical_works'] },
+  influenced: { label: 'influenced', from: PERSON_TYPES,                to: PERSON_TYPES      },
+} satisfies Record<string, EntityLinkTypeConfig>
+
+export type EntityLinkType = keyof typeof LINK_REGISTRY
+
+export const ENTITY_LINK_TYPES: Record<EntityLinkType, EntityLinkTypeConfig> = LINK_REGISTRY
+
+export function canLink(linkType: EntityLinkType, fromType: EntityType, toType: EntityType): boolean {
+  const cfg = ENTITY_LINK_TYPES[linkType]
+  return !!cfg && cfg.from.includes(fromType) && cfg.to.includes(toType)
 }
 
 export const R2_IMAGES_PREFIX = 'images'
+
+// Random per-browser session id set by middleware.ts — recorded as the actor in audit_log
+export const SESSION_COOKIE = 'panel-session'
+// The session id as middleware passes it to routes — also set on the first
+// request, before the browser has the cookie
+export const SESSION_HEADER = 'x-panel-session'
@@ -0,0 +1,87 @@
+import type { NextRequest } from 'next/server'
+import { SchemaType } from '@google/generative-ai'
+import { supabase } from '@/lib/supabase'
+import { ENTITY_TYPES, EntityType } from '@/lib/constants'
+import { callLlm } from '@/lib/llm'
+import { loadPrompt } from '@/lib/prompts'
+import { recordAudit, snapshotRow } from '@/lib/audit'
+
+// Entity descriptions — shared by the single-entity entity_desc flow
+// (/api/generate + /api/generate/confirm) and the bulk queue (/api/generate/descriptions).
+
+export const DESCRIPTION_SCHEMA = {
+  type: SchemaType.OBJECT,
+  properties: { description: { type: SchemaType.STRING } },
+  required: ['description'],
+}
+
+export interface DescribedEntity {
+  name:        string
+  hebrewName:  string
+  description: string
+}
+
+/** Name fields and current description of one entity (null when missing) */
+export async function fetchDescribedEntity(entityType: EntityType, entityId: number): Promise<DescribedEntity | null> {
+  const { nameField } = ENTITY_TYPES[entityType]
+  const { data: row } = await supabase
+    .from(entityType).select(`id,${nameField},hebrew_name,description`)
+    .eq('id', entityId).single()
+  if (!row) return null
+  const r = row as Record<string, string>
+  return { name: r[nameField] ?? '', hebrewName: r.hebrew_name ?? '', description: r.description ?? '' }
+}
+
+/** Fill a description prompt template (enrich_describe*.txt) for one entity */
+export function renderDescriptionPrompt(template: string, entityType: EntityType, entity: DescribedEntity): string {
+  const { name, hebrewName } = entity
+  const display   = hebrewName ? `${hebrewName} (${name})` : name
+  const entityKey = entityType.replace(/s$/, '')
+  return template
+    .replace(/\{display\}/g, display)
+    .replace(/\{label\}/g, entityKey)
+    .replace(/\{name\}/g, name)
+    .replace(/\{hebrew_name\}/g, hebrewName || name)
+}
+
+/**
+ * Generate a Hebrew description for one entity — nothing is written.
+ * The caller checks ENTITY_TYPES[type].hasDescription; returns null when the entity is missing.
+ */
+export async function generateEntityDescription(
+  entityType: EntityType,
+  entityId:   number,
+  note?:      string,
+): Promise<{ name: string; before: string; after: string } | null> {
+  const entity = await fetchDescribedEntity(entityType, entityId)
+  if (!entity) return null
+
+  const template = await loadPrompt(ENTITY_TYPES[entityType].promptFile ?? 'enrich_describe.txt')
+  let prompt = renderDescriptionPrompt(template, entityType, entity)
+  if (note?.trim()) prompt = `${prompt}\n\nAdditional note: ${note.trim()}`
+
+  const text = await callLlm('entity_desc', prompt, { schema: DESCRIPTION_SCHEMA })
+  let after: string
+  try { after = (JSON.parse(text) as { description: string }).description } catch { after = text }
+
+  return { name: entity.name, before: entity.description, after }
+}
+
+/** Write an approved description and record it in the audit log */
+export async function applyEntityDescription(
+  req:         NextRequest,
+  entityType:  EntityType,
+  entityId:    number,
+  description: string,
+): Promise<void> {
+  const before = await snapshotRow(entityType, entityId, 'description')
+  const { error } = await supabase.from(entityType).update({ description }).eq('id', entityId)
+  if (error) throw new Error(error.message)
+  await recordAudit(req, {
+    action:     'generate.entity_desc',
+    entityType,
+    entityId,
+    before,
+    after:      { description },
+  })
+}
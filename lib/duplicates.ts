@@ -0,0 +1,223 @@
+import type { EntityType } from '@/lib/constants'
+import { FUZZY_THRESHOLD, lastWordOf, nameSimilarity, normalizeName } from '@/lib/similarity'
+
+// Duplicate grouping for /api/entities/duplicates. Every name of an entity
+// counts — its name, hebrew_name and aliases, compared in normalizeName form
+// (case, Latin diacritics, niqqud and final letters ignored).
+//
+// Exact groups share a normalized name. Similar groups come from blocking
+// rather than comparing every pair: names are indexed by character trigrams
+// and only names that share enough of them are scored. Each similar group is
+// an anchor and the entities similar to the anchor itself — matches are not
+// chained. A shared last word only counts as a match (0.82) while few
+// entities have it, so a common surname can't pull its whole family into a
+// group.
+
+export interface DuplicateEntity {
+  id:              number
+  type:            EntityType
+  displayName:     string
+  hebrewName:      string | null
+  aliases:         string[]
+  connectionCount: number
+  hasImage:        boolean
+}
+
+export interface DuplicateGroup {
+  name:       string
+  entities:   DuplicateEntity[]
+  matchType:  'exact' | 'similar'
+  similarity: number
+}
+
+/**
+ * Trigrams shared by more names than MAX_POSTINGS carry little signal ("ber",
+ * "ein") and are skipped — except a name's RAREST_PROBES rarest trigrams, which
+ * are looked up so names made only of common trigrams still get candidates
+ * (up to MAX_PROBE_POSTINGS, past which a trigram says nothing at all).
+ */
+const MAX_POSTINGS       = 200
+const RAREST_PROBES      = 2
+const MAX_PROBE_POSTINGS = 20 * MAX_POSTINGS
+
+/**
+ * A last word shared by more entities than this is a common surname, not a
+ * sign of a duplicate; those pairs are scored on edit distance alone.
+ */
+const MAX_LAST_WORD_ENTITIES = 5
+
+/**
+ * Share of the looked-up trigrams two names must have in common to be scored.
+ * An edit changes at most three trigrams, so names within FUZZY_THRESHOLD's
+ * edit ratio keep well over this.
+ */
+const MIN_SHARED = 0.3
+
+const entityKey = (e: DuplicateEntity) => `${e.type}:${e.id}`
+
+/** Distinct normalized names of an entity */
+function namesOf(e: DuplicateEntity): string[] {
+  return [...new Set(
+    [e.displayName, e.hebrewName, ...e.aliases]
+      .filter((n): n is string => !!n)
+      .map(normalizeName)
+      .filter(n => n.length >= 2),
+  )]
+}
+
+function trigrams(name: string): Set<string> {
+  const padded = ` ${name} `
+  const grams  = new Set<string>()
+  for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3))
+  return grams
+}
+
+/** Entities sharing a normalized name, joined into one group when one name links them */
+function exactGroups(
+  entities:   DuplicateEntity[],
+  canCompare: (a: EntityType, b: EntityType) => boolean,
+): DuplicateGroup[] {
+  const byName = new Map<string, DuplicateEntity[]>()
+  for (const entity of entities) {
+    for (const name of namesOf(entity)) {
+      if (!byName.has(name)) byName.set(name, [])
+      byName.get(name)!.push(entity)
+    }
+  }
+
+  const groups:  DuplicateGroup[] = []
+  const groupOf = new Map<string, DuplicateGroup>()
+  for (const [, bucket] of byName) {
+    if (bucket.length < 2) continue
+    // Filter to entities comparable with one already kept
+    const eligible: DuplicateEntity[] = []
+    for (const entity of bucket) {
+      if (eligible.length === 0 || eligible.some(e => canCompare(e.type, entity.type))) eligible.push(entity)
+    }
+    if (eligible.length < 2) continue
+
+    // An alias or Hebrew name can join this bucket to a group built from another name
+    const existing = eligible.map(e => groupOf.get(entityKey(e))).find(Boolean)
+    const target   = existing ?? { name: eligible[0].displayName, entities: [], matchType: 'exact' as const, similarity: 1.0 }
+    if (!existing) groups.push(target)
+    for (const e of eligible) {
+      if (groupOf.has(entityKey(e))) continue
+      target.entities.push(e)
+      groupOf.set(entityKey(e), target)
+    }
+  }
+  return groups
+}
+
+/** Pairs of entities (indexes into `entities`) with a name pair at or above `threshold` */
+export function similarPairs(
+  entities:   DuplicateEntity[],
+  canCompare: (a: EntityType, b: EntityType) => boolean,
+  threshold = FUZZY_THRESHOLD,
+): { a: number; b: number; similarity: number }[] {
+  // One entry per (entity, name)
+  const entries: { entity: number; name: string; grams: Set<string> }[] = []
+  entities.forEach((e, entity) => {
+    for (const name of namesOf(e)) entries.push({ entity, name, grams: trigrams(name) })
+  })
+
+  const postings = new Map<string, number[]>()
+  const lastWords = new Map<string, Set<number>>()
+  entries.forEach((en, i) => {
+    for (const g of en.grams) {
+      if (!postings.has(g)) postings.set(g, [])
+      postings.get(g)!.push(i)
+    }
+    const last = lastWordOf(en.name)
+    if (!lastWords.has(last)) lastWords.set(last, new Set())
+    lastWords.get(last)!.add(en.entity)
+  })
+  const rareLastWord = (name: string) => lastWords.get(lastWordOf(name))!.size <= MAX_LAST_WORD_ENTITIES
+
+  const best = new Map<string, { a: number; b: number; similarity: number }>()
+  entries.forEach(en => {
+    // Shared trigrams with entries of other entities. Probing is asymmetric
+    // (each side looks up its own rare trigrams), so both directions run and
+    // `best` keeps one result per pair.
+    const shared = new Map<number, number>()
+    const lists  = [...en.grams].map(g => postings.get(g)!).sort((x, y) => x.length - y.length)
+    let probed   = 0
+    lists.forEach((list, rank) => {
+      if (list.length > (rank < RAREST_PROBES ? MAX_PROBE_POSTINGS : MAX_POSTINGS)) return
+      probed++
+      for (const j of list) {
+        if (entries[j].entity !== en.entity) shared.set(j, (shared.get(j) ?? 0) + 1)
+      }
+    })
+
+    for (const [j, count] of shared) {
+      const other = entries[j]
+      if (count < MIN_SHARED * Math.min(probed, other.grams.size)) continue
+      const ea = entities[en.entity]
+      const eb = entities[other.entity]
+      if (!canCompare(ea.type, eb.type)) continue
+
+      const similarity = nameSimilarity(en.name, other.name, { lastWord: rareLastWord(en.name) })
+      if (similarity < threshold) continue
+      const [a, b] = en.entity < other.entity ? [en.entity, other.entity] : [other.entity, en.entity]
+      const key    = `${a}|${b}`
+      if ((best.get(key)?.similarity ?? 0) < similarity) best.set(key, { a, b, similarity })
+    }
+  })
+  return [...best.values()]
+}
+
+/**
+ * Similar pairs grouped around anchors: in entity order, each entity not yet
+ * grouped takes every ungrouped entity similar to it. Best similarity first.
+ */
+function similarGroups(
+  entities:   DuplicateEntity[],
+  canCompare: (a: EntityType, b: EntityType) => boolean,
+): DuplicateGroup[] {
+  const neighbours = new Map<number, Map<number, number>>()
+  const link = (a: number, b: number, similarity: number) => {
+    if (!neighbours.has(a)) neighbours.set(a, new Map())
+    neighbours.get(a)!.set(b, similarity)
+  }
+  for (const { a, b, similarity } of similarPairs(entities, canCompare)) {
+    if (similarity >= 1.0) continue
+    link(a, b, similarity)
+    link(b, a, similarity)
+  }
+
+  const grouped = new Set<number>()
+  const groups:  DuplicateGroup[] = []
+  for (const anchor of [...neighbours.keys()].sort((x, y) => x - y)) {
+    if (grouped.has(anchor)) continue
+    const members = [...neighbours.get(anchor)!]
+      .filter(([i]) => !grouped.has(i))
+      .sort(([x], [y]) => x - y)
+    if (members.length === 0) continue
+
+    grouped.add(anchor)
+    for (const [i] of members) grouped.add(i)
+    groups.push({
+      name:       entities[anchor].displayName,
+      entities:   [entities[anchor], ...members.map(([i]) => entities[i])],
+      matchType:  'similar',
+      similarity: Math.max(...members.map(([, sim]) => sim)),
+    })
+  }
+  return groups.sort((x, y) => y.similarity - x.similarity)
+}
+
+/** Exact groups, then similar groups among the entities not in an exact group */
+export function findDuplicateGroups(
+  entities:   DuplicateEntity[],
+  canCompare: (a: EntityType, b: EntityType) => boolean,
+): { exact: DuplicateGroup[]; similar: DuplicateGroup[] } {
+  const exact   = exactGroups(entities, canCompare)
+  const inExact = new Set(exact.flatMap(g => g.entities.map(entityKey)))
+  const similar = similarGroups(entities.filter(e => !inExact.has(entityKey(e))), canCompare)
+  return { exact, similar }
+}
+
+/** Stable ID-based signature of a group — the merge_history group_sig */
+export const groupSig = (group: DuplicateGroup): string =>
+  group.entities.map(entityKey).sort().join('|')
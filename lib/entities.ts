@@ -0,0 +1,78 @@
+import { selectAll, supabase } from '@/lib/supabase'
+import { ENTITY_TYPES, LINKED_ENTITY_TYPES, EntityType } from '@/lib/constants'
+import { fetchAliases } from '@/lib/aliases'
+import { EntityMatch, MatchCandidate, matchNames } from '@/lib/entity-match'
+
+export type LinkedNames = Record<string, { discussed: string[]; mentioned: string[] }>
+
+/** Names currently linked to a lecture, per linked entity type, split by relationship_type */
+export async function fetchLinkedEntityNames(lectureId: number): Promise<LinkedNames> {
+  const linked: LinkedNames = {}
+  for (const et of LINKED_ENTITY_TYPES) {
+    const { nameField, junction } = ENTITY_TYPES[et]
+    const { data } = await supabase
+      .from(junction!.table)
+      .select(`relationship_type, ${et}!inner(${nameField})`)
+      .eq('lecture_id', lectureId)
+    linked[et] = { discussed: [], mentioned: [] }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    for (const row of (data ?? []) as any[]) {
+      const name   = row[et]?.[nameField] ?? ''
+      const bucket = row.relationship_type === 'discussed' ? 'discussed' : 'mentioned'
+      if (name) linked[et][bucket].push(name)
+    }
+  }
+  return linked
+}
+
+/** Display names for a mixed list of entities — one query per type. Keys are `${type}:${id}` */
+export async function fetchEntityNames(
+  refs: { type: EntityType; id: number }[],
+): Promise<Map<string, { name: string; hebrewName: string | null }>> {
+  const names     = new Map<string, { name: string; hebrewName: string | null }>()
+  const idsByType = new Map<EntityType, number[]>()
+  for (const { type, id } of refs) {
+    if (!ENTITY_TYPES[type]) continue
+    idsByType.set(type, [...(idsByType.get(type) ?? []), id])
+  }
+  await Promise.all(
+    [...idsByType].map(async ([type, ids]) => {
+      const { nameField, hasHebrewName } = ENTITY_TYPES[type]
+      const { data } = await supabase
+        .from(type)
+        .select(`id, ${nameField}${hasHebrewName ? ', hebrew_name' : ''}`)
+        .in('id', Array.from(new Set(ids)))
+      for (const row of (data ?? []) as unknown as Record<string, unknown>[]) {
+        names.set(`${type}:${row.id}`, {
+          name:       (row[nameField] as string) ?? '',
+          hebrewName: (row.hebrew_name as string | null | undefined) ?? null,
+        })
+      }
+    }),
+  )
+  return names
+}
+
+/** Every entity of a type with its aliases, as match candidates */
+async function fetchMatchCandidates(entityType: EntityType): Promise<MatchCandidate[]> {
+  const { nameField, hasHebrewName } = ENTITY_TYPES[entityType]
+  // Paged — a single select stops at PostgREST's row limit
+  const rows = await selectAll<Record<string, unknown>>((from, to) => supabase
+    .from(entityType)
+    .select(`id, ${nameField}${hasHebrewName ? ', hebrew_name' : ''}`)
+    .order('id')
+    .range(from, to))
+  const aliases = await fetchAliases(entityType)
+  return rows.map(r => ({
+    id:         r.id as number,
+    name:       (r[nameField] as string | null) ?? '',
+    hebrewName: (r.hebrew_name as string | null | undefined) ?? null,
+    aliases:    aliases.get(r.id as number) ?? [],
+  }))
+}
+
+/** Existing entities matching extracted names (see matchNames). Keys are lower-cased names */
+export async function matchEntityNames(entityType: EntityType, names: string[]): Promise<Record<string, EntityMatch>> {
+  if (!names.length) return {}
+  return matchNames(names, await fetchMatchCandidates(entityType))
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { extractEntities } from '@/lib/entity-extraction'
+import { EXTRACTION_RUNS } from '@/lib/entity-votes'
+import { MatchCandidate, matchNames, resolveMatch } from '@/lib/entity-match'
+
+const ENV_KEYS = ['LLM_PROVIDER', 'LLM_FIXTURE_DIR', 'ENTITY_MIN_VOTES']
+
+// Every chunk gets the same answer, so each name should get one vote per run
+const RESPONSE = {
+  directors: { discussed: ['Andrey Tarkovsky'], mentioned: ['Ingmar Bergman'] },
+  films:     { discussed: ['Stalker'], mentioned: [] },
+}
+
+// Long enough to be split into several 2000-character chunks
+const TRANSCRIPT = Array.from({ length: 12 }, (_, i) =>
+  `Part ${i + 1}. ${'Tarkovsky films the Zone in long takes while Bergman looks on. '.repeat(8)}`,
+).join('\n\n')
+
+const noNote = (p: string) => p
+
+describe('entity extraction with the fixture provider', () => {
+  let saved: Record<string, string | undefined>
+  let dir: string
+
+  beforeEach(() => {
+    saved = Object.fromEntries(ENV_KEYS.map(k => [k, process.env[k]]))
+    for (const k of ENV_KEYS) delete process.env[k]
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixture-'))
+    process.env.LLM_PROVIDER    = 'fixture'
+    process.env.LLM_FIXTURE_DIR = dir
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+    for (const k of ENV_KEYS) {
+      if (saved[k] === undefined) delete process.env[k]
+      else process.env[k] = saved[k]
+    }
+  })
+
+  it('chunks the transcript, tallies the runs and matches the names', async () => {
+    fs.writeFileSync(path.join(dir, 'entities.txt'), JSON.stringify(RESPONSE))
+
+    const { extracted, votes, chunks, runs, minVotes } =
+      await extractEntities(TRANSCRIPT, 'Extract entities:\n{transcript}', 2000, noNote, 2)
+
+    assert.ok(chunks > 1)
+    assert.equal(runs, EXTRACTION_RUNS)
+    assert.equal(minVotes, 2)
+
+    // Names repeated across chunks count once per run
+    assert.deepEqual(votes.directors, [
+      { name: 'Andrey Tarkovsky', votes: 3, discussedVotes: 3, mentionedVotes: 0 },
+      { name: 'Ingmar Bergman',   votes: 3, discussedVotes: 0, mentionedVotes: 3 },
+    ])
+    assert.deepEqual(extracted.directors, { discussed: ['Andrey Tarkovsky'], mentioned: ['Ingmar Bergman'] })
+    assert.deepEqual(extracted.films, { discussed: ['Stalker'], mentioned: [] })
+    assert.deepEqual(extracted.books, { discussed: [], mentioned: [] })
+
+    const candidates: MatchCandidate[] = [
+      { id: 1, name: 'Andrei Tarkovsky', hebrewName: null, aliases: [] },
+      { id: 2, name: 'Ernst Ingmar Bergman', hebrewName: null, aliases: ['Ingmar Bergman'] },
+      { id: 3, name: 'Federico Fellini', hebrewName: null, aliases: [] },
+    ]
+    const matches = matchNames(votes.directors.map(n => n.name), candidates)
+    assert.equal(matches['andrey tarkovsky'].id, 1)
+    assert.equal(matches['andrey tarkovsky'].kind, 'similar')
+    assert.equal(matches['ingmar bergman'].id, 2)
+    assert.equal(matches['ingmar bergman'].kind, 'alias')
+
+    // Similar-only matches wait for a human decision; alias matches link
+    assert.equal(resolveMatch('Andrey Tarkovsky', matches, undefined), null)
+    assert.equal(resolveMatch('Ingmar Bergman', matches, undefined), 2)
+    assert.equal(resolveMatch('Andrey Tarkovsky', matches, { 'andrey tarkovsky': 1 }), 1)
+  })
+
+  it('fails when no run returns valid JSON', async () => {
+    fs.writeFileSync(path.join(dir, 'entities.txt'), 'not json')
+    await assert.rejects(
+      extractEntities('A short lecture on Tarkovsky.', '{transcript}', 2000, noNote, 2),
+      new RegExp(`failed in all ${EXTRACTION_RUNS} runs`),
+    )
+  })
+})
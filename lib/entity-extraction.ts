@@ -0,0 +1,91 @@
+import { LINKED_ENTITY_TYPES } from '@/lib/constants'
+import { callLlm } from '@/lib/llm'
+import { chunkText, mapChunks } from '@/lib/chunking'
+import { ENTITIES_SCHEMA } from '@/lib/schemas'
+import {
+  DEFAULT_MIN_VOTES, EXTRACTION_RUNS, EntityLists, ExtractedName, acceptedLists, tallyVotes,
+} from '@/lib/entity-votes'
+
+// JSON-based entity extraction using entities_all.txt (same as Transcriber).
+// EXTRACTION_RUNS runs over every chunk; each name carries the number of runs
+// that found it and only names with enough votes are pre-accepted. A run with
+// a failed chunk (rate limit, bad JSON) is left out of the tally rather than
+// counted as finding nothing, and the threshold shrinks with the runs left.
+// The caller loads the prompt, so this runs without the database.
+
+export interface Extraction {
+  extracted: EntityLists
+  votes:     Record<string, ExtractedName[]>
+  chunks:    number
+  runs:      number
+  minVotes:  number
+}
+
+/** Lists found in one chunk, or null when the call or its JSON failed */
+async function extractEntitiesOnce(
+  template:   string,
+  text:       string,
+  appendNote: (p: string) => string,
+): Promise<EntityLists | null> {
+  try {
+    const prompt = appendNote(template.replace('{transcript}', text))
+    const raw    = await callLlm('entities', prompt, { json: true, schema: ENTITIES_SCHEMA })
+    // Strip markdown fences if present (older Gemini versions sometimes add them)
+    const clean  = raw.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+    const data   = JSON.parse(clean) as Record<string, { discussed?: string[]; mentioned?: string[] }>
+
+    const result: EntityLists = {}
+    for (const et of LINKED_ENTITY_TYPES) {
+      const etData = data[et] ?? {}
+      result[et] = {
+        discussed: (etData.discussed ?? []).filter((s): s is string => typeof s === 'string' && s.trim() !== ''),
+        mentioned: (etData.mentioned ?? []).filter((s): s is string => typeof s === 'string' && s.trim() !== ''),
+      }
+    }
+    return result
+  } catch (err) {
+    console.warn('[generate entities] extraction run failed:', err instanceof Error ? err.message : err)
+    return null
+  }
+}
+
+/** Acceptance threshold: request → ENTITY_MIN_VOTES → default, clamped to 1…runs */
+export function resolveMinVotes(requested?: number): number {
+  const value = requested ?? Number(process.env.ENTITY_MIN_VOTES ?? DEFAULT_MIN_VOTES)
+  if (!Number.isFinite(value)) return DEFAULT_MIN_VOTES
+  return Math.min(EXTRACTION_RUNS, Math.max(1, Math.round(value)))
+}
+
+/**
+ * Run the extraction EXTRACTION_RUNS times over `chunkChars`-sized chunks of
+ * the transcript and tally the complete runs. minVotes (out of
+ * EXTRACTION_RUNS) is scaled to the runs that succeeded; throws when none did.
+ */
+export async function extractEntities(
+  transcript: string,
+  template:   string,
+  chunkChars: number,
+  appendNote: (p: string) => string,
+  minVotes:   number,
+): Promise<Extraction> {
+  const chunks = chunkText(transcript, chunkChars)
+  const runs: EntityLists[][] = []
+
+  for (let run = 0; run < EXTRACTION_RUNS; run++) {
+    const lists = await mapChunks(chunks, chunk => extractEntitiesOnce(template, chunk, appendNote))
+    if (lists.every((l): l is EntityLists => l !== null)) runs.push(lists)
+  }
+  if (runs.length === 0) {
+    throw new Error(`Entity extraction failed in all ${EXTRACTION_RUNS} runs — try again later`)
+  }
+
+  const scaledMinVotes = Math.max(1, Math.ceil(minVotes * runs.length / EXTRACTION_RUNS))
+  const votes = tallyVotes(runs)
+  return {
+    extracted: acceptedLists(votes, scaledMinVotes),
+    votes,
+    chunks:    chunks.length,
+    runs:      runs.length,
+    minVotes:  scaledMinVotes,
+  }
+}
@@ -0,0 +1,75 @@
+import { FUZZY_THRESHOLD, nameSimilarity } from '@/lib/similarity'
+
+// Resolve extracted names to existing entities of the same type so confirming
+// an extraction links "Andrey Tarkovsky" to the existing "Andrei Tarkovsky"
+// instead of creating a duplicate. Candidates are loaded by
+// matchEntityNames in lib/entities; the matching itself is pure.
+
+export type MatchKind = 'exact' | 'hebrew_name' | 'alias' | 'similar'
+
+export interface EntityMatch {
+  id:         number
+  name:       string
+  hebrewName: string | null
+  kind:       MatchKind
+  similarity: number
+}
+
+/** Per type: lower-cased extracted name → chosen entity id, or null to create a new entity */
+export type MatchResolutions = Record<string, Record<string, number | null>>
+
+/** An existing entity a name can match: its names and aliases */
+export interface MatchCandidate { id: number; name: string; hebrewName: string | null; aliases: string[] }
+
+const norm = (s: string) => s.trim().toLowerCase()
+
+const toMatch = (c: MatchCandidate, kind: MatchKind, similarity: number): EntityMatch =>
+  ({ id: c.id, name: c.name, hebrewName: c.hebrewName, kind, similarity })
+
+function bestMatch(name: string, candidates: MatchCandidate[]): EntityMatch | null {
+  const key = norm(name)
+  const exact = candidates.find(c => norm(c.name) === key)
+  if (exact) return toMatch(exact, 'exact', 1)
+  const hebrew = candidates.find(c => c.hebrewName && norm(c.hebrewName) === key)
+  if (hebrew) return toMatch(hebrew, 'hebrew_name', 1)
+  const alias = candidates.find(c => c.aliases.some(a => norm(a) === key))
+  if (alias) return toMatch(alias, 'alias', 1)
+
+  let best: EntityMatch | null = null
+  for (const c of candidates) {
+    const names = [c.name, ...(c.hebrewName ? [c.hebrewName] : []), ...c.aliases]
+    const sim   = Math.max(...names.map(n => nameSimilarity(name, n)))
+    if (sim >= FUZZY_THRESHOLD && (!best || sim > best.similarity)) best = toMatch(c, 'similar', sim)
+  }
+  return best
+}
+
+/**
+ * Best candidate for each name: exact name, then exact hebrew_name, then an
+ * exact alias, then the most similar name / alias at or above FUZZY_THRESHOLD.
+ * Keys are lower-cased names; names without a match are left out.
+ */
+export function matchNames(names: string[], candidates: MatchCandidate[]): Record<string, EntityMatch> {
+  const matches: Record<string, EntityMatch> = {}
+  for (const name of names) {
+    const match = bestMatch(name, candidates)
+    if (match) matches[norm(name)] = match
+  }
+  return matches
+}
+
+/**
+ * Entity id to link for a name on confirm. An explicit resolution wins;
+ * otherwise exact, hebrew_name and alias matches are linked automatically and
+ * similar-only matches create a new entity (they need a human decision).
+ */
+export function resolveMatch(
+  name:        string,
+  matches:     Record<string, EntityMatch>,
+  resolutions: Record<string, number | null> | undefined,
+): number | null {
+  const key = norm(name)
+  if (resolutions && key in resolutions) return resolutions[key]
+  const match = matches[key]
+  return match && match.kind !== 'similar' ? match.id : null
+}
@@ -0,0 +1,84 @@
+import { LINKED_ENTITY_TYPES } from '@/lib/constants'
+
+// Confidence voting for entity extraction. entities_all.txt is run several
+// times over the transcript; a name's confidence is the number of runs that
+// found it. Shared by /api/generate (tallying) and GeneratePanel (review).
+
+export type EntityLists = Record<string, { discussed: string[]; mentioned: string[] }>
+
+export interface ExtractedName {
+  name:           string
+  /** Runs that found the name at all */
+  votes:          number
+  /** Runs that listed it as discussed (in any chunk) */
+  discussedVotes: number
+  /** Runs that listed it only as mentioned */
+  mentionedVotes: number
+}
+
+/** Extraction runs per request */
+export const EXTRACTION_RUNS = 3
+
+/** Default minimum votes for a name to be accepted without review; ENTITY_MIN_VOTES overrides it server-side */
+export const DEFAULT_MIN_VOTES = 2
+
+/**
+ * Count votes per name. `runs` holds, for every run, the lists found in each
+ * chunk of the transcript. Names match case-insensitively; the first spelling
+ * seen is kept. Results are sorted by votes, most confident first.
+ */
+export function tallyVotes(runs: EntityLists[][]): Record<string, ExtractedName[]> {
+  const result: Record<string, ExtractedName[]> = {}
+  for (const et of LINKED_ENTITY_TYPES) {
+    const byKey = new Map<string, ExtractedName>()
+    for (const chunks of runs) {
+      // Per run: discussed in any chunk beats mentioned
+      const discussed = new Map<string, string>()
+      const mentioned = new Map<string, string>()
+      for (const lists of chunks) {
+        for (const n of lists[et]?.discussed ?? []) if (!discussed.has(n.toLowerCase())) discussed.set(n.toLowerCase(), n)
+        for (const n of lists[et]?.mentioned ?? []) if (!mentioned.has(n.toLowerCase())) mentioned.set(n.toLowerCase(), n)
+      }
+      for (const [key, name] of discussed) {
+        const entry = byKey.get(key) ?? { name, votes: 0, discussedVotes: 0, mentionedVotes: 0 }
+        entry.votes++
+        entry.discussedVotes++
+        byKey.set(key, entry)
+      }
+      for (const [key, name] of mentioned) {
+        if (discussed.has(key)) continue
+        const entry = byKey.get(key) ?? { name, votes: 0, discussedVotes: 0, mentionedVotes: 0 }
+        entry.votes++
+        entry.mentionedVotes++
+        byKey.set(key, entry)
+      }
+    }
+    // Stable sort keeps first-seen order among equal votes
+    result[et] = [...byKey.values()].sort((a, b) => b.votes - a.votes)
+  }
+  return result
+}
+
+/** Relationship from the votes: discussed unless most runs only mentioned it */
+export const relationshipOf = (n: ExtractedName): 'discussed' | 'mentioned' =>
+  n.discussedVotes >= n.mentionedVotes ? 'discussed' : 'mentioned'
+
+/**
+ * Lists for confirm: names with at least minVotes, plus / minus per-name
+ * overrides (lower-cased name → include?).
+ */
+export function acceptedLists(
+  votes:     Record<string, ExtractedName[]>,
+  minVotes:  number,
+  overrides: Record<string, Record<string, boolean>> = {},
+): EntityLists {
+  const lists: EntityLists = {}
+  for (const et of LINKED_ENTITY_TYPES) {
+    lists[et] = { discussed: [], mentioned: [] }
+    for (const n of votes[et] ?? []) {
+      const include = overrides[et]?.[n.name.toLowerCase()] ?? n.votes >= minVotes
+      if (include) lists[et][relationshipOf(n)].push(n.name)
+    }
+  }
+  return lists
+}
@@ -0,0 +1,22 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import type { LlmProvider } from '@/lib/llm'
+
+const genai = new GoogleGenerativeAI(process.env.GEMINI_API_KEY ?? '')
+
+/** Google Gemini via @google/generative-ai — the production provider */
+export const geminiProvider: LlmProvider = {
+  name: 'gemini',
+  async generate(req) {
+    const model = genai.getGenerativeModel({
+      model: req.model,
+      generationConfig: {
+        temperature:     req.temperature,
+        maxOutputTokens: req.maxOutputTokens,
+        ...(req.json   ? { responseMimeType: 'application/json' } : {}),
+        ...(req.schema ? { responseSchema: req.schema }           : {}),
+      },
+    })
+    const result = await model.generateContent(req.prompt)
+    return result.response.text().trim()
+  },
+}
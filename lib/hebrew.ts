@@ -0,0 +1,37 @@
+// Hebrew-script helpers shared by server routes and client components
+
+/** Hebrew Unicode range detector */
+export const isHebrew = (s: string) => /[\u0590-\u05FF]/.test(s)
+
+// Niqqud and cantillation marks — never typed in queries or names
+const POINTS = /[\u0591-\u05BD\u05BF-\u05C7]/
+
+const FOLDED: Record<string, string> = {
+  '\u05DA': '\u05DB',  // ך → כ
+  '\u05DD': '\u05DE',  // ם → מ
+  '\u05DF': '\u05E0',  // ן → נ
+  '\u05E3': '\u05E4',  // ף → פ
+  '\u05E5': '\u05E6',  // ץ → צ
+  '\u05BE': ' ',        // maqaf joins words like a hyphen
+  // Geresh / gershayim and typographic quotes as plain quotes
+  '\u05F3': "'", '\u05F4': '"', '\u2018': "'", '\u2019': "'", '\u201C': '"', '\u201D': '"',
+}
+
+/**
+ * Comparison form of one character: niqqud and cantillation dropped, maqaf
+ * as a space, final letters in their regular form, geresh / gershayim as
+ * plain quotes. Per character so callers can keep offsets into the original
+ * text (transcript search snippets).
+ */
+export const foldHebrewChar = (ch: string): string =>
+  POINTS.test(ch) ? '' : FOLDED[ch] ?? ch
+
+/**
+ * Hebrew spelled for comparison (foldHebrewChar over the string) —
+ * "טַרְקוֹבְסְקִי" and "טרקובסקי" compare equal.
+ */
+export function normalizeHebrew(s: string): string {
+  let out = ''
+  for (const ch of s) out += foldHebrewChar(ch)
+  return out
+}
@@ -0,0 +1,115 @@
+import fs from 'fs'
+import path from 'path'
+import type { LlmProvider, LlmRequest } from '@/lib/llm'
+import { isHebrew } from '@/lib/hebrew'
+
+// Deterministic offline provider — the same task + prompt always gives the
+// same response. Selected with LLM_PROVIDER=fixture (see lib/llm) to run
+// offline and in tests.
+//
+// Responses come from, in order:
+//   1. $LLM_FIXTURE_DIR/<task>.json or <task>.txt (default dir: fixtures/llm).
+//      A .json file holding an array is treated as a list of responses, one
+//      picked per prompt; any other content is returned as-is.
+//   2. A task-specific builder below that reads what it needs from the prompt.
+//   3. A value synthesised from the response schema.
+
+const fixtureDir = () => process.env.LLM_FIXTURE_DIR ?? path.join(process.cwd(), 'fixtures', 'llm')
+
+/** FNV-1a — stable across runs, unlike Math.random */
+function hash(s: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i)
+    h = Math.imul(h, 0x01000193) >>> 0
+  }
+  return h
+}
+
+function fromFile(req: LlmRequest): string | null {
+  for (const ext of ['json', 'txt']) {
+    const file = path.join(fixtureDir(), `${req.task}.${ext}`)
+    if (!fs.existsSync(file)) continue
+    const content = fs.readFileSync(file, 'utf-8')
+    if (ext === 'json') {
+      const parsed = JSON.parse(content) as unknown
+      if (Array.isArray(parsed) && parsed.length) {
+        const pick = parsed[hash(req.prompt) % parsed.length]
+        return typeof pick === 'string' ? pick : JSON.stringify(pick)
+      }
+    }
+    return content.trim()
+  }
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// Task-specific builders — responses the calling code can actually use
+// ---------------------------------------------------------------------------
+const HEBREW_SAMPLE = '\u05D3\u05D5\u05D2\u05DE\u05D4' // "דוגמה" (example)
+
+const titleSynopsis = (_req: LlmRequest, seed: number) => ({
+  title:    `${HEBREW_SAMPLE} ${seed % 1000}: Fixture title`,
+  synopsis: `${HEBREW_SAMPLE} — fixture synopsis ${seed % 1000}.`,
+})
+
+const BUILDERS: Partial<Record<LlmRequest['task'], (req: LlmRequest, seed: number) => unknown>> = {
+  lecture_title:    titleSynopsis,
+  lecture_synopsis: titleSynopsis,
+
+  // translate_names.txt embeds the entries as a JSON array
+  entity_names: req => {
+    const match   = req.prompt.match(/\[\s*\{[\s\S]*\}\s*\]/)
+    const entries = match ? JSON.parse(match[0]) as { id: number; name: string; hebrew_name: string }[] : []
+    return {
+      names: entries.map(e => ({
+        id:          e.id,
+        name:        isHebrew(e.name) ? `Fixture name ${e.id}` : e.name,
+        hebrew_name: e.hebrew_name || `${HEBREW_SAMPLE} ${e.id}`,
+      })),
+    }
+  },
+
+  // entity_links.txt lists candidates as "c1 | type | name | linkType (dir), …"
+  entity_links: req => ({
+    suggestions: [...req.prompt.matchAll(/^(c\d+) \|[^|]*\|[^|]*\| (\w+) \((in|out)\)/gm)]
+      .slice(0, 3)
+      .map(m => ({ candidate: m[1], linkType: m[2], direction: m[3], reason: 'Fixture suggestion' })),
+  }),
+}
+
+// ---------------------------------------------------------------------------
+// Schema synthesis
+// ---------------------------------------------------------------------------
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function synthesise(schema: any, label: string, seed: number): unknown {
+  switch (String(schema?.type ?? '').toLowerCase()) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, sub], i) => [key, synthesise(sub, `${label} ${key}`, seed + i)]),
+      )
+    case 'array':
+      return Array.from({ length: 1 + (seed % 2) }, (_, i) => synthesise(schema.items, label, seed + i + 1))
+    case 'number':
+    case 'integer':
+      return seed % 100
+    case 'boolean':
+      return seed % 2 === 0
+    default:
+      return `Fixture ${label} ${seed % 1000}`
+  }
+}
+
+export const fixtureProvider: LlmProvider = {
+  name: 'fixture',
+  async generate(req) {
+    const file = fromFile(req)
+    if (file !== null) return file
+
+    const seed    = hash(`${req.task}\n${req.prompt}`)
+    const builder = BUILDERS[req.task]
+    if (builder)    return JSON.stringify(builder(req, seed))
+    if (req.schema) return JSON.stringify(synthesise(req.schema, req.task, seed))
+    return `Fixture ${req.task} response ${seed % 1000}`
+  },
+}
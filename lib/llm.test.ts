@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { callLlm, resolveProvider } from '@/lib/llm'
+import { ENTITIES_SCHEMA, TITLE_SYNOPSIS_SCHEMA } from '@/lib/schemas'
+import { LINKED_ENTITY_TYPES } from '@/lib/constants'
+
+const ENV_KEYS = ['GEMINI_API_KEY', 'LLM_PROVIDER', 'LLM_PROVIDER_ENTITIES', 'LLM_FIXTURE_DIR']
+
+describe('llm provider selection', () => {
+  let saved: Record<string, string | undefined>
+
+  beforeEach(() => {
+    saved = Object.fromEntries(ENV_KEYS.map(k => [k, process.env[k]]))
+    for (const k of ENV_KEYS) delete process.env[k]
+    // No fixtures/llm files — responses come from the builders and schemas
+    process.env.LLM_FIXTURE_DIR = '/nonexistent'
+  })
+
+  afterEach(() => {
+    for (const k of ENV_KEYS) {
+      if (saved[k] === undefined) delete process.env[k]
+      else process.env[k] = saved[k]
+    }
+  })
+
+  it('fails without GEMINI_API_KEY unless the fixture is chosen', () => {
+    assert.throws(() => resolveProvider('lecture_title'), /GEMINI_API_KEY/)
+  })
+
+  it('uses gemini when the key is set', () => {
+    process.env.GEMINI_API_KEY = 'test-key'
+    assert.equal(resolveProvider('lecture_title').name, 'gemini')
+  })
+
+  it('uses the fixture for every task with LLM_PROVIDER=fixture', () => {
+    process.env.LLM_PROVIDER = 'fixture'
+    assert.equal(resolveProvider('lecture_title').name, 'fixture')
+    assert.equal(resolveProvider('entities').name, 'fixture')
+  })
+
+  it('uses the fixture for one task with a per-task override', () => {
+    process.env.LLM_PROVIDER_ENTITIES = 'fixture'
+    assert.equal(resolveProvider('entities').name, 'fixture')
+    assert.throws(() => resolveProvider('lecture_title'), /GEMINI_API_KEY/)
+  })
+
+  it('runs the title and entity prompts offline, deterministically', async () => {
+    process.env.LLM_PROVIDER = 'fixture'
+
+    const prompt = 'Lecture transcript: Kafka, Dostoevsky and Bergman'
+    const first  = await callLlm('lecture_title', prompt, { schema: TITLE_SYNOPSIS_SCHEMA })
+    const again  = await callLlm('lecture_title', prompt, { schema: TITLE_SYNOPSIS_SCHEMA })
+    assert.equal(first, again)
+    const { title, synopsis } = JSON.parse(first) as { title: string; synopsis: string }
+    assert.ok(title && synopsis)
+
+    const entities = JSON.parse(await callLlm('entities', prompt, { schema: ENTITIES_SCHEMA })) as
+      Record<string, { discussed: string[]; mentioned: string[] }>
+    for (const type of LINKED_ENTITY_TYPES) {
+      assert.ok(Array.isArray(entities[type].discussed))
+      assert.ok(Array.isArray(entities[type].mentioned))
+    }
+  })
+})
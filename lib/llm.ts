@@ -0,0 +1,114 @@
+import { geminiProvider } from '@/lib/gemini'
+import { fixtureProvider } from '@/lib/llm-fixture'
+
+// Every LLM call goes through callLlm(task, …). The task picks the provider,
+// model and defaults from LLM_CONFIG; environment variables override them
+// without a code change:
+//
+//   LLM_PROVIDER=fixture             every task (gemini | fixture)
+//   LLM_PROVIDER_ENTITIES=gemini     one task (task name upper-cased)
+//   LLM_MODEL_LECTURE_TITLE=…        model for one task
+//
+// The fixture provider is only used when chosen explicitly (LLM_PROVIDER=fixture
+// or a per-task override) — it runs the generate / confirm flows offline, in
+// tests. A task that resolves to gemini without GEMINI_API_KEY fails.
+
+export const LLM_TASKS = [
+  'lecture_title',
+  'lecture_synopsis',
+  'course_synopsis',
+  'chunk_summary',
+  'entities',
+  'entity_desc',
+  'entity_names',
+  'entity_links',
+] as const
+export type LlmTask = typeof LLM_TASKS[number]
+
+export type LlmProviderName = 'gemini' | 'fixture'
+
+export interface LlmRequest {
+  task:            LlmTask
+  model:           string
+  prompt:          string
+  /** Ask for a JSON response (implied by schema) */
+  json:            boolean
+  temperature:     number
+  maxOutputTokens: number
+  /** Response schema in @google/generative-ai SchemaType form */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  schema?:         any
+}
+
+export interface LlmProvider {
+  name: LlmProviderName
+  generate(req: LlmRequest): Promise<string>
+}
+
+export interface LlmTaskConfig {
+  /** Unset = the global default provider */
+  provider?:        LlmProviderName
+  model:            string
+  temperature?:     number
+  maxOutputTokens?: number
+}
+
+const DEFAULT_MODEL = 'gemini-2.5-flash'
+
+export const LLM_CONFIG: Record<LlmTask, LlmTaskConfig> = {
+  lecture_title:    { model: DEFAULT_MODEL },
+  lecture_synopsis: { model: DEFAULT_MODEL },
+  course_synopsis:  { model: DEFAULT_MODEL },
+  chunk_summary:    { model: DEFAULT_MODEL, maxOutputTokens: 2000 },
+  entities:         { model: DEFAULT_MODEL },
+  entity_desc:      { model: DEFAULT_MODEL },
+  entity_names:     { model: DEFAULT_MODEL },
+  entity_links:     { model: DEFAULT_MODEL },
+}
+
+const PROVIDERS: Record<LlmProviderName, LlmProvider> = {
+  gemini:  geminiProvider,
+  fixture: fixtureProvider,
+}
+
+const envKey = (prefix: string, task: LlmTask) => `${prefix}_${task.toUpperCase()}`
+
+function isProviderName(v: string | undefined): v is LlmProviderName {
+  return !!v && v in PROVIDERS
+}
+
+/** Provider for a task: env per task → LLM_CONFIG → LLM_PROVIDER → gemini */
+export function resolveProvider(task: LlmTask): LlmProvider {
+  const perTask = process.env[envKey('LLM_PROVIDER', task)]
+  const global  = process.env.LLM_PROVIDER
+  const name    = isProviderName(perTask) ? perTask
+    : LLM_CONFIG[task].provider ?? (isProviderName(global) ? global : 'gemini')
+
+  if (name === 'gemini' && !process.env.GEMINI_API_KEY) {
+    throw new Error(`GEMINI_API_KEY is not set (task ${task}) — set it, or LLM_PROVIDER=fixture to run offline`)
+  }
+  return PROVIDERS[name]
+}
+
+/**
+ * Run a prompt for a task and return the raw response text.
+ * temperature defaults to the task config, then 0.1 for JSON / 0.3 for text.
+ */
+export async function callLlm(
+  task:   LlmTask,
+  prompt: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  opts: { json?: boolean; temperature?: number; schema?: any } = {},
+): Promise<string> {
+  const cfg  = LLM_CONFIG[task]
+  const json = !!opts.json || opts.schema != null
+  return resolveProvider(task).generate({
+    task,
+    model:           process.env[envKey('LLM_MODEL', task)] ?? cfg.model,
+    prompt,
+    json,
+    temperature:     opts.temperature ?? cfg.temperature ?? (opts.json ? 0.1 : 0.3),
+    maxOutputTokens: cfg.maxOutputTokens ?? (opts.json ? 8000 : 6000),
+    schema:          opts.schema,
+  })
+}
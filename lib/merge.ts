@@ -0,0 +1,483 @@
+import { supabase } from '@/lib/supabase'
+import { ENTITY_LINK_TYPES, ENTITY_TYPES, JUNCTION_MAP, EntityLinkType, EntityType, R2_IMAGES_PREFIX } from '@/lib/constants'
+import { deleteFromR2, r2KeyExists, copyInR2 } from '@/lib/r2'
+import { AttributeRefs, attributeRefsTo } from '@/lib/attributes'
+
+// Merging entities into a survivor, and reversing it. Used by
+// /api/entities/merge (one pair), /api/entities/merge/group (a survivor and
+// several losers) and /api/entities/merge/undo.
+//
+// The database side of a merge — lecture links, entity links, attribute
+// references, aliases, the survivor's chosen fields, the deletes and the
+// journal — runs in one Postgres function, so it commits or rolls back as a
+// unit and no reader sees a half-merged group. Images live in R2, outside the
+// transaction, and are moved afterwards (best-effort, backed up for undo).
+//
+// Table: merge_journal — one row per merged-away entity
+//   id             bigint generated always as identity primary key
+//   created_at     timestamptz not null default now()
+//   group_id       bigint            -- id of the first row of the same merge call; undone together
+//                                    -- (older rows: update merge_journal set group_id = id where group_id is null)
+//   keep_type      text   not null
+//   keep_id        bigint not null
+//   delete_type    text   not null
+//   delete_id      bigint not null
+//   deleted_entity jsonb  not null   -- full row of the entity that was merged away
+//   moved_rows     jsonb  not null   -- deleteId junction rows moved to keepId (pre-merge state)
+//   dropped_rows   jsonb  not null   -- deleteId junction rows dropped as conflicts (pre-merge state)
+//   inserted_ids   jsonb  not null   -- cross-type only: ids of the rows inserted into keepType's junction
+//   image          jsonb             -- { backupKey, copiedTo, replacedKey } when deleteId had an image
+//   alias_ids      jsonb             -- entity_aliases rows added to keepId (deleteId's names)
+//   attribute_refs jsonb             -- rows whose entity attribute pointed at deleteId ({ type, key, ids }[])
+//   moved_links    jsonb             -- entity_links rows touching deleteId re-pointed at keepId (pre-merge state)
+//   dropped_links  jsonb             -- entity_links rows touching deleteId deleted as self-links, duplicates
+//                                    -- or link types keepType can't have (pre-merge state)
+//   keep_before    jsonb             -- first row only: keepId's values of the fields the merge changed
+//   keep_alias_ids jsonb             -- first row only: entity_aliases rows added for keepId's replaced names
+//   undone_at      timestamptz
+//
+// Function: add_merge_aliases — names an entity doesn't have yet as 'merge'
+// aliases (trimmed, case-insensitively unique, minus `exclude`); returns the new row ids
+//   create or replace function add_merge_aliases(target_type text, target_id bigint, aliases text[], exclude text[])
+//   returns jsonb
+//   language sql as $$
+//     with fresh as (
+//       select distinct on (lower(btrim(a))) btrim(a) as alias, n
+//       from unnest(aliases) with ordinality as u(a, n)
+//       where btrim(coalesce(a, '')) <> ''
+//         and lower(btrim(a)) <> all (select lower(btrim(e)) from unnest(exclude) e where e is not null)
+//         and not exists (
+//           select 1 from entity_aliases x
+//           where x.entity_type = target_type and x.entity_id = target_id and lower(x.alias) = lower(btrim(a))
+//         )
+//       order by lower(btrim(a)), n
+//     ), inserted as (
+//       insert into entity_aliases (entity_type, entity_id, alias, source)
+//       select target_type, target_id, alias, 'merge' from fresh order by n
+//       returning id
+//     )
+//     select coalesce(jsonb_agg(id), '[]') from inserted
+//   $$;
+//
+// Function: merge_entities — merges every loser into keep in one transaction
+// and returns the journal rows. Entity configs come from mergeTarget below;
+// keep_update sets keep's chosen fields, and the names it replaces become
+// aliases. A missing entity raises P0002.
+//   create or replace function merge_entities(keep jsonb, losers jsonb, keep_update jsonb default '{}')
+//   returns setof merge_journal
+//   language plpgsql as $$
+//   declare
+//     survivor_type      text   := keep->>'type';
+//     survivor_id        bigint := (keep->>'id')::bigint;
+//     survivor_junction  jsonb  := nullif(keep->'junction', 'null');
+//     survivor_row       jsonb;
+//     survivor_before    jsonb  := '{}';
+//     survivor_alias_ids jsonb;
+//     loser              jsonb;
+//     loser_type         text;
+//     loser_id           bigint;
+//     loser_junction     jsonb;
+//     loser_row          jsonb;
+//     moved              jsonb;
+//     dropped            jsonb;
+//     inserted           jsonb;
+//     refs               jsonb;
+//     ref                jsonb;
+//     link_from          text[] := array(select jsonb_array_elements_text(keep->'link_types'->'from'));
+//     link_to            text[] := array(select jsonb_array_elements_text(keep->'link_types'->'to'));
+//     links_moved        jsonb;
+//     links_dropped      jsonb;
+//     ids                jsonb;
+//     col                text;
+//     journal_id         bigint;
+//     first_id           bigint;
+//   begin
+//     execute format('select to_jsonb(t) from %I t where id = $1 for update', survivor_type)
+//       into survivor_row using survivor_id;
+//     if survivor_row is null then
+//       raise exception 'Entity not found: %:%', survivor_type, survivor_id using errcode = 'P0002';
+//     end if;
+//
+//     for col in select jsonb_object_keys(keep_update) loop
+//       survivor_before := survivor_before || jsonb_build_object(col, survivor_row->col);
+//       execute format('update %I set %I = $1 where id = $2', survivor_type, col)
+//         using keep_update->>col, survivor_id;
+//     end loop;
+//     execute format('select to_jsonb(t) from %I t where id = $1', survivor_type)
+//       into survivor_row using survivor_id;
+//     survivor_alias_ids := add_merge_aliases(survivor_type, survivor_id,
+//       array[survivor_before->>(keep->>'name_col'), survivor_before->>'hebrew_name'],
+//       array[survivor_row->>(keep->>'name_col'), survivor_row->>'hebrew_name']);
+//
+//     for loser in select * from jsonb_array_elements(losers) loop
+//       loser_type     := loser->>'type';
+//       loser_id       := (loser->>'id')::bigint;
+//       loser_junction := nullif(loser->'junction', 'null');
+//       moved := '[]'; dropped := '[]'; inserted := '[]'; refs := '[]';
+//
+//       execute format('select to_jsonb(t) from %I t where id = $1 for update', loser_type)
+//         into loser_row using loser_id;
+//       if loser_row is null then
+//         raise exception 'Entity not found: %:%', loser_type, loser_id using errcode = 'P0002';
+//       end if;
+//
+//       -- Lecture links: rows for lectures keep already has are dropped, the rest move
+//       if loser_junction is not null and survivor_junction is not null then
+//         execute format(
+//           'select coalesce(jsonb_agg(to_jsonb(j) order by j.id) filter (where k.lecture_id is null), ''[]''),
+//                   coalesce(jsonb_agg(to_jsonb(j) order by j.id) filter (where k.lecture_id is not null), ''[]'')
+//            from %I j
+//            left join (select distinct lecture_id from %I where %I = $2) k on k.lecture_id = j.lecture_id
+//            where j.%I = $1',
+//           loser_junction->>'table', survivor_junction->>'table', survivor_junction->>'fk_col', loser_junction->>'fk_col')
+//           into moved, dropped using loser_id, survivor_id;
+//
+//         if loser_type = survivor_type then
+//           execute format('delete from %I where id in (select (r->>''id'')::bigint from jsonb_array_elements($1) r)',
+//             loser_junction->>'table') using dropped;
+//           execute format('update %I set %I = $2 where id in (select (r->>''id'')::bigint from jsonb_array_elements($1) r)',
+//             loser_junction->>'table', loser_junction->>'fk_col') using moved, survivor_id;
+//         else
+//           execute format(
+//             'with ins as (
+//                insert into %I (lecture_id, %I, relationship_type)
+//                select (r->>''lecture_id'')::bigint, $2, coalesce(r->>''relationship_type'', ''mentioned'')
+//                from jsonb_array_elements($1) r
+//                returning id
+//              ) select coalesce(jsonb_agg(id), ''[]'') from ins',
+//             survivor_junction->>'table', survivor_junction->>'fk_col') into inserted using moved, survivor_id;
+//           execute format('delete from %I where %I = $1', loser_junction->>'table', loser_junction->>'fk_col')
+//             using loser_id;
+//         end if;
+//       end if;
+//
+//       -- Attribute references follow a same-type merge; a cross-type keep can't be referenced
+//       for ref in select * from jsonb_array_elements(loser->'attribute_refs') loop
+//         execute format('with upd as (update %1$I set %2$I = $1 where %2$I = $2 returning id) select jsonb_agg(id) from upd',
+//           ref->>'type', ref->>'key')
+//           into ids using (case when loser_type = survivor_type then survivor_id end), loser_id;
+//         if ids is not null then
+//           refs := refs || jsonb_build_array(ref || jsonb_build_object('ids', ids));
+//         end if;
+//       end loop;
+//
+//       -- Entity links follow keep, except those that would become a self-link,
+//       -- a duplicate or a link type keep's type can't have
+//       with touching as (
+//         select l.id, l.link_type,
+//                l.from_type = loser_type and l.from_id = loser_id as from_loser,
+//                l.to_type = loser_type and l.to_id = loser_id as to_loser,
+//                case when l.from_type = loser_type and l.from_id = loser_id then survivor_type else l.from_type end as new_from_type,
+//                case when l.from_type = loser_type and l.from_id = loser_id then survivor_id else l.from_id end as new_from_id,
+//                case when l.to_type = loser_type and l.to_id = loser_id then survivor_type else l.to_type end as new_to_type,
+//                case when l.to_type = loser_type and l.to_id = loser_id then survivor_id else l.to_id end as new_to_id
+//         from entity_links l
+//         where (l.from_type = loser_type and l.from_id = loser_id) or (l.to_type = loser_type and l.to_id = loser_id)
+//       ), gone as (
+//         delete from entity_links l using touching t
+//         where l.id = t.id and (
+//           (t.new_from_type = t.new_to_type and t.new_from_id = t.new_to_id)
+//           or (t.from_loser and not t.link_type = any(link_from))
+//           or (t.to_loser and not t.link_type = any(link_to))
+//           or exists (
+//             select 1 from entity_links o
+//             where o.id <> t.id and o.link_type = t.link_type
+//               and o.from_type = t.new_from_type and o.from_id = t.new_from_id
+//               and o.to_type = t.new_to_type and o.to_id = t.new_to_id
+//           )
+//         )
+//         returning l.id, to_jsonb(l) as link
+//       )
+//       select coalesce(jsonb_agg(link order by id), '[]') into links_dropped from gone;
+//
+//       select coalesce(jsonb_agg(to_jsonb(l) order by l.id), '[]') into links_moved
+//       from entity_links l
+//       where (l.from_type = loser_type and l.from_id = loser_id) or (l.to_type = loser_type and l.to_id = loser_id);
+//       update entity_links l
+//       set from_type = case when l.from_type = loser_type and l.from_id = loser_id then survivor_type else l.from_type end,
+//           from_id   = case when l.from_type = loser_type and l.from_id = loser_id then survivor_id else l.from_id end,
+//           to_type   = case when l.to_type = loser_type and l.to_id = loser_id then survivor_type else l.to_type end,
+//           to_id     = case when l.to_type = loser_type and l.to_id = loser_id then survivor_id else l.to_id end
+//       where (l.from_type = loser_type and l.from_id = loser_id) or (l.to_type = loser_type and l.to_id = loser_id);
+//
+//       ids := add_merge_aliases(survivor_type, survivor_id,
+//         array[loser_row->>(loser->>'name_col'), loser_row->>'hebrew_name']
+//           || array(select alias from entity_aliases where entity_type = loser_type and entity_id = loser_id order by id),
+//         array[survivor_row->>(keep->>'name_col'), survivor_row->>'hebrew_name']);
+//
+//       execute format('delete from %I where id = $1', loser_type) using loser_id;
+//
+//       insert into merge_journal (group_id, keep_type, keep_id, delete_type, delete_id, deleted_entity, moved_rows,
+//                                  dropped_rows, inserted_ids, alias_ids, attribute_refs, moved_links, dropped_links,
+//                                  keep_before, keep_alias_ids)
+//       values (first_id, survivor_type, survivor_id, loser_type, loser_id, loser_row, moved, dropped, inserted, ids, refs,
+//               links_moved, links_dropped,
+//               case when first_id is null then nullif(survivor_before, '{}') end,
+//               case when first_id is null then nullif(survivor_alias_ids, '[]') end)
+//       returning id into journal_id;
+//       first_id := coalesce(first_id, journal_id);
+//     end loop;
+//
+//     update merge_journal set group_id = first_id where id = first_id;
+//     return query select * from merge_journal m where m.group_id = first_id order by m.id;
+//   end
+//   $$;
+//
+// Function: undo_entity_merge — reverses every row of a merge call, newest
+// first, in one transaction. Merged-away entities come back with their
+// original ids (or the undo fails), so merge_history signatures and links
+// to them still match. junctions maps each type to its { table, fk_col }.
+//   create or replace function undo_entity_merge(merge_group bigint, junctions jsonb)
+//   returns setof merge_journal
+//   language plpgsql as $$
+//   declare
+//     j             merge_journal;
+//     from_junction jsonb;
+//     to_junction   jsonb;
+//     ref           jsonb;
+//     col           text;
+//   begin
+//     for j in select * from merge_journal m where m.group_id = merge_group order by m.id desc for update loop
+//       if j.undone_at is not null then
+//         raise exception 'This merge has already been undone';
+//       end if;
+//       from_junction := junctions->(j.delete_type);
+//       to_junction   := junctions->(j.keep_type);
+//
+//       execute format('insert into %1$I overriding system value select * from jsonb_populate_record(null::%1$I, $1)',
+//         j.delete_type) using j.deleted_entity;
+//
+//       if from_junction is not null then
+//         execute format('insert into %1$I overriding system value select * from jsonb_populate_recordset(null::%1$I, $1)',
+//           from_junction->>'table')
+//           using case when j.keep_type = j.delete_type then j.dropped_rows else j.moved_rows || j.dropped_rows end;
+//         if j.keep_type = j.delete_type then
+//           execute format('update %I set %I = $2 where id in (select (r->>''id'')::bigint from jsonb_array_elements($1) r)',
+//             from_junction->>'table', from_junction->>'fk_col') using j.moved_rows, j.delete_id;
+//         elsif to_junction is not null then
+//           execute format('delete from %I where id in (select value::bigint from jsonb_array_elements_text($1))',
+//             to_junction->>'table') using j.inserted_ids;
+//         end if;
+//       end if;
+//
+//       for ref in select * from jsonb_array_elements(coalesce(j.attribute_refs, '[]')) loop
+//         execute format('update %I set %I = $1 where id in (select value::bigint from jsonb_array_elements_text($2))',
+//           ref->>'type', ref->>'key') using j.delete_id, ref->'ids';
+//       end loop;
+//
+//       update entity_links l
+//       set from_type = o.from_type, from_id = o.from_id, to_type = o.to_type, to_id = o.to_id
+//       from jsonb_populate_recordset(null::entity_links, coalesce(j.moved_links, '[]')) o
+//       where l.id = o.id;
+//       insert into entity_links overriding system value
+//       select * from jsonb_populate_recordset(null::entity_links, coalesce(j.dropped_links, '[]'))
+//       on conflict do nothing;
+//
+//       delete from entity_aliases
+//       where id in (select value::bigint from jsonb_array_elements_text(coalesce(j.alias_ids, '[]') || coalesce(j.keep_alias_ids, '[]')));
+//
+//       for col in select jsonb_object_keys(coalesce(j.keep_before, '{}')) loop
+//         execute format('update %I set %I = $1 where id = $2', j.keep_type, col) using j.keep_before->>col, j.keep_id;
+//       end loop;
+//     end loop;
+//
+//     update merge_journal m set undone_at = now() where m.group_id = merge_group;
+//     return query select * from merge_journal m where m.group_id = merge_group order by m.id;
+//   end
+//   $$;
+
+export interface MergeRef {
+  type: EntityType
+  id:   number
+}
+
+export interface MergeImage {
+  /** deleteId's image, kept under deleted/ */
+  backupKey:    string | null
+  /** keepId's image key, when deleteId's image was copied there */
+  copiedTo:     string | null
+  /** keepId's own image, kept under deleted/ when deleteId's replaced it */
+  replacedKey?: string | null
+}
+
+export interface MergeJournal {
+  id:             number
+  group_id:       number | null
+  keep_type:      EntityType
+  keep_id:        number
+  delete_type:    EntityType
+  delete_id:      number
+  deleted_entity: Record<string, unknown>
+  moved_rows:     Record<string, unknown>[]
+  dropped_rows:   Record<string, unknown>[]
+  inserted_ids:   number[]
+  image:          MergeImage | null
+  alias_ids:      number[] | null
+  attribute_refs: AttributeRefs[] | null
+  moved_links:    Record<string, unknown>[] | null
+  dropped_links:  Record<string, unknown>[] | null
+  keep_before:    Record<string, unknown> | null
+  keep_alias_ids: number[] | null
+  undone_at:      string | null
+}
+
+/**
+ * What happens to deleteId's image:
+ *   if-missing — copied to keepId when keepId has none (default)
+ *   replace    — copied to keepId, replacing its image
+ *   discard    — not copied
+ * Either way it's backed up under deleted/ for undo.
+ */
+type MergeImageMode = 'if-missing' | 'replace' | 'discard'
+
+const imageKey = (ref: MergeRef) => `${R2_IMAGES_PREFIX}/${ref.type}/${ref.id}.jpeg`
+
+/** A type's junction in the shape the merge functions take */
+function junctionOf(type: EntityType): { table: string; fk_col: string } | null {
+  const junction = JUNCTION_MAP[type]
+  return junction ? { table: junction.table, fk_col: junction.fkCol } : null
+}
+
+/** Link types an entity of `type` can be the from / to end of */
+function linkTypesOf(type: EntityType): { from: EntityLinkType[]; to: EntityLinkType[] } {
+  const linkTypes = Object.keys(ENTITY_LINK_TYPES) as EntityLinkType[]
+  return {
+    from: linkTypes.filter(t => ENTITY_LINK_TYPES[t].from.includes(type)),
+    to:   linkTypes.filter(t => ENTITY_LINK_TYPES[t].to.includes(type)),
+  }
+}
+
+/** What merge_entities needs to know about an entity's table */
+const mergeTarget = (ref: MergeRef) => ({
+  type:       ref.type,
+  id:         ref.id,
+  name_col:   ENTITY_TYPES[ref.type].nameField,
+  junction:   junctionOf(ref.type),
+  link_types: linkTypesOf(ref.type),
+})
+
+/**
+ * Back up del's image under deleted/ and copy it to keep per the image mode
+ * (best-effort). Null when del had no image.
+ */
+async function mergeImage(keep: MergeRef, del: MergeRef, mode: MergeImageMode): Promise<MergeImage | null> {
+  const keepImgKey   = imageKey(keep)
+  const deleteImgKey = imageKey(del)
+  const [keepHasImg, deleteHasImg] = await Promise.all([
+    r2KeyExists(keepImgKey).catch(() => false),
+    r2KeyExists(deleteImgKey).catch(() => false),
+  ])
+  if (!deleteHasImg) return null
+
+  const image: MergeImage = { backupKey: null, copiedTo: null, replacedKey: null }
+
+  const backupKey = `deleted/${deleteImgKey}`
+  await copyInR2(deleteImgKey, backupKey)
+    .then(() => { image.backupKey = backupKey })
+    .catch(e => console.error('[merge img backup]', e))
+
+  if (mode === 'replace' || (mode === 'if-missing' && !keepHasImg)) {
+    if (keepHasImg) {
+      const replacedKey = `deleted/${R2_IMAGES_PREFIX}/${keep.type}/${keep.id}.replaced-${Date.now()}.jpeg`
+      await copyInR2(keepImgKey, replacedKey)
+        .then(() => { image.replacedKey = replacedKey })
+        .catch(e => console.error('[merge img keep backup]', e))
+    }
+    // Never overwrite keep's image without a backup
+    if (!keepHasImg || image.replacedKey) {
+      await copyInR2(deleteImgKey, keepImgKey)
+        .then(() => { image.copiedTo = keepImgKey })
+        .catch(e => console.error('[merge img copy]', e))
+    }
+  }
+
+  await deleteFromR2(deleteImgKey).catch(e => console.error('[merge img del]', e))
+  return image
+}
+
+/** Put back the images of an undone journal row (best-effort) */
+async function restoreImage(journal: MergeJournal): Promise<void> {
+  if (!journal.image) return
+  try {
+    const { backupKey, copiedTo, replacedKey } = journal.image
+    if (backupKey && await r2KeyExists(backupKey)) {
+      await copyInR2(backupKey, imageKey({ type: journal.delete_type, id: journal.delete_id }))
+      await deleteFromR2(backupKey)
+    }
+    // The kept entity only has this image because of the merge
+    if (copiedTo) {
+      if (replacedKey && await r2KeyExists(replacedKey)) {
+        await copyInR2(replacedKey, copiedTo)
+        await deleteFromR2(replacedKey)
+      } else {
+        await deleteFromR2(copiedTo)
+      }
+    }
+  } catch (e) {
+    console.warn('[merge undo image]', e)
+  }
+}
+
+/**
+ * Merge `losers` into `keep`: their lecture links, entity links, attribute
+ * references and names (as aliases) move to keep, keep takes `keepUpdate`,
+ * and the losers are deleted and journaled — all in one transaction
+ * (merge_entities).
+ * Images follow afterwards: with `imageFrom` that entity's image replaces
+ * keep's and the others are only backed up; without it a loser's image
+ * fills in a missing one.
+ * Returns the journal rows, or null when an entity doesn't exist.
+ */
+export async function mergeEntities(
+  keep:   MergeRef,
+  losers: MergeRef[],
+  opts:   { keepUpdate?: Record<string, unknown>; imageFrom?: MergeRef } = {},
+): Promise<MergeJournal[] | null> {
+  const { data, error } = await supabase.rpc('merge_entities', {
+    keep:        mergeTarget(keep),
+    losers:      losers.map(l => ({ ...mergeTarget(l), attribute_refs: attributeRefsTo(l.type) })),
+    keep_update: opts.keepUpdate ?? {},
+  })
+  if (error) {
+    // P0002 = no_data_found, raised for a missing entity
+    if (error.code === 'P0002') return null
+    console.error('[merge]', error)
+    throw new Error(error.message)
+  }
+  const journals = (data ?? []) as MergeJournal[]
+
+  const imageMode = (loser: MergeRef): MergeImageMode => {
+    if (!opts.imageFrom) return 'if-missing'
+    return opts.imageFrom.type === loser.type && opts.imageFrom.id === loser.id ? 'replace' : 'discard'
+  }
+  for (const journal of journals) {
+    const loser = { type: journal.delete_type, id: journal.delete_id }
+    journal.image = await mergeImage(keep, loser, imageMode(loser))
+    if (!journal.image) continue
+    const { error: imageErr } = await supabase.from('merge_journal').update({ image: journal.image }).eq('id', journal.id)
+    if (imageErr) console.error('[merge journal image]', imageErr)
+  }
+  return journals
+}
+
+/**
+ * Reverse a merge call — every journal row of the group — in one
+ * transaction (undo_entity_merge): the merged-away entities come back with
+ * their original ids and their links, attribute references and names, and
+ * keep's fields and aliases are put back. Images follow afterwards.
+ * Returns the rows undone (none when the group doesn't exist).
+ */
+export async function undoMerge(groupId: number): Promise<MergeJournal[]> {
+  const junctions = Object.fromEntries(
+    (Object.keys(JUNCTION_MAP) as EntityType[]).map(type => [type, junctionOf(type)]),
+  )
+  const { data, error } = await supabase.rpc('undo_entity_merge', { merge_group: groupId, junctions })
+  if (error) {
+    console.error('[merge undo]', error)
+    throw new Error(error.message)
+  }
+
+  const journals = (data ?? []) as MergeJournal[]
+  for (const journal of [...journals].reverse()) await restoreImage(journal)
+  return journals
+}
@@ -0,0 +1,105 @@
+import { SchemaType } from '@google/generative-ai'
+import { supabase } from '@/lib/supabase'
+import { ENTITY_TYPES, EntityType } from '@/lib/constants'
+import { callLlm } from '@/lib/llm'
+import { loadPrompt } from '@/lib/prompts'
+import { isHebrew } from '@/lib/hebrew'
+import { runPool, waitForGeminiSlot } from '@/lib/batch'
+
+// Bulk name translation — proposes a Hebrew name for entities that lack one and an
+// English name for entities whose name field is written in Hebrew.
+// Used by the entity_names generator (/api/generate + /api/generate/confirm).
+
+const NAMES_SCHEMA = {
+  type: SchemaType.OBJECT,
+  properties: {
+    names: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          id:          { type: SchemaType.NUMBER },
+          name:        { type: SchemaType.STRING },
+          hebrew_name: { type: SchemaType.STRING },
+        },
+        required: ['id', 'name', 'hebrew_name'],
+      },
+    },
+  },
+  required: ['names'],
+}
+
+// Entries per Gemini call — small enough that the model returns every id
+const CHUNK_SIZE  = 40
+const CONCURRENCY = 2
+
+export interface NameProposal {
+  id:                 number
+  name:               string
+  hebrewName:         string
+  proposedName:       string
+  proposedHebrewName: string
+}
+
+interface NameRow { id: number; name: string; hebrew_name: string }
+
+/** Entities of a type that are missing a Hebrew name or only have a Hebrew name */
+async function fetchUntranslated(entityType: EntityType): Promise<NameRow[]> {
+  const { nameField } = ENTITY_TYPES[entityType]
+  const { data, error } = await supabase
+    .from(entityType)
+    .select(`id, ${nameField}, hebrew_name`)
+    .order('id')
+  if (error) throw new Error(error.message)
+
+  return ((data ?? []) as unknown as Record<string, unknown>[])
+    .map(r => ({
+      id:          r.id as number,
+      name:        ((r[nameField] as string | null) ?? '').trim(),
+      hebrew_name: ((r.hebrew_name as string | null) ?? '').trim(),
+    }))
+    .filter(r => !r.hebrew_name || isHebrew(r.name))
+}
+
+/**
+ * Ask Gemini for names of every untranslated entity of a type — nothing is written.
+ * Only entries where the proposal differs from the current values are returned.
+ */
+export async function proposeEntityNames(entityType: EntityType, note?: string): Promise<NameProposal[]> {
+  const rows = await fetchUntranslated(entityType)
+  const byId = new Map(rows.map(r => [r.id, r]))
+  const chunks: NameRow[][] = []
+  for (let i = 0; i < rows.length; i += CHUNK_SIZE) chunks.push(rows.slice(i, i + CHUNK_SIZE))
+
+  const template  = await loadPrompt('translate_names.txt')
+  const proposals: NameProposal[] = []
+
+  await runPool(chunks, CONCURRENCY, async chunk => {
+    let prompt = template
+      .replace(/\{label\}/g, ENTITY_TYPES[entityType].label.toLowerCase())
+      .replace('{entries}', JSON.stringify(chunk, null, 1))
+    if (note?.trim()) prompt = `${prompt}\n\nAdditional note: ${note.trim()}`
+
+    await waitForGeminiSlot()
+    const text = await callLlm('entity_names', prompt, { json: true, temperature: 0.2, schema: NAMES_SCHEMA })
+    let parsed: { id: number; name?: string; hebrew_name?: string }[]
+    try { parsed = (JSON.parse(text) as { names: typeof parsed }).names ?? [] } catch {
+      console.warn('[names] unparseable chunk response for', entityType)
+      return
+    }
+
+    for (const p of parsed) {
+      const row = byId.get(p.id)
+      if (!row) continue
+      const proposedName       = (p.name ?? '').trim() || row.name
+      const proposedHebrewName = (p.hebrew_name ?? '').trim() || row.hebrew_name
+      // Reject swaps that put Hebrew in the English field or vice versa
+      if (isHebrew(proposedName) && !isHebrew(row.name)) continue
+      if (proposedHebrewName && !isHebrew(proposedHebrewName)) continue
+      if (proposedName === row.name && proposedHebrewName === row.hebrew_name) continue
+      proposals.push({ id: row.id, name: row.name, hebrewName: row.hebrew_name, proposedName, proposedHebrewName })
+    }
+  })
+
+  return proposals.sort((a, b) => a.id - b.id)
+}
@@ -0,0 +1,107 @@
+import { supabase } from '@/lib/supabase'
+import { getR2Text } from '@/lib/r2'
+import { ENTITY_TYPES, EntityType } from '@/lib/constants'
+import { LlmTask, callLlm } from '@/lib/llm'
+import { fetchLectureLocation, transcriptKey } from '@/lib/transcripts'
+import { DESCRIPTION_SCHEMA, fetchDescribedEntity, renderDescriptionPrompt } from '@/lib/descriptions'
+import { ENTITIES_SCHEMA, TITLE_SYNOPSIS_SCHEMA } from '@/lib/schemas'
+
+// "Test this prompt" — fill a template the way its generator does for one
+// lecture / course / entity and run it once. Nothing is written.
+// Transcripts are cut to one chunk so a preview costs a single call.
+
+export type PreviewTarget = 'lecture' | 'course' | 'entity'
+
+export interface PromptPreviewSpec {
+  target: PreviewTarget
+  task:   LlmTask
+}
+
+export interface PreviewInput {
+  lectureId?:  number
+  courseId?:   number
+  entityType?: EntityType
+  entityId?:   number
+}
+
+const PREVIEW_TRANSCRIPT_CHARS = 15000
+
+/** How a prompt file can be previewed; null for prompts that need a batch (translate_names, entity_links) */
+export function previewSpec(filename: string): PromptPreviewSpec | null {
+  if (filename === 'title_synopsis.txt')       return { target: 'lecture', task: 'lecture_synopsis' }
+  if (filename === 'chunk_summary.txt')        return { target: 'lecture', task: 'chunk_summary' }
+  if (filename === 'course_synopsis.txt')      return { target: 'course',  task: 'course_synopsis' }
+  if (filename.startsWith('enrich_describe'))  return { target: 'entity',  task: 'entity_desc' }
+  if (filename === 'translate_names.txt' || filename === 'entity_links.txt') return null
+  // entities_all.txt and the per-type extraction prompts (films.txt, …)
+  return { target: 'lecture', task: 'entities' }
+}
+
+/** Entity types whose descriptions use this prompt file */
+export function entityTypesForPrompt(filename: string): EntityType[] {
+  return (Object.keys(ENTITY_TYPES) as EntityType[]).filter(et => {
+    const cfg = ENTITY_TYPES[et]
+    return cfg.hasDescription && (cfg.promptFile ?? 'enrich_describe.txt') === filename
+  })
+}
+
+async function lectureTranscript(lectureId: number): Promise<string> {
+  const loc = await fetchLectureLocation(lectureId)
+  if (!loc) throw new Error('Lecture not found or course has no r2_dir')
+  return (await getR2Text(transcriptKey(loc.r2Prefix))).slice(0, PREVIEW_TRANSCRIPT_CHARS)
+}
+
+async function courseInput(courseId: number): Promise<{ title: string; lectures: string }> {
+  const { data: course } = await supabase.from('courses').select('title').eq('id', courseId).single()
+  if (!course) throw new Error('Course not found')
+  const { data: lectures } = await supabase
+    .from('lectures').select('title,synopsis').eq('course_id', courseId).order('order_in_course')
+  const text = (lectures ?? [])
+    .filter(l => l.synopsis)
+    .map((l, i) => `Lecture ${i + 1}: ${l.title}\n${l.synopsis}`)
+    .join('\n\n')
+  return { title: course.title as string, lectures: text }
+}
+
+/**
+ * Render each template for the same input and run them.
+ * Returns one raw response per template, in order.
+ */
+export async function runPromptPreview(
+  filename:  string,
+  templates: string[],
+  input:     PreviewInput,
+): Promise<string[]> {
+  const spec = previewSpec(filename)
+  if (!spec) throw new Error(`${filename} cannot be previewed`)
+
+  let render: (template: string) => string
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let schema: any
+
+  if (spec.target === 'lecture') {
+    if (!input.lectureId) throw new Error('lectureId required')
+    const transcript = await lectureTranscript(input.lectureId)
+    render = t => t
+      .replace('{part}', '1')
+      .replace('{parts}', '1')
+      .replace('{transcript}', transcript)
+    schema = filename === 'title_synopsis.txt' ? TITLE_SYNOPSIS_SCHEMA
+      : filename === 'entities_all.txt' ? ENTITIES_SCHEMA
+      : undefined
+  } else if (spec.target === 'course') {
+    if (!input.courseId) throw new Error('courseId required')
+    const { title, lectures } = await courseInput(input.courseId)
+    render = t => t.replace('{title}', title).replace('{lectures}', lectures)
+    schema = DESCRIPTION_SCHEMA
+  } else {
+    if (!input.entityType || !input.entityId) throw new Error('entityType and entityId required')
+    const entityType = input.entityType
+    const entity     = await fetchDescribedEntity(entityType, input.entityId)
+    if (!entity) throw new Error('Entity not found')
+    render = t => renderDescriptionPrompt(t, entityType, entity)
+    schema = DESCRIPTION_SCHEMA
+  }
+
+  return Promise.all(templates.map(t => callLlm(spec.task, render(t), { schema })))
+}
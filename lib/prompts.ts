@@ -0,0 +1,157 @@
+import fs from 'fs'
+import path from 'path'
+import { supabase } from '@/lib/supabase'
+
+// Prompt templates. The files under prompts/ are the built-in versions;
+// versions saved from the panel are stored in the DB and one of them can be
+// made active per file, which takes effect without a redeploy.
+//
+// Table: prompt_versions
+//   id          bigint generated always as identity primary key
+//   filename    text not null                 -- e.g. 'entities_all.txt'
+//   version     int  not null                 -- 1, 2, … per filename
+//   content     text not null
+//   note        text
+//   created_at  timestamptz not null default now()
+//   unique (filename, version)
+//
+// Table: active_prompts
+//   filename    text primary key
+//   version_id  bigint not null references prompt_versions(id)
+//   updated_at  timestamptz not null default now()
+//   -- no row = the built-in file is active
+
+const PROMPTS_DIR = () => path.join(process.cwd(), 'prompts')
+
+// Active versions are re-read at most this often per server instance
+const CACHE_TTL_MS = 30_000
+
+/** Placeholders the generators substitute, with what they are filled with */
+export const PROMPT_PLACEHOLDERS: Record<string, string> = {
+  transcript:  'Lecture transcript (or one chunk of it)',
+  part:        'Chunk number (chunk_summary)',
+  parts:       'Total chunks (chunk_summary)',
+  display:     'Entity display name — "Hebrew (English)" or the name',
+  label:       'Entity type, singular (e.g. film) / type label for translations',
+  name:        'Entity name or title',
+  hebrew_name: 'Entity Hebrew name (falls back to the name)',
+  title:       'Course title',
+  lectures:    'Course lectures — titles and synopses',
+  entries:     'JSON list of entities to translate',
+  entity:      'Entity to suggest links for',
+  link_types:  'Allowed link types',
+  candidates:  'Candidate entities for links',
+}
+
+/** Placeholder names used in a template, in order of first appearance */
+export function placeholdersIn(template: string): string[] {
+  return [...new Set([...template.matchAll(/\{(\w+)\}/g)].map(m => m[1]))]
+}
+
+export const isPromptFilename = (f: string) => /^[\w-]+\.txt$/.test(f)
+
+/** Built-in prompt files */
+export function listPromptFiles(): string[] {
+  return fs.readdirSync(PROMPTS_DIR()).filter(isPromptFilename).sort()
+}
+
+/** A built-in prompt file — saved versions only exist for these */
+export const isKnownPrompt = (f: string) => isPromptFilename(f) && listPromptFiles().includes(f)
+
+export function readPromptFile(filename: string): string {
+  return fs.readFileSync(path.join(PROMPTS_DIR(), filename), 'utf-8')
+}
+
+export interface ActivePrompt {
+  content:   string
+  /** null when the built-in file is active */
+  versionId: number | null
+  version:   number | null
+}
+
+const cache = new Map<string, { at: number; prompt: ActivePrompt }>()
+
+export function invalidatePromptCache(filename: string): void {
+  cache.delete(filename)
+}
+
+/** The active version of a prompt — a saved version if one is active, else the file */
+export async function getActivePrompt(filename: string): Promise<ActivePrompt> {
+  const hit = cache.get(filename)
+  if (hit && Date.now() - hit.at < CACHE_TTL_MS) return hit.prompt
+
+  let prompt: ActivePrompt | null = null
+  const { data, error } = await supabase
+    .from('active_prompts')
+    .select('version_id, prompt_versions(version, content)')
+    .eq('filename', filename)
+    .maybeSingle()
+  if (error) {
+    console.warn('[prompts] falling back to file for', filename, error.message)
+  } else if (data) {
+    const v = data.prompt_versions as unknown as { version: number; content: string } | null
+    if (v) prompt = { content: v.content, versionId: data.version_id as number, version: v.version }
+  }
+  prompt ??= { content: readPromptFile(filename), versionId: null, version: null }
+
+  cache.set(filename, { at: Date.now(), prompt })
+  return prompt
+}
+
+/** Read the active prompt template */
+export async function loadPrompt(filename: string): Promise<string> {
+  return (await getActivePrompt(filename)).content
+}
+
+export interface PromptVersion {
+  id:        number
+  version:   number
+  content:   string
+  note:      string | null
+  createdAt: string
+}
+
+/** Saved versions of a prompt, newest first */
+export async function listPromptVersions(filename: string): Promise<PromptVersion[]> {
+  const { data, error } = await supabase
+    .from('prompt_versions')
+    .select('id, version, content, note, created_at')
+    .eq('filename', filename)
+    .order('version', { ascending: false })
+  if (error) throw new Error(error.message)
+  return (data ?? []).map(r => ({
+    id: r.id as number, version: r.version as number, content: r.content as string,
+    note: r.note as string | null, createdAt: r.created_at as string,
+  }))
+}
+
+/** Save a new version (max + 1); unique (filename, version) rejects a concurrent duplicate */
+export async function createPromptVersion(filename: string, content: string, note?: string): Promise<PromptVersion> {
+  const { data: last } = await supabase
+    .from('prompt_versions')
+    .select('version')
+    .eq('filename', filename)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  const { data, error } = await supabase
+    .from('prompt_versions')
+    .insert({ filename, version: ((last?.version as number | undefined) ?? 0) + 1, content, note: note?.trim() || null })
+    .select('id, version, content, note, created_at')
+    .single()
+  if (error) throw new Error(error.message)
+  return {
+    id: data.id as number, version: data.version as number, content: data.content as string,
+    note: data.note as string | null, createdAt: data.created_at as string,
+  }
+}
+
+/** Make a saved version active, or go back to the built-in file with null */
+export async function setActivePrompt(filename: string, versionId: number | null): Promise<void> {
+  const { error } = versionId === null
+    ? await supabase.from('active_prompts').delete().eq('filename', filename)
+    : await supabase.from('active_prompts')
+        .upsert({ filename, version_id: versionId, updated_at: new Date().toISOString() }, { onConflict: 'filename' })
+  invalidatePromptCache(filename)
+  if (error) throw new Error(error.message)
+}
@@ -0,0 +1,84 @@
+import { supabase } from '@/lib/supabase'
+
+// Background regeneration jobs (summary PDF, chapters VTT) picked up by the worker
+// through /api/regen-jobs/next.
+//
+// Table: regen_jobs
+//   id              bigint generated always as identity primary key
+//   created_at      timestamptz not null default now()
+//   job_type        text   not null   -- 'summary_pdf' | 'chapters_vtt'
+//   lecture_id      bigint not null
+//   status          text   not null default 'pending'   -- pending | running | done | failed | cancelled
+//   attempts        int    not null default 0
+//   max_attempts    int    not null default 3
+//   next_attempt_at timestamptz        -- retry backoff; null = eligible now
+//   worker_id       text
+//   started_at      timestamptz
+//   heartbeat_at    timestamptz
+//   completed_at    timestamptz
+//   output          text               -- worker log / result summary
+//   error           text
+
+export const REGEN_JOB_TYPES = ['summary_pdf', 'chapters_vtt'] as const
+export type RegenJobType = typeof REGEN_JOB_TYPES[number]
+
+export const REGEN_JOB_STATUSES = ['pending', 'running', 'done', 'failed', 'cancelled'] as const
+export type RegenJobStatus = typeof REGEN_JOB_STATUSES[number]
+
+export interface RegenJob {
+  id:              number
+  created_at:      string
+  job_type:        RegenJobType
+  lecture_id:      number
+  status:          RegenJobStatus
+  attempts:        number
+  max_attempts:    number
+  next_attempt_at: string | null
+  worker_id:       string | null
+  started_at:      string | null
+  heartbeat_at:    string | null
+  completed_at:    string | null
+  output:          string | null
+  error:           string | null
+}
+
+// A running job whose worker has not sent a heartbeat for this long is requeued
+export const REGEN_HEARTBEAT_TIMEOUT_MS = 5 * 60_000
+
+// Attempts a manual retry adds on top of the ones already used (the column
+// default). attempts only ever grows: workers identify a run by
+// (worker_id, attempts), so resetting it would let a stale worker match a new run.
+export const REGEN_RETRY_ATTEMPTS = 3
+
+const BACKOFF_BASE_MS = 30_000
+const BACKOFF_MAX_MS  = 30 * 60_000
+
+/** Delay before retry number `attempts` (1-based): 30s, 60s, 120s … capped at 30 min */
+export function regenBackoffMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS)
+}
+
+/**
+ * Queue a regeneration for a lecture. An existing pending/running job of the
+ * same type is reused instead of adding a duplicate.
+ */
+export async function enqueueRegenJob(
+  jobType:   RegenJobType,
+  lectureId: number,
+): Promise<{ jobId: number; existing: boolean }> {
+  const { data: open } = await supabase
+    .from('regen_jobs')
+    .select('id')
+    .eq('lecture_id', lectureId)
+    .eq('job_type', jobType)
+    .in('status', ['pending', 'running'])
+    .limit(1)
+  if (open?.length) return { jobId: (open[0] as { id: number }).id, existing: true }
+
+  const { data, error } = await supabase
+    .from('regen_jobs')
+    .insert({ job_type: jobType, lecture_id: lectureId })
+    .select('id').single()
+  if (error) throw new Error(error.message)
+  return { jobId: (data as { id: number }).id, existing: false }
+}
@@ -0,0 +1,28 @@
+import { SchemaType } from '@google/generative-ai'
+import { LINKED_ENTITY_TYPES } from '@/lib/constants'
+
+// Response schemas shared by /api/generate and the prompt test preview
+
+const ENTITY_LIST_SCHEMA = {
+  type: SchemaType.OBJECT,
+  properties: {
+    discussed: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+    mentioned: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+  },
+}
+
+/** title_synopsis.txt */
+export const TITLE_SYNOPSIS_SCHEMA = {
+  type: SchemaType.OBJECT,
+  properties: {
+    title:    { type: SchemaType.STRING },
+    synopsis: { type: SchemaType.STRING },
+  },
+  required: ['title', 'synopsis'],
+}
+
+/** entities_all.txt — discussed / mentioned names per linked entity type */
+export const ENTITIES_SCHEMA = {
+  type: SchemaType.OBJECT,
+  properties: Object.fromEntries(LINKED_ENTITY_TYPES.map(et => [et, ENTITY_LIST_SCHEMA])),
+}
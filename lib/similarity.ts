@@ -0,0 +1,60 @@
+import { normalizeHebrew } from '@/lib/hebrew'
+
+// Fuzzy name similarity — shared by duplicate detection and by matching
+// extracted names to existing entities on confirm.
+
+/** Edit distance, two rows at a time */
+export function levenshtein(a: string, b: string): number {
+  if (a.length < b.length) [a, b] = [b, a]
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  let curr = new Array<number>(b.length + 1)
+  for (let i = 1; i <= a.length; i++) {
+    curr[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = a[i - 1] === b[j - 1]
+        ? prev[j - 1]
+        : 1 + Math.min(prev[j], curr[j - 1], prev[j - 1])
+    }
+    [prev, curr] = [curr, prev]
+  }
+  return prev[b.length]
+}
+
+/**
+ * Comparison form of a name: lower case, Latin diacritics dropped, Hebrew
+ * through normalizeHebrew, quotes (and so geresh / gershayim) dropped, other
+ * punctuation as single spaces.
+ */
+export function normalizeName(s: string): string {
+  return normalizeHebrew(s.normalize('NFKD').replace(/[\u0300-\u036f]/g, ''))
+    .toLowerCase()
+    .replace(/['"]/g, '')
+    .replace(/[^0-9a-z\u00DF-\u024F\u0370-\u03FF\u0400-\u04FF\u05D0-\u05EA]+/g, ' ')
+    .trim()
+}
+
+/** Last word of a normalized name */
+export const lastWordOf = (normalized: string): string => normalized.split(/\s+/).at(-1) ?? normalized
+
+/**
+ * 1.0 = same normalized name; substring 0.85; same last word 0.82 (unless
+ * `lastWord` is false); otherwise edit-distance ratio
+ */
+export function nameSimilarity(a: string, b: string, { lastWord = true } = {}): number {
+  const na = normalizeName(a)
+  const nb = normalizeName(b)
+  if (!na || !nb) return 0
+  if (na === nb) return 1.0
+
+  if ((na.includes(nb) || nb.includes(na)) && Math.min(na.length, nb.length) >= 4) {
+    return 0.85
+  }
+
+  const lastA = lastWordOf(na)
+  if (lastWord && lastA.length >= 4 && lastA === lastWordOf(nb)) return 0.82
+
+  const dist = levenshtein(na, nb)
+  return 1 - dist / Math.max(na.length, nb.length)
+}
+
+export const FUZZY_THRESHOLD = 0.80
@@ -4,3 +4,22 @@ const supabaseUrl = process.env.SUPABASE_URL!
 const supabaseKey = process.env.SUPABASE_KEY!
 
 export const supabase = createClient(supabaseUrl, supabaseKey)
+
+/** PostgREST returns at most this many rows per request */
+const PAGE_SIZE = 1000
+
+/**
+ * Every row of a select, read a page at a time. `page` builds the query for
+ * one range; give it a stable order so pages don't overlap.
+ */
+export async function selectAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>,
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(error.message)
+    rows.push(...((data ?? []) as T[]))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
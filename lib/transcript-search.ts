@@ -0,0 +1,329 @@
+import { supabase } from '@/lib/supabase'
+import { getR2Text } from '@/lib/r2'
+import { runPool } from '@/lib/batch'
+import { fetchLectureLocation, transcriptKey } from '@/lib/transcripts'
+import { foldHebrewChar } from '@/lib/hebrew'
+
+// Full-text search over lecture transcripts. R2 holds the source of truth;
+// this table is a searchable copy, refreshed when upload jobs succeed and
+// whenever a transcript is edited in the panel.
+//
+// Table: transcript_index
+//   lecture_id   bigint primary key references lectures(id) on delete cascade
+//   course_id    bigint not null
+//   content      text   not null        -- transcript as stored in R2
+//   search_text  text   not null        -- normalizeForSearch(content); rebuild (POST /api/search/index) when it changes
+//   indexed_at   timestamptz not null default now()
+//
+//   create extension if not exists pg_trgm;
+//   create index transcript_index_search_trgm on transcript_index using gin (search_text gin_trgm_ops);
+//
+// Table: transcript_index_state   (single row, id = 1)
+//   id            int primary key default 1 check (id = 1)
+//   synced_until  timestamptz        -- completed_at of the last succeeded upload job synced
+//   synced_job_id bigint             -- its id: jobs are synced in (completed_at, id) order
+//   retry_ids     bigint[] not null default '{}'   -- lectures whose indexing failed, retried next sync
+//   retry_job_ids bigint[] not null default '{}'   -- upload jobs whose lecture row wasn't found, retried next sync
+
+// Lectures indexed per incremental sync — keeps the calling request short
+const SYNC_BATCH = 5
+
+const CONCURRENCY     = 4
+const SNIPPET_RADIUS  = 80
+const SNIPPETS_PER_HIT = 3
+
+/**
+ * Normalise text for matching: lower-case, Hebrew through foldHebrewChar (no
+ * niqqud, maqaf as a space, final letters folded to their regular form so "שלום" also matches
+ * "שלומות", geresh/gershayim as plain quotes — the same folding duplicate
+ * detection uses). `offsets[i]` is the index in the input of normalised
+ * character i, used to cut snippets from the original text.
+ */
+function normalizeWithOffsets(text: string): { text: string; offsets: number[] } {
+  let out = ''
+  const offsets: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    for (const c of foldHebrewChar(text[i]).toLowerCase()) {
+      out += c
+      offsets.push(i)
+    }
+  }
+  return { text: out, offsets }
+}
+
+export const normalizeForSearch = (text: string) => normalizeWithOffsets(text).text
+
+/** Split a query into terms; "double quoted" parts are kept as one phrase */
+export function parseSearchQuery(q: string): string[] {
+  const terms: string[] = []
+  for (const m of q.matchAll(/"([^"]+)"|(\S+)/g)) {
+    const term = normalizeForSearch((m[1] ?? m[2]).trim())
+    if (term) terms.push(term)
+  }
+  return [...new Set(terms)]
+}
+
+// ---------------------------------------------------------------------------
+// Indexing
+// ---------------------------------------------------------------------------
+
+/** Copy one lecture's transcript from R2 into the index. Returns false if it has none. */
+export async function indexLectureTranscript(lectureId: number): Promise<boolean> {
+  const loc = await fetchLectureLocation(lectureId)
+  if (!loc) return false
+
+  let content: string
+  try {
+    content = await getR2Text(transcriptKey(loc.r2Prefix))
+  } catch {
+    // No transcript in R2 (yet) — drop any stale copy
+    await supabase.from('transcript_index').delete().eq('lecture_id', lectureId)
+    return false
+  }
+
+  const { error } = await supabase
+    .from('transcript_index')
+    .upsert({
+      lecture_id:  lectureId,
+      course_id:   loc.courseId,
+      content,
+      search_text: normalizeForSearch(content),
+      indexed_at:  new Date().toISOString(),
+    }, { onConflict: 'lecture_id' })
+  if (error) throw new Error(error.message)
+  return true
+}
+
+/** Index transcripts for many lectures; returns counts and the lectures that failed */
+export async function indexLectures(
+  lectureIds: number[],
+): Promise<{ indexed: number; missing: number; failed: number; failedIds: number[] }> {
+  const counts    = { indexed: 0, missing: 0, failed: 0 }
+  const failedIds: number[] = []
+  await runPool(lectureIds, CONCURRENCY, async id => {
+    try {
+      if (await indexLectureTranscript(id)) counts.indexed++
+      else counts.missing++
+    } catch (err) {
+      counts.failed++
+      failedIds.push(id)
+      console.error('[transcript-search index]', id, err)
+    }
+  })
+  return { ...counts, failedIds }
+}
+
+interface SyncJob {
+  id:             number
+  course_id:      number
+  lecture_number: number
+  completed_at:   string
+}
+
+/**
+ * Index the lectures of upload jobs that succeeded since the last sync.
+ * The Transcriber daemon marks jobs succeeded directly in the DB, so this
+ * runs as housekeeping from the routes it and the panel call regularly.
+ * Jobs are taken in (completed_at, id) order so jobs finishing at the same
+ * moment aren't skipped between batches. Lectures that fail to index, and
+ * jobs whose lecture row can't be found yet, are kept in the state row and
+ * tried again on the next sync, ahead of new jobs.
+ */
+export async function syncTranscriptIndex(limit = SYNC_BATCH): Promise<number> {
+  const { data: state } = await supabase
+    .from('transcript_index_state')
+    .select('synced_until, synced_job_id, retry_ids, retry_job_ids')
+    .eq('id', 1)
+    .maybeSingle()
+  const syncedUntil = (state?.synced_until as string | null | undefined) ?? null
+  const syncedJobId = Number(state?.synced_job_id ?? 0)
+  const retryIds    = ((state?.retry_ids as number[] | null | undefined) ?? []).map(Number)
+  const retryJobIds = ((state?.retry_job_ids as number[] | null | undefined) ?? []).map(Number)
+
+  let query = supabase
+    .from('upload_jobs')
+    .select('id, course_id, lecture_number, completed_at')
+    .eq('status', 'succeeded')
+    .not('completed_at', 'is', null)
+    .order('completed_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit)
+  if (syncedUntil) {
+    query = query.or(`completed_at.gt."${syncedUntil}",and(completed_at.eq."${syncedUntil}",id.gt.${syncedJobId})`)
+  }
+
+  const { data: jobs, error } = await query
+  if (error) {
+    console.error('[transcript-search sync]', error.message)
+    return 0
+  }
+  const newJobs = (jobs ?? []) as SyncJob[]
+
+  let retryJobs: SyncJob[] = []
+  if (retryJobIds.length) {
+    const { data } = await supabase
+      .from('upload_jobs')
+      .select('id, course_id, lecture_number, completed_at')
+      .in('id', retryJobIds)
+    retryJobs = (data ?? []) as SyncJob[]
+  }
+  if (!newJobs.length && !retryJobs.length && !retryIds.length) return 0
+
+  // upload_jobs identify lectures by (course, number)
+  const rows          = [...retryJobs, ...newJobs.filter(j => !retryJobIds.includes(j.id))]
+  const lectureIds    = [...retryIds]
+  const missingJobIds: number[] = []
+  for (const courseId of new Set(rows.map(r => r.course_id))) {
+    const courseJobs = rows.filter(r => r.course_id === courseId)
+    const { data: lecs } = await supabase
+      .from('lectures')
+      .select('id, order_in_course')
+      .eq('course_id', courseId)
+      .in('order_in_course', courseJobs.map(r => r.lecture_number))
+    const byNumber = new Map(((lecs ?? []) as { id: number; order_in_course: number }[]).map(l => [l.order_in_course, l.id]))
+    for (const job of courseJobs) {
+      const lectureId = byNumber.get(job.lecture_number)
+      if (lectureId != null) lectureIds.push(lectureId)
+      else missingJobIds.push(job.id)
+    }
+  }
+
+  const unique = [...new Set(lectureIds)]
+  const { failedIds } = await indexLectures(unique)
+
+  const last = newJobs[newJobs.length - 1]
+  const { error: stateErr } = await supabase
+    .from('transcript_index_state')
+    .upsert({
+      id:            1,
+      synced_until:  last ? last.completed_at : syncedUntil,
+      synced_job_id: last ? last.id : syncedJobId,
+      retry_ids:     failedIds,
+      retry_job_ids: missingJobIds,
+    }, { onConflict: 'id' })
+  if (stateErr) console.warn('[transcript-search sync]', stateErr.message)
+
+  return unique.length - failedIds.length
+}
+
+// ---------------------------------------------------------------------------
+// Searching
+// ---------------------------------------------------------------------------
+
+export interface SearchSnippet {
+  text:       string
+  /** [start, end) character ranges within text to highlight */
+  highlights: [number, number][]
+}
+
+export interface TranscriptHit {
+  lectureId:     number
+  lectureTitle:  string
+  lectureNumber: number | null
+  courseId:      number
+  courseTitle:   string
+  matchCount:    number
+  snippets:      SearchSnippet[]
+}
+
+const escapeLike = (s: string) => s.replace(/[\\%_]/g, c => `\\${c}`)
+
+/** Sorted ranges with overlaps merged (terms like "של" and "שלום" can overlap) */
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const out: [number, number][] = []
+  for (const [s, e] of ranges) {
+    const last = out[out.length - 1]
+    if (last && s <= last[1]) last[1] = Math.max(last[1], e)
+    else out.push([s, e])
+  }
+  return out
+}
+
+function buildSnippets(content: string, terms: string[]): { matchCount: number; snippets: SearchSnippet[] } {
+  const { text: norm, offsets } = normalizeWithOffsets(content)
+
+  // Every match, as ranges in the original content
+  const matches: [number, number][] = []
+  for (const term of terms) {
+    for (let at = norm.indexOf(term); at !== -1; at = norm.indexOf(term, at + term.length)) {
+      matches.push([offsets[at], offsets[at + term.length - 1] + 1])
+    }
+  }
+  matches.sort((a, b) => a[0] - b[0])
+
+  const snippets: SearchSnippet[] = []
+  let windowEnd = -1
+  for (const [start, end] of matches) {
+    if (start < windowEnd) continue   // already shown in the previous snippet
+    if (snippets.length >= SNIPPETS_PER_HIT) break
+
+    // Widen to the nearest word boundaries
+    let from = Math.max(0, start - SNIPPET_RADIUS)
+    let to   = Math.min(content.length, end + SNIPPET_RADIUS)
+    if (from > 0) {
+      const space = content.indexOf(' ', from)
+      if (space !== -1 && space < start) from = space + 1
+    }
+    if (to < content.length) {
+      const space = content.indexOf(' ', to)
+      to = space === -1 ? content.length : Math.min(space, to + 20, content.length)
+    }
+    windowEnd = to
+
+    // Snippet text keeps the original whitespace (the UI collapses it) so offsets stay valid
+    const lead = from > 0 ? '…' : ''
+    snippets.push({
+      text:       `${lead}${content.slice(from, to)}${to < content.length ? '…' : ''}`,
+      highlights: mergeRanges(matches.filter(([s, e]) => s >= from && e <= to))
+        .map(([s, e]) => [s - from + lead.length, e - from + lead.length]),
+    })
+  }
+
+  return { matchCount: matches.length, snippets }
+}
+
+/** Lectures whose transcript contains every term, by course then lecture */
+export async function searchTranscripts(
+  q: string,
+  { courseId, limit = 20, offset = 0 }: { courseId?: number; limit?: number; offset?: number } = {},
+): Promise<{ hits: TranscriptHit[]; total: number; terms: string[] }> {
+  const terms = parseSearchQuery(q)
+  if (!terms.length) return { hits: [], total: 0, terms }
+
+  let query = supabase
+    .from('transcript_index')
+    .select('lecture_id, course_id, content', { count: 'exact' })
+  for (const term of terms) query = query.ilike('search_text', `%${escapeLike(term)}%`)
+  if (courseId) query = query.eq('course_id', courseId)
+
+  const { data, count, error } = await query
+    .order('course_id', { ascending: true })
+    .order('lecture_id', { ascending: true })
+    .range(offset, offset + limit - 1)
+  if (error) throw new Error(error.message)
+
+  const rows = (data ?? []) as { lecture_id: number; course_id: number; content: string }[]
+  if (!rows.length) return { hits: [], total: count ?? 0, terms }
+
+  const [{ data: lecs }, { data: courses }] = await Promise.all([
+    supabase.from('lectures').select('id, title, order_in_course').in('id', rows.map(r => r.lecture_id)),
+    supabase.from('courses').select('id, title').in('id', [...new Set(rows.map(r => r.course_id))]),
+  ])
+  const lecMap    = new Map(((lecs ?? []) as { id: number; title: string | null; order_in_course: number | null }[]).map(l => [l.id, l]))
+  const courseMap = new Map(((courses ?? []) as { id: number; title: string | null }[]).map(c => [c.id, c]))
+
+  const hits = rows.map(r => {
+    const { matchCount, snippets } = buildSnippets(r.content, terms)
+    return {
+      lectureId:     r.lecture_id,
+      lectureTitle:  lecMap.get(r.lecture_id)?.title ?? '',
+      lectureNumber: lecMap.get(r.lecture_id)?.order_in_course ?? null,
+      courseId:      r.course_id,
+      courseTitle:   courseMap.get(r.course_id)?.title ?? '',
+      matchCount,
+      snippets,
+    }
+  })
+
+  return { hits, total: count ?? hits.length, terms }
+}
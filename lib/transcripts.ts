@@ -0,0 +1,100 @@
+import { supabase } from '@/lib/supabase'
+import { copyInR2, getR2Text, listR2Keys, r2KeyExists, uploadToR2 } from '@/lib/r2'
+
+// Lecture transcripts live in R2 at `${r2_dir}/${order_in_course}/transcript.txt`.
+// Every save through the panel first copies the current file to
+// `${r2_dir}/${order_in_course}/versions/transcript.<timestamp>.txt`
+// (chapters.vtt edits are backed up the same way).
+
+export interface LectureLocation {
+  lectureId:   number
+  courseId:    number
+  title:       string
+  courseTitle: string
+  /** R2 prefix holding the lecture's output files */
+  r2Prefix:    string
+}
+
+/** Resolve a lecture to its R2 output folder (null if the lecture or r2_dir is missing) */
+export async function fetchLectureLocation(lectureId: number): Promise<LectureLocation | null> {
+  const { data: lec } = await supabase
+    .from('lectures')
+    .select('id, title, course_id, order_in_course')
+    .eq('id', lectureId)
+    .maybeSingle()
+  if (!lec) return null
+
+  const { data: course } = await supabase
+    .from('courses')
+    .select('title, r2_dir')
+    .eq('id', lec.course_id)
+    .maybeSingle()
+  if (!course?.r2_dir) return null
+
+  return {
+    lectureId,
+    courseId:    lec.course_id as number,
+    title:       (lec.title as string | null) ?? '',
+    courseTitle: (course.title as string | null) ?? '',
+    r2Prefix:    `${course.r2_dir}/${lec.order_in_course}`,
+  }
+}
+
+export const transcriptKey = (r2Prefix: string) => `${r2Prefix}/transcript.txt`
+const versionsPrefix       = (r2Prefix: string) => `${r2Prefix}/versions/`
+
+export interface TranscriptVersion {
+  /** File name under versions/, e.g. transcript.2026-01-05T10-22-03-120Z.txt */
+  name:    string
+  savedAt: string
+}
+
+/** Backup copies of a transcript, newest first */
+export async function listTranscriptVersions(r2Prefix: string): Promise<TranscriptVersion[]> {
+  const keys = await listR2Keys(versionsPrefix(r2Prefix))
+  return keys
+    .map(k => k.slice(versionsPrefix(r2Prefix).length))
+    .filter(name => /^transcript\..+\.txt$/.test(name))
+    .map(name => {
+      // Timestamp was made filename-safe by replacing ':' and '.' with '-'
+      const stamp = name.slice('transcript.'.length, -'.txt'.length)
+      const iso   = stamp.replace(/^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, '$1:$2:$3.$4Z')
+      return { name, savedAt: iso }
+    })
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+}
+
+export async function getTranscriptVersion(r2Prefix: string, name: string): Promise<string> {
+  if (!/^transcript\.[\w-]+\.txt$/.test(name)) throw new Error('Invalid version name')
+  return getR2Text(`${versionsPrefix(r2Prefix)}${name}`)
+}
+
+/**
+ * Write a text file in a lecture's R2 folder, first copying the previous
+ * file (if any) to versions/<name>.<timestamp>.<ext>.
+ * Returns the backup's version name (null when there was no previous file).
+ */
+export async function saveLectureFile(
+  r2Prefix:    string,
+  fileName:    string,
+  text:        string,
+  contentType: string,
+): Promise<string | null> {
+  const key = `${r2Prefix}/${fileName}`
+  let backup: string | null = null
+
+  if (await r2KeyExists(key)) {
+    const dot   = fileName.lastIndexOf('.')
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+    backup = `${fileName.slice(0, dot)}.${stamp}${fileName.slice(dot)}`
+    await copyInR2(key, `${versionsPrefix(r2Prefix)}${backup}`)
+  }
+
+  await uploadToR2(key, Buffer.from(text, 'utf-8'), contentType)
+  return backup
+}
+
+/** Replace a transcript, keeping the previous text as a version */
+export async function saveTranscript(r2Prefix: string, text: string): Promise<string | null> {
+  return saveLectureFile(r2Prefix, 'transcript.txt', text, 'text/plain; charset=utf-8')
+}
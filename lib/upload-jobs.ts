@@ -0,0 +1,218 @@
+import { supabase } from '@/lib/supabase'
+import { listR2Prefixes } from '@/lib/r2'
+
+// Transcription queue shared by the panel and the Transcriber daemon.
+//
+// Table: upload_jobs
+//   id              bigint generated always as identity primary key
+//   created_at      timestamptz not null default now()
+//   course_id       bigint not null
+//   r2_dir          text   not null
+//   lecture_number  int    not null
+//   status          text   not null default 'pending'   -- pending | running | succeeded | failed
+//   retry_count     int    not null default 0
+//   output          text
+//   started_at      timestamptz
+//   completed_at    timestamptz
+//   worker_id       text               -- daemon holding the job while running
+//   heartbeat_at    timestamptz        -- last heartbeat for the running job
+//   priority        int    not null default 0   -- higher is claimed first
+//   position        int                -- manual order within a priority; null = after ordered jobs
+//
+// Table: transcriber_workers
+//   worker_id          text primary key
+//   first_seen_at      timestamptz not null default now()
+//   last_heartbeat_at  timestamptz not null
+//   current_job_id     bigint             -- null while idle
+//
+// Table: upload_queue_settings   (single row, id = 1)
+//   id              int primary key default 1 check (id = 1)
+//   max_concurrent  int not null default 1   -- running jobs across all workers
+//   max_per_course  int not null default 1   -- running jobs within one course
+//   paused          boolean not null default false   -- /next hands out nothing while set
+//   updated_at      timestamptz not null default now()
+//
+// Function: reorder_upload_jobs — one statement, so positions change together or not at all
+//   create or replace function reorder_upload_jobs(job_ids bigint[]) returns int
+//   language sql as $$
+//     with updated as (
+//       update upload_jobs j set position = o.ord
+//       from unnest(job_ids) with ordinality as o(id, ord)
+//       where j.id = o.id and j.status = 'pending'
+//       returning 1
+//     )
+//     select count(*)::int from updated
+//   $$;
+
+// Function: claim_upload_job — hands one pending job to a worker within the
+// concurrency limits. Claims take a transaction-scoped advisory lock, so each
+// one counts running jobs only after the previous claim has committed.
+//   create or replace function claim_upload_job(worker text) returns setof upload_jobs
+//   language plpgsql as $$
+//   declare
+//     max_all    int;
+//     max_course int;
+//   begin
+//     perform pg_advisory_xact_lock(hashtext('claim_upload_job'));
+//     select coalesce(max(s.max_concurrent), 1), coalesce(max(s.max_per_course), 1)
+//       into max_all, max_course
+//       from upload_queue_settings s where s.id = 1;
+//     if (select count(*) from upload_jobs where status = 'running') >= max_all then
+//       return;
+//     end if;
+//     return query
+//       update upload_jobs j
+//       set status = 'running', started_at = now(), heartbeat_at = now(), worker_id = worker
+//       where j.id = (
+//         select p.id from upload_jobs p
+//         where p.status = 'pending'
+//           and (select count(*) from upload_jobs r
+//                where r.status = 'running' and r.course_id = p.course_id) < max_course
+//         order by p.priority desc, p.position asc nulls last, p.created_at asc, p.id asc
+//         limit 1
+//       )
+//       returning j.*;
+//   end
+//   $$;
+
+// A running job with no heartbeat for this long is considered abandoned.
+// Daemons send a heartbeat about once a minute; transcription steps can block for a while.
+export const UPLOAD_LEASE_MS = 10 * 60_000
+
+// Abandoned jobs are returned to pending until retry_count reaches this
+export const UPLOAD_MAX_RETRIES = 3
+
+// Priority given by the uploader's "prioritise" action
+export const UPLOAD_PRIORITY_HIGH = 10
+
+export interface UploadQueueSettings {
+  max_concurrent: number
+  max_per_course: number
+  paused:         boolean
+}
+
+// Used when the settings row is missing — matches the original single-job behaviour
+export const UPLOAD_QUEUE_DEFAULTS: UploadQueueSettings = { max_concurrent: 1, max_per_course: 1, paused: false }
+
+export async function getUploadQueueSettings(): Promise<UploadQueueSettings> {
+  const { data } = await supabase
+    .from('upload_queue_settings')
+    .select('max_concurrent, max_per_course, paused')
+    .eq('id', 1)
+    .maybeSingle()
+  return { ...UPLOAD_QUEUE_DEFAULTS, ...((data ?? {}) as Partial<UploadQueueSettings>) }
+}
+
+export interface WorkerRow {
+  worker_id:         string
+  first_seen_at:     string
+  last_heartbeat_at: string
+  current_job_id:    number | null
+}
+
+/** Record that a worker is alive (and which job it holds) */
+export async function touchWorker(workerId: string, currentJobId: number | null): Promise<void> {
+  const { error } = await supabase
+    .from('transcriber_workers')
+    .upsert(
+      { worker_id: workerId, last_heartbeat_at: new Date().toISOString(), current_job_id: currentJobId },
+      { onConflict: 'worker_id' },
+    )
+  if (error) console.warn('[upload-jobs touchWorker]', error.message)
+}
+
+/**
+ * Return running jobs whose lease has expired to pending (or fail them once
+ * retry_count is exhausted). Returns the number of jobs recovered.
+ */
+export async function recoverStaleUploadJobs(): Promise<number> {
+  const now         = new Date()
+  const staleBefore = new Date(now.getTime() - UPLOAD_LEASE_MS).toISOString()
+
+  // Jobs claimed before heartbeats existed have no heartbeat_at — fall back to started_at
+  const staleFilter = `heartbeat_at.lt.${staleBefore},and(heartbeat_at.is.null,started_at.lt.${staleBefore})`
+
+  const { data: stale, error } = await supabase
+    .from('upload_jobs')
+    .select('id, retry_count, worker_id, output')
+    .eq('status', 'running')
+    .or(staleFilter)
+
+  if (error) {
+    console.error('[upload-jobs recover]', error.message)
+    return 0
+  }
+
+  const rows = (stale ?? []) as { id: number; retry_count: number | null; worker_id: string | null; output: string | null }[]
+  for (const job of rows) {
+    const retries   = (job.retry_count ?? 0) + 1
+    const exhausted = retries > UPLOAD_MAX_RETRIES
+    const note      = `[Lease expired — worker ${job.worker_id ?? 'unknown'} stopped sending heartbeats]`
+    console.warn('[upload-jobs recover]', job.id, exhausted ? 'failed' : 'requeued')
+
+    await supabase
+      .from('upload_jobs')
+      .update(exhausted
+        ? { status: 'failed', output: [job.output, note].filter(Boolean).join('\n'), completed_at: now.toISOString() }
+        : { status: 'pending', retry_count: retries, output: note, started_at: null, worker_id: null, heartbeat_at: null })
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .or(staleFilter)   // a heartbeat may have arrived since the select
+  }
+  return rows.length
+}
+
+/** Lecture numbers present as numbered sub-folders of a course's R2 dir */
+export async function listR2LectureNumbers(r2Dir: string): Promise<number[]> {
+  const subPrefixes = await listR2Prefixes(`${r2Dir}/`)
+  return subPrefixes
+    .map(p => parseInt(p.replace(`${r2Dir}/`, '').replace(/\/$/, ''), 10))
+    .filter(n => !isNaN(n) && n > 0)
+    .sort((a, b) => a - b)
+}
+
+/**
+ * Queue lectures of one course: new rows for lectures without a job, failed
+ * jobs re-queued, pending / running / succeeded jobs left alone.
+ */
+export async function queueLectures(
+  courseId:       number,
+  r2Dir:          string,
+  lectureNumbers: number[],
+  priority = 0,
+): Promise<{ queued: number; requeued: number; skipped: number }> {
+  if (lectureNumbers.length === 0) return { queued: 0, requeued: 0, skipped: 0 }
+
+  const { data: existing, error } = await supabase
+    .from('upload_jobs')
+    .select('id, lecture_number, status')
+    .eq('course_id', courseId)
+    .in('lecture_number', lectureNumbers)
+  if (error) throw new Error(error.message)
+
+  const byLecture = new Map(
+    ((existing ?? []) as { id: number; lecture_number: number; status: string }[]).map(j => [j.lecture_number, j]),
+  )
+  const failedIds = lectureNumbers.map(n => byLecture.get(n)).filter(j => j?.status === 'failed').map(j => j!.id)
+  const fresh     = lectureNumbers.filter(n => !byLecture.has(n))
+
+  if (failedIds.length) {
+    const { error: updErr } = await supabase
+      .from('upload_jobs')
+      .update({ status: 'pending', retry_count: 0, output: null, completed_at: null, started_at: null, position: null, priority })
+      .in('id', failedIds)
+    if (updErr) throw new Error(updErr.message)
+  }
+  if (fresh.length) {
+    const { error: insErr } = await supabase
+      .from('upload_jobs')
+      .insert(fresh.map(n => ({ course_id: courseId, r2_dir: r2Dir, lecture_number: n, status: 'pending', priority })))
+    if (insErr) throw new Error(insErr.message)
+  }
+
+  return {
+    queued:   fresh.length,
+    requeued: failedIds.length,
+    skipped:  lectureNumbers.length - fresh.length - failedIds.length,
+  }
+}
@@ -0,0 +1,101 @@
+// WebVTT helpers for lecture chapter files (chapters.vtt).
+// Pure functions — used by the API routes and the chapters editor alike.
+
+export interface VttCue {
+  /** Seconds from the start of the lecture */
+  start: number
+  end:   number
+  title: string
+}
+
+export interface VttIssue {
+  /** Index of the offending cue, or null for file-level problems */
+  index:   number | null
+  message: string
+}
+
+// Milliseconds are required by the spec but some generators omit them
+const TIMING = /^((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/
+
+/** "01:02:03.500", "02:03.500" or "1:02:03" → seconds (NaN if malformed) */
+export function parseTimestamp(ts: string): number {
+  const m = ts.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/)
+  if (!m) return NaN
+  const [, h, min, sec, ms] = m
+  if (Number(min) > 59 || Number(sec) > 59) return NaN
+  return Number(h ?? 0) * 3600 + Number(min) * 60 + Number(sec) + Number((ms ?? '0').padEnd(3, '0')) / 1000
+}
+
+/** Seconds → "HH:MM:SS.mmm" */
+export function formatTimestamp(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const h  = Math.floor(totalMs / 3_600_000)
+  const m  = Math.floor(totalMs / 60_000) % 60
+  const s  = Math.floor(totalMs / 1000) % 60
+  const ms = totalMs % 1000
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0')
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms, 3)}`
+}
+
+/**
+ * Parse a WebVTT file into cues. Cue identifiers, NOTE/STYLE/REGION blocks
+ * and cue settings are ignored; multi-line payloads are joined with a space.
+ * Blocks that cannot be read are reported as warnings rather than thrown.
+ */
+export function parseVtt(text: string): { cues: VttCue[]; warnings: string[] } {
+  const cues: VttCue[]    = []
+  const warnings: string[] = []
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/)
+
+  if (!blocks[0]?.startsWith('WEBVTT')) warnings.push('Missing WEBVTT header')
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(l => l.trim() !== '')
+    if (!lines.length || /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) continue
+
+    const timingAt = lines.findIndex(l => l.includes('-->'))
+    const m        = timingAt === -1 ? null : lines[timingAt].match(TIMING)
+    if (!m) {
+      warnings.push(`Skipped unreadable block: ${lines[0].slice(0, 60)}`)
+      continue
+    }
+    cues.push({
+      start: parseTimestamp(m[1]),
+      end:   parseTimestamp(m[2]),
+      title: lines.slice(timingAt + 1).join(' ').trim(),
+    })
+  }
+  return { cues, warnings }
+}
+
+/** Serialise cues as WebVTT with numbered cue identifiers */
+export function formatVtt(cues: VttCue[]): string {
+  const body = cues.map((c, i) =>
+    `${i + 1}\n${formatTimestamp(c.start)} --> ${formatTimestamp(c.end)}\n${c.title.replace(/\s*\n\s*/g, ' ').trim()}`,
+  )
+  return ['WEBVTT', ...body].join('\n\n') + '\n'
+}
+
+/** Problems that would make the chapters file invalid or confusing in a player */
+export function validateCues(cues: VttCue[]): VttIssue[] {
+  const issues: VttIssue[] = []
+  if (!cues.length) issues.push({ index: null, message: 'At least one chapter is required' })
+
+  cues.forEach((c, i) => {
+    if (!Number.isFinite(c.start) || !Number.isFinite(c.end)) {
+      issues.push({ index: i, message: 'Invalid timestamp' })
+      return
+    }
+    if (c.start < 0)          issues.push({ index: i, message: 'Start is negative' })
+    if (c.end <= c.start)     issues.push({ index: i, message: 'End must be after start' })
+    if (!c.title.trim())      issues.push({ index: i, message: 'Title is empty' })
+    if (c.title.includes('-->')) issues.push({ index: i, message: 'Title cannot contain "-->"' })
+
+    const prev = cues[i - 1]
+    if (prev && Number.isFinite(prev.start)) {
+      if (c.start < prev.start)    issues.push({ index: i, message: 'Out of order — starts before the previous chapter' })
+      else if (c.start < prev.end) issues.push({ index: i, message: 'Overlaps the previous chapter' })
+    }
+  })
+  return issues
+}
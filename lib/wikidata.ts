@@ -0,0 +1,278 @@
+import { ENTITY_TYPES, EntityType } from '@/lib/constants'
+
+// Wikidata lookup for entity disambiguation and enrichment. Candidates for an
+// entity come from wbsearchentities (English name, plus the Hebrew name when
+// there is one) and are read with wbgetentities: English / Hebrew labels and
+// descriptions, the claims behind the type's attributes and the P18 image.
+//
+// The HTTP client is injectable: pass `fetch` to createWikidataClient, or
+// point WIKIDATA_API_URL at a local fixture server that answers the same
+// action=wbsearchentities / action=wbgetentities queries.
+
+export type HttpFetch = (url: string, init?: RequestInit) => Promise<Response>
+
+export interface WikidataClientOptions {
+  fetch?:  HttpFetch
+  /** MediaWiki API endpoint — default WIKIDATA_API_URL, then www.wikidata.org */
+  apiUrl?: string
+}
+
+/** Subset of a wbgetentities entity that the lookup reads */
+export interface WikidataEntity {
+  id:            string
+  labels?:       Record<string, { value: string }>
+  descriptions?: Record<string, { value: string }>
+  claims?:       Record<string, WikidataClaim[]>
+}
+
+interface WikidataClaim {
+  rank?:    'preferred' | 'normal' | 'deprecated'
+  mainsnak: { snaktype: string; datavalue?: { type: string; value: unknown } }
+}
+
+export interface WikidataClient {
+  /** QIDs matching a name, best first */
+  search(query: string, language: string, limit?: number): Promise<string[]>
+  /** Entities by QID, in request order (missing ones left out) */
+  getEntities(ids: string[], props: string, languages: string[]): Promise<WikidataEntity[]>
+}
+
+const DEFAULT_API_URL = 'https://www.wikidata.org/w/api.php'
+const USER_AGENT      = 'HenryUngerBot/1.0'
+const BATCH           = 50
+
+export function createWikidataClient(opts: WikidataClientOptions = {}): WikidataClient {
+  const http   = opts.fetch ?? ((url, init) => fetch(url, init))
+  const apiUrl = opts.apiUrl ?? process.env.WIKIDATA_API_URL ?? DEFAULT_API_URL
+
+  async function get(params: Record<string, string>): Promise<Record<string, unknown>> {
+    const qs  = new URLSearchParams({ ...params, format: 'json', origin: '*' })
+    const res = await http(`${apiUrl}?${qs}`, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal:  AbortSignal.timeout(10_000),
+    })
+    if (!res.ok) throw new Error(`Wikidata returned ${res.status}`)
+    const json = await res.json() as Record<string, unknown>
+    if (json.error) throw new Error(`Wikidata: ${(json.error as { info?: string }).info ?? 'request failed'}`)
+    return json
+  }
+
+  return {
+    async search(query, language, limit = 7) {
+      const json = await get({
+        action: 'wbsearchentities', search: query, language, uselang: language,
+        type: 'item', limit: String(limit),
+      })
+      return ((json.search ?? []) as { id: string }[]).map(r => r.id)
+    },
+
+    async getEntities(ids, props, languages) {
+      const out: WikidataEntity[] = []
+      for (let i = 0; i < ids.length; i += BATCH) {
+        const batch = ids.slice(i, i + BATCH)
+        const json  = await get({
+          action: 'wbgetentities', ids: batch.join('|'), props, languages: languages.join('|'),
+        })
+        const entities = (json.entities ?? {}) as Record<string, WikidataEntity & { missing?: string }>
+        for (const id of batch) {
+          if (entities[id] && entities[id].missing === undefined) out.push(entities[id])
+        }
+      }
+      return out
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Claims → attributes
+// ---------------------------------------------------------------------------
+
+/** Wikidata property behind each attribute key */
+const ATTRIBUTE_PROPERTIES: Record<string, string> = {
+  birth_year:       'P569',  // date of birth
+  death_year:       'P570',  // date of death
+  nationality:      'P27',   // country of citizenship
+  release_year:     'P577',  // publication date
+  publication_year: 'P577',
+  year:             'P571',  // inception
+  museum:           'P195',  // collection
+  imdb_id:          'P345',
+  director_id:      'P57',
+  image_source:     'P18',
+}
+
+/** "instance of" classes expected per type — candidates with one of them rank first */
+const EXPECTED_CLASSES: Partial<Record<EntityType, string[]>> = {
+  films:         ['Q11424', 'Q24862', 'Q506240'],   // film, short film, television film
+  books:         ['Q7725634', 'Q571', 'Q47461344'], // literary work, book, written work
+  paintings:     ['Q3305213'],
+  musical_works: ['Q105543609', 'Q2188189'],        // musical composition, musical work
+}
+const HUMAN = 'Q5'
+
+const expectedClasses = (entityType: EntityType): string[] =>
+  ENTITY_TYPES[entityType].kind === 'person' ? [HUMAN] : EXPECTED_CLASSES[entityType] ?? []
+
+/** Main value of a property: the preferred claim, else the first non-deprecated one */
+function claimValue(entity: WikidataEntity, property: string): unknown {
+  const claims = (entity.claims?.[property] ?? [])
+    .filter(c => c.rank !== 'deprecated' && c.mainsnak.snaktype === 'value')
+  const claim = claims.find(c => c.rank === 'preferred') ?? claims[0]
+  return claim?.mainsnak.datavalue?.value
+}
+
+const itemId = (value: unknown): string | null =>
+  (value as { id?: string } | undefined)?.id ?? null
+
+/** Year of a time value ("+1932-04-04T00:00:00Z", "-0469-00-00T00:00:00Z") */
+export function yearOf(value: unknown): number | null {
+  const time  = (value as { time?: string } | undefined)?.time
+  const match = time?.match(/^([+-])(\d+)-/)
+  if (!match) return null
+  const year = parseInt(match[2], 10)
+  return match[1] === '-' ? -year : year
+}
+
+/** Commons URL for a P18 file name */
+export const commonsFileUrl = (file: string) =>
+  `https://commons.wikimedia.org/wiki/Special:FilePath/${encodeURIComponent(file.replace(/ /g, '_'))}?width=800`
+
+const label = (e: WikidataEntity, lang: string) => e.labels?.[lang]?.value ?? null
+const description = (e: WikidataEntity, lang: string) => e.descriptions?.[lang]?.value ?? null
+
+export interface WikidataCandidate {
+  id:                string
+  label:             string | null
+  hebrewLabel:       string | null
+  description:       string | null
+  hebrewDescription: string | null
+  /**
+   * Values for the type's attributes. Years are numbers; entity attributes
+   * (a film's director) hold the referenced QID, resolved by the caller.
+   */
+  attributes:        Record<string, string | number>
+  /** Labels of referenced QIDs in `attributes` (the director's name) */
+  refLabels:         Record<string, string>
+  image:             string | null
+  url:               string
+  /** "instance of" matches the entity type (human for people, film for films…) */
+  typeMatch:         boolean
+}
+
+/** Attribute values and the item ids whose labels they still need */
+function readAttributes(entityType: EntityType, entity: WikidataEntity) {
+  const values: Record<string, string | number> = {}
+  const items:  Record<string, string> = {}
+  for (const def of ENTITY_TYPES[entityType].attributes) {
+    if (def.key === 'wikidata_id') { values[def.key] = entity.id; continue }
+    const property = ATTRIBUTE_PROPERTIES[def.key]
+    if (!property) continue
+    const value = claimValue(entity, property)
+    if (value == null) continue
+
+    switch (def.kind) {
+      case 'year': {
+        const year = yearOf(value)
+        if (year != null) values[def.key] = year
+        break
+      }
+      case 'text':
+      case 'entity': {
+        // Item-valued claims: nationality / museum become the item's label, the
+        // director stays a QID
+        const id = itemId(value)
+        if (id) { values[def.key] = id; items[def.key] = id }
+        break
+      }
+      case 'external_id':
+        if (typeof value === 'string') values[def.key] = value
+        break
+      case 'url':
+        if (typeof value === 'string') values[def.key] = commonsFileUrl(value)
+        break
+    }
+  }
+  return { values, items }
+}
+
+async function toCandidates(
+  client:     WikidataClient,
+  entityType: EntityType,
+  entities:   WikidataEntity[],
+): Promise<WikidataCandidate[]> {
+  const classes = expectedClasses(entityType)
+  const read    = entities.map(e => ({ entity: e, ...readAttributes(entityType, e) }))
+
+  // One more request for the labels of referenced items (countries, museums, directors)
+  const itemIds = [...new Set(read.flatMap(r => Object.values(r.items)))]
+  const labels  = new Map<string, string>()
+  if (itemIds.length) {
+    for (const e of await client.getEntities(itemIds, 'labels', ['en', 'he'])) {
+      const l = label(e, 'en') ?? label(e, 'he')
+      if (l) labels.set(e.id, l)
+    }
+  }
+
+  return read.map(({ entity, values, items }) => {
+    const refLabels: Record<string, string> = {}
+    for (const [key, id] of Object.entries(items)) {
+      const def = ENTITY_TYPES[entityType].attributes.find(a => a.key === key)
+      const l   = labels.get(id)
+      if (def?.kind === 'text') {
+        if (l) values[key] = l
+        else delete values[key]
+      } else if (l) {
+        refLabels[key] = l
+      }
+    }
+    const instanceOf = (entity.claims?.P31 ?? []).map(c => itemId(c.mainsnak.datavalue?.value))
+    const image      = claimValue(entity, 'P18')
+    return {
+      id:                entity.id,
+      label:             label(entity, 'en'),
+      hebrewLabel:       label(entity, 'he'),
+      description:       description(entity, 'en'),
+      hebrewDescription: description(entity, 'he'),
+      attributes:        values,
+      refLabels,
+      image:             typeof image === 'string' ? commonsFileUrl(image) : null,
+      url:               `https://www.wikidata.org/wiki/${entity.id}`,
+      typeMatch:         instanceOf.some(id => id != null && classes.includes(id)),
+    }
+  })
+}
+
+/**
+ * Candidate records for an entity: search by name (English) and Hebrew name,
+ * merged in search order; candidates of the expected class rank first.
+ */
+export async function findWikidataCandidates(
+  client:     WikidataClient,
+  entityType: EntityType,
+  name:       string,
+  hebrewName: string | null,
+  limit = 8,
+): Promise<WikidataCandidate[]> {
+  const [byName, byHebrew] = await Promise.all([
+    client.search(name, 'en', limit),
+    hebrewName ? client.search(hebrewName, 'he', limit) : Promise.resolve([] as string[]),
+  ])
+  const ids = [...new Set([...byName, ...byHebrew])].slice(0, limit)
+  if (!ids.length) return []
+
+  const entities   = await client.getEntities(ids, 'labels|descriptions|claims', ['en', 'he'])
+  const candidates = await toCandidates(client, entityType, entities)
+  // Stable sort keeps search order within each group
+  return candidates.sort((a, b) => Number(b.typeMatch) - Number(a.typeMatch))
+}
+
+/** One candidate by QID (null when Wikidata has no such item) */
+export async function fetchWikidataCandidate(
+  client:     WikidataClient,
+  entityType: EntityType,
+  qid:        string,
+): Promise<WikidataCandidate | null> {
+  const entities = await client.getEntities([qid], 'labels|descriptions|claims', ['en', 'he'])
+  if (!entities.length) return null
+  return (await toCandidates(client, entityType, entities))[0]
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE, SESSION_HEADER } from '@/lib/constants'
 
 // UI token (cookie / URL param login) — used by the browser
 const PANEL_TOKEN  = process.env.PANEL_TOKEN   // undefined → open (no auth)
@@ -7,9 +8,32 @@ const SERVER_TOKEN = process.env.PANEL_API_TOKEN ?? process.env.PANEL_TOKEN
 const COOKIE_NAME  = 'panel-token'
 const COOKIE_TTL   = 60 * 60 * 24              // 24 hours
 
+// Give each browser a random session id so audit_log can tell sessions apart
+// (the auth cookie itself is the shared PANEL_TOKEN and identifies nobody).
+// The cookie only comes back on later requests, so a pass-through response
+// also hands the id to the route in SESSION_HEADER (replacing any sent by the client).
+function withSession(request: NextRequest, res?: NextResponse): NextResponse {
+  const existing = request.cookies.get(SESSION_COOKIE)?.value
+  const session  = existing ?? crypto.randomUUID()
+  if (!res) {
+    const headers = new Headers(request.headers)
+    headers.set(SESSION_HEADER, session)
+    res = NextResponse.next({ request: { headers } })
+  }
+  if (existing) return res
+  res.cookies.set(SESSION_COOKIE, session, {
+    httpOnly: true,
+    sameSite: 'none',
+    secure:   true,
+    maxAge:   COOKIE_TTL,
+    path:     '/',
+  })
+  return res
+}
+
 export function middleware(request: NextRequest) {
   // If no token is configured, the panel is open (trusted network / dev)
-  if (!PANEL_TOKEN) return NextResponse.next()
+  if (!PANEL_TOKEN) return withSession(request)
 
   // 1. Server-to-server calls (Transcriber daemon) use x-panel-token header
   //    Accepted if it matches either PANEL_API_TOKEN or PANEL_TOKEN
@@ -18,7 +42,7 @@ export function middleware(request: NextRequest) {
 
   // 2. Valid cookie already present → pass through
   const cookieVal = request.cookies.get(COOKIE_NAME)?.value
-  if (cookieVal === PANEL_TOKEN) return NextResponse.next()
+  if (cookieVal === PANEL_TOKEN) return withSession(request)
 
   // 3. Token supplied in URL query param (first visit from the website)
   const urlToken = request.nextUrl.searchParams.get('token')
@@ -34,7 +58,7 @@ export function middleware(request: NextRequest) {
       maxAge:   COOKIE_TTL,
       path:     '/',
     })
-    return res
+    return withSession(request, res)
   }
 
   // 3. No valid credentials → 403